@@ -4,6 +4,7 @@ import {
   upsertManualSocialGraph,
   getRecentManualEdits,
 } from '@/lib/social-graph';
+import { isValidWallet } from '@/lib/wallets';
 
 export const runtime = 'nodejs';
 
@@ -61,7 +62,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate wallet format
-    if (!/^0x[a-fA-F0-9]{40}$/.test(wallet)) {
+    if (!isValidWallet(wallet)) {
       return NextResponse.json(
         { error: 'Invalid wallet address format' },
         { status: 400 }
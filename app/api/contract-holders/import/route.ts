@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getUserAccess } from '@/lib/access';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { trackEvent } from '@/lib/analytics';
+import { createHolderImportJob, HOLDER_IMPORT_LIMIT } from '@/lib/holder-import';
+import { validateFormula } from '@/lib/scoring';
+import { inngest } from '@/inngest/client';
+import type { SupportedChain } from '@/lib/contract-holders';
+import { isSupportedChain, unsupportedChainMessage } from '@/lib/chains';
+
+export const runtime = 'nodejs';
+
+// Contract detection makes a few RPC calls
+export const maxDuration = 60;
+
+interface HolderImportRequest {
+  contractAddress: string;
+  chain: SupportedChain;
+  /** Holder count from the preview, used for progress until the API reports one */
+  expectedHolders?: number;
+  saveToHistory?: boolean;
+  historyName?: string;
+  includeENS?: boolean;
+  priorityFormula?: string;
+}
+
+/**
+ * POST /api/contract-holders/import
+ * Import every holder of a large contract in the background, then look them
+ * up. Returns a job ID to poll at /api/jobs/[id].
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const session = sessionToken ? await validateSession(sessionToken) : null;
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured - job queue requires DATABASE_URL' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const body: HolderImportRequest = await request.json();
+    const {
+      contractAddress,
+      chain,
+      expectedHolders,
+      saveToHistory = true,
+      historyName,
+      includeENS = false,
+      priorityFormula,
+    } = body;
+
+    if (!contractAddress || !/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+      return NextResponse.json(
+        { error: 'Please enter a valid Ethereum address' },
+        { status: 400 }
+      );
+    }
+
+    if (!isSupportedChain(chain)) {
+      return NextResponse.json(
+        { error: unsupportedChainMessage() },
+        { status: 400 }
+      );
+    }
+
+    const formulaError = priorityFormula ? validateFormula(priorityFormula) : null;
+    if (formulaError) {
+      return NextResponse.json(
+        { error: `Invalid priority formula: ${formulaError}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await getUserAccess(session.user.email);
+    if (access.tier !== 'unlimited') {
+      return NextResponse.json(
+        {
+          error: 'Contract import is only available for Unlimited tier users',
+          upgradeRequired: true,
+          tier: access.tier,
+        },
+        { status: 403 }
+      );
+    }
+
+    const { jobId, holderImport } = await createHolderImportJob(
+      contractAddress,
+      chain,
+      {
+        includeENS: includeENS && access.canUseENS,
+        saveToHistory,
+        historyName: historyName || undefined,
+        userId: session.user.id,
+        tier: access.tier,
+        canUseNeynar: access.canUseNeynar,
+        canUseENS: access.canUseENS,
+        priorityFormula,
+      },
+      typeof expectedHolders === 'number' ? expectedHolders : undefined
+    );
+
+    trackEvent('contract_import_background', {
+      userId: session.user.email,
+      metadata: {
+        jobId,
+        contractAddress,
+        chain,
+        contractType: holderImport.contractType,
+        expectedHolders,
+      },
+    });
+
+    // Falls back to the cron worker if Inngest is not configured
+    try {
+      await inngest.send({
+        name: 'contracts/holders.requested',
+        data: { jobId },
+      });
+    } catch (error) {
+      console.log('Inngest trigger skipped (cron will process):', error instanceof Error ? error.message : error);
+    }
+
+    return NextResponse.json({
+      jobId,
+      status: 'fetching_holders',
+      tokenName: holderImport.tokenName,
+      expectedHolders: expectedHolders ?? null,
+      holderLimit: HOLDER_IMPORT_LIMIT,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (message === 'UNSUPPORTED_CHAIN') {
+      return NextResponse.json(
+        { error: 'Token holder lists are not available on this network yet. NFT collections are supported.' },
+        { status: 400 }
+      );
+    }
+    if (message === 'NOT_A_CONTRACT' || message === 'INVALID_ADDRESS') {
+      return NextResponse.json(
+        { error: message === 'NOT_A_CONTRACT' ? 'This address is not a smart contract' : 'Please enter a valid Ethereum address' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Holder import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start holder import. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
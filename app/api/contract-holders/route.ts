@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getUserAccess } from '@/lib/access';
-import { getContractHolders, type SupportedChain } from '@/lib/contract-holders';
+import {
+  getContractHolders,
+  listContractTokens,
+  normalizeTokenId,
+  MAX_TOKEN_IDS,
+  type SupportedChain,
+} from '@/lib/contract-holders';
 import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
 import { trackEvent } from '@/lib/analytics';
+import { compareHolderSnapshots, saveHolderSnapshot } from '@/lib/holder-snapshots';
+import { isSupportedChain, unsupportedChainMessage } from '@/lib/chains';
 
 export const runtime = 'nodejs';
 
@@ -13,6 +21,8 @@ export const maxDuration = 60;
 interface ContractHoldersRequest {
   contractAddress: string;
   chain: SupportedChain;
+  /** ERC-1155 only: limit holders to these token IDs */
+  tokenIds?: string[];
 }
 
 export async function POST(request: NextRequest) {
@@ -47,9 +57,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!chain || !['ethereum', 'base'].includes(chain)) {
+    if (!isSupportedChain(chain)) {
       return NextResponse.json(
-        { error: 'Chain must be "ethereum" or "base"' },
+        { error: unsupportedChainMessage() },
         { status: 400 }
       );
     }
@@ -63,6 +73,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let tokenIds: string[] | undefined;
+    if (body.tokenIds !== undefined) {
+      if (!Array.isArray(body.tokenIds) || body.tokenIds.length > MAX_TOKEN_IDS) {
+        return NextResponse.json(
+          { error: `Pick up to ${MAX_TOKEN_IDS} token IDs` },
+          { status: 400 }
+        );
+      }
+      const normalized = body.tokenIds.map((id) => normalizeTokenId(String(id)));
+      if (normalized.some((id) => id === null)) {
+        return NextResponse.json(
+          { error: 'Token IDs must be whole numbers' },
+          { status: 400 }
+        );
+      }
+      tokenIds = [...new Set(normalized as string[])];
+    }
+
     // Check user access - must be unlimited tier
     const access = await getUserAccess(session.user.email);
 
@@ -107,7 +135,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch contract holders
-    const result = await getContractHolders(contractAddress, chain);
+    const result = await getContractHolders(contractAddress, chain, tokenIds);
+
+    // Offer the token picker for whole-contract ERC-1155 imports
+    const tokens = result.contractType === 'ERC-1155' && !result.tokenIds
+      ? await listContractTokens(contractAddress, chain)
+      : undefined;
+
+    // Store this holder list and diff it against the previous import
+    const snapshot = await saveHolderSnapshot(session.user.id, result, contractAddress);
+    const diff = snapshot ? await compareHolderSnapshots(session.user.id, snapshot.id) : null;
 
     // Track successful import
     trackEvent('contract_import_success', {
@@ -121,6 +158,7 @@ export async function POST(request: NextRequest) {
         totalHolders: result.totalHolders,
         holdersReturned: result.wallets.length,
         truncated: result.truncated,
+        tokenIds: result.tokenIds,
       },
     });
 
@@ -131,7 +169,15 @@ export async function POST(request: NextRequest) {
       contractType: result.contractType,
       totalHolders: result.totalHolders,
       truncated: result.truncated,
+      partial: result.partial,
       chain: result.chain,
+      snapshotId: snapshot?.id ?? null,
+      diff,
+      tokens,
+      tokenIds: result.tokenIds,
+      // Per-ID balances feed the holdings column for ERC-1155 token imports
+      balances: result.tokenIds ? result.balances : undefined,
+      tokenBalances: result.tokenBalances,
     });
   } catch (error) {
     console.error('Contract holders error:', error);
@@ -152,6 +198,14 @@ export async function POST(request: NextRequest) {
         message: 'This contract has no token holders',
         status: 404,
       },
+      NOT_ERC1155: {
+        message: 'Token IDs can only be picked for ERC-1155 contracts',
+        status: 400,
+      },
+      UNSUPPORTED_CHAIN: {
+        message: 'Token holder lists are not available on this network yet. NFT collections are supported.',
+        status: 400,
+      },
       RATE_LIMIT: {
         message: 'Too many requests, please try again in a moment',
         status: 429,
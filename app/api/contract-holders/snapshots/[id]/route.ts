@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { compareHolderSnapshots } from '@/lib/holder-snapshots';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/contract-holders/snapshots/[id]?compareTo=<snapshotId>
+ * Diff a snapshot against an earlier one (default: the previous snapshot of
+ * the same contract)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const session = sessionToken ? await validateSession(sessionToken) : null;
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  const { id } = await params;
+  const compareTo = request.nextUrl.searchParams.get('compareTo') ?? undefined;
+
+  const diff = await compareHolderSnapshots(session.user.id, id, compareTo);
+  if (!diff) {
+    return NextResponse.json(
+      { error: 'No earlier snapshot to compare with' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ diff });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { listHolderSnapshots } from '@/lib/holder-snapshots';
+import { isSupportedChain, unsupportedChainMessage } from '@/lib/chains';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/contract-holders/snapshots?contractAddress=0x...&chain=ethereum
+ * The signed-in user's holder snapshots of one contract, newest first
+ */
+export async function GET(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const session = sessionToken ? await validateSession(sessionToken) : null;
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  const contractAddress = request.nextUrl.searchParams.get('contractAddress') ?? '';
+  const chain = request.nextUrl.searchParams.get('chain') ?? '';
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    return NextResponse.json(
+      { error: 'Please enter a valid Ethereum address' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSupportedChain(chain)) {
+    return NextResponse.json(
+      { error: unsupportedChainMessage() },
+      { status: 400 }
+    );
+  }
+
+  const snapshots = await listHolderSnapshots(session.user.id, contractAddress, chain);
+
+  return NextResponse.json({ snapshots });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { CrmError, getCrmAdapter, type CrmConnection, type CrmRecord } from '@/lib/crm';
+import { CRM_DESTINATIONS, MAX_CRM_MAPPINGS, isCrmDestination } from '@/lib/crm/mapping';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+/**
+ * Check the mapped records of one chunk. Returns an error message, or null when valid.
+ */
+function validateRecords(records: unknown, keyField: string, chunkSize: number): string | null {
+  if (!Array.isArray(records) || records.length === 0) return 'No records to export';
+  if (records.length > chunkSize) {
+    return `At most ${chunkSize} records per request`;
+  }
+  let fields: string | null = null;
+  for (const record of records) {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      return 'Records must be objects';
+    }
+    // Adapters check destination fields once per chunk, so every record maps the same ones
+    const recordFields = Object.keys(record).sort().join('\n');
+    if (fields !== null && recordFields !== fields) return 'Every record must have the same fields';
+    fields = recordFields;
+
+    const values = Object.values(record);
+    if (values.length > MAX_CRM_MAPPINGS) return `At most ${MAX_CRM_MAPPINGS} fields per record`;
+    if (values.some((v) => v !== null && typeof v !== 'string' && typeof v !== 'number')) {
+      return 'Record values must be text, numbers or null';
+    }
+    const key = (record as CrmRecord)[keyField];
+    if (key === null || key === undefined || key === '') {
+      return `Every record needs a value for "${keyField}"`;
+    }
+  }
+  return null;
+}
+
+/**
+ * POST /api/crm-export
+ * Upsert mapped lookup results into HubSpot, Airtable or Notion.
+ * Credentials come with each request and are never stored (same as /api/farcaster-dm).
+ *
+ * Body: { destination, connection, keyField, records }
+ */
+export async function POST(request: Request) {
+  try {
+    const { destination, connection, keyField, records } = await request.json();
+
+    if (!isCrmDestination(destination)) {
+      return NextResponse.json(
+        { error: 'Destination must be hubspot, airtable or notion' },
+        { status: 400 }
+      );
+    }
+
+    const adapter = getCrmAdapter(destination);
+    const conn: CrmConnection = {
+      token: typeof connection?.token === 'string' ? connection.token.trim() : '',
+      baseId: typeof connection?.baseId === 'string' ? connection.baseId.trim() : undefined,
+      table: typeof connection?.table === 'string' ? connection.table : undefined,
+      databaseId: typeof connection?.databaseId === 'string' ? connection.databaseId : undefined,
+    };
+    const connectionError = adapter.validateConnection(conn);
+    if (connectionError) {
+      return NextResponse.json({ error: connectionError }, { status: 400 });
+    }
+
+    if (typeof keyField !== 'string' || !keyField.trim()) {
+      return NextResponse.json({ error: 'keyField required' }, { status: 400 });
+    }
+
+    const recordsError = validateRecords(records, keyField, CRM_DESTINATIONS[destination].chunkSize);
+    if (recordsError) {
+      return NextResponse.json({ error: recordsError }, { status: 400 });
+    }
+
+    const result = await adapter.upsertRecords(records as CrmRecord[], keyField, conn);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof CrmError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('CRM export error:', error);
+    return NextResponse.json(
+      { error: 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { getDMCampaignLog } from '@/lib/dm-campaigns';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/dm-campaigns/[id]/log
+ * Every attempted recipient of a campaign, in send order
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const log = await getDMCampaignLog(id, userId);
+    if (!log) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ log });
+  } catch (error) {
+    console.error('DM campaign log fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaign log' },
+      { status: 500 }
+    );
+  }
+}
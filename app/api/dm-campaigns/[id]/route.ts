@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { controlDMCampaign, getDMCampaign } from '@/lib/dm-campaigns';
+import { validateApiKey } from '@/lib/farcaster-dm';
+
+export const runtime = 'nodejs';
+
+const ACTIONS = ['pause', 'resume', 'cancel', 'retry'] as const;
+type CampaignAction = (typeof ACTIONS)[number];
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/dm-campaigns/[id]
+ * Campaign progress with the latest log entries
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const campaign = await getDMCampaign(id, userId);
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    console.error('DM campaign fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaign' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/dm-campaigns/[id]
+ * { action: 'pause' | 'cancel' }, { action: 'resume', apiKey } or
+ * { action: 'retry', apiKey } to re-send a finished campaign's failed
+ * recipients. Pausing drops the stored key, so resuming needs it again.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as CampaignAction;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if ((action === 'resume' || action === 'retry') && (typeof body.apiKey !== 'string' || !validateApiKey(body.apiKey))) {
+      return NextResponse.json(
+        { error: `${action === 'resume' ? 'Resuming' : 'Retrying'} needs your Warpcast API key` },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await controlDMCampaign(id, userId, action, body.apiKey);
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_STATE') {
+      return NextResponse.json(
+        { error: 'The campaign can no longer be changed this way' },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Error && error.message === 'KEY_STORAGE_NOT_CONFIGURED') {
+      return NextResponse.json(
+        { error: 'DM campaigns are not configured on this server' },
+        { status: 503 }
+      );
+    }
+
+    console.error('DM campaign update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update campaign' },
+      { status: 500 }
+    );
+  }
+}
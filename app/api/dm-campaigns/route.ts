@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getUserAccess } from '@/lib/access';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { trackEvent } from '@/lib/analytics';
+import {
+  createDMCampaign,
+  listDMCampaigns,
+  MAX_CAMPAIGN_NAME_LENGTH,
+  MAX_CAMPAIGN_RECIPIENTS,
+} from '@/lib/dm-campaigns';
+import { getDMSuppressionMap } from '@/lib/dm-suppressions';
+import { MAX_DM_VARIANTS, compileTemplate, validateTemplate, variantLabel } from '@/lib/dm-templates';
+import {
+  MAX_DM_MESSAGE_LENGTH,
+  validateApiKey,
+  type DMRecipient,
+  type DMSuppressionReason,
+} from '@/lib/farcaster-dm';
+
+export const runtime = 'nodejs';
+
+// Limits on the file columns a recipient carries for template variables
+const MAX_RECIPIENT_FIELDS = 50;
+const MAX_FIELD_NAME_LENGTH = 100;
+const MAX_FIELD_VALUE_LENGTH = 500;
+
+async function getSessionUser() {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user ?? null;
+}
+
+function toFields(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const fields: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value).slice(0, MAX_RECIPIENT_FIELDS)) {
+    if (typeof v !== 'string' || !key || key.length > MAX_FIELD_NAME_LENGTH) continue;
+    fields[key] = v.slice(0, MAX_FIELD_VALUE_LENGTH);
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/**
+ * Keep the fields templates use, so arbitrary request JSON never ends up in
+ * the table. Returns null for a recipient without a valid FID.
+ */
+function toRecipient(value: unknown): DMRecipient | null {
+  if (!value || typeof value !== 'object') return null;
+  const r = value as Record<string, unknown>;
+  if (typeof r.fid !== 'number' || !Number.isInteger(r.fid) || r.fid <= 0) return null;
+  if (typeof r.username !== 'string' || !r.username) return null;
+
+  return {
+    fid: r.fid,
+    username: r.username,
+    wallet: typeof r.wallet === 'string' ? r.wallet : '',
+    holdings: typeof r.holdings === 'number' && Number.isFinite(r.holdings) ? r.holdings : undefined,
+    ens: typeof r.ens === 'string' ? r.ens : undefined,
+    followers: typeof r.followers === 'number' && Number.isFinite(r.followers) ? r.followers : undefined,
+    fields: toFields(r.fields),
+  };
+}
+
+/**
+ * GET /api/dm-campaigns
+ * The signed-in user's recent DM campaigns, newest first
+ */
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const campaigns = await listDMCampaigns(user.id);
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error('DM campaigns fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/dm-campaigns
+ * Start a campaign ({ name?, apiKey, templates, recipients }). More than one
+ * template makes an A/B test; `template` is accepted for a single message.
+ * Suppressed FIDs are left out (counts per reason in `excluded`). Sending
+ * runs in the background; poll /api/dm-campaigns/[id] for progress.
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const access = await getUserAccess(user.email);
+    if (access.tier !== 'unlimited') {
+      return NextResponse.json(
+        {
+          error: 'Farcaster DMs are only available for Unlimited tier users',
+          upgradeRequired: true,
+          tier: access.tier,
+        },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { apiKey } = body;
+    const templates: unknown = Array.isArray(body.templates) ? body.templates : [body.template];
+
+    if (typeof apiKey !== 'string' || !validateApiKey(apiKey)) {
+      return NextResponse.json(
+        { error: 'Invalid API key format' },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(templates) || templates.length === 0 || templates.length > MAX_DM_VARIANTS) {
+      return NextResponse.json(
+        { error: `Provide 1-${MAX_DM_VARIANTS} message templates` },
+        { status: 400 }
+      );
+    }
+    for (const [i, template] of templates.entries()) {
+      const label = templates.length > 1 ? `Variant ${variantLabel(i)}: ` : '';
+      if (typeof template !== 'string' || !template.trim() || template.length > MAX_DM_MESSAGE_LENGTH) {
+        return NextResponse.json(
+          { error: `${label}Message must be 1-${MAX_DM_MESSAGE_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+    if (!Array.isArray(body.recipients) || body.recipients.length === 0) {
+      return NextResponse.json(
+        { error: 'recipients must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+    if (body.recipients.length > MAX_CAMPAIGN_RECIPIENTS) {
+      return NextResponse.json(
+        { error: `A campaign can have up to ${MAX_CAMPAIGN_RECIPIENTS.toLocaleString()} recipients` },
+        { status: 400 }
+      );
+    }
+
+    // One DM per FID, in the order given, skipping the suppression list
+    const suppressed = await getDMSuppressionMap(user.id);
+    const excluded: Record<DMSuppressionReason, number> = { opt_out: 0, blocklist: 0, recent: 0 };
+    const seen = new Set<number>();
+    const recipients: DMRecipient[] = [];
+    for (const value of body.recipients) {
+      const recipient = toRecipient(value);
+      if (!recipient || seen.has(recipient.fid)) continue;
+      seen.add(recipient.fid);
+      const reason = suppressed[recipient.fid];
+      if (reason) {
+        excluded[reason]++;
+        continue;
+      }
+      recipients.push(recipient);
+    }
+    if (recipients.length === 0) {
+      return NextResponse.json(
+        { error: seen.size > 0 ? 'Every recipient is on your suppression list' : 'No recipients with a Farcaster FID' },
+        { status: 400 }
+      );
+    }
+
+    // Variables must be built-ins or columns the recipients carry, and every
+    // rendered DM must fit, so nothing fails part-way through the campaign
+    const columns = [...new Set(recipients.flatMap((r) => Object.keys(r.fields ?? {})))];
+    for (const [i, template] of templates.entries()) {
+      const label = templates.length > 1 ? `Variant ${variantLabel(i)}: ` : '';
+      const templateError = validateTemplate(template, columns);
+      if (templateError) {
+        return NextResponse.json(
+          { error: `${label}${templateError}` },
+          { status: 400 }
+        );
+      }
+      const render = compileTemplate(template);
+      const tooLong = recipients.find((recipient) => render(recipient).length > MAX_DM_MESSAGE_LENGTH);
+      if (tooLong) {
+        return NextResponse.json(
+          { error: `${label}The message to @${tooLong.username} is over ${MAX_DM_MESSAGE_LENGTH} characters once filled in` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const name =
+      typeof body.name === 'string' && body.name.trim()
+        ? body.name.trim().slice(0, MAX_CAMPAIGN_NAME_LENGTH)
+        : `Farcaster DMs ${new Date().toISOString().slice(0, 10)}`;
+
+    const campaign = await createDMCampaign(user.id, { name, templates, apiKey, recipients });
+
+    trackEvent('dm_campaign_started', {
+      userId: user.email,
+      metadata: { campaignId: campaign.id, recipients: recipients.length, variants: templates.length },
+    });
+
+    return NextResponse.json({ campaign, excluded });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'CAMPAIGN_ACTIVE') {
+      return NextResponse.json(
+        { error: 'You already have a campaign sending or paused. Finish or cancel it first.' },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Error && error.message === 'KEY_STORAGE_NOT_CONFIGURED') {
+      return NextResponse.json(
+        { error: 'DM campaigns are not configured on this server' },
+        { status: 503 }
+      );
+    }
+
+    console.error('DM campaign create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start campaign' },
+      { status: 500 }
+    );
+  }
+}
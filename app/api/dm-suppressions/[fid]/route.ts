@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { removeDMSuppression } from '@/lib/dm-suppressions';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * DELETE /api/dm-suppressions/[fid]
+ * Take a FID off the suppression list
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ fid: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { fid } = await params;
+    const parsed = Number(fid);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid FID' },
+        { status: 400 }
+      );
+    }
+
+    const success = await removeDMSuppression(userId, parsed);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'FID is not on the suppression list' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DM suppression delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update suppression list' },
+      { status: 500 }
+    );
+  }
+}
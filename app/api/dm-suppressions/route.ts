@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import {
+  addDMSuppressions,
+  getDMCooldownDays,
+  getDMSuppressionMap,
+  listDMSuppressions,
+  setDMCooldownDays,
+  MAX_DM_SUPPRESSIONS,
+  MAX_SUPPRESSION_IMPORT,
+} from '@/lib/dm-suppressions';
+import {
+  isStoredSuppressionReason,
+  MAX_DM_COOLDOWN_DAYS,
+  type DMSuppressionInput,
+} from '@/lib/farcaster-dm';
+
+export const runtime = 'nodejs';
+
+// Resolving imported usernames through Neynar can take a while
+export const maxDuration = 60;
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * Keep the known fields of an imported entry. Returns null when it has
+ * neither a FID nor a username.
+ */
+function toInput(value: unknown): DMSuppressionInput | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+
+  const input: DMSuppressionInput = {};
+  if (typeof v.fid === 'number' && Number.isInteger(v.fid) && v.fid > 0) input.fid = v.fid;
+  if (typeof v.username === 'string' && v.username.trim()) input.username = v.username.trim().replace(/^@/, '');
+  if (isStoredSuppressionReason(v.reason)) input.reason = v.reason;
+  if (typeof v.note === 'string' && v.note.trim()) input.note = v.note.trim();
+
+  return input.fid || input.username ? input : null;
+}
+
+/**
+ * GET /api/dm-suppressions
+ * The suppression list, the cooldown setting, and every suppressed FID with
+ * its reason (stored entries plus recent recipients)
+ */
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const [entries, cooldownDays, suppressed] = await Promise.all([
+      listDMSuppressions(userId),
+      getDMCooldownDays(userId),
+      getDMSuppressionMap(userId),
+    ]);
+
+    return NextResponse.json({ entries, cooldownDays, suppressed });
+  } catch (error) {
+    console.error('DM suppressions fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppression list' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/dm-suppressions
+ * Add or import entries ({ entries: [{ fid?, username?, reason?, note? }] }).
+ * Usernames without a FID are resolved through Neynar.
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.entries) || body.entries.length === 0) {
+      return NextResponse.json(
+        { error: 'entries must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+    if (body.entries.length > MAX_SUPPRESSION_IMPORT) {
+      return NextResponse.json(
+        { error: `Import up to ${MAX_SUPPRESSION_IMPORT.toLocaleString()} entries at a time` },
+        { status: 400 }
+      );
+    }
+
+    const inputs = body.entries.map(toInput).filter((e: DMSuppressionInput | null): e is DMSuppressionInput => e !== null);
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        { error: 'Each entry needs a fid or username' },
+        { status: 400 }
+      );
+    }
+
+    const result = await addDMSuppressions(userId, inputs);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'SUPPRESSION_LIMIT') {
+      return NextResponse.json(
+        { error: `The suppression list can hold up to ${MAX_DM_SUPPRESSIONS.toLocaleString()} entries` },
+        { status: 400 }
+      );
+    }
+
+    console.error('DM suppressions import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update suppression list' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/dm-suppressions
+ * Set how many days after a DM the same FID is skipped ({ cooldownDays }, 0 = off)
+ */
+export async function PATCH(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { cooldownDays } = await request.json();
+    if (
+      typeof cooldownDays !== 'number' ||
+      !Number.isInteger(cooldownDays) ||
+      cooldownDays < 0 ||
+      cooldownDays > MAX_DM_COOLDOWN_DAYS
+    ) {
+      return NextResponse.json(
+        { error: `cooldownDays must be a whole number from 0 to ${MAX_DM_COOLDOWN_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    await setDMCooldownDays(userId, cooldownDays);
+    return NextResponse.json({ cooldownDays });
+  } catch (error) {
+    console.error('DM cooldown update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update cooldown' },
+      { status: 500 }
+    );
+  }
+}
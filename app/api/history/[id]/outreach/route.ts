@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { getOutreachStatuses, setOutreachStatus } from '@/lib/outreach-status';
+import { cleanTwitterHandle } from '@/lib/twitter-cleaner';
+import { MAX_OUTREACH_UPDATE, isOutreachStatus } from '@/lib/x-outreach';
+
+export const runtime = 'nodejs';
+
+// Lookup IDs are UUIDs; anything else can't be a lookup (and would fail the cast in Postgres)
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/history/[id]/outreach
+ * X outreach status of the lookup's handles; handles left out are to contact
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const statuses = UUID_PATTERN.test(id) ? await getOutreachStatuses(id, userId) : null;
+    if (!statuses) {
+      return NextResponse.json(
+        { error: 'Lookup not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ statuses });
+  } catch (error) {
+    console.error('Outreach status fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch outreach status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/history/[id]/outreach
+ * Set the status of handles ({ handles, status: to_contact | contacted | replied })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { error: 'Lookup not found' },
+        { status: 404 }
+      );
+    }
+    const body = await request.json();
+
+    if (!isOutreachStatus(body.status)) {
+      return NextResponse.json(
+        { error: 'status must be to_contact, contacted or replied' },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(body.handles) || body.handles.length === 0) {
+      return NextResponse.json(
+        { error: 'handles must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+    if (body.handles.length > MAX_OUTREACH_UPDATE) {
+      return NextResponse.json(
+        { error: `Up to ${MAX_OUTREACH_UPDATE.toLocaleString()} handles per update` },
+        { status: 400 }
+      );
+    }
+
+    const handles = new Set<string>();
+    for (const value of body.handles) {
+      const handle = typeof value === 'string' ? cleanTwitterHandle(value) : null;
+      if (handle) handles.add(handle);
+    }
+    if (handles.size === 0) {
+      return NextResponse.json(
+        { error: 'No valid X handles' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setOutreachStatus(id, userId, [...handles], body.status);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Lookup not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, updated: handles.size });
+  } catch (error) {
+    console.error('Outreach status update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update outreach status' },
+      { status: 500 }
+    );
+  }
+}
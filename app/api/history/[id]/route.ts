@@ -3,6 +3,11 @@ import { cookies } from 'next/headers';
 import { getLookupById, updateLookup, updateLookupName, markLookupViewed, getLookupLastViewedAt } from '@/lib/history';
 import { getEnrichedWalletsSince } from '@/lib/social-graph';
 import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { getUserAccess, incrementWalletsUsed } from '@/lib/access';
+import { createJob } from '@/lib/job-processor';
+import { inngest } from '@/inngest/client';
+import { createLookupRefresh, getLatestRefresh, hasActiveRefresh, selectWalletsToRefresh } from '@/lib/lookup-refresh';
+import { validateFormula } from '@/lib/scoring';
 import type { WalletSocialResult } from '@/lib/types';
 
 /**
@@ -10,7 +15,11 @@ import type { WalletSocialResult } from '@/lib/types';
  * Returns 404 for both "not found" and "not owned" to prevent enumeration attacks
  */
 async function validateSessionAndOwnership(lookupId: string): Promise<
-  | { success: true; lookup: Awaited<ReturnType<typeof getLookupById>> }
+  | {
+      success: true;
+      lookup: Awaited<ReturnType<typeof getLookupById>>;
+      user: { id: string; email: string };
+    }
   | { success: false; response: NextResponse }
 > {
   // Require authenticated session
@@ -52,7 +61,7 @@ async function validateSessionAndOwnership(lookupId: string): Promise<
     };
   }
 
-  return { success: true, lookup };
+  return { success: true, lookup, user: session.user };
 }
 
 export async function GET(
@@ -90,9 +99,12 @@ export async function GET(
     // Update lastViewedAt timestamp (mark as viewed NOW)
     await markLookupViewed(id);
 
+    const lastRefresh = await getLatestRefresh(id);
+
     return NextResponse.json({
       results: lookup.results,
       enrichedWallets, // wallets that were updated since last view
+      lastRefresh,
     });
   } catch (error) {
     console.error('History fetch error:', error);
@@ -164,3 +176,127 @@ export async function PATCH(
     );
   }
 }
+
+/**
+ * POST /api/history/[id]
+ * Refresh a saved lookup in place: re-run its unmatched and stale wallets as a
+ * job, merged back into the lookup when the job completes. Only previously
+ * unmatched wallets count against the wallet quota.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const priorityFormula: string | undefined =
+      typeof body.priorityFormula === 'string' ? body.priorityFormula : undefined;
+
+    const validation = await validateSessionAndOwnership(id);
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const lookup = validation.lookup!;
+    const { user } = validation;
+
+    const formulaError = priorityFormula ? validateFormula(priorityFormula) : null;
+    if (formulaError) {
+      return NextResponse.json(
+        { error: `Invalid priority formula: ${formulaError}` },
+        { status: 400 }
+      );
+    }
+
+    // Two refreshes merging into the same lookup would overwrite each other
+    if (await hasActiveRefresh(id)) {
+      return NextResponse.json(
+        { error: 'A refresh of this lookup is already running' },
+        { status: 409 }
+      );
+    }
+
+    const { wallets, billable } = await selectWalletsToRefresh(lookup.results);
+    if (wallets.length === 0) {
+      return NextResponse.json({
+        jobId: null,
+        walletsChecked: 0,
+        walletsBilled: 0,
+        message: 'Every wallet in this lookup is matched and up to date',
+      });
+    }
+
+    const access = await getUserAccess(user.email);
+    let effectiveLimit = access.walletLimit;
+    if (access.walletsRemaining !== null) {
+      effectiveLimit = Math.min(access.walletLimit, access.walletsRemaining);
+    }
+
+    if (billable > effectiveLimit) {
+      return NextResponse.json(
+        {
+          error: access.walletsRemaining !== null
+            ? `Refreshing needs ${billable.toLocaleString()} wallets but you have ${access.walletsRemaining.toLocaleString()} remaining in your Starter quota`
+            : `${access.tier.charAt(0).toUpperCase() + access.tier.slice(1)} tier limited to ${access.walletLimit.toLocaleString()} wallets`,
+          upgradeRequired: true,
+          tier: access.tier,
+          limit: effectiveLimit,
+          requested: billable,
+        },
+        { status: 403 }
+      );
+    }
+
+    const jobId = await createJob(wallets, {}, {
+      includeENS: access.canUseENS,
+      saveToHistory: false,
+      userId: user.id,
+      tier: access.tier,
+      canUseNeynar: access.canUseNeynar,
+      canUseENS: access.canUseENS,
+      priorityFormula,
+      refreshLookupId: id,
+    });
+    // The unique index on pending refreshes settles a race with a concurrent request
+    if (!(await createLookupRefresh(id, jobId, wallets.length, billable))) {
+      return NextResponse.json(
+        { error: 'A refresh of this lookup is already running' },
+        { status: 409 }
+      );
+    }
+
+    if (access.tier === 'starter' && billable > 0) {
+      await incrementWalletsUsed(user.email, billable);
+    }
+
+    try {
+      await inngest.send({
+        name: 'wallet/lookup.requested',
+        data: { jobId },
+      });
+    } catch (error) {
+      // Inngest not configured or failed - cron worker will pick up the job
+      console.log('Inngest trigger skipped (cron will process):', error instanceof Error ? error.message : error);
+    }
+
+    return NextResponse.json({
+      jobId,
+      walletsChecked: wallets.length,
+      walletsBilled: billable,
+    });
+  } catch (error) {
+    console.error('History refresh error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh lookup' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { serve } from 'inngest/next';
 import { inngest } from '@/inngest/client';
 import { walletLookup } from '@/inngest/functions/wallet-lookup';
+import { watchlistScheduler } from '@/inngest/functions/watchlists';
+import { holderImport } from '@/inngest/functions/holder-import';
+import { webhookDelivery } from '@/inngest/functions/webhook-delivery';
+import { dmCampaign } from '@/inngest/functions/dm-campaign';
 
 // Serve Inngest functions from this API route
 // Inngest will call this endpoint to execute functions
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [walletLookup],
+  functions: [walletLookup, watchlistScheduler, holderImport, webhookDelivery, dmCampaign],
 });
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { getJob } from '@/lib/job-processor';
+import { getJob, type JobOptions } from '@/lib/job-processor';
 import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { orderExtraColumns } from '@/lib/column-mapping';
 import type { WalletSocialResult } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -56,6 +57,12 @@ export async function GET(
         processed: number;
         total: number;
         stage: string | null;
+        // Background contract-holder import (status 'fetching_holders')
+        holders?: {
+          fetched: number;
+          total: number | null;
+          tokenName: string;
+        };
       };
       stats: {
         twitterFound: number;
@@ -63,6 +70,8 @@ export async function GET(
         cacheHits: number;
       };
       results?: WalletSocialResult[];
+      // Uploaded columns carried on each result, label columns first
+      extraColumns: string[];
       error?: string;
       createdAt: Date;
       completedAt?: Date | null;
@@ -79,10 +88,27 @@ export async function GET(
         farcasterFound: job.farcasterFound,
         cacheHits: job.cacheHits,
       },
+      extraColumns: [],
       createdAt: job.createdAt,
       completedAt: job.completedAt,
     };
 
+    const options = job.options as JobOptions;
+    const columns = new Set<string>();
+    for (const data of Object.values((job.originalData || {}) as Record<string, Record<string, string>>)) {
+      for (const key of Object.keys(data)) columns.add(key);
+    }
+    response.extraColumns = orderExtraColumns([...columns], options.labelColumns ?? []);
+
+    const holderImport = options.holderImport;
+    if (holderImport) {
+      response.progress.holders = {
+        fetched: job.wallets.length,
+        total: holderImport.totalHolders,
+        tokenName: holderImport.tokenName,
+      };
+    }
+
     // Include results only when complete
     if (job.status === 'completed' && job.partialResults) {
       response.results = job.partialResults as WalletSocialResult[];
@@ -2,9 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createJob } from '@/lib/job-processor';
 import { inngest } from '@/inngest/client';
-import { getUserAccess, incrementWalletsUsed } from '@/lib/access';
+import { getUserAccess, getUserById, incrementWalletsUsed } from '@/lib/access';
+import { apiError, authenticateApiRequest, type AuthenticatedContext } from '@/lib/api-auth';
+import { trackApiUsage } from '@/lib/api-usage';
 import { trackEvent } from '@/lib/analytics';
 import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { validateFormula } from '@/lib/scoring';
+import { isSupportedChain, unsupportedChainMessage } from '@/lib/chains';
+import type { OnchainEnrichmentOptions } from '@/lib/onchain';
 import {
   checkIpRateLimit,
   getClientIp,
@@ -23,13 +28,52 @@ interface JobRequest {
   email?: string;
   wallet?: string;
   inputSource?: 'file_upload' | 'text_input' | 'contract_import' | 'api';
+  holdingsColumn?: string | null;
+  labelColumns?: string[];
+  priorityFormula?: string;
+  // Onchain balance/activity columns (paid tiers)
+  onchain?: OnchainEnrichmentOptions;
 }
 
 export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
   // Check for authenticated session - authenticated users bypass IP rate limits
   const cookieStore = await cookies();
   const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
-  const session = sessionToken ? await validateSession(sessionToken) : { user: null };
+  let session = sessionToken ? await validateSession(sessionToken) : { user: null };
+
+  // API-key callers act as the key's owner, rate limited and charged like the
+  // v1 API (one credit per wallet); webhook endpoints can be scoped to the key
+  let apiContext: AuthenticatedContext | undefined;
+  if (request.headers.get('Authorization')) {
+    const peek = await request.clone().json().catch(() => null);
+    const walletCount = Array.isArray(peek?.wallets) ? peek.wallets.length : 1;
+
+    const authResult = await authenticateApiRequest(request, Math.max(walletCount, 1));
+    if ('error' in authResult) {
+      return authResult.error;
+    }
+    apiContext = authResult.context;
+
+    const owner = await getUserById(apiContext.key.userId);
+    if (!owner) {
+      return NextResponse.json(
+        { error: 'Invalid API key' },
+        { status: 401 }
+      );
+    }
+    if (walletCount > apiContext.plan.maxBatchSize) {
+      return apiError(
+        `Batch size exceeds plan limit. Maximum: ${apiContext.plan.maxBatchSize} wallets.`,
+        'BATCH_SIZE_EXCEEDED',
+        400,
+        apiContext.rateLimitHeaders
+      );
+    }
+    session = { user: { id: owner.id, email: owner.email, tier: owner.tier } };
+  }
+  const apiKeyId = apiContext?.key.id;
 
   // Apply IP rate limiting only for unauthenticated requests
   if (!session.user) {
@@ -59,10 +103,15 @@ export async function POST(request: NextRequest) {
       historyName,
       includeENS = false,
       userId,
-      email,
       wallet,
       inputSource,
+      holdingsColumn,
+      labelColumns,
+      priorityFormula,
+      onchain,
     } = body;
+    // API-key jobs are billed to the key's owner, not a body email
+    const email = apiKeyId ? session.user?.email : body.email;
 
     if (!wallets || wallets.length === 0) {
       return NextResponse.json(
@@ -71,6 +120,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const formulaError = priorityFormula ? validateFormula(priorityFormula) : null;
+    if (formulaError) {
+      return NextResponse.json(
+        { error: `Invalid priority formula: ${formulaError}` },
+        { status: 400 }
+      );
+    }
+
+    if (onchain && !isSupportedChain(onchain.chain)) {
+      return NextResponse.json(
+        { error: unsupportedChainMessage() },
+        { status: 400 }
+      );
+    }
+
+    if (onchain?.tokenContract && !/^0x[a-fA-F0-9]{40}$/.test(onchain.tokenContract)) {
+      return NextResponse.json(
+        { error: 'Token contract must be a valid Ethereum address' },
+        { status: 400 }
+      );
+    }
+
     // Check if database is configured
     if (!process.env.DATABASE_URL) {
       return NextResponse.json(
@@ -134,6 +205,16 @@ export async function POST(request: NextRequest) {
       canUseNeynar: access.canUseNeynar,
       canUseENS: access.canUseENS,
       inputSource,
+      holdingsColumn,
+      labelColumns: Array.isArray(labelColumns)
+        ? labelColumns.filter((c): c is string => typeof c === 'string')
+        : undefined,
+      priorityFormula,
+      // Free tier doesn't get onchain enrichment
+      onchain: onchain && access.tier !== 'free'
+        ? { chain: onchain.chain, tokenContract: onchain.tokenContract || undefined }
+        : undefined,
+      apiKeyId,
     });
 
     // For starter tier, increment usage counter
@@ -156,6 +237,18 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    if (apiContext) {
+      trackApiUsage({
+        apiKeyId: apiContext.key.id,
+        endpoint: '/api/jobs',
+        method: 'POST',
+        walletCount: wallets.length,
+        responseStatus: 200,
+        latencyMs: Date.now() - startTime,
+        creditsUsed: wallets.length,
+      }).catch(console.error);
+    }
+
     // Trigger Inngest function for immediate processing
     // Falls back to cron worker if Inngest is not configured
     try {
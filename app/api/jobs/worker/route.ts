@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getNextPendingJobs, processJobChunk } from '@/lib/job-processor';
+import { getStalledHolderImportJobs, processHolderImportChunk } from '@/lib/holder-import';
+import { getStalledDMCampaigns, processDMCampaignChunk } from '@/lib/dm-campaigns';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes max per invocation
@@ -31,6 +33,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Advance background holder imports that Inngest isn't driving. Finished
+    // imports become pending jobs and are picked up below.
+    const holderImportIds = await getStalledHolderImportJobs(PARALLEL_JOB_LIMIT);
+    await Promise.all(
+      holderImportIds.map(async (id) => {
+        try {
+          const result = await processHolderImportChunk(id);
+          console.log(`Holder import ${id} chunk complete:`, result);
+        } catch (error) {
+          console.error(`Holder import ${id} failed:`, error);
+        }
+      })
+    );
+
+    // Advance DM campaigns that Inngest isn't driving
+    const campaignIds = await getStalledDMCampaigns(PARALLEL_JOB_LIMIT);
+    await Promise.all(
+      campaignIds.map(async (id) => {
+        try {
+          const result = await processDMCampaignChunk(id);
+          console.log(`DM campaign ${id} chunk complete:`, result);
+        } catch (error) {
+          console.error(`DM campaign ${id} failed:`, error);
+        }
+      })
+    );
+
     // Get multiple pending jobs to process in parallel
     const jobs = await getNextPendingJobs(PARALLEL_JOB_LIMIT);
 
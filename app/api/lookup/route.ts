@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { batchFetchWeb3Bio } from '@/lib/web3bio';
-import { batchFetchNeynar } from '@/lib/neynar';
-import { batchLookupENS } from '@/lib/ens';
+import { runProviderChain } from '@/lib/providers';
 import { getCachedWallets, cacheWalletResults } from '@/lib/cache';
 import { saveLookup } from '@/lib/history';
 import {
@@ -11,9 +9,8 @@ import {
   socialGraphToResult,
 } from '@/lib/social-graph';
 import {
-  findHoldingsColumn,
+  resolveHoldingsColumn,
   parseHoldingsValue,
-  calculatePriorityScore,
 } from '@/lib/csv-parser';
 import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
 import {
@@ -21,6 +18,8 @@ import {
   getClientIp,
   formatRateLimitHeaders,
 } from '@/lib/ip-rate-limiter';
+import { getPriorityScorer } from '@/lib/scoring';
+import { normalizeWallet } from '@/lib/wallets';
 import type { WalletSocialResult } from '@/lib/types';
 
 export const runtime = 'nodejs';
@@ -32,6 +31,8 @@ interface LookupRequest {
   saveToHistory?: boolean;
   historyName?: string;
   includeENS?: boolean;
+  holdingsColumn?: string | null;
+  priorityFormula?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -76,6 +77,8 @@ export async function POST(request: NextRequest) {
           saveToHistory = false,
           historyName,
           includeENS = false,
+          holdingsColumn: mappedHoldingsColumn,
+          priorityFormula,
         } = body;
 
         if (!wallets || wallets.length === 0) {
@@ -85,18 +88,17 @@ export async function POST(request: NextRequest) {
         }
 
         const results = new Map<string, WalletSocialResult>();
-        const neynarApiKey = process.env.NEYNAR_API_KEY;
         const dbConfigured = !!process.env.DATABASE_URL;
 
-        // Detect holdings column from original data
-        const firstWallet = wallets[0]?.toLowerCase();
+        // Holdings column from the mapping step, else detect from original data
+        const firstWallet = wallets[0] && normalizeWallet(wallets[0]);
         const firstData = originalData[firstWallet] || {};
         const dataColumns = Object.keys(firstData);
-        const holdingsColumn = findHoldingsColumn(dataColumns);
+        const holdingsColumn = resolveHoldingsColumn(dataColumns, mappedHoldingsColumn);
 
         // Initialize results with original data and parsed holdings
         for (const wallet of wallets) {
-          const walletLower = wallet.toLowerCase();
+          const walletLower = normalizeWallet(wallet);
           const walletData = originalData[walletLower] || {};
 
           // Parse holdings from the detected column
@@ -144,7 +146,7 @@ export async function POST(request: NextRequest) {
 
             // Filter to uncached wallets only
             uncachedWallets = wallets.filter(
-              (w) => !cached.has(w.toLowerCase())
+              (w) => !cached.has(normalizeWallet(w))
             );
 
             sendEvent('progress', {
@@ -169,156 +171,61 @@ export async function POST(request: NextRequest) {
 
         // Only fetch uncached wallets
         if (uncachedWallets.length > 0) {
-          // ENS lookups (optional, most reliable for Twitter)
-          if (includeENS) {
-            sendEvent('progress', {
-              stage: 'ens',
-              processed: 0,
-              total: uncachedWallets.length,
-              twitterFound: 0,
-              farcasterFound: 0,
-              message: 'Starting ENS onchain lookups...',
+          if (!process.env.NEYNAR_API_KEY) {
+            sendEvent('warning', {
+              message:
+                'Neynar API key not configured - skipping Farcaster lookups',
             });
-
-            try {
-              const ensResults = await batchLookupENS(
-                uncachedWallets,
-                (processed, found) => {
-                  sendEvent('progress', {
-                    stage: 'ens',
-                    processed,
-                    total: uncachedWallets.length,
-                    twitterFound: found,
-                    farcasterFound: 0,
-                    message: `ENS: ${processed}/${uncachedWallets.length} processed`,
-                  });
-                }
-              );
-
-              // Merge ENS results (highest priority for Twitter)
-              for (const [wallet, data] of ensResults) {
-                const existing = results.get(wallet)!;
-                results.set(wallet, {
-                  ...existing,
-                  ens_name: data.ensName || existing.ens_name,
-                  twitter_handle: data.twitter || existing.twitter_handle,
-                  twitter_url: data.twitterUrl || existing.twitter_url,
-                  github: data.github || existing.github,
-                  source: [...existing.source, 'ens'],
-                });
-              }
-            } catch (error) {
-              console.error('ENS lookup error:', error);
-              sendEvent('warning', {
-                message: 'ENS lookup failed - continuing with other sources',
-              });
-            }
           }
 
-          // Web3.bio lookups
-          sendEvent('progress', {
-            stage: 'web3bio',
-            processed: 0,
-            total: uncachedWallets.length,
-            twitterFound: 0,
-            farcasterFound: 0,
-            message: 'Starting Web3.bio lookups...',
-          });
-
-          const web3BioResults = await batchFetchWeb3Bio(
-            uncachedWallets,
-            (processed, found) => {
-              sendEvent('progress', {
-                stage: 'web3bio',
-                processed,
-                total: uncachedWallets.length,
-                twitterFound: found,
-                farcasterFound: 0,
-                message: `Web3.bio: ${processed}/${uncachedWallets.length} processed`,
-              });
+          const countFound = () => {
+            let twitterFound = 0;
+            let farcasterFound = 0;
+            for (const wallet of uncachedWallets) {
+              const result = results.get(normalizeWallet(wallet));
+              if (result?.twitter_handle) twitterFound++;
+              if (result?.farcaster) farcasterFound++;
             }
-          );
+            return { twitterFound, farcasterFound };
+          };
 
-          // Merge Web3.bio results (fills gaps from ENS)
-          for (const [wallet, data] of web3BioResults) {
-            const existing = results.get(wallet)!;
-            results.set(wallet, {
-              ...existing,
-              ens_name: existing.ens_name || data.ens_name,
-              twitter_handle: existing.twitter_handle || data.twitter_handle,
-              twitter_url: existing.twitter_url || data.twitter_url,
-              farcaster: data.farcaster || existing.farcaster,
-              farcaster_url: data.farcaster_url || existing.farcaster_url,
-              lens: data.lens || existing.lens,
-              github: existing.github || data.github,
-              source: existing.source.includes('web3bio')
-                ? existing.source
-                : [...existing.source, 'web3bio'],
-            });
-          }
-
-          // Fetch from Neynar if API key is configured
-          if (neynarApiKey) {
-            sendEvent('progress', {
-              stage: 'neynar',
-              processed: 0,
-              total: uncachedWallets.length,
-              twitterFound: web3BioResults.size,
-              farcasterFound: 0,
-              message: 'Starting Neynar lookups...',
-            });
-
-            try {
-              const neynarResults = await batchFetchNeynar(
-                uncachedWallets,
-                neynarApiKey,
-                (processed, found) => {
-                  sendEvent('progress', {
-                    stage: 'neynar',
-                    processed,
-                    total: uncachedWallets.length,
-                    twitterFound: web3BioResults.size,
-                    farcasterFound: found,
-                    message: `Neynar: ${processed}/${uncachedWallets.length} processed`,
-                  });
-                }
-              );
-
-              // Merge Neynar results
-              for (const [wallet, data] of neynarResults) {
-                const existing = results.get(wallet)!;
-                results.set(wallet, {
-                  ...existing,
-                  twitter_handle:
-                    existing.twitter_handle || data.twitter_handle,
-                  twitter_url: existing.twitter_url || data.twitter_url,
-                  farcaster: data.farcaster || existing.farcaster,
-                  farcaster_url: data.farcaster_url || existing.farcaster_url,
-                  fc_followers: data.fc_followers,
-                  fc_fid: data.fc_fid,
-                  source: existing.source.includes('neynar')
-                    ? existing.source
-                    : [...existing.source, 'neynar'],
+          // Shared identity-provider chain (ENS → Neynar → Web3.bio)
+          await runProviderChain(
+            uncachedWallets,
+            results,
+            { includeENS },
+            {
+              onProviderStart: (provider, walletCount) => {
+                sendEvent('progress', {
+                  stage: provider.id,
+                  processed: 0,
+                  total: walletCount,
+                  ...countFound(),
+                  message: `Starting ${provider.label} lookups...`,
                 });
-              }
-            } catch (error) {
-              console.error('Neynar fetch error:', error);
-              sendEvent('warning', {
-                message: 'Neynar API error - continuing with other results',
-              });
+              },
+              onProgress: (provider, processed, total) => {
+                sendEvent('progress', {
+                  stage: provider.id,
+                  processed,
+                  total,
+                  ...countFound(),
+                  message: `${provider.label}: ${processed}/${total} processed`,
+                });
+              },
+              onProviderError: (provider) => {
+                sendEvent('warning', {
+                  message: `${provider.label} lookup failed - continuing with other sources`,
+                });
+              },
             }
-          } else {
-            sendEvent('warning', {
-              message:
-                'Neynar API key not configured - skipping Farcaster lookups',
-            });
-          }
+          );
 
           // Cache newly fetched results
           if (dbConfigured) {
             try {
               const newResults = uncachedWallets
-                .map((w) => results.get(w.toLowerCase())!)
+                .map((w) => results.get(normalizeWallet(w))!)
                 .filter(
                   (r) => r.source.length > 0 && !r.source.includes('cache')
                 );
@@ -351,11 +258,18 @@ export async function POST(request: NextRequest) {
                   // Only fill gaps - don't overwrite fresh API data
                   if (!result.ens_name && storedData.ens_name) {
                     result.ens_name = storedData.ens_name;
+                    result.ens_chain = storedData.ens_chain;
+                    if (storedData.provenance?.ens) {
+                      result.provenance = { ...result.provenance, ens: storedData.provenance.ens };
+                    }
                     wasEnriched = true;
                   }
                   if (!result.twitter_handle && storedData.twitter_handle) {
                     result.twitter_handle = storedData.twitter_handle;
                     result.twitter_url = storedData.twitter_url;
+                    if (storedData.provenance?.twitter) {
+                      result.provenance = { ...result.provenance, twitter: storedData.provenance.twitter };
+                    }
                     wasEnriched = true;
                   }
                   if (!result.farcaster && storedData.farcaster) {
@@ -363,14 +277,23 @@ export async function POST(request: NextRequest) {
                     result.farcaster_url = storedData.farcaster_url;
                     result.fc_followers = storedData.fc_followers;
                     result.fc_fid = storedData.fc_fid;
+                    if (storedData.provenance?.farcaster) {
+                      result.provenance = { ...result.provenance, farcaster: storedData.provenance.farcaster };
+                    }
                     wasEnriched = true;
                   }
                   if (!result.lens && storedData.lens) {
                     result.lens = storedData.lens;
+                    if (storedData.provenance?.lens) {
+                      result.provenance = { ...result.provenance, lens: storedData.provenance.lens };
+                    }
                     wasEnriched = true;
                   }
                   if (!result.github && storedData.github) {
                     result.github = storedData.github;
+                    if (storedData.provenance?.github) {
+                      result.provenance = { ...result.provenance, github: storedData.provenance.github };
+                    }
                     wasEnriched = true;
                   }
 
@@ -395,11 +318,9 @@ export async function POST(request: NextRequest) {
         }
 
         // Calculate priority scores for all results
+        const scorePriority = getPriorityScorer(priorityFormula);
         for (const [wallet, result] of results) {
-          result.priority_score = calculatePriorityScore(
-            result.holdings,
-            result.fc_followers
-          );
+          result.priority_score = scorePriority(result);
           results.set(wallet, result);
         }
 
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { resolveIdentifiers } from '@/lib/forward-resolve';
+import {
+  parseIdentifier,
+  MAX_RESOLVE_IDENTIFIERS,
+  type LookupIdentifier,
+  type ResolvedIdentifier,
+} from '@/lib/identifiers';
+import {
+  checkIpRateLimit,
+  getClientIp,
+  formatRateLimitHeaders,
+} from '@/lib/ip-rate-limiter';
+
+export const runtime = 'nodejs';
+
+// ENS forward resolution is one RPC round-trip per name
+export const maxDuration = 60;
+
+interface ResolveRequest {
+  inputs: string[];
+}
+
+/**
+ * Resolve ENS names, Basenames and social handles to wallet addresses.
+ * Called by the upload/paste flow before a lookup starts.
+ */
+export async function POST(request: NextRequest) {
+  // Authenticated users bypass IP rate limits (same as /api/jobs)
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const session = sessionToken ? await validateSession(sessionToken) : { user: null };
+
+  if (!session.user) {
+    const clientIp = getClientIp(request);
+    const rateLimitResult = await checkIpRateLimit(clientIp, '/api/resolve');
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded. Sign in for unlimited access.',
+          retryAfter: rateLimitResult.retryAfter,
+        },
+        {
+          status: 429,
+          headers: formatRateLimitHeaders(rateLimitResult),
+        }
+      );
+    }
+  }
+
+  try {
+    const body: ResolveRequest = await request.json();
+    const { inputs } = body;
+
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      return NextResponse.json(
+        { error: 'No inputs provided' },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_RESOLVE_IDENTIFIERS) {
+      return NextResponse.json(
+        {
+          error: `Too many names to resolve. Maximum is ${MAX_RESOLVE_IDENTIFIERS.toLocaleString()} per request.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const identifiers: LookupIdentifier[] = [];
+    const invalid: ResolvedIdentifier[] = [];
+
+    for (const input of inputs) {
+      const identifier = parseIdentifier(String(input));
+      if (identifier) {
+        identifiers.push(identifier);
+      } else {
+        invalid.push({
+          input: String(input),
+          type: 'handle',
+          value: String(input),
+          status: 'invalid',
+          wallets: [],
+          reason: 'Not an address, ENS name or handle',
+        });
+      }
+    }
+
+    const resolved = await resolveIdentifiers(identifiers);
+    const results = [...resolved, ...invalid];
+
+    return NextResponse.json({
+      results,
+      resolved: results.filter((r) => r.status === 'resolved').length,
+      skipped: results.filter((r) => r.status !== 'resolved').length,
+    });
+  } catch (error) {
+    console.error('Resolve error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve inputs' },
+      { status: 500 }
+    );
+  }
+}
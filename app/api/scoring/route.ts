@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { eq } from 'drizzle-orm';
+import { getDb } from '@/db';
+import { users } from '@/db/schema';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { DEFAULT_PRIORITY_FORMULA, validateFormula } from '@/lib/scoring';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/scoring
+ * The signed-in user's priority-score formula (null = default)
+ */
+export async function GET() {
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const [user] = await db
+      .select({ priorityFormula: users.priorityFormula })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    return NextResponse.json({
+      formula: user?.priorityFormula ?? null,
+      defaultFormula: DEFAULT_PRIORITY_FORMULA,
+    });
+  } catch (error) {
+    console.error('Scoring formula fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring formula' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/scoring
+ * Save a priority-score formula. An empty formula resets to the default.
+ */
+export async function PUT(request: NextRequest) {
+  const db = getDb();
+  if (!db) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const formula = typeof body.formula === 'string' ? body.formula.trim() : '';
+
+    if (formula) {
+      const error = validateFormula(formula);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+    }
+
+    await db
+      .update(users)
+      .set({ priorityFormula: formula || null })
+      .where(eq(users.id, userId));
+
+    return NextResponse.json({ formula: formula || null });
+  } catch (error) {
+    console.error('Scoring formula save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save scoring formula' },
+      { status: 500 }
+    );
+  }
+}
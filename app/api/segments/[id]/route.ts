@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { deleteSegment, updateSegment, MAX_SEGMENT_NAME_LENGTH } from '@/lib/segments';
+import { validateSegment, type SegmentDefinition } from '@/lib/segment-filter';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * PATCH /api/segments/[id]
+ * Rename a segment or replace its definition
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const changes: { name?: string; definition?: SegmentDefinition } = {};
+    if (typeof body.name === 'string' && body.name.trim()) {
+      if (body.name.trim().length > MAX_SEGMENT_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `Segment name must be 1-${MAX_SEGMENT_NAME_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      changes.name = body.name.trim();
+    }
+    if (body.definition !== undefined) {
+      const definitionError = validateSegment(body.definition);
+      if (definitionError) {
+        return NextResponse.json({ error: definitionError }, { status: 400 });
+      }
+      changes.definition = body.definition;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const success = await updateSegment(id, userId, changes);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Segment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Segment update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update segment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const success = await deleteSegment(id, userId);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Segment not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Segment delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete segment' },
+      { status: 500 }
+    );
+  }
+}
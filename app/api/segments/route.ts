@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import {
+  createSegment,
+  listSegments,
+  MAX_SAVED_SEGMENTS,
+  MAX_SEGMENT_NAME_LENGTH,
+} from '@/lib/segments';
+import { validateSegment, type SegmentDefinition } from '@/lib/segment-filter';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/segments
+ * The signed-in user's saved outreach segments
+ */
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const segments = await listSegments(userId);
+    return NextResponse.json({ segments });
+  } catch (error) {
+    console.error('Segments fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch segments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/segments
+ * Save a segment ({ name, definition })
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > MAX_SEGMENT_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Segment name must be 1-${MAX_SEGMENT_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const definitionError = validateSegment(body.definition);
+    if (definitionError) {
+      return NextResponse.json({ error: definitionError }, { status: 400 });
+    }
+
+    const segment = await createSegment(userId, name, body.definition as SegmentDefinition);
+    return NextResponse.json({ segment });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'SEGMENT_LIMIT') {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEGMENTS} segments. Delete one first.` },
+        { status: 400 }
+      );
+    }
+
+    console.error('Segment create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save segment' },
+      { status: 500 }
+    );
+  }
+}
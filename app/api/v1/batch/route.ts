@@ -10,6 +10,7 @@ import {
   normalizeWalletAddress,
 } from '@/lib/api-auth';
 import { trackApiUsage } from '@/lib/api-usage';
+import { toApiProvenance } from '@/lib/provenance';
 
 export const runtime = 'nodejs';
 
@@ -115,7 +116,9 @@ export async function POST(request: NextRequest) {
   const results = await db
     .select({
       wallet: socialGraph.wallet,
+      namespace: socialGraph.namespace,
       ensName: socialGraph.ensName,
+      ensChain: socialGraph.ensChain,
       twitterHandle: socialGraph.twitterHandle,
       twitterUrl: socialGraph.twitterUrl,
       farcaster: socialGraph.farcaster,
@@ -125,6 +128,7 @@ export async function POST(request: NextRequest) {
       lens: socialGraph.lens,
       github: socialGraph.github,
       sources: socialGraph.sources,
+      provenance: socialGraph.provenance,
       lastUpdatedAt: socialGraph.lastUpdatedAt,
     })
     .from(socialGraph)
@@ -151,9 +155,13 @@ export async function POST(request: NextRequest) {
 
     const item: Record<string, unknown> = {
       wallet: result.wallet,
+      namespace: result.namespace,
     };
 
-    if (result.ensName) item.ens_name = result.ensName;
+    if (result.ensName) {
+      item.ens_name = result.ensName;
+      item.ens_chain = result.ensChain ?? 'ethereum';
+    }
     if (result.twitterHandle) {
       item.twitter = {
         handle: result.twitterHandle,
@@ -171,6 +179,8 @@ export async function POST(request: NextRequest) {
     if (result.lens) item.lens = result.lens;
     if (result.github) item.github = result.github;
     if (result.sources) item.sources = result.sources;
+    const provenance = toApiProvenance(result.provenance);
+    if (provenance) item.provenance = provenance;
 
     data.push(item);
   }
@@ -82,7 +82,9 @@ export async function GET(
   const results = await db
     .select({
       wallet: socialGraph.wallet,
+      namespace: socialGraph.namespace,
       ensName: socialGraph.ensName,
+      ensChain: socialGraph.ensChain,
       twitterHandle: socialGraph.twitterHandle,
       twitterUrl: socialGraph.twitterUrl,
       farcaster: socialGraph.farcaster,
@@ -134,9 +136,13 @@ export async function GET(
   const data = results.map((result) => {
     const item: Record<string, unknown> = {
       wallet: result.wallet,
+      namespace: result.namespace,
     };
 
-    if (result.ensName) item.ens_name = result.ensName;
+    if (result.ensName) {
+      item.ens_name = result.ensName;
+      item.ens_chain = result.ensChain ?? 'ethereum';
+    }
     if (result.twitterHandle) {
       item.twitter = {
         handle: result.twitterHandle,
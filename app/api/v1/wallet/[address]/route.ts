@@ -10,6 +10,8 @@ import {
   normalizeWalletAddress,
 } from '@/lib/api-auth';
 import { trackApiUsage } from '@/lib/api-usage';
+import { toApiProvenance } from '@/lib/provenance';
+import { getVerifiedAddressesForFid } from '@/lib/farcaster-addresses';
 
 export const runtime = 'nodejs';
 
@@ -42,7 +44,7 @@ export async function GET(
   // Validate wallet address
   if (!isValidWalletAddress(address)) {
     return apiError(
-      'Invalid wallet address format. Expected 0x followed by 40 hex characters.',
+      'Invalid wallet address format. Expected a 0x EVM address or a base58 Solana address.',
       'INVALID_ADDRESS',
       400,
       { ...context.rateLimitHeaders, ...corsHeaders }
@@ -65,7 +67,9 @@ export async function GET(
   const [result] = await db
     .select({
       wallet: socialGraph.wallet,
+      namespace: socialGraph.namespace,
       ensName: socialGraph.ensName,
+      ensChain: socialGraph.ensChain,
       twitterHandle: socialGraph.twitterHandle,
       twitterUrl: socialGraph.twitterUrl,
       farcaster: socialGraph.farcaster,
@@ -75,6 +79,7 @@ export async function GET(
       lens: socialGraph.lens,
       github: socialGraph.github,
       sources: socialGraph.sources,
+      provenance: socialGraph.provenance,
       lastUpdatedAt: socialGraph.lastUpdatedAt,
       // Quality metadata
       twitterVerified: socialGraph.twitterVerified,
@@ -115,9 +120,13 @@ export async function GET(
   // Build response, omitting null/undefined values
   const data: Record<string, unknown> = {
     wallet: result.wallet,
+    namespace: result.namespace,
   };
 
-  if (result.ensName) data.ens_name = result.ensName;
+  if (result.ensName) {
+    data.ens_name = result.ensName;
+    data.ens_chain = result.ensChain ?? 'ethereum';
+  }
   if (result.twitterHandle) {
     data.twitter = {
       handle: result.twitterHandle,
@@ -137,6 +146,17 @@ export async function GET(
   if (result.lens) data.lens = result.lens;
   if (result.github) data.github = result.github;
   if (result.sources) data.sources = result.sources;
+  const provenance = toApiProvenance(result.provenance);
+  if (provenance) data.provenance = provenance;
+
+  // Other wallets of this person (verified on the same Farcaster account)
+  if (result.fcFid) {
+    const verified = await getVerifiedAddressesForFid(result.fcFid);
+    const otherWallets = verified
+      .filter((v) => v.address !== result.wallet)
+      .map((v) => ({ address: v.address, protocol: v.protocol }));
+    if (otherWallets.length > 0) data.other_wallets = otherWallets;
+  }
 
   // Add quality metadata
   data.quality = {
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import {
+  deleteWatchlist,
+  updateWatchlist,
+  WATCHLIST_FREQUENCIES,
+  type WatchlistFrequency,
+} from '@/lib/watchlists';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * PATCH /api/watchlists/[id]
+ * Rename, pause/resume, change frequency or toggle email alerts
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const changes: {
+      name?: string;
+      frequency?: WatchlistFrequency;
+      emailAlerts?: boolean;
+      isActive?: boolean;
+    } = {};
+    if (typeof body.name === 'string' && body.name.trim()) changes.name = body.name.trim();
+    if (WATCHLIST_FREQUENCIES.includes(body.frequency)) changes.frequency = body.frequency;
+    if (typeof body.emailAlerts === 'boolean') changes.emailAlerts = body.emailAlerts;
+    if (typeof body.isActive === 'boolean') changes.isActive = body.isActive;
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const success = await updateWatchlist(id, userId, changes);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Watchlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Watchlist update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const success = await deleteWatchlist(id, userId);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Watchlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Watchlist delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { getUnreadAlerts, markAlertsRead } from '@/lib/watchlists';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/watchlists/alerts
+ * Unread watchlist runs with new matches (in-app alerts)
+ */
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json({ alerts: [] });
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const alerts = await getUnreadAlerts(userId);
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error('Watchlist alerts fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/watchlists/alerts
+ * Mark alerts as read: { runIds: string[] }
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const runIds: string[] = Array.isArray(body.runIds)
+      ? body.runIds.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+
+    await markAlertsRead(userId, runIds);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Watchlist alerts update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alerts' },
+      { status: 500 }
+    );
+  }
+}
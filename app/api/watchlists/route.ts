@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { getUserAccess } from '@/lib/access';
+import {
+  createWatchlist,
+  listWatchlists,
+  WATCHLIST_FREQUENCIES,
+  type CreateWatchlistInput,
+  type WatchlistFrequency,
+} from '@/lib/watchlists';
+import { isSupportedChain, unsupportedChainMessage } from '@/lib/chains';
+
+export const runtime = 'nodejs';
+
+async function getSessionUser() {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user;
+}
+
+/**
+ * GET /api/watchlists
+ * The signed-in user's watchlists
+ */
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const watchlists = await listWatchlists(user.id);
+    return NextResponse.json({ watchlists });
+  } catch (error) {
+    console.error('Watchlists fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlists' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/watchlists
+ * Watch a saved lookup ({ lookupId }) or a contract ({ contractAddress, chain })
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const frequency: WatchlistFrequency = WATCHLIST_FREQUENCIES.includes(body.frequency)
+      ? body.frequency
+      : 'weekly';
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : undefined;
+
+    const access = await getUserAccess(user.email);
+    if (access.tier !== 'pro' && access.tier !== 'unlimited') {
+      return NextResponse.json(
+        {
+          error: 'Watchlists are available on Pro and Unlimited plans',
+          upgradeRequired: true,
+          tier: access.tier,
+        },
+        { status: 403 }
+      );
+    }
+
+    let input: CreateWatchlistInput;
+    if (typeof body.lookupId === 'string') {
+      input = { sourceType: 'lookup', lookupId: body.lookupId, name, frequency };
+    } else if (typeof body.contractAddress === 'string') {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(body.contractAddress)) {
+        return NextResponse.json(
+          { error: 'Please enter a valid Ethereum address' },
+          { status: 400 }
+        );
+      }
+      if (!isSupportedChain(body.chain)) {
+        return NextResponse.json(
+          { error: unsupportedChainMessage() },
+          { status: 400 }
+        );
+      }
+      // Same gate as contract import
+      if (access.tier !== 'unlimited') {
+        return NextResponse.json(
+          {
+            error: 'Contract watchlists are only available for Unlimited tier users',
+            upgradeRequired: true,
+            tier: access.tier,
+          },
+          { status: 403 }
+        );
+      }
+      input = {
+        sourceType: 'contract',
+        contractAddress: body.contractAddress,
+        chain: body.chain,
+        name,
+        frequency,
+      };
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid request - must include lookupId or contractAddress' },
+        { status: 400 }
+      );
+    }
+
+    const watchlist = await createWatchlist(user.id, input);
+    if (!watchlist) {
+      // Lookup missing or not owned - same 404 as /api/history/[id]
+      return NextResponse.json(
+        { error: 'Lookup not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      watchlist: {
+        id: watchlist.id,
+        name: watchlist.name,
+        frequency: watchlist.frequency,
+        nextRunAt: watchlist.nextRunAt,
+      },
+    });
+  } catch (error) {
+    console.error('Watchlist create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create watchlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ * Delivery log of an endpoint, newest first (last 50)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const deliveries = await listWebhookDeliveries(id, userId);
+    if (!deliveries) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Webhook deliveries fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import {
+  deleteWebhookEndpoint,
+  updateWebhookEndpoint,
+  validateWebhookEvents,
+  validateWebhookUrl,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * PATCH /api/webhooks/[id]
+ * Change an endpoint's URL or events, or pause/resume it ({ isActive })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const changes: { url?: string; events?: WebhookEvent[]; isActive?: boolean } = {};
+    if (body.url !== undefined) {
+      const urlError = await validateWebhookUrl(body.url);
+      if (urlError) {
+        return NextResponse.json({ error: urlError }, { status: 400 });
+      }
+      changes.url = body.url;
+    }
+    if (body.events !== undefined) {
+      const eventsError = validateWebhookEvents(body.events);
+      if (eventsError) {
+        return NextResponse.json({ error: eventsError }, { status: 400 });
+      }
+      changes.events = body.events;
+    }
+    if (typeof body.isActive === 'boolean') {
+      changes.isActive = body.isActive;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const success = await updateWebhookEndpoint(id, userId, changes);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhook update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const success = await deleteWebhookEndpoint(id, userId);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhook delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
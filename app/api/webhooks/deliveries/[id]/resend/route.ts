@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import { resendWebhookDelivery } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * POST /api/webhooks/deliveries/[id]/resend
+ * Send a logged delivery's payload again, as a new delivery with fresh retries
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const deliveryId = await resendWebhookDelivery(id, userId);
+    if (!deliveryId) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deliveryId });
+  } catch (error) {
+    console.error('Webhook resend error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resend delivery' },
+      { status: 500 }
+    );
+  }
+}
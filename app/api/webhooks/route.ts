@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { validateSession, SESSION_COOKIE_NAME } from '@/lib/auth';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  validateWebhookEvents,
+  validateWebhookUrl,
+  MAX_WEBHOOK_ENDPOINTS,
+  type WebhookEvent,
+} from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionToken) return null;
+
+  const session = await validateSession(sessionToken);
+  return session.user?.id ?? null;
+}
+
+/**
+ * GET /api/webhooks
+ * The signed-in user's webhook endpoints (secrets masked)
+ */
+export async function GET() {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const endpoints = await listWebhookEndpoints(userId);
+    return NextResponse.json({ endpoints });
+  } catch (error) {
+    console.error('Webhooks fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Register an endpoint ({ url, events, apiKeyId? }). The response carries the
+ * signing secret; it is not shown again.
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.DATABASE_URL) {
+    return NextResponse.json(
+      { error: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Login required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    const error = (await validateWebhookUrl(body.url)) ?? validateWebhookEvents(body.events);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (body.apiKeyId !== undefined && body.apiKeyId !== null && typeof body.apiKeyId !== 'string') {
+      return NextResponse.json(
+        { error: 'apiKeyId must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const { endpoint, secret } = await createWebhookEndpoint(userId, {
+      url: body.url,
+      events: body.events as WebhookEvent[],
+      apiKeyId: body.apiKeyId,
+    });
+    return NextResponse.json({ endpoint, secret });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'WEBHOOK_LIMIT') {
+      return NextResponse.json(
+        { error: `You can register up to ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints. Delete one first.` },
+        { status: 400 }
+      );
+    }
+    if (error instanceof Error && error.message === 'API_KEY_NOT_FOUND') {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Webhook create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import Image from 'next/image';
 import { FileUpload } from '@/components/FileUpload';
 import { ProgressBar } from '@/components/ProgressBar';
@@ -8,6 +8,7 @@ import { ResultsTable } from '@/components/ResultsTable';
 import { ExportButton } from '@/components/ExportButton';
 import { StatsCards } from '@/components/StatsCards';
 import { LookupHistory } from '@/components/LookupHistory';
+import { WatchlistsPanel } from '@/components/WatchlistsPanel';
 import { RecentWins } from '@/components/RecentWins';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { UpgradeModal } from '@/components/UpgradeModal';
@@ -21,8 +22,31 @@ import { getUserId } from '@/lib/user-id';
 import { TIER_LIMITS, type UserTier } from '@/lib/access';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Pencil, Plus, Check, X, Send } from 'lucide-react';
+import { Pencil, Plus, Check, X, Send, RefreshCw, Bell } from 'lucide-react';
 import { parseFile } from '@/lib/file-parser';
+import type { ParseProgress, ParseResult, PendingRow, WalletRow } from '@/lib/csv-parser';
+import {
+  applyMapping,
+  saveMapping,
+  suggestMapping,
+  type ColumnMapping,
+} from '@/lib/column-mapping';
+import { ColumnMappingStep } from '@/components/ColumnMappingStep';
+import type { SegmentOption } from '@/components/SegmentBuilder';
+import {
+  extractIdentifiers,
+  requestResolution,
+  applyResolution,
+  type ResolvedIdentifier,
+} from '@/lib/identifiers';
+import { ResolutionReport } from '@/components/ResolutionReport';
+import { RefreshSummary } from '@/components/RefreshSummary';
+import type { LookupRefreshSummary } from '@/lib/lookup-refresh';
+import { toPersonRows } from '@/lib/identity-clusters';
+import { getPriorityScorer, rescoreResults } from '@/lib/scoring';
+import { normalizeWallet } from '@/lib/wallets';
+import { CHAIN_LABELS, SUPPORTED_CHAINS, type SupportedChain } from '@/lib/chains';
+import { filterBySegment, type SegmentDefinition } from '@/lib/segment-filter';
 import {
   canNotify,
   requestPermission,
@@ -31,7 +55,27 @@ import {
 } from '@/lib/notifications';
 import type { WalletSocialResult, LookupProgress } from '@/lib/types';
 
-type AppState = 'upload' | 'ready' | 'processing' | 'complete' | 'error';
+type AppState = 'upload' | 'mapping' | 'ready' | 'processing' | 'complete' | 'error';
+
+interface JobProgressResponse {
+  processed: number;
+  total: number;
+  stage: string | null;
+  holders?: { fetched: number; total: number | null; tokenName: string };
+}
+
+// Progress line for a polled job; background holder imports report holders fetched first
+function formatJobProgress(progress: JobProgressResponse): string {
+  if (progress.stage === 'holders' && progress.holders) {
+    const { fetched, total, tokenName } = progress.holders;
+    return total
+      ? `Fetching ${tokenName} holders (${fetched.toLocaleString()}/${total.toLocaleString()})`
+      : `Fetching ${tokenName} holders (${fetched.toLocaleString()} so far)`;
+  }
+  return progress.stage
+    ? `Processing: ${progress.stage} (${progress.processed}/${progress.total})`
+    : `Processing ${progress.processed}/${progress.total} wallets...`;
+}
 
 export default function Home() {
   const [state, setState] = useState<AppState>('upload');
@@ -52,6 +96,10 @@ export default function Home() {
   const [cacheHits, setCacheHits] = useState(0);
   const [saveToHistory, setSaveToHistory] = useState(true);
   const [includeENS, setIncludeENS] = useState(false);
+  // Onchain balance/activity columns (paid tiers)
+  const [includeOnchain, setIncludeOnchain] = useState(false);
+  const [onchainChain, setOnchainChain] = useState<SupportedChain>('ethereum');
+  const [onchainToken, setOnchainToken] = useState('');
   const [lookupName, setLookupName] = useState('');
   const [notifyOnComplete, setNotifyOnComplete] = useState(() => {
     if (typeof window === 'undefined') return false;
@@ -68,6 +116,19 @@ export default function Home() {
 
   // Paste addresses mode
   const [showPasteInput, setShowPasteInput] = useState(false);
+
+  // Forward resolution of ENS names / handles in the input
+  const [resolving, setResolving] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<{
+    file: File;
+    result: ParseResult;
+    mapping: ColumnMapping;
+    fromSaved: boolean;
+  } | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [mappingBusy, setMappingBusy] = useState(false);
+  const [resolutionReport, setResolutionReport] = useState<ResolvedIdentifier[]>([]);
   const [pasteText, setPasteText] = useState('');
   const [inputSource, setInputSource] = useState<'file_upload' | 'text_input' | 'contract_import'>('file_upload');
 
@@ -93,6 +154,39 @@ export default function Home() {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editNameValue, setEditNameValue] = useState('');
   const [enrichedWallets, setEnrichedWallets] = useState<Set<string>>(new Set());
+  const [refreshingLookup, setRefreshingLookup] = useState(false);
+  const [lastRefresh, setLastRefresh] = useState<LookupRefreshSummary | null>(null);
+  const [refreshNotice, setRefreshNotice] = useState<string | null>(null);
+  const [watchlistsVersion, setWatchlistsVersion] = useState(0);
+
+  // Priority-score formula (null = default). Results are re-scored client-side
+  // when it changes, so switching formulas doesn't rerun the lookup.
+  const [priorityFormula, setPriorityFormula] = useState<string | null>(null);
+  const scorePriority = useMemo(() => getPriorityScorer(priorityFormula), [priorityFormula]);
+  const scoredResults = useMemo(
+    () => rescoreResults(results, scorePriority),
+    [results, scorePriority]
+  );
+
+  // Identity clustering: collapse wallets that share an FID / Twitter / ENS name
+  const [groupByPerson, setGroupByPerson] = useState(false);
+  const personResults = useMemo(
+    () => (state === 'complete' ? toPersonRows(scoredResults, scorePriority) : scoredResults),
+    [state, scoredResults, scorePriority]
+  );
+  const displayedResults = groupByPerson ? personResults : scoredResults;
+
+  // Outreach segment (null = everyone). The same filter narrows the table,
+  // the export and the Farcaster DM recipients.
+  const [segment, setSegment] = useState<SegmentDefinition | null>(null);
+  const [savedSegments, setSavedSegments] = useState<SegmentOption[]>([]);
+  const segmentedResults = useMemo(
+    () => filterBySegment(displayedResults, segment),
+    [displayedResults, segment]
+  );
+  const dmRecipients = useMemo(() => filterBySegment(results, segment), [results, segment]);
+  // Rows as the table shows them (search, quick filters, sort); exports follow these
+  const [tableResults, setTableResults] = useState<WalletSocialResult[] | null>(null);
 
   // Persist jobId to localStorage so it survives page refresh
   const setJobId = (id: string | null) => {
@@ -115,6 +209,21 @@ export default function Home() {
           if (data.status === 'completed') {
             // Job finished while away - show results
             setResults(data.results || []);
+            setExtraColumns(data.extraColumns || []);
+            // A refresh job was already merged server-side; show the whole lookup
+            const refreshLookupId = localStorage.getItem('pendingRefreshLookupId');
+            if (refreshLookupId) {
+              localStorage.removeItem('pendingRefreshLookupId');
+              fetch(`/api/history/${refreshLookupId}`)
+                .then((res) => (res.ok ? res.json() : null))
+                .then((lookup) => {
+                  if (!lookup) return;
+                  setResults(lookup.results || []);
+                  setCurrentLookupId(refreshLookupId);
+                  setLastRefresh(lookup.lastRefresh || null);
+                })
+                .catch((err) => console.error('Failed to load refreshed lookup:', err));
+            }
             setCacheHits(data.stats?.cacheHits || 0);
             // Note: We don't have the lookup ID here, but the name would need to be stored
             // For now, load from history to get full edit/add functionality
@@ -130,17 +239,21 @@ export default function Home() {
             window.addEventListener('focus', resetTitle);
           } else if (data.status === 'failed') {
             // Job failed
+            localStorage.removeItem('pendingRefreshLookupId');
             setError(data.error || 'Job failed');
             setState('error');
             localStorage.removeItem('currentJobId');
-          } else if (data.status === 'pending' || data.status === 'processing') {
+          } else if (
+            data.status === 'pending' ||
+            data.status === 'processing' ||
+            data.status === 'fetching_holders'
+          ) {
             // Job still running - resume watching
             setJobIdState(savedJobId);
+            setExtraColumns(data.extraColumns || []);
 
             // Build message with stage info (same format as polling)
-            const message = data.progress.stage
-              ? `Processing: ${data.progress.stage} (${data.progress.processed}/${data.progress.total})`
-              : `Processing ${data.progress.processed}/${data.progress.total} wallets...`;
+            const message = formatJobProgress(data.progress);
 
             setProgress({
               total: data.progress.total,
@@ -167,6 +280,71 @@ export default function Home() {
     }
   }, []);
 
+  // Load the signed-in user's saved scoring formula
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setPriorityFormula(null);
+      return;
+    }
+    fetch('/api/scoring')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setPriorityFormula(data?.formula ?? null))
+      .catch((err) => console.error('Failed to load scoring formula:', err));
+  }, [userId]);
+
+  // Load the signed-in user's saved segments
+  useEffect(() => {
+    if (!userId) {
+      setSavedSegments([]);
+      return;
+    }
+    fetch('/api/segments')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setSavedSegments(data?.segments ?? []))
+      .catch((err) => console.error('Failed to load segments:', err));
+  }, [userId]);
+
+  const handleSaveSegment = useCallback(async (name: string, definition: SegmentDefinition) => {
+    const response = await fetch('/api/segments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, definition }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save segment');
+    }
+    setSavedSegments((prev) => [data.segment, ...prev]);
+  }, []);
+
+  const handleDeleteSegment = useCallback(async (id: string) => {
+    setSavedSegments((prev) => prev.filter((s) => s.id !== id));
+    try {
+      await fetch(`/api/segments/${id}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to delete segment:', err);
+    }
+  }, []);
+
+  const handlePriorityFormulaChange = useCallback(
+    async (formula: string | null, save: boolean) => {
+      if (save) {
+        const response = await fetch('/api/scoring', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ formula }),
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to save formula');
+        }
+      }
+      setPriorityFormula(formula);
+    },
+    []
+  );
+
   // Memoized callback for opening upgrade modal - avoids creating new function on each render
   const handleOpenUpgradeModal = useCallback(() => {
     setShowUpgradeModal(true);
@@ -192,34 +370,70 @@ export default function Home() {
     return `~${hours}h ${remainingMins}m`;
   };
 
-  // Extract all valid Ethereum addresses from text (anywhere in the text)
-  const extractAddresses = (text: string): string[] => {
-    if (!text.trim()) return [];
-    const matches = text.match(/0x[a-fA-F0-9]{40}/gi) || [];
-    return [...new Set(matches.map(addr => addr.toLowerCase()))];
-  };
-
-  // Count valid Ethereum addresses in pasted text
+  // Count addresses, ENS names and handles in pasted text
   const countValidAddresses = (text: string): number => {
-    return extractAddresses(text).length;
+    return extractIdentifiers(text).length;
   };
 
-  // Handle loading addresses from paste input
-  const handlePasteAddresses = useCallback(() => {
-    const unique = extractAddresses(pasteText);
+  // Forward-resolve names/handles and append them to the parsed address rows
+  const resolvePendingRows = useCallback(async (
+    rows: WalletRow[],
+    pending: PendingRow[]
+  ): Promise<WalletRow[]> => {
+    if (pending.length === 0) {
+      setResolutionReport([]);
+      return rows;
+    }
 
-    if (unique.length === 0) {
-      setError('No valid Ethereum addresses found');
-      return;
+    setResolving(true);
+    try {
+      const resolved = await requestResolution(pending.map((p) => p.identifier));
+      const { rows: resolvedRows, report } = applyResolution(pending, resolved);
+      setResolutionReport(report);
+
+      // Rows with a raw address win over the same wallet resolved from a name
+      const merged = new Map(resolvedRows.map((row) => [row.wallet, row]));
+      for (const row of rows) merged.set(row.wallet, row);
+      return Array.from(merged.values());
+    } finally {
+      setResolving(false);
     }
+  }, []);
 
-    setWallets(unique);
-    setOriginalData({});
-    setExtraColumns([]);
-    setInputSource('text_input');
-    setState('ready');
-    setShowPasteInput(false);
-  }, [pasteText]);
+  // Handle loading addresses from paste input
+  const handlePasteAddresses = useCallback(async () => {
+    const identifiers = extractIdentifiers(pasteText);
+    const addressRows: WalletRow[] = identifiers
+      .filter((i) => i.type === 'address')
+      .map((i) => ({ wallet: i.value }));
+    const pending: PendingRow[] = identifiers
+      .filter((i) => i.type !== 'address')
+      .map((identifier) => ({ identifier, data: {} }));
+
+    try {
+      const rows = await resolvePendingRows(addressRows, pending);
+
+      if (rows.length === 0) {
+        setError('No valid Ethereum addresses found');
+        return;
+      }
+
+      const dataMap: Record<string, Record<string, string>> = {};
+      for (const row of rows) {
+        if (row.resolved_from) dataMap[row.wallet] = { resolved_from: row.resolved_from };
+      }
+
+      setWallets(rows.map((r) => r.wallet));
+      setOriginalData(dataMap);
+      setExtraColumns(Object.keys(dataMap).length > 0 ? ['resolved_from'] : []);
+      setColumnMapping(null);
+      setInputSource('text_input');
+      setState('ready');
+      setShowPasteInput(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve names');
+    }
+  }, [pasteText, resolvePendingRows]);
 
   // Calculate time remaining based on actual processing rate
   const getTimeRemaining = (): string | null => {
@@ -239,11 +453,39 @@ export default function Home() {
   };
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Turn a parsed file into wallets + originalData (after the mapping step, if any)
+  const finishUpload = useCallback(async (
+    result: ParseResult,
+    mapping: ColumnMapping | null
+  ): Promise<boolean> => {
+    const rows = await resolvePendingRows(result.rows, result.pending ?? []);
+
+    if (rows.length === 0) {
+      setError('None of the names or handles in this file could be resolved to a wallet');
+      setState('error');
+      return false;
+    }
+
+    const { originalData: dataMap, extraColumns: cols } = applyMapping(
+      rows,
+      mapping ?? { labelColumns: [], droppedColumns: [] }
+    );
+
+    setWallets(rows.map((r) => r.wallet));
+    setOriginalData(dataMap);
+    setExtraColumns(cols);
+    setColumnMapping(mapping);
+    setInputSource('file_upload');
+    setState('ready');
+    return true;
+  }, [resolvePendingRows]);
+
   const handleFileLoaded = useCallback(async (file: File) => {
     setError(null);
 
     try {
-      const result = await parseFile(file);
+      const result = await parseFile(file, setParseProgress);
+      setParseProgress(null);
 
       if (result.error) {
         setError(result.error);
@@ -251,33 +493,48 @@ export default function Home() {
         return;
       }
 
-      const walletList = result.rows.map((r) => r.wallet);
-      setWallets(walletList);
+      // Single-column files have nothing to map
+      if (result.columns && result.walletColumn && result.columns.length > 1) {
+        const { mapping, fromSaved } = suggestMapping(result.columns, result.walletColumn);
+        setPendingUpload({ file, result, mapping, fromSaved });
+        setState('mapping');
+        return;
+      }
 
-      // Store original data (extra columns)
-      const dataMap: Record<string, Record<string, string>> = {};
-      const cols: string[] = [];
-
-      for (const row of result.rows) {
-        const extra: Record<string, string> = {};
-        for (const [key, value] of Object.entries(row)) {
-          if (key !== 'wallet' && value) {
-            extra[key] = value;
-            if (!cols.includes(key)) cols.push(key);
-          }
-        }
-        dataMap[row.wallet] = extra;
+      await finishUpload(result, null);
+    } catch (err) {
+      setParseProgress(null);
+      setError(err instanceof Error ? err.message : 'Failed to parse file');
+      setState('error');
+    }
+  }, [finishUpload]);
+
+  const handleMappingConfirm = useCallback(async (mapping: ColumnMapping, remember: boolean) => {
+    if (!pendingUpload) return;
+    const { file, result } = pendingUpload;
+    if (remember && result.columns) saveMapping(result.columns, mapping);
+
+    setMappingBusy(true);
+    try {
+      // A different wallet column means the rows have to be re-read
+      const mapped = mapping.walletColumn === result.walletColumn
+        ? result
+        : await parseFile(file, undefined, { walletColumn: mapping.walletColumn });
+
+      if (mapped.error) {
+        setError(`Column "${mapping.walletColumn}": ${mapped.error}`);
+        setState('error');
+        return;
       }
 
-      setOriginalData(dataMap);
-      setExtraColumns(cols);
-      setInputSource('file_upload');
-      setState('ready');
+      if (await finishUpload(mapped, mapping)) setPendingUpload(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to parse file');
       setState('error');
+    } finally {
+      setMappingBusy(false);
     }
-  }, []);
+  }, [pendingUpload, finishUpload]);
 
   const startLookup = useCallback(async () => {
     // Check tier limit before starting
@@ -316,6 +573,12 @@ export default function Home() {
           userId: getUserId(),
           email: userEmail || undefined,
           inputSource,
+          holdingsColumn: columnMapping?.holdingsColumn,
+          labelColumns: columnMapping?.labelColumns,
+          priorityFormula: priorityFormula ?? undefined,
+          onchain: includeOnchain
+            ? { chain: onchainChain, tokenContract: onchainToken.trim() || undefined }
+            : undefined,
         }),
       });
 
@@ -349,7 +612,7 @@ export default function Home() {
       setProgress((prev) => ({ ...prev, status: 'error' }));
       setState('error');
     }
-  }, [wallets, originalData, saveToHistory, lookupName, includeENS, userTier, userEmail, inputSource]);
+  }, [wallets, originalData, saveToHistory, lookupName, includeENS, includeOnchain, onchainChain, onchainToken, userTier, userEmail, inputSource, columnMapping, priorityFormula]);
 
   // Adaptive polling interval (starts at 2s, increases to 5s if no progress)
   const pollIntervalRef = useRef(2000);
@@ -387,9 +650,7 @@ export default function Home() {
 
         // Only update progress if values actually changed - prevents unnecessary re-renders
         setProgress((prev) => {
-          const newMessage = data.progress.stage
-            ? `Processing: ${data.progress.stage} (${data.progress.processed}/${data.progress.total})`
-            : `Processing ${data.progress.processed}/${data.progress.total} wallets...`;
+          const newMessage = formatJobProgress(data.progress);
 
           // Check if any values changed
           if (
@@ -421,9 +682,24 @@ export default function Home() {
 
           setJobId(null); // Clear localStorage
 
+          // Refresh jobs are merged server-side; reload the lookup and its diff
+          const pendingRefreshLookupId = localStorage.getItem('pendingRefreshLookupId');
           // Check if we need to merge with an existing lookup
           const pendingMergeLookupId = localStorage.getItem('pendingMergeLookupId');
-          if (pendingMergeLookupId) {
+          if (pendingRefreshLookupId) {
+            localStorage.removeItem('pendingRefreshLookupId');
+            try {
+              const refreshedRes = await fetch(`/api/history/${pendingRefreshLookupId}`);
+              if (!refreshedRes.ok) throw new Error(`HTTP error: ${refreshedRes.status}`);
+              const refreshedData = await refreshedRes.json();
+              setResults(refreshedData.results || []);
+              setCurrentLookupId(pendingRefreshLookupId);
+              setLastRefresh(refreshedData.lastRefresh || null);
+            } catch (err) {
+              console.error('Failed to load refreshed lookup:', err);
+              setResults(data.results || []);
+            }
+          } else if (pendingMergeLookupId) {
             localStorage.removeItem('pendingMergeLookupId');
 
             // Fetch existing results and merge
@@ -436,9 +712,9 @@ export default function Home() {
 
                 // Merge results (new takes precedence, merge sources)
                 const resultMap = new Map<string, WalletSocialResult>();
-                existingResults.forEach(r => resultMap.set(r.wallet.toLowerCase(), r));
+                existingResults.forEach(r => resultMap.set(normalizeWallet(r.wallet), r));
                 newResults.forEach(r => {
-                  const key = r.wallet.toLowerCase();
+                  const key = normalizeWallet(r.wallet);
                   const existing = resultMap.get(key);
                   if (existing) {
                     // Merge sources
@@ -517,6 +793,7 @@ export default function Home() {
           }
 
           setJobId(null); // Clear localStorage
+          localStorage.removeItem('pendingRefreshLookupId');
           setError(data.error || 'Job failed');
           setProgress((prev) => ({ ...prev, status: 'error' }));
           setState('error');
@@ -593,11 +870,18 @@ export default function Home() {
     setWallets([]);
     setOriginalData({});
     setExtraColumns([]);
+    setColumnMapping(null);
+    setPendingUpload(null);
+    setResolutionReport([]);
     setResults([]);
     setError(null);
     setCacheHits(0);
     setLookupName('');
     setIncludeENS(false);
+    setIncludeOnchain(false);
+    setOnchainToken('');
+    setSegment(null);
+    setTableResults(null);
     setShowPasteInput(false);
     setPasteText('');
     setCurrentLookupId(null);
@@ -605,6 +889,8 @@ export default function Home() {
     setIsEditingName(false);
     setEditNameValue('');
     setEnrichedWallets(new Set());
+    setLastRefresh(null);
+    setRefreshNotice(null);
     setProgress({
       total: 0,
       processed: 0,
@@ -620,10 +906,13 @@ export default function Home() {
       // Show results immediately
       setResults(loadedResults);
       setExtraColumns([]);
+      setColumnMapping(null);
       setCacheHits(0);
       setCurrentLookupId(lookupId || null);
       setCurrentLookupName(lookupName || null);
-      setEnrichedWallets(new Set(enrichedWalletsArray?.map(w => w.toLowerCase()) || []));
+      setEnrichedWallets(new Set(enrichedWalletsArray?.map(w => normalizeWallet(w)) || []));
+      setLastRefresh(null);
+      setRefreshNotice(null);
       setState('complete');
 
       // Check for results that have farcaster username but no fc_fid
@@ -715,6 +1004,7 @@ export default function Home() {
     setWallets(newAddresses);
     setOriginalData({});
     setExtraColumns([]);
+    setColumnMapping(null);
     setState('processing');
     setResults([]);
     setCacheHits(0);
@@ -742,6 +1032,7 @@ export default function Home() {
           includeENS,
           userId: getUserId(),
           email: userEmail || undefined,
+          priorityFormula: priorityFormula ?? undefined,
         }),
       });
 
@@ -778,7 +1069,7 @@ export default function Home() {
       setProgress((prev) => ({ ...prev, status: 'error' }));
       setState('error');
     }
-  }, [includeENS, userEmail]);
+  }, [includeENS, userEmail, priorityFormula]);
 
   // Handle creating new lookup from modal
   const handleCreateNewFromModal = useCallback((addresses: string[]) => {
@@ -786,19 +1077,92 @@ export default function Home() {
     setWallets(addresses);
     setOriginalData({});
     setExtraColumns([]);
+    setColumnMapping(null);
     setState('ready');
   }, []);
 
   // Handle importing wallets from contract address
-  const handleContractImport = useCallback((importedWallets: string[]) => {
+  const handleContractImport = useCallback((
+    importedWallets: string[],
+    holderData?: Record<string, Record<string, string>>
+  ) => {
     if (importedWallets.length === 0) return;
     setWallets(importedWallets);
-    setOriginalData({});
-    setExtraColumns([]);
+    if (holderData) {
+      // ERC-1155 token import: per-ID balances, summed into holdings
+      const columns = Object.keys(holderData[importedWallets[0]] ?? {});
+      setOriginalData(holderData);
+      setExtraColumns(columns);
+      setColumnMapping({ walletColumn: 'wallet', holdingsColumn: 'balance', labelColumns: [], droppedColumns: [] });
+    } else {
+      setOriginalData({});
+      setExtraColumns([]);
+      setColumnMapping(null);
+    }
     setInputSource('contract_import');
     setState('ready');
   }, []);
 
+  // Import every holder of a large contract in a background job, then look them up
+  const handleContractImportAll = useCallback(async (contract: {
+    contractAddress: string;
+    chain: string;
+    totalHolders: number;
+  }) => {
+    setState('processing');
+    setResults([]);
+    setCacheHits(0);
+    setJobId(null);
+    setDisplayedProcessed(0);
+    setStartTime(Date.now());
+    setInputSource('contract_import');
+    setProgress({
+      total: contract.totalHolders,
+      processed: 0,
+      twitterFound: 0,
+      farcasterFound: 0,
+      status: 'processing',
+      message: 'Starting holder import...',
+    });
+
+    try {
+      const response = await fetch('/api/contract-holders/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contractAddress: contract.contractAddress,
+          chain: contract.chain,
+          expectedHolders: contract.totalHolders,
+          saveToHistory: true,
+          historyName: lookupName || undefined,
+          includeENS,
+          priorityFormula: priorityFormula ?? undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.upgradeRequired) {
+          setShowUpgradeModal(true);
+          setState('upload');
+          return;
+        }
+        throw new Error(data.error || `HTTP error: ${response.status}`);
+      }
+
+      setJobId(data.jobId);
+      setProgress((prev) => ({
+        ...prev,
+        message: 'Holder import queued - fetching will start shortly...',
+      }));
+    } catch (err) {
+      console.error('Holder import error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start holder import');
+      setProgress((prev) => ({ ...prev, status: 'error' }));
+      setState('error');
+    }
+  }, [lookupName, includeENS, priorityFormula]);
+
   // Handle saving the lookup name
   const handleSaveLookupName = useCallback(async () => {
     if (!currentLookupId) return;
@@ -819,6 +1183,80 @@ export default function Home() {
     }
   }, [currentLookupId, editNameValue]);
 
+  // Re-run the unmatched and stale wallets of the current saved lookup
+  const handleRefreshLookup = useCallback(async () => {
+    if (!currentLookupId) return;
+
+    setRefreshingLookup(true);
+    setRefreshNotice(null);
+    try {
+      const response = await fetch(`/api/history/${currentLookupId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priorityFormula: priorityFormula ?? undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.upgradeRequired) {
+          setShowUpgradeModal(true);
+          return;
+        }
+        throw new Error(data.error || `HTTP error: ${response.status}`);
+      }
+
+      if (!data.jobId) {
+        setRefreshNotice(data.message || 'Nothing to refresh');
+        return;
+      }
+
+      localStorage.setItem('pendingRefreshLookupId', currentLookupId);
+      setLastRefresh(null);
+      setCacheHits(0);
+      setDisplayedProcessed(0);
+      setStartTime(Date.now());
+      setProgress({
+        total: data.walletsChecked,
+        processed: 0,
+        twitterFound: 0,
+        farcasterFound: 0,
+        status: 'processing',
+        message: 'Job queued - processing will start shortly...',
+      });
+      setJobId(data.jobId);
+      setState('processing');
+    } catch (err) {
+      console.error('Lookup refresh error:', err);
+      setRefreshNotice(err instanceof Error ? err.message : 'Failed to refresh lookup');
+    } finally {
+      setRefreshingLookup(false);
+    }
+  }, [currentLookupId, priorityFormula]);
+
+  // Put the current saved lookup on a weekly watchlist
+  const handleWatchLookup = useCallback(async () => {
+    if (!currentLookupId) return;
+
+    setRefreshNotice(null);
+    try {
+      const response = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lookupId: currentLookupId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error: ${response.status}`);
+      }
+
+      setWatchlistsVersion((v) => v + 1);
+      setRefreshNotice('Watching this lookup - new matches will be emailed to you weekly');
+    } catch (err) {
+      console.error('Create watchlist error:', err);
+      setRefreshNotice(err instanceof Error ? err.message : 'Failed to watch lookup');
+    }
+  }, [currentLookupId]);
+
   // Handle opening add addresses from results view
   const handleAddAddressesFromResults = useCallback(async () => {
     if (!currentLookupId) return;
@@ -907,20 +1345,27 @@ export default function Home() {
           open={showContractImportModal}
           onOpenChange={setShowContractImportModal}
           onImport={handleContractImport}
+          onImportAll={handleContractImportAll}
         />
 
         {/* Farcaster DM Modal (Unlimited tier only) */}
         <FarcasterDMModal
           open={showFarcasterDMModal}
           onOpenChange={setShowFarcasterDMModal}
-          results={results}
+          results={dmRecipients}
+          extraColumns={extraColumns}
         />
 
         <main className="space-y-6">
           {/* Upload State */}
           {state === 'upload' && (
             <div className="space-y-6">
-              <FileUpload onFileLoaded={handleFileLoaded} />
+              <FileUpload onFileLoaded={handleFileLoaded} progress={parseProgress} />
+              {resolving && (
+                <p className="text-sm text-center text-muted-foreground">
+                  Resolving ENS names and handles to wallets...
+                </p>
+              )}
 
               {/* Paste alternative */}
               <div className="text-center">
@@ -942,12 +1387,12 @@ export default function Home() {
                     <textarea
                       value={pasteText}
                       onChange={(e) => setPasteText(e.target.value)}
-                      placeholder={"Paste wallet addresses in any format\n0x1234..., 0xabcd...\nor one per line\nor mixed with other text"}
+                      placeholder={"Paste wallet addresses in any format\n0x1234..., 0xabcd...\nSolana addresses, ENS, Basenames, .sol names or @handles work too\nor mixed with other text"}
                       className="w-full h-40 p-3 text-sm font-mono border rounded-lg resize-none bg-background"
                     />
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">
-                        {countValidAddresses(pasteText)} valid addresses detected
+                        {countValidAddresses(pasteText)} addresses, names or handles detected
                       </span>
                       <div className="flex gap-2">
                         <Button variant="outline" size="sm" onClick={() => {
@@ -956,8 +1401,8 @@ export default function Home() {
                         }}>
                           Cancel
                         </Button>
-                        <Button size="sm" onClick={handlePasteAddresses} disabled={countValidAddresses(pasteText) === 0}>
-                          Load addresses
+                        <Button size="sm" onClick={handlePasteAddresses} disabled={countValidAddresses(pasteText) === 0 || resolving}>
+                          {resolving ? 'Resolving names...' : 'Load addresses'}
                         </Button>
                       </div>
                     </div>
@@ -988,9 +1433,33 @@ export default function Home() {
 
               <RecentWins />
               <LookupHistory onLoadLookup={handleLoadHistory} userTier={userTier} onAddAddresses={handleOpenAddAddresses} />
+              <WatchlistsPanel userTier={userTier} refreshKey={watchlistsVersion} />
             </div>
           )}
 
+          {/* Column mapping State */}
+          {state === 'mapping' && pendingUpload && (
+            <ColumnMappingStep
+              fileName={pendingUpload.file.name}
+              columns={pendingUpload.result.columns ?? []}
+              sampleRows={[
+                ...pendingUpload.result.rows.slice(0, 5).map((row) => ({
+                  ...row,
+                  [pendingUpload.result.walletColumn ?? 'wallet']: row.wallet,
+                })),
+                ...(pendingUpload.result.pending ?? []).slice(0, 5).map((p) => ({
+                  ...p.data,
+                  [pendingUpload.result.walletColumn ?? 'wallet']: p.identifier.input,
+                })),
+              ]}
+              initialMapping={pendingUpload.mapping}
+              fromSaved={pendingUpload.fromSaved}
+              busy={mappingBusy || resolving}
+              onConfirm={handleMappingConfirm}
+              onCancel={handleReset}
+            />
+          )}
+
           {/* Ready State */}
           {state === 'ready' && (
             <div className="space-y-4">
@@ -1032,6 +1501,7 @@ export default function Home() {
                         Extra columns: {extraColumns.join(', ')}
                       </p>
                     )}
+                    <ResolutionReport report={resolutionReport} />
                   </div>
                   <Button variant="outline" onClick={handleReset}>
                     Choose different file
@@ -1072,6 +1542,45 @@ export default function Home() {
                       Note: ENS lookups are slower for large batches
                     </span>
                   )}
+                  {userTier !== 'free' && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="includeOnchain"
+                        checked={includeOnchain}
+                        onChange={(e) => setIncludeOnchain(e.target.checked)}
+                        className="rounded"
+                      />
+                      <label
+                        htmlFor="includeOnchain"
+                        className="text-sm"
+                        title="Add native balance, transaction count and first-seen/last-active blocks"
+                      >
+                        Onchain activity
+                      </label>
+                      {includeOnchain && (
+                        <>
+                          <select
+                            className="h-8 px-2 text-sm border rounded bg-background"
+                            value={onchainChain}
+                            onChange={(e) => setOnchainChain(e.target.value as SupportedChain)}
+                          >
+                            {SUPPORTED_CHAINS.map((option) => (
+                              <option key={option} value={option}>
+                                {CHAIN_LABELS[option]}
+                              </option>
+                            ))}
+                          </select>
+                          <Input
+                            placeholder="Token contract (optional)"
+                            value={onchainToken}
+                            onChange={(e) => setOnchainToken(e.target.value)}
+                            className="h-8 w-56 font-mono text-xs"
+                          />
+                        </>
+                      )}
+                    </div>
+                  )}
                   {canNotify() && (
                     <div className="flex items-center gap-2">
                       <input
@@ -1194,6 +1703,18 @@ export default function Home() {
                       {cacheHits.toLocaleString()} results from cache (24h)
                     </p>
                   )}
+                  {personResults.length < results.length && (
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={groupByPerson}
+                        onChange={(e) => setGroupByPerson(e.target.checked)}
+                        className="rounded"
+                      />
+                      One row per person ({personResults.length.toLocaleString()} people across{' '}
+                      {results.length.toLocaleString()} wallets)
+                    </label>
+                  )}
                 </div>
                 <div className="flex gap-2 flex-wrap">
                   {/* DM Farcaster users button (Unlimited tier only, when FC users exist or enriching) */}
@@ -1209,7 +1730,7 @@ export default function Home() {
                       {enrichingFids ? (
                         <>Loading FIDs...</>
                       ) : (
-                        <>DM {results.filter(r => r.fc_fid).length.toLocaleString()} FC users</>
+                        <>DM {dmRecipients.filter(r => r.fc_fid).length.toLocaleString()} FC users</>
                       )}
                     </Button>
                   )}
@@ -1224,26 +1745,66 @@ export default function Home() {
                       Add addresses
                     </Button>
                   )}
+                  {/* Refresh button (when viewing a saved lookup) */}
+                  {currentLookupId && (
+                    <Button
+                      variant="outline"
+                      onClick={handleRefreshLookup}
+                      disabled={refreshingLookup}
+                      title="Re-check unmatched and stale wallets in this lookup"
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${refreshingLookup ? 'animate-spin' : ''}`} />
+                      Refresh
+                    </Button>
+                  )}
+                  {/* Watch button (paid users only, when viewing a saved lookup) */}
+                  {currentLookupId && (userTier === 'pro' || userTier === 'unlimited') && (
+                    <Button
+                      variant="outline"
+                      onClick={handleWatchLookup}
+                      title="Re-run this lookup weekly and alert on new matches"
+                    >
+                      <Bell className="h-4 w-4 mr-2" />
+                      Watch
+                    </Button>
+                  )}
                   <Button variant="outline" onClick={handleReset}>
                     New lookup
                   </Button>
                   <ExportButton
-                    results={results}
+                    results={tableResults ?? segmentedResults}
                     extraColumns={extraColumns}
                     userTier={userTier}
                     onUpgradeClick={handleOpenUpgradeModal}
                     lookupName={currentLookupName}
+                    lookupId={currentLookupId}
                   />
                 </div>
               </div>
 
-              <StatsCards results={results} />
+              {lastRefresh && (
+                <RefreshSummary refresh={lastRefresh} onDismiss={() => setLastRefresh(null)} />
+              )}
+              {refreshNotice && (
+                <p className="text-sm text-muted-foreground">{refreshNotice}</p>
+              )}
+              <StatsCards results={displayedResults} />
               <ResultsTable
-                results={results}
+                results={displayedResults}
                 extraColumns={extraColumns}
                 userTier={userTier}
                 onUpgradeClick={handleOpenUpgradeModal}
                 enrichedWallets={enrichedWallets}
+                priorityFormula={priorityFormula}
+                canSaveFormula={!!userId}
+                onPriorityFormulaChange={handlePriorityFormulaChange}
+                segment={segment}
+                savedSegments={savedSegments}
+                canSaveSegment={!!userId}
+                onSegmentChange={setSegment}
+                onSaveSegment={handleSaveSegment}
+                onDeleteSegment={handleDeleteSegment}
+                onVisibleResultsChange={setTableResults}
               />
             </div>
           )}
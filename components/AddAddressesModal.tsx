@@ -10,7 +10,16 @@ import {
 } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { FileUpload } from '@/components/FileUpload';
+import { ResolutionReport } from '@/components/ResolutionReport';
 import { parseFile } from '@/lib/file-parser';
+import { normalizeWallet } from '@/lib/wallets';
+import type { ParseProgress, PendingRow } from '@/lib/csv-parser';
+import {
+  extractIdentifiers,
+  requestResolution,
+  applyResolution,
+  type ResolvedIdentifier,
+} from '@/lib/identifiers';
 import { Loader2, Plus, FileText } from 'lucide-react';
 
 interface AddAddressesModalProps {
@@ -22,13 +31,6 @@ interface AddAddressesModalProps {
   onCreateNewLookup: (addresses: string[]) => void;
 }
 
-// Extract all valid Ethereum addresses from text
-const extractAddresses = (text: string): string[] => {
-  if (!text.trim()) return [];
-  const matches = text.match(/0x[a-fA-F0-9]{40}/gi) || [];
-  return [...new Set(matches.map(addr => addr.toLowerCase()))];
-};
-
 export function AddAddressesModal({
   open,
   onOpenChange,
@@ -41,51 +43,90 @@ export function AddAddressesModal({
   const [newAddresses, setNewAddresses] = useState<string[]>([]);
   const [duplicateCount, setDuplicateCount] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
   const [step, setStep] = useState<'input' | 'confirm'>('input');
+  const [resolutionReport, setResolutionReport] = useState<ResolvedIdentifier[]>([]);
+  const [error, setError] = useState<string | null>(null);
 
   const existingSet = useMemo(
-    () => new Set(existingWallets.map(w => w.toLowerCase())),
+    () => new Set(existingWallets.map(w => normalizeWallet(w))),
     [existingWallets]
   );
 
-  // Process addresses from paste input
-  const handleProcessPaste = useCallback(() => {
-    const extracted = extractAddresses(pasteText);
-    const unique = extracted.filter(addr => !existingSet.has(addr));
-    const dupes = extracted.length - unique.length;
+  // Resolve any names/handles, then split into new addresses and duplicates
+  const processAddresses = useCallback(async (
+    addresses: string[],
+    pending: PendingRow[]
+  ) => {
+    let report: ResolvedIdentifier[] = [];
+    let resolvedWallets: string[] = [];
+
+    if (pending.length > 0) {
+      const resolved = await requestResolution(pending.map(p => p.identifier));
+      const applied = applyResolution(pending, resolved);
+      report = applied.report;
+      resolvedWallets = applied.rows.map(r => r.wallet);
+    }
+
+    const walletList = [...new Set([...addresses, ...resolvedWallets])];
+    const unique = walletList.filter(addr => !existingSet.has(addr));
+    const dupes = walletList.length - unique.length;
 
     setNewAddresses(unique);
     setDuplicateCount(dupes);
+    setResolutionReport(report);
     setStep('confirm');
-  }, [pasteText, existingSet]);
+  }, [existingSet]);
+
+  // Process addresses from paste input
+  const handleProcessPaste = useCallback(async () => {
+    const identifiers = extractIdentifiers(pasteText);
+    setLoading(true);
+    setError(null);
+    try {
+      await processAddresses(
+        identifiers.filter(i => i.type === 'address').map(i => i.value),
+        identifiers
+          .filter(i => i.type !== 'address')
+          .map(identifier => ({ identifier, data: {} }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve names');
+    } finally {
+      setLoading(false);
+    }
+  }, [pasteText, processAddresses]);
 
   // Process addresses from file upload
   const handleFileLoaded = useCallback(async (file: File) => {
     setLoading(true);
+    setError(null);
     try {
-      const result = await parseFile(file);
+      const result = await parseFile(file, setParseProgress);
       if (result.error) {
         console.error(result.error);
         return;
       }
 
-      const walletList = result.rows.map(r => r.wallet.toLowerCase());
-      const unique = walletList.filter(addr => !existingSet.has(addr));
-      const dupes = walletList.length - unique.length;
-
-      setNewAddresses(unique);
-      setDuplicateCount(dupes);
-      setStep('confirm');
+      await processAddresses(
+        result.rows.map(r => normalizeWallet(r.wallet)),
+        result.pending ?? []
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve names');
     } finally {
+      setParseProgress(null);
       setLoading(false);
     }
-  }, [existingSet]);
+  }, [processAddresses]);
 
   // Reset and close
   const handleClose = useCallback(() => {
     setPasteText('');
     setNewAddresses([]);
     setDuplicateCount(0);
+    setResolutionReport([]);
+    setError(null);
     setStep('input');
     onOpenChange(false);
   }, [onOpenChange]);
@@ -107,9 +148,10 @@ export function AddAddressesModal({
     setStep('input');
     setNewAddresses([]);
     setDuplicateCount(0);
+    setResolutionReport([]);
   }, []);
 
-  const validCount = extractAddresses(pasteText).length;
+  const validCount = extractIdentifiers(pasteText).length;
 
   return (
     <Modal open={open} onOpenChange={handleClose}>
@@ -128,7 +170,7 @@ export function AddAddressesModal({
             {/* File upload */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Upload file</label>
-              <FileUpload onFileLoaded={handleFileLoaded} compact />
+              <FileUpload onFileLoaded={handleFileLoaded} compact progress={parseProgress} />
             </div>
 
             {/* Divider */}
@@ -144,12 +186,12 @@ export function AddAddressesModal({
               <textarea
                 value={pasteText}
                 onChange={(e) => setPasteText(e.target.value)}
-                placeholder="Paste wallet addresses in any format..."
+                placeholder="Paste EVM or Solana addresses, ENS/.sol names or @handles..."
                 className="w-full h-32 p-3 text-sm font-mono border rounded-lg resize-none bg-background"
               />
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">
-                  {validCount > 0 ? `${validCount} addresses detected` : 'No addresses detected'}
+                  {validCount > 0 ? `${validCount} addresses or names detected` : 'No addresses detected'}
                 </span>
                 <Button
                   size="sm"
@@ -166,6 +208,7 @@ export function AddAddressesModal({
                   )}
                 </Button>
               </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
             </div>
           </div>
         )}
@@ -188,6 +231,7 @@ export function AddAddressesModal({
                 <span className="text-sm">Existing addresses:</span>
                 <span className="font-medium">{existingWallets.length}</span>
               </div>
+              <ResolutionReport report={resolutionReport} />
               <div className="pt-2 border-t">
                 <div className="flex items-center justify-between font-medium">
                   <span className="text-sm">After merge:</span>
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  getColumnRole,
+  setColumnRole,
+  type ColumnMapping,
+  type ColumnRole,
+} from '@/lib/column-mapping';
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  columns: string[];
+  /** First few rows keyed by column name, for previews */
+  sampleRows: Record<string, string>[];
+  initialMapping: ColumnMapping;
+  fromSaved: boolean;
+  busy?: boolean;
+  onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  wallet: 'Wallet',
+  holdings: 'Holdings',
+  label: 'Label / tag',
+  keep: 'Keep',
+  drop: 'Drop',
+};
+
+/**
+ * Confirm which column is which before the lookup runs
+ */
+export function ColumnMappingStep({
+  fileName,
+  columns,
+  sampleRows,
+  initialMapping,
+  fromSaved,
+  busy,
+  onConfirm,
+  onCancel,
+}: ColumnMappingStepProps) {
+  const [mapping, setMapping] = useState(initialMapping);
+  const [remember, setRemember] = useState(true);
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">Map the columns in {fileName}</p>
+          <p className="text-sm text-muted-foreground">
+            {fromSaved
+              ? 'Using the mapping you saved for files with these columns.'
+              : 'We guessed the wallet and holdings columns - change anything that looks wrong.'}
+          </p>
+        </div>
+        <Button variant="outline" onClick={onCancel} disabled={busy}>
+          Choose different file
+        </Button>
+      </div>
+
+      <div className="border rounded-lg divide-y bg-background">
+        {columns.map((column) => {
+          const role = getColumnRole(mapping, column);
+          const samples = sampleRows
+            .map((row) => row[column])
+            .filter(Boolean)
+            .slice(0, 3);
+
+          return (
+            <div
+              key={column}
+              className={`grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_auto] items-center gap-4 px-3 py-2 text-sm ${
+                role === 'drop' ? 'opacity-50' : ''
+              }`}
+            >
+              <span className="font-medium truncate">{column}</span>
+              <span className="font-mono text-xs text-muted-foreground truncate">
+                {samples.join(', ') || '-'}
+              </span>
+              <select
+                className="px-2 py-1 text-xs border rounded bg-background"
+                value={role}
+                onChange={(e) =>
+                  setMapping(setColumnRole(mapping, column, e.target.value as ColumnRole))
+                }
+                disabled={busy}
+              >
+                {(Object.keys(ROLE_LABELS) as ColumnRole[]).map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="rememberMapping"
+            checked={remember}
+            onChange={(e) => setRemember(e.target.checked)}
+            className="rounded"
+          />
+          <label htmlFor="rememberMapping" className="text-sm">
+            Remember for files with these columns
+          </label>
+        </div>
+        <Button onClick={() => onConfirm(mapping, remember)} disabled={busy}>
+          {busy ? 'Loading wallets...' : 'Continue'}
+        </Button>
+      </div>
+    </div>
+  );
+}
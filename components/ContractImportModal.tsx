@@ -11,12 +11,17 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Loader2, FileCode, AlertTriangle } from 'lucide-react';
-import type { ContractType, SupportedChain } from '@/lib/contract-holders';
+import type { ContractToken, ContractType } from '@/lib/contract-holders';
+import { CHAIN_LABELS, SUPPORTED_CHAINS, type SupportedChain } from '@/lib/chains';
+import type { HolderSnapshotDiff } from '@/lib/holder-snapshots';
 
 interface ContractImportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (wallets: string[]) => void;
+  /** `holderData` carries per-wallet balance columns (ERC-1155 token imports) */
+  onImport: (wallets: string[], holderData?: Record<string, Record<string, string>>) => void;
+  /** Import every holder in a background job (contracts over the preview cap) */
+  onImportAll?: (contract: { contractAddress: string; chain: SupportedChain; totalHolders: number }) => void;
 }
 
 type Step = 'input' | 'loading' | 'preview';
@@ -28,13 +33,115 @@ interface ContractResult {
   contractType: ContractType;
   totalHolders: number;
   truncated: boolean;
+  partial?: boolean;
   chain: SupportedChain;
+  snapshotId: string | null;
+  /** Changes since the previous import of this contract, if there was one */
+  diff: HolderSnapshotDiff | null;
+  /** ERC-1155: token IDs to pick from (whole-contract preview only) */
+  tokens?: ContractToken[];
+  /** ERC-1155: token IDs the holders are limited to */
+  tokenIds?: string[];
+  balances?: Record<string, string>;
+  tokenBalances?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Balance columns for an ERC-1155 token import: `balance` (editions across
+ * the picked IDs, used as holdings) plus one column per token ID
+ */
+function buildHolderData(
+  result: ContractResult,
+  wallets: string[]
+): Record<string, Record<string, string>> | undefined {
+  if (!result.tokenIds || !result.balances) return undefined;
+
+  const holderData: Record<string, Record<string, string>> = {};
+  for (const wallet of wallets) {
+    const row: Record<string, string> = { balance: result.balances[wallet] ?? '0' };
+    for (const tokenId of result.tokenIds) {
+      row[`token ${tokenId}`] = result.tokenBalances?.[wallet]?.[tokenId] ?? '0';
+    }
+    holderData[wallet] = row;
+  }
+  return holderData;
+}
+
+/**
+ * Choose ERC-1155 token IDs from the contract's listing or by typing them
+ */
+function TokenIdPicker({
+  tokens,
+  onLoad,
+}: {
+  tokens: ContractToken[];
+  onLoad: (tokenIds: string[]) => void;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [typed, setTyped] = useState('');
+
+  const typedIds = typed.split(/[\s,]+/).filter(Boolean);
+  const invalidTyped = typedIds.filter((id) => !/^(0x[0-9a-fA-F]+|\d+)$/.test(id));
+  const tokenIds = [...new Set([...selected, ...typedIds])];
+
+  const toggle = (tokenId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(tokenId)) next.delete(tokenId);
+      else next.add(tokenId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+      <p className="font-medium">Limit to token IDs</p>
+      <p className="text-xs text-muted-foreground">
+        Pick editions to get their holders with per-ID balances. Balances become the holdings column.
+      </p>
+      {tokens.length > 0 && (
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {tokens.map((token) => (
+            <label key={token.tokenId} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(token.tokenId)}
+                onChange={() => toggle(token.tokenId)}
+                className="rounded"
+              />
+              <span className="font-mono text-xs">#{token.tokenId}</span>
+              {token.name && <span className="truncate text-muted-foreground">{token.name}</span>}
+            </label>
+          ))}
+        </div>
+      )}
+      <Input
+        value={typed}
+        onChange={(e) => setTyped(e.target.value)}
+        placeholder={tokens.length > 0 ? 'Other token IDs, e.g. 12, 15' : 'Token IDs, e.g. 1, 2, 3'}
+        className="font-mono text-xs"
+      />
+      {invalidTyped.length > 0 && (
+        <p className="text-xs text-destructive">Not a token ID: {invalidTyped.join(', ')}</p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => onLoad(tokenIds)}
+        disabled={tokenIds.length === 0 || invalidTyped.length > 0}
+      >
+        Load holders of {tokenIds.length || ''} token{tokenIds.length === 1 ? '' : 's'}
+      </Button>
+    </div>
+  );
 }
 
 export function ContractImportModal({
   open,
   onOpenChange,
   onImport,
+  onImportAll,
 }: ContractImportModalProps) {
   const [step, setStep] = useState<Step>('input');
   const [contractAddress, setContractAddress] = useState('');
@@ -58,8 +165,8 @@ export function ContractImportModal({
     onOpenChange(false);
   }, [onOpenChange]);
 
-  // Load holders from contract
-  const handleLoadHolders = useCallback(async () => {
+  // Load holders from contract (optionally limited to ERC-1155 token IDs)
+  const handleLoadHolders = useCallback(async (tokenIds?: string[]) => {
     if (!isValidAddress) return;
 
     setError(null);
@@ -71,7 +178,7 @@ export function ContractImportModal({
       const response = await fetch('/api/contract-holders', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ contractAddress, chain }),
+        body: JSON.stringify({ contractAddress, chain, tokenIds }),
       });
 
       const data = await response.json();
@@ -93,7 +200,21 @@ export function ContractImportModal({
   // Handle import confirmation
   const handleImport = useCallback(() => {
     if (!result) return;
-    onImport(result.wallets);
+    onImport(result.wallets, buildHolderData(result, result.wallets));
+    handleClose();
+  }, [result, onImport, handleClose]);
+
+  // Hand the full holder list off to a background job
+  const handleImportAll = useCallback(() => {
+    if (!result || !onImportAll) return;
+    onImportAll({ contractAddress, chain: result.chain, totalHolders: result.totalHolders });
+    handleClose();
+  }, [result, contractAddress, onImportAll, handleClose]);
+
+  // Look up only the holders that are new since the previous import
+  const handleImportNewHolders = useCallback(() => {
+    if (!result?.diff) return;
+    onImport(result.diff.newHolders, buildHolderData(result, result.diff.newHolders));
     handleClose();
   }, [result, onImport, handleClose]);
 
@@ -161,36 +282,32 @@ export function ContractImportModal({
             {/* Chain selector */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Network</label>
-              <div className="flex gap-3">
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="chain"
-                    value="ethereum"
-                    checked={chain === 'ethereum'}
-                    onChange={() => setChain('ethereum')}
-                    className="text-primary"
-                  />
-                  <span className="text-sm">Ethereum</span>
-                </label>
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="chain"
-                    value="base"
-                    checked={chain === 'base'}
-                    onChange={() => setChain('base')}
-                    className="text-primary"
-                  />
-                  <span className="text-sm">Base</span>
-                </label>
+              <div className="grid grid-cols-3 gap-2">
+                {SUPPORTED_CHAINS.map((option) => (
+                  <label key={option} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="chain"
+                      value={option}
+                      checked={chain === option}
+                      onChange={() => setChain(option)}
+                      className="text-primary"
+                    />
+                    <span className="text-sm">{CHAIN_LABELS[option]}</span>
+                  </label>
+                ))}
               </div>
+              {chain === 'zora' && (
+                <p className="text-xs text-muted-foreground">
+                  NFT collections only - token holder lists aren&apos;t available on Zora yet
+                </p>
+              )}
             </div>
 
             {/* Load button */}
             <Button
               className="w-full"
-              onClick={handleLoadHolders}
+              onClick={() => handleLoadHolders()}
               disabled={!isValidAddress || loading}
             >
               Load holders
@@ -223,7 +340,7 @@ export function ContractImportModal({
 
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Network:</span>
-                <span className="capitalize">{result.chain}</span>
+                <span>{CHAIN_LABELS[result.chain]}</span>
               </div>
 
               <div className="flex items-center justify-between text-sm">
@@ -231,25 +348,98 @@ export function ContractImportModal({
                 <span className="font-medium">{result.totalHolders.toLocaleString()}</span>
               </div>
 
+              {result.tokenIds && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Token IDs:</span>
+                  <span className="flex items-center gap-2">
+                    <span className="font-mono text-xs">
+                      {result.tokenIds.map((id) => `#${id}`).join(', ')}
+                    </span>
+                    <button
+                      className="text-xs text-muted-foreground hover:text-foreground underline"
+                      onClick={() => handleLoadHolders()}
+                    >
+                      All tokens
+                    </button>
+                  </span>
+                </div>
+              )}
+
               {result.truncated && (
                 <div className="flex items-start gap-2 pt-2 border-t">
                   <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 flex-shrink-0" />
                   <p className="text-xs text-amber-600 dark:text-amber-400">
-                    Limited to 10,000 of {result.totalHolders.toLocaleString()} total holders
+                    {result.partial
+                      ? `Large collection: only part of it was scanned for these token IDs (${result.totalHolders.toLocaleString()} holders found)`
+                      : `Preview limited to 10,000 of ${result.totalHolders.toLocaleString()} total holders`}
+                    {onImportAll && !result.tokenIds && ' - import all of them in the background below'}
                   </p>
                 </div>
               )}
             </div>
 
+            {/* ERC-1155 token picker */}
+            {result.contractType === 'ERC-1155' && !result.tokenIds && (
+              <TokenIdPicker tokens={result.tokens ?? []} onLoad={handleLoadHolders} />
+            )}
+
+            {/* Changes since the previous import */}
+            {result.diff && (
+              <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+                <p className="font-medium">
+                  Since your last import ({new Date(result.diff.fromCreatedAt).toLocaleDateString()})
+                </p>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">New holders:</span>
+                  <span className="font-medium text-green-600 dark:text-green-400">
+                    +{result.diff.newHolders.length.toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Exited holders:</span>
+                  <span className="font-medium text-red-600 dark:text-red-400">
+                    -{result.diff.exitedHolders.length.toLocaleString()}
+                  </span>
+                </div>
+                {result.contractType === 'ERC-20' && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Balance changes:</span>
+                    <span className="font-medium">
+                      {result.diff.balanceChanges.length.toLocaleString()}
+                    </span>
+                  </div>
+                )}
+                {result.diff.truncated && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">
+                    Holder lists are capped, so some changes may be wallets crossing the cap
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="flex gap-2">
               <Button variant="outline" onClick={handleBack} className="flex-1">
                 Back
               </Button>
-              <Button onClick={handleImport} className="flex-1">
+              <Button
+                variant={result.diff?.newHolders.length ? 'outline' : 'default'}
+                onClick={handleImport}
+                className="flex-1"
+              >
                 Import {result.wallets.length.toLocaleString()} wallets
               </Button>
             </div>
+            {result.truncated && onImportAll && !result.tokenIds && (
+              <Button onClick={handleImportAll} className="w-full">
+                Import all {result.totalHolders.toLocaleString()} holders in the background
+              </Button>
+            )}
+            {result.diff && result.diff.newHolders.length > 0 && (
+              <Button onClick={handleImportNewHolders} className="w-full">
+                Look up {result.diff.newHolders.length.toLocaleString()} new holders
+              </Button>
+            )}
           </div>
         )}
       </ModalContent>
@@ -0,0 +1,339 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+} from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, CheckCircle2, Eye, EyeOff, Loader2, Upload } from 'lucide-react';
+import {
+  CRM_DESTINATIONS,
+  CRM_KEY_SOURCES,
+  CRM_SOURCE_FIELDS,
+  MAX_CRM_MAPPINGS,
+  getDefaultMapping,
+  getKeyField,
+  mapResults,
+  validateMapping,
+  type CrmFieldMapping,
+  type CrmKeySource,
+} from '@/lib/crm/mapping';
+import type { CrmConnection, CrmDestination, CrmUpsertResult } from '@/lib/crm/types';
+import type { WalletSocialResult } from '@/lib/types';
+
+interface CrmExportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rows to send, in table order */
+  results: WalletSocialResult[];
+  extraColumns?: string[];
+}
+
+// Optional, device-only: the connection (including the token) and mapping per destination
+const STORAGE_KEY_PREFIX = 'crm_export_';
+
+interface SavedSettings {
+  connection: CrmConnection;
+  mapping: CrmFieldMapping[];
+  keySource: CrmKeySource;
+}
+
+const EMPTY_CONNECTION: CrmConnection = { token: '' };
+
+export function CrmExportModal({ open, onOpenChange, results, extraColumns = [] }: CrmExportModalProps) {
+  const [destination, setDestination] = useState<CrmDestination>('hubspot');
+  const [connection, setConnection] = useState<CrmConnection>(EMPTY_CONNECTION);
+  const [mapping, setMapping] = useState<CrmFieldMapping[]>(() => getDefaultMapping('hubspot'));
+  const [keySource, setKeySource] = useState<CrmKeySource>('wallet');
+  const [showToken, setShowToken] = useState(false);
+  const [remember, setRemember] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(0);
+  const [summary, setSummary] = useState<CrmUpsertResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const info = CRM_DESTINATIONS[destination];
+  const sources = useMemo(() => [...CRM_SOURCE_FIELDS, ...extraColumns], [extraColumns]);
+  const mappingError = validateMapping(mapping, keySource);
+  const records = useMemo(
+    () => (mappingError ? [] : mapResults(results, mapping, keySource)),
+    [mappingError, results, mapping, keySource]
+  );
+  const tooMany = records.length > info.maxRecords;
+
+  // Load the destination's remembered settings, or its defaults
+  useEffect(() => {
+    if (!open) return;
+    const saved = localStorage.getItem(`${STORAGE_KEY_PREFIX}${destination}`);
+    let settings: SavedSettings | null = null;
+    try {
+      settings = saved ? (JSON.parse(saved) as SavedSettings) : null;
+    } catch {
+      // Ignore corrupt settings
+    }
+    setConnection(settings?.connection ?? EMPTY_CONNECTION);
+    setMapping(settings?.mapping ?? getDefaultMapping(destination));
+    setKeySource(settings?.keySource ?? 'wallet');
+    setRemember(!!settings);
+    setSummary(null);
+    setError(null);
+  }, [open, destination]);
+
+  // Stop sending when the modal closes
+  useEffect(() => {
+    if (!open) {
+      cancelledRef.current = true;
+      setSending(false);
+    }
+  }, [open]);
+
+  const updateMapping = (index: number, changes: Partial<CrmFieldMapping>) => {
+    setMapping((prev) => prev.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  const handleSend = async () => {
+    const storageKey = `${STORAGE_KEY_PREFIX}${destination}`;
+    if (remember) {
+      const settings: SavedSettings = { connection, mapping, keySource };
+      localStorage.setItem(storageKey, JSON.stringify(settings));
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+
+    cancelledRef.current = false;
+    setSending(true);
+    setSent(0);
+    setSummary(null);
+    setError(null);
+
+    const keyField = getKeyField(mapping, keySource);
+    const total: CrmUpsertResult = { created: 0, updated: 0, failed: 0, errors: [] };
+
+    try {
+      for (let i = 0; i < records.length; i += info.chunkSize) {
+        if (cancelledRef.current) break;
+
+        const response = await fetch('/api/crm-export', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            destination,
+            connection,
+            keyField,
+            records: records.slice(i, i + info.chunkSize),
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Export failed (${response.status})`);
+        }
+
+        const chunk = data as CrmUpsertResult;
+        total.created += chunk.created;
+        total.updated += chunk.updated;
+        total.failed += chunk.failed;
+        total.errors.push(...chunk.errors);
+        setSent(Math.min(i + info.chunkSize, records.length));
+        setSummary({ ...total, errors: [...total.errors] });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const connectionComplete =
+    connection.token.trim() !== '' &&
+    info.connectionFields.every((field) => (connection[field.key] ?? '').trim() !== '');
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent className="max-w-2xl">
+        <ModalHeader>
+          <ModalTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Send to CRM
+          </ModalTitle>
+          <ModalDescription>
+            Create or update {records.length.toLocaleString()} records, matched on{' '}
+            {CRM_KEY_SOURCES[keySource].toLowerCase()}. Your token is only used for this export.
+          </ModalDescription>
+        </ModalHeader>
+
+        <div className="space-y-5">
+          <div className="flex gap-2">
+            {(Object.keys(CRM_DESTINATIONS) as CrmDestination[]).map((d) => (
+              <Button
+                key={d}
+                size="sm"
+                variant={destination === d ? 'default' : 'outline'}
+                onClick={() => setDestination(d)}
+                disabled={sending}
+              >
+                {CRM_DESTINATIONS[d].label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{info.tokenLabel}</label>
+            <div className="relative">
+              <Input
+                type={showToken ? 'text' : 'password'}
+                value={connection.token}
+                onChange={(e) => setConnection((prev) => ({ ...prev, token: e.target.value }))}
+                className="pr-10"
+              />
+              <button
+                type="button"
+                onClick={() => setShowToken(!showToken)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              >
+                {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </button>
+            </div>
+            {info.connectionFields.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-sm font-medium">{field.label}</label>
+                <Input
+                  value={connection[field.key] ?? ''}
+                  placeholder={field.placeholder}
+                  onChange={(e) => setConnection((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                className="rounded"
+              />
+              Remember token and mapping on this device
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Field mapping</p>
+              <label className="flex items-center gap-2 text-sm">
+                Match on
+                <select
+                  className="h-8 px-2 border rounded bg-background"
+                  value={keySource}
+                  onChange={(e) => setKeySource(e.target.value as CrmKeySource)}
+                >
+                  {(Object.keys(CRM_KEY_SOURCES) as CrmKeySource[]).map((key) => (
+                    <option key={key} value={key}>
+                      {CRM_KEY_SOURCES[key]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {mapping.map((m, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <select
+                    className="h-8 px-2 border rounded bg-background w-44"
+                    value={m.source}
+                    onChange={(e) => updateMapping(index, { source: e.target.value })}
+                  >
+                    {sources.map((source) => (
+                      <option key={source} value={source}>
+                        {source}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-muted-foreground">→</span>
+                  <Input
+                    value={m.target}
+                    onChange={(e) => updateMapping(index, { target: e.target.value })}
+                    placeholder={`${info.label} field`}
+                    className="h-8 flex-1"
+                  />
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => setMapping((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            {mapping.length < MAX_CRM_MAPPINGS && (
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:text-foreground"
+                onClick={() => setMapping((prev) => [...prev, { source: sources[0], target: '' }])}
+              >
+                + Add field
+              </button>
+            )}
+          </div>
+
+          {mappingError && <p className="text-sm text-destructive">{mappingError}</p>}
+          {tooMany && (
+            <p className="text-sm text-destructive">
+              {info.label} exports are limited to {info.maxRecords.toLocaleString()} records; narrow the
+              table with a segment or filter first.
+            </p>
+          )}
+          {error && (
+            <p className="text-sm text-destructive flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {error}
+            </p>
+          )}
+
+          {summary && (
+            <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+              <p className="flex items-center gap-2">
+                {!sending && !error && <CheckCircle2 className="h-4 w-4 text-green-500" />}
+                {summary.created.toLocaleString()} created, {summary.updated.toLocaleString()} updated
+                {summary.failed > 0 && `, ${summary.failed.toLocaleString()} failed`}
+              </p>
+              {summary.errors.slice(0, 5).map((e, i) => (
+                <p key={i} className="text-muted-foreground truncate" title={e}>
+                  {e}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {sending && (
+              <span className="mr-auto text-sm text-muted-foreground">
+                {sent.toLocaleString()} / {records.length.toLocaleString()}
+              </span>
+            )}
+            {sending ? (
+              <Button variant="outline" onClick={() => (cancelledRef.current = true)}>
+                Stop
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            )}
+            <Button
+              onClick={handleSend}
+              disabled={sending || !connectionComplete || !!mappingError || records.length === 0 || tooMany}
+            >
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Send {records.length.toLocaleString()} to {info.label}
+            </Button>
+          </div>
+        </div>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Download, Upload, X, Loader2 } from 'lucide-react';
+import {
+  DM_SUPPRESSION_REASONS,
+  MAX_DM_COOLDOWN_DAYS,
+  exportSuppressionsAsCSV,
+  parseSuppressionCSV,
+  type DMSuppressionEntry,
+  type DMSuppressionInput,
+  type StoredDMSuppressionReason,
+} from '@/lib/farcaster-dm';
+
+interface DMSuppressionPanelProps {
+  entries: DMSuppressionEntry[];
+  cooldownDays: number;
+  /** Reload the list (and suppressed FIDs) after a change */
+  onChanged: () => void;
+}
+
+// Entries listed inline; the export has all of them
+const VISIBLE_ENTRIES = 50;
+
+/**
+ * Manage the FIDs DM campaigns skip: opt-outs, blocklist, and the cooldown
+ * after which a prior recipient can be messaged again
+ */
+export function DMSuppressionPanel({ entries, cooldownDays, onChanged }: DMSuppressionPanelProps) {
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState<StoredDMSuppressionReason>('opt_out');
+  const [cooldown, setCooldown] = useState(String(cooldownDays));
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addEntries = async (inputs: DMSuppressionInput[]) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch('/api/dm-suppressions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries: inputs }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to update suppression list');
+        return false;
+      }
+
+      const unresolved: string[] = data.unresolved || [];
+      setNotice(
+        `Added ${data.added.toLocaleString()}` +
+          (unresolved.length > 0 ? ` · ${unresolved.length.toLocaleString()} usernames not found` : '')
+      );
+      onChanged();
+      return true;
+    } catch {
+      setError('Network error - please try again');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const trimmed = value.trim().replace(/^@/, '');
+    if (!trimmed) return;
+
+    const input: DMSuppressionInput = /^\d+$/.test(trimmed)
+      ? { fid: Number(trimmed), reason }
+      : { username: trimmed, reason };
+    if (await addEntries([input])) setValue('');
+  };
+
+  const handleImport = async (file: File) => {
+    const inputs = parseSuppressionCSV(await file.text());
+    if (inputs.length === 0) {
+      setError('No FIDs or usernames found in the file');
+      return;
+    }
+    await addEntries(inputs.map((input) => ({ reason, ...input })));
+  };
+
+  const handleExport = () => {
+    const csv = exportSuppressionsAsCSV(entries);
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `dm-suppression-list-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemove = async (fid: number) => {
+    try {
+      const res = await fetch(`/api/dm-suppressions/${fid}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(`HTTP error: ${res.status}`);
+    } catch (err) {
+      console.error('Failed to remove suppression:', err);
+    }
+    onChanged();
+  };
+
+  const handleCooldownSave = async () => {
+    const days = Number(cooldown);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DM_COOLDOWN_DAYS) {
+      setError(`Cooldown must be 0-${MAX_DM_COOLDOWN_DAYS} days`);
+      return;
+    }
+    if (days === cooldownDays) return;
+
+    setError(null);
+    try {
+      const res = await fetch('/api/dm-suppressions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cooldownDays: days }),
+      });
+      if (!res.ok) throw new Error(`HTTP error: ${res.status}`);
+      onChanged();
+    } catch (err) {
+      console.error('Failed to update DM cooldown:', err);
+      setError('Failed to update cooldown');
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="dmCooldown" className="text-muted-foreground">
+          Skip anyone DMed in the last
+        </label>
+        <Input
+          id="dmCooldown"
+          type="number"
+          min={0}
+          max={MAX_DM_COOLDOWN_DAYS}
+          value={cooldown}
+          onChange={(e) => setCooldown(e.target.value)}
+          onBlur={handleCooldownSave}
+          className="w-20 h-8"
+        />
+        <span className="text-muted-foreground">days (0 = off)</span>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="FID or @username"
+          className="flex-1 h-8"
+        />
+        <select
+          className="px-2 py-1 border rounded bg-background"
+          value={reason}
+          onChange={(e) => setReason(e.target.value as StoredDMSuppressionReason)}
+        >
+          <option value="opt_out">{DM_SUPPRESSION_REASONS.opt_out}</option>
+          <option value="blocklist">{DM_SUPPRESSION_REASONS.blocklist}</option>
+        </select>
+        <Button size="sm" onClick={handleAdd} disabled={busy || !value.trim()}>
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+          <Upload className="h-3 w-3 mr-1" />
+          Import CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="h-3 w-3 mr-1" />
+          Export CSV
+        </Button>
+      </div>
+
+      {notice && <p className="text-xs text-muted-foreground">{notice}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {entries.length > 0 && (
+        <div className="max-h-40 overflow-y-auto border rounded">
+          {entries.slice(0, VISIBLE_ENTRIES).map((entry) => (
+            <div
+              key={entry.fid}
+              className="flex items-center gap-2 px-3 py-1 text-xs border-b last:border-b-0"
+            >
+              <span className="font-medium">{entry.username ? `@${entry.username}` : `FID ${entry.fid}`}</span>
+              <span className="text-muted-foreground">{DM_SUPPRESSION_REASONS[entry.reason]}</span>
+              <button
+                type="button"
+                onClick={() => handleRemove(entry.fid)}
+                className="ml-auto text-muted-foreground hover:text-foreground"
+                title="Remove from suppression list"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {entries.length > VISIBLE_ENTRIES && (
+            <p className="px-3 py-1 text-xs text-muted-foreground">
+              and {(entries.length - VISIBLE_ENTRIES).toLocaleString()} more - export to see all
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,19 @@
 'use client';
 
-import { memo, useMemo } from 'react';
+import { memo, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Lock } from 'lucide-react';
-import { exportToCSV } from '@/lib/csv-parser';
+import { ChevronDown, Lock } from 'lucide-react';
+import { exportToCSV, exportToTSV } from '@/lib/csv-parser';
+import {
+  exportToJSON,
+  exportToNDJSON,
+  getExportHeaders,
+  toExportRow,
+  toXlsxRow,
+} from '@/lib/export-formats';
+import { buildXlsx } from '@/lib/xlsx-writer';
+import { CrmExportModal } from '@/components/CrmExportModal';
+import { XOutreachModal } from '@/components/XOutreachModal';
 import { Analytics } from '@/lib/client-analytics';
 import type { WalletSocialResult } from '@/lib/types';
 
@@ -14,6 +24,8 @@ interface ExportButtonProps {
   userTier?: 'free' | 'pro' | 'unlimited';
   onUpgradeClick?: () => void;
   lookupName?: string | null;
+  /** Saved lookup X outreach status is tracked against */
+  lookupId?: string | null;
 }
 
 export const ExportButton = memo(function ExportButton({
@@ -23,8 +35,13 @@ export const ExportButton = memo(function ExportButton({
   userTier = 'free',
   onUpgradeClick,
   lookupName,
+  lookupId,
 }: ExportButtonProps) {
   const isPaidTier = userTier === 'pro' || userTier === 'unlimited';
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [crmOpen, setCrmOpen] = useState(false);
+  const [outreachOpen, setOutreachOpen] = useState(false);
 
   // Generate filename base from lookup name or default
   const getFilenameBase = (prefix: string) => {
@@ -41,84 +58,84 @@ export const ExportButton = memo(function ExportButton({
     return `${prefix}-${date}`;
   };
 
-  // Memoize sorted results - only recalculate when results change
-  const sortedResults = useMemo(
-    () => [...results].sort((a, b) => (b.priority_score || 0) - (a.priority_score || 0)),
-    [results]
-  );
-
-  const handleExportCSV = () => {
-    // Track export click
-    Analytics.exportClicked('csv', results.length);
+  // Exports keep the order they are given (the table's filter and sort)
+  const headers = useMemo(() => getExportHeaders(results, extraColumns), [results, extraColumns]);
 
-    const headers = [
-      'wallet',
-      'ens_name',
-      'holdings',
-      ...extraColumns.filter(
-        (col) =>
-          !col.toLowerCase().includes('value') &&
-          !col.toLowerCase().includes('balance') &&
-          !col.toLowerCase().includes('holdings')
-      ),
-      'twitter_handle',
-      'twitter_url',
-      'farcaster',
-      'farcaster_url',
-      'fc_fid',
-      'fc_followers',
-      'priority_score',
-      'lens',
-      'github',
-      'source',
-    ];
-
-    const data = sortedResults.map((result) => ({
-      ...result,
-      holdings: result.holdings?.toFixed(2) || '',
-      priority_score: result.priority_score?.toFixed(2) || '',
-      source: result.source.join(','),
-    }));
-
-    const csv = exportToCSV(data, headers);
-
-    // Create and trigger download
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const download = (content: BlobPart, type: string, filename: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${getFilenameBase('walletlink-export')}.csv`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
-  const handleExportTwitterList = () => {
-    // Filter results that have Twitter handles and extract them
-    const twitterHandles = sortedResults
-      .filter((r) => r.twitter_handle)
-      .map((r) => `@${r.twitter_handle}`);
+  const handleExportCSV = () => {
+    // Track export click
+    Analytics.exportClicked('csv', results.length);
+
+    const csv = exportToCSV(results.map(toExportRow), headers);
+    download(csv, 'text/csv;charset=utf-8;', `${getFilenameBase('walletlink-export')}.csv`);
+  };
+
+  const handleExportXLSX = () => {
+    Analytics.exportClicked('xlsx', results.length);
+    setMenuOpen(false);
+
+    const xlsx = buildXlsx(
+      headers,
+      results.map((r) => toXlsxRow(r, headers)),
+      lookupName || 'Results'
+    );
+    download(
+      xlsx as Uint8Array<ArrayBuffer>,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      `${getFilenameBase('walletlink-export')}.xlsx`
+    );
+  };
+
+  const handleExportJSON = (format: 'json' | 'ndjson') => {
+    Analytics.exportClicked(format, results.length);
+    setMenuOpen(false);
+
+    const content =
+      format === 'json'
+        ? exportToJSON(results, extraColumns, lookupName)
+        : exportToNDJSON(results, extraColumns);
+    download(
+      content,
+      format === 'json' ? 'application/json;charset=utf-8;' : 'application/x-ndjson;charset=utf-8;',
+      `${getFilenameBase('walletlink-export')}.${format}`
+    );
+  };
 
-    if (twitterHandles.length === 0) {
-      alert('No Twitter handles found to export');
+  const handleOpenCrm = () => {
+    setMenuOpen(false);
+    if (!isPaidTier) {
+      onUpgradeClick?.();
       return;
     }
+    Analytics.exportClicked('crm', results.length);
+    setCrmOpen(true);
+  };
 
-    // Track export click
-    Analytics.exportClicked('twitter', twitterHandles.length);
+  const handleCopyTSV = async () => {
+    Analytics.exportClicked('tsv', results.length);
 
-    // Create text file with one handle per line
-    const content = twitterHandles.join('\n');
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${getFilenameBase('twitter-handles')}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    try {
+      await navigator.clipboard.writeText(exportToTSV(results.map(toExportRow), headers));
+      setCopied(true);
+      setTimeout(() => {
+        setCopied(false);
+        setMenuOpen(false);
+      }, 1500);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      alert('Could not copy to clipboard');
+    }
   };
 
   const twitterCount = results.filter((r) => r.twitter_handle).length;
@@ -128,9 +145,9 @@ export const ExportButton = memo(function ExportButton({
       {isPaidTier ? (
         <Button
           variant="outline"
-          onClick={handleExportTwitterList}
+          onClick={() => setOutreachOpen(true)}
           disabled={disabled || twitterCount === 0}
-          title={`Export ${twitterCount} Twitter handles`}
+          title={`Build X lists and an ads audience from ${twitterCount} Twitter handles`}
         >
           <svg
             className="w-4 h-4 mr-2"
@@ -140,7 +157,7 @@ export const ExportButton = memo(function ExportButton({
           >
             <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
           </svg>
-          Export Twitter list ({twitterCount})
+          X outreach ({twitterCount})
         </Button>
       ) : (
         <Button
@@ -176,6 +193,72 @@ export const ExportButton = memo(function ExportButton({
         </svg>
         Export CSV
       </Button>
+      <div className="relative">
+        <Button
+          variant="outline"
+          onClick={() => setMenuOpen((open) => !open)}
+          disabled={disabled || results.length === 0}
+          title="XLSX, JSON, NDJSON or copy for spreadsheets"
+        >
+          More formats
+          <ChevronDown className="w-4 h-4 ml-1" />
+        </Button>
+        {menuOpen && (
+          <div className="absolute right-0 z-20 mt-1 w-52 rounded-md border bg-background shadow-lg py-1 text-sm">
+            <button
+              type="button"
+              className="block w-full px-3 py-2 text-left hover:bg-muted"
+              onClick={handleExportXLSX}
+            >
+              Excel (.xlsx)
+            </button>
+            <button
+              type="button"
+              className="block w-full px-3 py-2 text-left hover:bg-muted"
+              onClick={() => handleExportJSON('json')}
+            >
+              JSON
+            </button>
+            <button
+              type="button"
+              className="block w-full px-3 py-2 text-left hover:bg-muted"
+              onClick={() => handleExportJSON('ndjson')}
+            >
+              NDJSON (one per line)
+            </button>
+            <button
+              type="button"
+              className="block w-full px-3 py-2 text-left hover:bg-muted"
+              onClick={handleCopyTSV}
+            >
+              {copied ? 'Copied!' : 'Copy for spreadsheets (TSV)'}
+            </button>
+            <button
+              type="button"
+              className="flex w-full items-center px-3 py-2 text-left hover:bg-muted"
+              onClick={handleOpenCrm}
+            >
+              {!isPaidTier && <Lock className="w-3 h-3 mr-2" />}
+              Send to CRM (HubSpot, Airtable, Notion)
+            </button>
+          </div>
+        )}
+      </div>
+      <CrmExportModal
+        open={crmOpen}
+        onOpenChange={setCrmOpen}
+        results={results}
+        extraColumns={extraColumns}
+      />
+      {isPaidTier && (
+        <XOutreachModal
+          open={outreachOpen}
+          onOpenChange={setOutreachOpen}
+          results={results}
+          lookupId={lookupId}
+          getFilename={getFilenameBase}
+        />
+      )}
     </div>
   );
 });
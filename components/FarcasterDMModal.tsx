@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   Modal,
   ModalContent,
@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { DMSuppressionPanel } from '@/components/DMSuppressionPanel';
 import {
   Send,
   Download,
@@ -25,32 +26,60 @@ import {
   Key,
   MessageSquare,
   Play,
+  Pause,
   Square,
+  ShieldOff,
+  Plus,
+  X,
 } from 'lucide-react';
 import type { WalletSocialResult } from '@/lib/types';
 import {
   extractDMRecipients,
-  renderTemplate,
-  sendBatchDMs,
+  getDMExclusions,
   exportLogAsCSV,
   validateApiKey,
   testApiKey,
-  type DMRecipient,
-  type DMProgress,
+  MAX_DM_MESSAGE_LENGTH,
+  DM_SUPPRESSION_REASONS,
+  type DMCampaignDetail,
+  type DMCampaignSummary,
+  type DMSuppressionEntry,
+  type DMSuppressionMap,
+  type DMSuppressionReason,
 } from '@/lib/farcaster-dm';
+import {
+  DM_TEMPLATE_VARIABLES,
+  MAX_DM_VARIANTS,
+  compileTemplate,
+  pickTemplateFields,
+  validateTemplate,
+  variantLabel,
+} from '@/lib/dm-templates';
 
 interface FarcasterDMModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   results: WalletSocialResult[];
+  /** Columns of the uploaded file beyond the wallet, usable as template variables */
+  extraColumns?: string[];
 }
 
 type Step = 'configure' | 'preview' | 'sending' | 'complete';
 
-const MAX_MESSAGE_LENGTH = 500;
+interface SuppressionState {
+  entries: DMSuppressionEntry[];
+  cooldownDays: number;
+  suppressed: DMSuppressionMap;
+}
+
 const API_KEY_STORAGE_KEY = 'warpcast_api_key';
+const POLL_INTERVAL_MS = 3000;
 
-export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMModalProps) {
+function isActive(campaign: DMCampaignSummary): boolean {
+  return campaign.status === 'sending' || campaign.status === 'paused';
+}
+
+export function FarcasterDMModal({ open, onOpenChange, results, extraColumns = [] }: FarcasterDMModalProps) {
   // Step state
   const [step, setStep] = useState<Step>('configure');
 
@@ -58,17 +87,47 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
   const [apiKey, setApiKey] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [saveApiKey, setSaveApiKey] = useState(false);
-  const [message, setMessage] = useState('');
+  // One template per A/B variant, assigned round-robin when sending
+  const [messages, setMessages] = useState<string[]>(['']);
+  const [activeVariant, setActiveVariant] = useState(0);
   const [testingKey, setTestingKey] = useState(false);
   const [keyValid, setKeyValid] = useState<boolean | null>(null);
   const [keyError, setKeyError] = useState<string | null>(null);
 
-  // Sending state
-  const [progress, setProgress] = useState<DMProgress | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  // Campaign state (sending runs on the server; we poll it)
+  const [campaign, setCampaign] = useState<DMCampaignDetail | null>(null);
+  const [actionPending, setActionPending] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
 
-  // Extract eligible recipients
-  const recipients = useMemo(() => extractDMRecipients(results), [results]);
+  // Suppression list (opt-outs, blocklist, recent recipients)
+  const [suppression, setSuppression] = useState<SuppressionState | null>(null);
+  const [showSuppression, setShowSuppression] = useState(false);
+
+  // Extract eligible recipients, leaving out suppressed FIDs
+  const recipients = useMemo(
+    () => extractDMRecipients(results, suppression?.suppressed),
+    [results, suppression]
+  );
+  const exclusions = useMemo(
+    () => getDMExclusions(results, suppression?.suppressed),
+    [results, suppression]
+  );
+  const excludedCount =
+    exclusions.byReason.opt_out + exclusions.byReason.blocklist + exclusions.byReason.recent;
+
+  const fetchSuppression = useCallback(async () => {
+    try {
+      const res = await fetch('/api/dm-suppressions');
+      if (!res.ok) return;
+      setSuppression(await res.json());
+    } catch (error) {
+      console.error('Failed to load DM suppression list:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) fetchSuppression();
+  }, [open, fetchSuppression]);
 
   // Load saved API key on mount
   useEffect(() => {
@@ -81,18 +140,65 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
     }
   }, [open]);
 
-  // Reset state when modal closes
+  // Reattach to a campaign that is still sending or paused
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/dm-campaigns');
+        if (!res.ok) return;
+        const data: { campaigns: DMCampaignSummary[] } = await res.json();
+        const active = data.campaigns.find(isActive);
+        if (active && !cancelled) {
+          setCampaign({ ...active, recentLog: [], variantStats: [] });
+          setStep('sending');
+        }
+      } catch (error) {
+        console.error('Failed to load DM campaigns:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  // Poll progress while the campaign is running
+  const campaignId = campaign?.id;
+  useEffect(() => {
+    if (!open || step !== 'sending' || !campaignId) return;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/dm-campaigns/${campaignId}`);
+        if (!res.ok) return;
+        const data: { campaign: DMCampaignDetail } = await res.json();
+        setCampaign(data.campaign);
+        if (!isActive(data.campaign)) {
+          setStep('complete');
+        }
+      } catch (error) {
+        console.error('Failed to poll DM campaign:', error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [open, step, campaignId]);
+
+  // Reset state when modal closes (the campaign keeps sending)
   useEffect(() => {
     if (!open) {
       setStep('configure');
-      setProgress(null);
+      setCampaign(null);
       setKeyValid(null);
       setKeyError(null);
       setTestingKey(false);
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        abortControllerRef.current = null;
-      }
+      setActionError(null);
+      setShowSuppression(false);
     }
   }, [open]);
 
@@ -124,72 +230,100 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
     } else {
       localStorage.removeItem(API_KEY_STORAGE_KEY);
     }
+    setActionError(null);
     setStep('preview');
   }, [apiKey, saveApiKey]);
 
-  // Start sending DMs
+  // Start the campaign on the server
   const handleStartSending = useCallback(async () => {
-    setStep('sending');
-    abortControllerRef.current = new AbortController();
-
-    await sendBatchDMs(
-      apiKey,
-      recipients,
-      message,
-      setProgress,
-      abortControllerRef.current.signal
-    );
-
-    setStep('complete');
-  }, [apiKey, recipients, message]);
-
-  // Cancel sending
-  const handleCancel = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-  }, []);
+    setActionPending(true);
+    setActionError(null);
+
+    try {
+      const res = await fetch('/api/dm-campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          apiKey,
+          templates: messages,
+          recipients: recipients.map((r) => pickTemplateFields(r, messages)),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setActionError(data.error || 'Failed to start sending');
+        return;
+      }
 
-  // Retry failed DMs
-  const handleRetryFailed = useCallback(async () => {
-    if (!progress?.failedRecipients.length) return;
-
-    setStep('sending');
-    abortControllerRef.current = new AbortController();
-
-    await sendBatchDMs(
-      apiKey,
-      progress.failedRecipients,
-      message,
-      (newProgress) => {
-        setProgress((prev) => ({
-          ...newProgress,
-          // Add previous sent count to new progress
-          sent: (prev?.sent || 0) - (prev?.failedRecipients.length || 0) + newProgress.sent,
-          log: [...(prev?.log || []).filter((l) => l.status === 'sent'), ...newProgress.log],
+      setCampaign({ ...data.campaign, recentLog: [], variantStats: [] });
+      setStep('sending');
+    } catch {
+      setActionError('Network error - please try again');
+    } finally {
+      setActionPending(false);
+    }
+  }, [apiKey, messages, recipients]);
+
+  // Pause, resume, cancel or retry the campaign
+  const handleAction = useCallback(
+    async (action: 'pause' | 'resume' | 'cancel' | 'retry') => {
+      if (!campaign) return;
+
+      setActionPending(true);
+      setActionError(null);
+
+      try {
+        const res = await fetch(`/api/dm-campaigns/${campaign.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(action === 'retry' || action === 'resume' ? { action, apiKey } : { action }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          setActionError(data.error || 'Failed to update campaign');
+          return;
+        }
+
+        const updated: DMCampaignSummary = data.campaign;
+        setCampaign((prev) => ({
+          ...updated,
+          recentLog: action === 'retry' ? [] : prev?.recentLog ?? [],
+          variantStats: prev?.variantStats ?? [],
         }));
-      },
-      abortControllerRef.current.signal
-    );
-
-    setStep('complete');
-  }, [apiKey, message, progress]);
-
-  // Download log as CSV
-  const handleDownloadLog = useCallback(() => {
-    if (!progress?.log.length) return;
-
-    const csv = exportLogAsCSV(progress.log);
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `farcaster-dm-log-${new Date().toISOString().slice(0, 10)}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [progress]);
+        setStep(isActive(updated) ? 'sending' : 'complete');
+      } catch {
+        setActionError('Network error - please try again');
+      } finally {
+        setActionPending(false);
+      }
+    },
+    [campaign, apiKey]
+  );
+
+  // Download the campaign's full log as CSV
+  const handleDownloadLog = useCallback(async () => {
+    if (!campaign) return;
+
+    try {
+      const res = await fetch(`/api/dm-campaigns/${campaign.id}/log`);
+      if (!res.ok) return;
+      const data = await res.json();
+      if (!data.log?.length) return;
+
+      const csv = exportLogAsCSV(data.log);
+      const blob = new Blob([csv], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `farcaster-dm-log-${campaign.createdAt.slice(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download DM log:', error);
+    }
+  }, [campaign]);
 
   // Preview message - prefer recipient with holdings data if available
   const previewRecipient = useMemo(() => {
@@ -198,13 +332,54 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
     return recipients.find(r => r.holdings !== undefined) || recipients[0];
   }, [recipients]);
 
-  const previewMessage = useMemo(() => {
-    if (!previewRecipient) return message;
-    return renderTemplate(message, previewRecipient);
-  }, [message, previewRecipient]);
+  // Every column any recipient carries, for unknown-variable checks
+  const fieldNames = useMemo(() => {
+    const names = new Set(extraColumns);
+    for (const r of recipients) {
+      for (const key of Object.keys(r.fields ?? {})) names.add(key);
+    }
+    return [...names];
+  }, [recipients, extraColumns]);
+
+  const templateErrors = useMemo(
+    () => messages.map((m) => (m.trim() ? validateTemplate(m, fieldNames) : null)),
+    [messages, fieldNames]
+  );
+
+  const previewMessages = useMemo(
+    () =>
+      messages.map((m, i) => {
+        if (!previewRecipient || templateErrors[i]) return m;
+        return compileTemplate(m)(previewRecipient);
+      }),
+    [messages, previewRecipient, templateErrors]
+  );
+
+  const message = messages[activeVariant] ?? '';
+  const setMessage = (update: (m: string) => string) =>
+    setMessages((prev) => prev.map((m, i) => (i === activeVariant ? update(m).slice(0, MAX_DM_MESSAGE_LENGTH) : m)));
+
+  const addVariant = () => {
+    if (messages.length >= MAX_DM_VARIANTS) return;
+    setMessages((prev) => [...prev, prev[activeVariant] ?? '']);
+    setActiveVariant(messages.length);
+  };
+
+  const removeVariant = (index: number) => {
+    setMessages((prev) => prev.filter((_, i) => i !== index));
+    setActiveVariant((active) => Math.max(0, active >= index ? active - 1 : active));
+  };
+
+  const variables = [
+    ...Object.keys(DM_TEMPLATE_VARIABLES),
+    ...extraColumns.filter((c) => !(c.toLowerCase() in DM_TEMPLATE_VARIABLES)),
+  ];
 
   // Can proceed to next step?
-  const canContinue = apiKey.trim().length > 0 && message.trim().length > 0;
+  const canContinue =
+    apiKey.trim().length > 0 &&
+    messages.every((m) => m.trim().length > 0) &&
+    templateErrors.every((e) => !e);
 
   return (
     <Modal open={open} onOpenChange={onOpenChange}>
@@ -215,7 +390,9 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
             Send Farcaster DMs
           </ModalTitle>
           <ModalDescription>
-            Send personalized direct messages to {recipients.length.toLocaleString()} Farcaster users in your results
+            {campaign
+              ? `${campaign.name} · ${campaign.total.toLocaleString()} recipients`
+              : `Send personalized direct messages to ${recipients.length.toLocaleString()} Farcaster users in your results`}
           </ModalDescription>
         </ModalHeader>
 
@@ -325,7 +502,8 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
                   <li>Create a new API key and paste it here</li>
                 </ol>
                 <p className="text-xs text-muted-foreground mt-2">
-                  Your API key is stored locally in your browser and never sent to our servers.
+                  Our servers only keep your API key while a campaign is sending or paused, and delete it when
+                  the campaign ends. &quot;Save API key&quot; stores it in this browser only.
                 </p>
               </div>
             </div>
@@ -335,33 +513,103 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
               <div className="flex items-center gap-2">
                 <MessageSquare className="h-4 w-4 text-muted-foreground" />
                 <label className="text-sm font-medium">Message</label>
+                <div className="ml-auto flex items-center gap-1">
+                  {messages.length > 1 &&
+                    messages.map((_, i) => (
+                      <span
+                        key={i}
+                        className={`flex items-center rounded text-xs ${
+                          i === activeVariant ? 'bg-purple-500 text-white' : 'bg-muted'
+                        } ${templateErrors[i] ? 'ring-1 ring-destructive' : ''}`}
+                      >
+                        <button type="button" onClick={() => setActiveVariant(i)} className="px-2 py-0.5">
+                          {variantLabel(i)}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeVariant(i)}
+                          className="pr-1 opacity-70 hover:opacity-100"
+                          title={`Remove variant ${variantLabel(i)}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                  {messages.length < MAX_DM_VARIANTS && (
+                    <button
+                      type="button"
+                      onClick={addVariant}
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      <Plus className="h-3 w-3" />
+                      {messages.length === 1 ? 'A/B variant' : 'Variant'}
+                    </button>
+                  )}
+                </div>
               </div>
 
               <div className="relative">
                 <textarea
                   value={message}
-                  onChange={(e) => setMessage(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+                  onChange={(e) => setMessage(() => e.target.value)}
                   placeholder={`Hey {{username}}! I noticed you hold some tokens...`}
                   className="w-full h-32 p-3 text-sm border rounded-lg resize-none bg-background"
                 />
                 <span className="absolute bottom-2 right-2 text-xs text-muted-foreground">
-                  {message.length}/{MAX_MESSAGE_LENGTH}
+                  {message.length}/{MAX_DM_MESSAGE_LENGTH}
                 </span>
               </div>
 
+              {templateErrors[activeVariant] && (
+                <p className="text-sm text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {templateErrors[activeVariant]}
+                </p>
+              )}
+
               <div className="flex flex-wrap gap-2 text-xs">
                 <span className="text-muted-foreground">Variables:</span>
-                {['{{username}}', '{{holdings}}', '{{ens}}', '{{wallet}}'].map((v) => (
+                {variables.map((v) => (
                   <button
                     key={v}
                     type="button"
-                    onClick={() => setMessage((m) => m + v)}
+                    onClick={() => setMessage((m) => m + `{{${v}}}`)}
+                    title={DM_TEMPLATE_VARIABLES[v] ?? 'Column from your file'}
                     className="px-2 py-0.5 bg-muted rounded hover:bg-muted/80 font-mono"
                   >
-                    {v}
+                    {`{{${v}}}`}
                   </button>
                 ))}
               </div>
+              <p className="text-xs text-muted-foreground">
+                Fallback when empty: <span className="font-mono">{'{{ens|there}}'}</span> · Conditional:{' '}
+                <span className="font-mono">{'{{#if holdings >= 1000}}...{{else}}...{{/if}}'}</span>
+                {messages.length > 1 && ' · Variants are assigned round-robin'}
+              </p>
+            </div>
+
+            {/* Suppression list */}
+            <div className="space-y-2">
+              <button
+                type="button"
+                onClick={() => setShowSuppression(!showSuppression)}
+                className="flex items-center gap-2 text-sm font-medium"
+              >
+                <ShieldOff className="h-4 w-4 text-muted-foreground" />
+                Suppression list
+                <span className="text-muted-foreground font-normal">
+                  ({(suppression?.entries.length ?? 0).toLocaleString()} blocked
+                  {excludedCount > 0 && `, ${excludedCount.toLocaleString()} excluded here`})
+                </span>
+                <ChevronRight className={`h-4 w-4 transition-transform ${showSuppression ? 'rotate-90' : ''}`} />
+              </button>
+              {showSuppression && suppression && (
+                <DMSuppressionPanel
+                  entries={suppression.entries}
+                  cooldownDays={suppression.cooldownDays}
+                  onChanged={fetchSuppression}
+                />
+              )}
             </div>
 
             {/* Continue button */}
@@ -386,6 +634,27 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
                 <span className="text-muted-foreground">Recipients</span>
                 <span className="font-medium">{recipients.length.toLocaleString()} users</span>
               </div>
+              {excludedCount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Excluded</span>
+                  <span className="font-medium text-right">
+                    {(Object.keys(exclusions.byReason) as DMSuppressionReason[])
+                      .filter((reason) => exclusions.byReason[reason] > 0)
+                      .map((reason) =>
+                        reason === 'recent'
+                          ? `${exclusions.byReason.recent.toLocaleString()} DMed in the last ${suppression?.cooldownDays} days`
+                          : `${exclusions.byReason[reason].toLocaleString()} ${DM_SUPPRESSION_REASONS[reason].toLowerCase()}`
+                      )
+                      .join(' · ')}
+                  </span>
+                </div>
+              )}
+              {exclusions.duplicates > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Same FID, other wallets</span>
+                  <span className="font-medium">{exclusions.duplicates.toLocaleString()} merged</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Estimated time</span>
                 <span className="font-medium">
@@ -397,9 +666,19 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
             {/* Preview message */}
             <div className="space-y-2">
               <p className="text-sm font-medium">Preview (for @{previewRecipient?.username}):</p>
-              <div className="p-3 bg-muted/50 rounded-lg text-sm whitespace-pre-wrap border">
-                {previewMessage || <span className="text-muted-foreground italic">Empty message</span>}
-              </div>
+              {previewMessages.map((preview, i) => (
+                <div key={i} className="space-y-1">
+                  {messages.length > 1 && (
+                    <p className="text-xs text-muted-foreground">
+                      Variant {variantLabel(i)} · ~
+                      {Math.ceil((recipients.length - i) / messages.length).toLocaleString()} recipients
+                    </p>
+                  )}
+                  <div className="p-3 bg-muted/50 rounded-lg text-sm whitespace-pre-wrap border">
+                    {preview || <span className="text-muted-foreground italic">Empty message</span>}
+                  </div>
+                </div>
+              ))}
               {previewRecipient && (
                 <p className="text-xs text-muted-foreground">
                   Data for this user: username="{previewRecipient.username}"
@@ -410,25 +689,31 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
               )}
             </div>
 
-            {/* Warning */}
-            <div className="p-3 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
-              <p className="font-medium flex items-center gap-1">
-                <AlertCircle className="h-4 w-4" />
-                Keep this tab open
-              </p>
-              <p className="mt-1 text-amber-700 dark:text-amber-300">
-                DMs are sent from your browser. Closing this tab will stop the process.
-              </p>
+            {/* Background note */}
+            <div className="p-3 bg-muted rounded-lg text-sm text-muted-foreground">
+              DMs are sent from our servers. You can close this window and come back to check progress,
+              pause or cancel.
             </div>
 
+            {actionError && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {actionError}
+              </p>
+            )}
+
             {/* Buttons */}
             <div className="flex justify-between">
               <Button variant="outline" onClick={() => setStep('configure')}>
                 <ChevronLeft className="h-4 w-4 mr-1" />
                 Back
               </Button>
-              <Button onClick={handleStartSending}>
-                <Play className="h-4 w-4 mr-1" />
+              <Button onClick={handleStartSending} disabled={actionPending || recipients.length === 0}>
+                {actionPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-1" />
+                )}
                 Start sending
               </Button>
             </div>
@@ -436,23 +721,31 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
         )}
 
         {/* Step 3: Sending */}
-        {step === 'sending' && progress && (
+        {step === 'sending' && campaign && (
           <div className="space-y-6">
             {/* Progress bar */}
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span>
-                  Sending to <span className="font-medium">@{progress.currentUsername}</span>
+                  {campaign.status === 'paused' ? (
+                    <span className="font-medium text-amber-600">Paused</span>
+                  ) : campaign.currentUsername ? (
+                    <>
+                      Sending to <span className="font-medium">@{campaign.currentUsername}</span>
+                    </>
+                  ) : (
+                    'Starting...'
+                  )}
                 </span>
                 <span>
-                  {progress.sent + progress.failed} / {progress.total}
+                  {campaign.sent + campaign.failed + campaign.skipped} / {campaign.total}
                 </span>
               </div>
               <div className="w-full bg-muted rounded-full h-2">
                 <div
                   className="bg-purple-500 h-2 rounded-full transition-all duration-300"
                   style={{
-                    width: `${((progress.sent + progress.failed) / progress.total) * 100}%`,
+                    width: `${((campaign.sent + campaign.failed + campaign.skipped) / campaign.total) * 100}%`,
                   }}
                 />
               </div>
@@ -461,94 +754,192 @@ export function FarcasterDMModal({ open, onOpenChange, results }: FarcasterDMMod
             {/* Stats */}
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center p-3 bg-muted rounded-lg">
-                <div className="text-2xl font-bold text-green-600">{progress.sent}</div>
+                <div className="text-2xl font-bold text-green-600">{campaign.sent}</div>
                 <div className="text-xs text-muted-foreground">Sent</div>
               </div>
               <div className="text-center p-3 bg-muted rounded-lg">
-                <div className="text-2xl font-bold text-red-600">{progress.failed}</div>
+                <div className="text-2xl font-bold text-red-600">{campaign.failed}</div>
                 <div className="text-xs text-muted-foreground">Failed</div>
               </div>
               <div className="text-center p-3 bg-muted rounded-lg">
                 <div className="text-2xl font-bold">
-                  {progress.total - progress.sent - progress.failed}
+                  {campaign.total - campaign.sent - campaign.failed - campaign.skipped}
                 </div>
                 <div className="text-xs text-muted-foreground">Remaining</div>
               </div>
             </div>
 
+            {/* Per-variant counts of an A/B campaign */}
+            {campaign.variantStats.length > 0 && (
+              <div className="border rounded-lg text-xs">
+                {campaign.variantStats.map((v) => (
+                  <div key={v.variant} className="flex justify-between px-3 py-1.5 border-b last:border-b-0">
+                    <span className="font-medium">Variant {v.variant}</span>
+                    <span className="text-muted-foreground">
+                      {v.sent.toLocaleString()} sent · {v.failed.toLocaleString()} failed
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Recent log entries */}
-            <div className="max-h-32 overflow-y-auto border rounded-lg">
-              {progress.log.slice(-5).reverse().map((entry, i) => (
-                <div
-                  key={i}
-                  className="flex items-center gap-2 px-3 py-1.5 text-xs border-b last:border-b-0"
-                >
-                  {entry.status === 'sent' ? (
-                    <CheckCircle2 className="h-3 w-3 text-green-500 flex-shrink-0" />
-                  ) : (
-                    <XCircle className="h-3 w-3 text-red-500 flex-shrink-0" />
-                  )}
-                  <span className="font-medium">@{entry.username}</span>
-                  {entry.error && (
-                    <span className="text-muted-foreground truncate">{entry.error}</span>
-                  )}
-                </div>
-              ))}
-            </div>
+            {campaign.recentLog.length > 0 && (
+              <div className="max-h-32 overflow-y-auto border rounded-lg">
+                {campaign.recentLog.map((entry, i) => (
+                  <div
+                    key={i}
+                    className="flex items-center gap-2 px-3 py-1.5 text-xs border-b last:border-b-0"
+                  >
+                    {entry.status === 'sent' ? (
+                      <CheckCircle2 className="h-3 w-3 text-green-500 flex-shrink-0" />
+                    ) : entry.status === 'skipped' ? (
+                      <ShieldOff className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                    ) : (
+                      <XCircle className="h-3 w-3 text-red-500 flex-shrink-0" />
+                    )}
+                    <span className="font-medium">@{entry.username}</span>
+                    {entry.variant && <span className="text-muted-foreground">{entry.variant}</span>}
+                    {entry.error && (
+                      <span className="text-muted-foreground truncate">{entry.error}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
 
-            {/* Cancel button */}
-            <div className="flex justify-center">
-              <Button variant="outline" onClick={handleCancel}>
+            <p className="text-xs text-center text-muted-foreground">
+              Sending continues if you close this window.
+            </p>
+
+            {actionError && (
+              <p className="text-sm text-destructive flex items-center justify-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {actionError}
+              </p>
+            )}
+
+            {/* Resuming needs the key again - the server dropped it on pause */}
+            {campaign.status === 'paused' && (
+              <Input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Warpcast API key (needed to resume)"
+              />
+            )}
+
+            {/* Controls */}
+            <div className="flex justify-center gap-2">
+              {campaign.status === 'paused' ? (
+                <Button
+                  variant="outline"
+                  onClick={() => handleAction('resume')}
+                  disabled={actionPending || !validateApiKey(apiKey)}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => handleAction('pause')} disabled={actionPending}>
+                  <Pause className="h-4 w-4 mr-1" />
+                  Pause
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => handleAction('cancel')} disabled={actionPending}>
                 <Square className="h-4 w-4 mr-1" />
-                Stop sending
+                Cancel campaign
               </Button>
             </div>
           </div>
         )}
 
         {/* Step 4: Complete */}
-        {step === 'complete' && progress && (
+        {step === 'complete' && campaign && (
           <div className="space-y-6">
             {/* Summary */}
             <div className="text-center space-y-2">
-              {progress.status === 'cancelled' ? (
-                <AlertCircle className="h-12 w-12 mx-auto text-amber-500" />
-              ) : progress.failed === 0 ? (
+              {campaign.status === 'completed' && campaign.failed === 0 ? (
                 <CheckCircle2 className="h-12 w-12 mx-auto text-green-500" />
               ) : (
                 <AlertCircle className="h-12 w-12 mx-auto text-amber-500" />
               )}
               <h3 className="text-xl font-semibold">
-                {progress.status === 'cancelled'
+                {campaign.status === 'cancelled'
                   ? 'Sending cancelled'
-                  : progress.failed === 0
-                    ? 'All DMs sent successfully'
-                    : 'Sending complete with some failures'}
+                  : campaign.status === 'failed'
+                    ? 'Sending stopped'
+                    : campaign.failed === 0
+                      ? 'All DMs sent successfully'
+                      : 'Sending complete with some failures'}
               </h3>
+              {campaign.error && (
+                <p className="text-sm text-muted-foreground">{campaign.error}</p>
+              )}
+              {campaign.skipped > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {campaign.skipped.toLocaleString()} skipped - added to your suppression list while sending
+                </p>
+              )}
             </div>
 
             {/* Final stats */}
             <div className="grid grid-cols-2 gap-4">
               <div className="text-center p-4 bg-green-50 dark:bg-green-950/30 rounded-lg">
-                <div className="text-3xl font-bold text-green-600">{progress.sent}</div>
+                <div className="text-3xl font-bold text-green-600">{campaign.sent}</div>
                 <div className="text-sm text-green-700 dark:text-green-400">Sent successfully</div>
               </div>
               <div className="text-center p-4 bg-red-50 dark:bg-red-950/30 rounded-lg">
-                <div className="text-3xl font-bold text-red-600">{progress.failed}</div>
+                <div className="text-3xl font-bold text-red-600">{campaign.failed}</div>
                 <div className="text-sm text-red-700 dark:text-red-400">Failed</div>
               </div>
             </div>
 
+            {/* Per-variant counts of an A/B campaign */}
+            {campaign.variantStats.length > 0 && (
+              <div className="border rounded-lg text-xs">
+                {campaign.variantStats.map((v) => (
+                  <div key={v.variant} className="flex justify-between px-3 py-1.5 border-b last:border-b-0">
+                    <span className="font-medium">Variant {v.variant}</span>
+                    <span className="text-muted-foreground">
+                      {v.sent.toLocaleString()} sent · {v.failed.toLocaleString()} failed
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Retrying needs the key again - the server dropped it when the campaign ended */}
+            {campaign.status !== 'cancelled' && campaign.sent + campaign.skipped < campaign.total && (
+              <Input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Warpcast API key (needed to retry)"
+              />
+            )}
+
+            {actionError && (
+              <p className="text-sm text-destructive flex items-center justify-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {actionError}
+              </p>
+            )}
+
             {/* Actions */}
             <div className="flex flex-wrap gap-2 justify-center">
               <Button variant="outline" onClick={handleDownloadLog}>
                 <Download className="h-4 w-4 mr-1" />
                 Download log (CSV)
               </Button>
-              {progress.failedRecipients.length > 0 && (
-                <Button variant="outline" onClick={handleRetryFailed}>
+              {campaign.status !== 'cancelled' && campaign.sent + campaign.skipped < campaign.total && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleAction('retry')}
+                  disabled={actionPending || !validateApiKey(apiKey)}
+                >
                   <RefreshCw className="h-4 w-4 mr-1" />
-                  Retry {progress.failedRecipients.length} failed
+                  Retry {(campaign.total - campaign.sent - campaign.skipped).toLocaleString()} unsent
                 </Button>
               )}
             </div>
@@ -3,14 +3,18 @@
 import { useCallback, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { ParseProgress } from '@/lib/csv-parser';
 
 interface FileUploadProps {
   onFileLoaded: (file: File) => void;
   disabled?: boolean;
   compact?: boolean;
+  /** Set while the parent is reading the file */
+  progress?: ParseProgress | null;
 }
 
-export function FileUpload({ onFileLoaded, disabled, compact }: FileUploadProps) {
+export function FileUpload({ onFileLoaded, disabled, compact, progress }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -98,7 +102,22 @@ export function FileUpload({ onFileLoaded, disabled, compact }: FileUploadProps)
           {fileName ? (
             <div className="space-y-2">
               <p className="text-sm font-medium">{fileName}</p>
+              {progress && (
+                <div className="w-64 space-y-1">
+                  <Progress
+                    value={
+                      progress.totalBytes > 0
+                        ? (progress.bytesRead / progress.totalBytes) * 100
+                        : 0
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Reading file... {progress.rows.toLocaleString()} rows
+                  </p>
+                </div>
+              )}
               <Button
+                disabled={!!progress}
                 variant="outline"
                 size="sm"
                 onClick={() => {
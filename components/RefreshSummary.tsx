@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import type { LookupRefreshSummary, SocialChange } from '@/lib/lookup-refresh';
+
+interface RefreshSummaryProps {
+  refresh: LookupRefreshSummary;
+  onDismiss: () => void;
+}
+
+const FIELD_LABELS: Record<SocialChange['field'], string> = {
+  twitter_handle: 'Twitter',
+  farcaster: 'Farcaster',
+  ens_name: 'ENS',
+  lens: 'Lens',
+  github: 'GitHub',
+};
+
+const MAX_LISTED_CHANGES = 100;
+
+function describeChange(change: SocialChange): string {
+  const label = FIELD_LABELS[change.field];
+  switch (change.kind) {
+    case 'added':
+      return `${label} ${change.after}`;
+    case 'changed':
+      return `${label} ${change.before} → ${change.after}`;
+    case 'lost':
+      return `${label} ${change.before} no longer linked`;
+  }
+}
+
+/**
+ * What the last "refresh this lookup" run changed
+ */
+export function RefreshSummary({ refresh, onDismiss }: RefreshSummaryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const totalChanges = refresh.addedCount + refresh.changedCount + refresh.lostCount;
+
+  return (
+    <div className="p-3 bg-muted rounded-lg text-sm space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">
+            {refresh.status === 'failed'
+              ? 'Refresh failed - stored results were not changed'
+              : totalChanges === 0
+                ? 'Refresh complete - no social changes'
+                : `Refresh complete - ${refresh.addedCount} new, ${refresh.changedCount} changed, ${refresh.lostCount} lost`}
+          </p>
+          <p className="text-muted-foreground">
+            Re-checked {refresh.walletsChecked.toLocaleString()} wallets
+            {refresh.walletsBilled < refresh.walletsChecked &&
+              ` (${refresh.walletsBilled.toLocaleString()} counted against your quota)`}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          {refresh.changes.length > 0 && (
+            <button
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => setExpanded(!expanded)}
+            >
+              {expanded ? 'Hide changes' : 'Show changes'}
+            </button>
+          )}
+          <button className="text-muted-foreground hover:text-foreground" onClick={onDismiss}>
+            Dismiss
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ul className="max-h-60 overflow-y-auto space-y-1 font-mono text-xs">
+          {refresh.changes.slice(0, MAX_LISTED_CHANGES).map((change) => (
+            <li
+              key={`${change.wallet}-${change.field}`}
+              className={
+                change.kind === 'lost'
+                  ? 'text-red-600 dark:text-red-400'
+                  : change.kind === 'added'
+                    ? 'text-green-600 dark:text-green-400'
+                    : ''
+              }
+            >
+              {change.wallet.slice(0, 6)}...{change.wallet.slice(-4)} {describeChange(change)}
+            </li>
+          ))}
+          {refresh.changes.length > MAX_LISTED_CHANGES && (
+            <li className="text-muted-foreground">
+              and {(refresh.changes.length - MAX_LISTED_CHANGES).toLocaleString()} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
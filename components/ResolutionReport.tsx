@@ -0,0 +1,73 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { ResolvedIdentifier } from '@/lib/identifiers';
+
+interface ResolutionReportProps {
+  report: ResolvedIdentifier[];
+}
+
+const VIA_LABELS: Record<NonNullable<ResolvedIdentifier['via']>, string> = {
+  ens: 'ENS',
+  basenames: 'Basename',
+  sns: 'SNS',
+  twitter: 'Twitter',
+  farcaster: 'Farcaster',
+};
+
+/**
+ * Per-row summary of names/handles that were forward-resolved before the lookup
+ */
+export const ResolutionReport = memo(function ResolutionReport({
+  report,
+}: ResolutionReportProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (report.length === 0) return null;
+
+  const resolved = report.filter((r) => r.status === 'resolved');
+  const skipped = report.length - resolved.length;
+  const walletCount = resolved.reduce((sum, r) => sum + r.wallets.length, 0);
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        Resolved {resolved.length.toLocaleString()} of {report.length.toLocaleString()} names
+        and handles to {walletCount.toLocaleString()} wallets
+        {skipped > 0 && (
+          <span className="text-amber-600 dark:text-amber-400">
+            {' '}({skipped.toLocaleString()} skipped)
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 max-h-60 overflow-y-auto border rounded-lg divide-y bg-background">
+          {report.map((r, i) => (
+            <div key={`${r.input}-${i}`} className="flex items-center justify-between gap-4 px-3 py-1.5">
+              <span className="font-mono truncate">{r.input}</span>
+              {r.status === 'resolved' ? (
+                <span className="text-right text-muted-foreground truncate">
+                  {r.via && <span className="mr-2 text-xs">{VIA_LABELS[r.via]}</span>}
+                  <span className="font-mono">
+                    {r.wallets.map((w) => `${w.slice(0, 6)}...${w.slice(-4)}`).join(', ')}
+                  </span>
+                </span>
+              ) : (
+                <span className="text-right text-amber-600 dark:text-amber-400 truncate">
+                  {r.reason || 'Not found'}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -5,6 +5,13 @@ import { useVirtualizer } from '@tanstack/react-virtual';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Lock } from 'lucide-react';
+import { isSolanaAddress, normalizeWallet } from '@/lib/wallets';
+import { getResultValue, parseHoldingsValue } from '@/lib/csv-parser';
+import { DEFAULT_PRIORITY_FORMULA } from '@/lib/scoring';
+import { ScoringFormulaEditor } from '@/components/ScoringFormulaEditor';
+import { SegmentBuilder, type SegmentOption } from '@/components/SegmentBuilder';
+import { describeSegment, filterBySegment, type SegmentDefinition } from '@/lib/segment-filter';
+import { describeProvenance } from '@/lib/provenance';
 import type { WalletSocialResult } from '@/lib/types';
 
 /**
@@ -31,8 +38,25 @@ interface ResultsTableProps {
   userTier?: 'free' | 'pro' | 'unlimited';
   onUpgradeClick?: () => void;
   enrichedWallets?: Set<string>; // Wallets that have been enriched since last view
+  priorityFormula?: string | null; // null = default formula
+  canSaveFormula?: boolean;
+  onPriorityFormulaChange?: (formula: string | null, save: boolean) => Promise<void> | void;
+  segment?: SegmentDefinition | null; // null = everyone
+  savedSegments?: SegmentOption[];
+  canSaveSegment?: boolean;
+  onSegmentChange?: (segment: SegmentDefinition | null) => void;
+  onSaveSegment?: (name: string, segment: SegmentDefinition) => Promise<void> | void;
+  onDeleteSegment?: (id: string) => Promise<void> | void;
+  /** Rows currently shown, after segment, filters, search and sort (drives exports) */
+  onVisibleResultsChange?: (results: WalletSocialResult[]) => void;
 }
 
+type OnchainField =
+  | 'native_balance'
+  | 'token_balance'
+  | 'tx_count'
+  | 'first_seen_block'
+  | 'last_active_block';
 type SortField =
   | 'wallet'
   | 'twitter_handle'
@@ -40,17 +64,38 @@ type SortField =
   | 'fc_followers'
   | 'ens_name'
   | 'holdings'
-  | 'priority_score';
+  | 'priority_score'
+  | OnchainField;
 type SortDirection = 'asc' | 'desc';
 
 const ROW_HEIGHT = 44; // Fixed row height for virtualization
 
+// Onchain enrichment columns, shown only when the lookup fetched them
+const ONCHAIN_COLUMNS: { field: OnchainField; label: string; title: string }[] = [
+  { field: 'native_balance', label: 'Balance', title: 'Native token balance' },
+  { field: 'token_balance', label: 'Token', title: 'Balance of the chosen token contract' },
+  { field: 'tx_count', label: 'Txs', title: 'Transactions sent' },
+  { field: 'first_seen_block', label: 'First seen', title: 'Block of the first transfer in or out' },
+  { field: 'last_active_block', label: 'Last active', title: 'Block of the last transfer sent' },
+];
+const ONCHAIN_FIELDS = new Set<SortField>(ONCHAIN_COLUMNS.map((c) => c.field));
+
 export const ResultsTable = memo(function ResultsTable({
   results,
   extraColumns = [],
   userTier = 'free',
   onUpgradeClick,
   enrichedWallets,
+  priorityFormula = null,
+  canSaveFormula,
+  onPriorityFormulaChange,
+  segment = null,
+  savedSegments = [],
+  canSaveSegment,
+  onSegmentChange,
+  onSaveSegment,
+  onDeleteSegment,
+  onVisibleResultsChange,
 }: ResultsTableProps) {
   const isPaidTier = userTier === 'pro' || userTier === 'unlimited';
   const [search, setSearch] = useState('');
@@ -61,6 +106,8 @@ export const ResultsTable = memo(function ResultsTable({
   const [sortField, setSortField] = useState<SortField>('priority_score');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [copiedWallet, setCopiedWallet] = useState<string | null>(null);
+  const [showScoringEditor, setShowScoringEditor] = useState(false);
+  const [showSegmentBuilder, setShowSegmentBuilder] = useState(false);
 
   const parentRef = useRef<HTMLDivElement>(null);
 
@@ -70,6 +117,11 @@ export const ResultsTable = memo(function ResultsTable({
     [results]
   );
 
+  const onchainColumns = useMemo(
+    () => ONCHAIN_COLUMNS.filter((c) => results.some((r) => r[c.field] !== undefined)),
+    [results]
+  );
+
   // Filter extra columns once
   const filteredExtraColumns = useMemo(
     () =>
@@ -82,8 +134,28 @@ export const ResultsTable = memo(function ResultsTable({
     [extraColumns]
   );
 
+  // File columns with numbers in them, offered as col("...") in the formula editor
+  const numericColumns = useMemo(
+    () =>
+      showScoringEditor
+        ? extraColumns.filter((col) =>
+            results.some((r) => {
+              const value = getResultValue(r, col);
+              return typeof value === 'string' && parseHoldingsValue(value) !== null;
+            })
+          )
+        : [],
+    [showScoringEditor, extraColumns, results]
+  );
+
+  // Columns offered for segment column filters
+  const segmentColumns = useMemo(
+    () => [...extraColumns, ...onchainColumns.map((c) => c.field)],
+    [extraColumns, onchainColumns]
+  );
+
   const filteredAndSorted = useMemo(() => {
-    let filtered = results;
+    let filtered = filterBySegment(results, segment);
 
     // Apply Twitter filter
     if (showOnlyTwitter) {
@@ -127,6 +199,15 @@ export const ResultsTable = memo(function ResultsTable({
           aVal = a.priority_score ?? 0;
           bVal = b.priority_score ?? 0;
           break;
+        case 'native_balance':
+        case 'token_balance':
+        case 'tx_count':
+        case 'first_seen_block':
+        case 'last_active_block':
+          // Missing values sort last
+          aVal = a[sortField];
+          bVal = b[sortField];
+          break;
         default:
           aVal = a[sortField] as string | undefined;
           bVal = b[sortField] as string | undefined;
@@ -147,6 +228,7 @@ export const ResultsTable = memo(function ResultsTable({
     return filtered;
   }, [
     results,
+    segment,
     debouncedSearch,
     showOnlyTwitter,
     showTopInfluencers,
@@ -154,6 +236,10 @@ export const ResultsTable = memo(function ResultsTable({
     sortDirection,
   ]);
 
+  useEffect(() => {
+    onVisibleResultsChange?.(filteredAndSorted);
+  }, [filteredAndSorted, onVisibleResultsChange]);
+
   // Virtualizer for efficient rendering of large lists
   const virtualizer = useVirtualizer({
     count: filteredAndSorted.length,
@@ -169,7 +255,7 @@ export const ResultsTable = memo(function ResultsTable({
         return field;
       }
       // Default to descending for numeric fields
-      if (field === 'fc_followers' || field === 'holdings' || field === 'priority_score') {
+      if (field === 'fc_followers' || field === 'holdings' || field === 'priority_score' || ONCHAIN_FIELDS.has(field)) {
         setSortDirection('desc');
       } else {
         setSortDirection('asc');
@@ -200,6 +286,15 @@ export const ResultsTable = memo(function ResultsTable({
     }).format(value);
   };
 
+  const formatOnchainValue = (field: OnchainField, value: number | undefined) => {
+    if (value === undefined) return '-';
+    if (field === 'native_balance' || field === 'token_balance') {
+      return value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+    }
+    if (field === 'tx_count') return value.toLocaleString();
+    return String(value);
+  };
+
   const formatPriorityScore = (value: number | undefined) => {
     if (value === undefined || value === 0) return '-';
     return value.toFixed(1);
@@ -235,7 +330,7 @@ export const ResultsTable = memo(function ResultsTable({
     return (
       <div
         className="flex items-center gap-0.5 cursor-help"
-        title={`Priority: ${formatPriorityScore(score)} (Based on holdings × follower reach)`}
+        title={`Priority: ${formatPriorityScore(score)} (${priorityFormula ?? DEFAULT_PRIORITY_FORMULA})`}
       >
         {[0, 1, 2, 3, 4].map((i) => (
           <div
@@ -265,7 +360,8 @@ export const ResultsTable = memo(function ResultsTable({
   // Calculate column count for grid
   const baseColumns = 6; // wallet, ens, twitter, farcaster, fc_followers, priority
   const columnCount =
-    baseColumns + (hasHoldings ? 1 : 0) + filteredExtraColumns.length;
+    baseColumns + (hasHoldings ? 1 : 0) + filteredExtraColumns.length + onchainColumns.length;
+  const gridTemplateColumns = `minmax(120px, 1fr) minmax(100px, 1fr) ${hasHoldings ? 'minmax(100px, 1fr) ' : ''}${filteredExtraColumns.map(() => 'minmax(80px, 1fr) ').join('')}${onchainColumns.map(() => 'minmax(100px, 1fr) ').join('')}minmax(120px, 1fr) minmax(120px, 1fr) minmax(100px, 1fr) minmax(140px, 1fr)`;
 
   return (
     <div className="space-y-4">
@@ -290,19 +386,66 @@ export const ResultsTable = memo(function ResultsTable({
         >
           {showTopInfluencers ? 'Top influencers (1K+)' : 'Top influencers'}
         </Button>
+        {onSegmentChange && (
+          <Button
+            variant={segment ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowSegmentBuilder(!showSegmentBuilder)}
+            title={segment ? describeSegment(segment) : 'Filter by holdings, followers, platforms or columns'}
+          >
+            {segment ? 'Segment active' : 'Segment'}
+          </Button>
+        )}
+        {segment && onSegmentChange && (
+          <Button variant="ghost" size="sm" onClick={() => onSegmentChange(null)}>
+            Clear segment
+          </Button>
+        )}
+        {isPaidTier && onPriorityFormulaChange && (
+          <Button
+            variant={priorityFormula ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowScoringEditor(!showScoringEditor)}
+            title={priorityFormula ?? 'Customize how the priority score is calculated'}
+          >
+            {priorityFormula ? 'Custom scoring' : 'Scoring'}
+          </Button>
+        )}
         <span className="text-sm text-muted-foreground">
           {filteredAndSorted.length.toLocaleString()} results
         </span>
       </div>
 
+      {showSegmentBuilder && onSegmentChange && (
+        <SegmentBuilder
+          segment={segment}
+          savedSegments={savedSegments}
+          results={results}
+          columns={segmentColumns}
+          canSave={canSaveSegment}
+          onApply={onSegmentChange}
+          onSave={onSaveSegment}
+          onDelete={onDeleteSegment}
+          onClose={() => setShowSegmentBuilder(false)}
+        />
+      )}
+
+      {showScoringEditor && onPriorityFormulaChange && (
+        <ScoringFormulaEditor
+          formula={priorityFormula}
+          columns={numericColumns}
+          canSave={canSaveFormula}
+          onApply={onPriorityFormulaChange}
+          onClose={() => setShowScoringEditor(false)}
+        />
+      )}
+
       <div className="border rounded-lg overflow-hidden">
         {/* Header */}
         <div className="bg-muted/50 border-b">
           <div
             className="grid text-sm font-medium text-muted-foreground"
-            style={{
-              gridTemplateColumns: `minmax(120px, 1fr) minmax(100px, 1fr) ${hasHoldings ? 'minmax(100px, 1fr) ' : ''}${filteredExtraColumns.map(() => 'minmax(80px, 1fr) ').join('')}minmax(120px, 1fr) minmax(120px, 1fr) minmax(100px, 1fr) minmax(140px, 1fr)`,
-            }}
+            style={{ gridTemplateColumns }}
           >
             <div
               className="px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors"
@@ -329,6 +472,16 @@ export const ResultsTable = memo(function ResultsTable({
                 {col}
               </div>
             ))}
+            {onchainColumns.map(({ field, label, title }) => (
+              <div
+                key={field}
+                className="px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors"
+                onClick={() => handleSort(field)}
+                title={title}
+              >
+                {label} <SortIcon field={field} />
+              </div>
+            ))}
             <div
               className="px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors"
               onClick={() => handleSort('twitter_handle')}
@@ -377,7 +530,7 @@ export const ResultsTable = memo(function ResultsTable({
             >
               {virtualizer.getVirtualItems().map((virtualRow) => {
                 const result = filteredAndSorted[virtualRow.index];
-                const isEnriched = enrichedWallets?.has(result.wallet.toLowerCase());
+                const isEnriched = enrichedWallets?.has(normalizeWallet(result.wallet));
                 return (
                   <div
                     key={result.wallet}
@@ -389,7 +542,7 @@ export const ResultsTable = memo(function ResultsTable({
                     style={{
                       height: `${virtualRow.size}px`,
                       transform: `translateY(${virtualRow.start}px)`,
-                      gridTemplateColumns: `minmax(120px, 1fr) minmax(100px, 1fr) ${hasHoldings ? 'minmax(100px, 1fr) ' : ''}${filteredExtraColumns.map(() => 'minmax(80px, 1fr) ').join('')}minmax(120px, 1fr) minmax(120px, 1fr) minmax(100px, 1fr) minmax(140px, 1fr)`,
+                      gridTemplateColumns,
                     }}
                   >
                     {/* Wallet */}
@@ -407,17 +560,38 @@ export const ResultsTable = memo(function ResultsTable({
                             </span>
                           )}
                         </button>
+                        {isSolanaAddress(result.wallet) && (
+                          <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-purple-600 text-white">
+                            SOL
+                          </span>
+                        )}
                         {isEnriched && (
                           <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-green-500 text-white">
                             NEW
                           </span>
                         )}
+                        {result.wallet_count !== undefined && result.wallet_count > 1 && (
+                          <span
+                            className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-muted text-muted-foreground"
+                            title={`Also holds:\n${result.linked_wallets?.join('\n') ?? ''}`}
+                          >
+                            +{result.wallet_count - 1}
+                          </span>
+                        )}
                       </div>
                     </div>
 
                     {/* ENS */}
-                    <div className="px-4 py-2 text-sm truncate">
+                    <div
+                      className="px-4 py-2 text-sm truncate"
+                      title={result.ens_name ? describeProvenance(result.provenance?.ens) : undefined}
+                    >
                       {result.ens_name || '-'}
+                      {result.ens_chain === 'base' && (
+                        <span className="ml-1.5 px-1.5 py-0.5 text-[10px] font-medium rounded bg-blue-600 text-white">
+                          BASE
+                        </span>
+                      )}
                     </div>
 
                     {/* Holdings */}
@@ -430,7 +604,14 @@ export const ResultsTable = memo(function ResultsTable({
                     {/* Extra columns */}
                     {filteredExtraColumns.map((col) => (
                       <div key={col} className="px-4 py-2 text-sm truncate">
-                        {(result[col] as string) || '-'}
+                        {(getResultValue(result, col) as string) || '-'}
+                      </div>
+                    ))}
+
+                    {/* Onchain columns */}
+                    {onchainColumns.map(({ field }) => (
+                      <div key={field} className="px-4 py-2 font-mono text-sm">
+                        {formatOnchainValue(field, result[field])}
                       </div>
                     ))}
 
@@ -445,6 +626,7 @@ export const ResultsTable = memo(function ResultsTable({
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-blue-500 hover:underline"
+                          title={describeProvenance(result.provenance?.twitter)}
                         >
                           @{result.twitter_handle}
                         </a>
@@ -464,6 +646,7 @@ export const ResultsTable = memo(function ResultsTable({
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-purple-500 hover:underline"
+                          title={describeProvenance(result.provenance?.farcaster)}
                         >
                           @{result.farcaster}
                         </a>
@@ -0,0 +1,147 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_PRIORITY_FORMULA,
+  MAX_FORMULA_LENGTH,
+  SCORING_VARIABLES,
+  validateFormula,
+} from '@/lib/scoring';
+
+interface ScoringFormulaEditorProps {
+  /** Current formula, null = default */
+  formula: string | null;
+  /** CSV columns that can be referenced with col("...") */
+  columns?: string[];
+  /** Signed-in users can save the formula to their account */
+  canSave?: boolean;
+  onApply: (formula: string | null, save: boolean) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const EXAMPLES = [
+  'holdings * log10(followers + 1) + 100 * has_twitter',
+  'platforms * 10 + sqrt(holdings)',
+  'if(has_twitter, holdings, holdings / 2)',
+];
+
+/**
+ * Edit the priority-score formula and re-score the current results with it
+ */
+export function ScoringFormulaEditor({
+  formula,
+  columns = [],
+  canSave,
+  onApply,
+  onClose,
+}: ScoringFormulaEditorProps) {
+  const [draft, setDraft] = useState(formula ?? DEFAULT_PRIORITY_FORMULA);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const error = useMemo(() => (draft.trim() ? validateFormula(draft) : null), [draft]);
+  const normalized = draft.trim() && draft.trim() !== DEFAULT_PRIORITY_FORMULA ? draft.trim() : null;
+
+  const handleApply = async (save: boolean) => {
+    setSaving(save);
+    setSaveError(null);
+    try {
+      await onApply(normalized, save);
+      onClose();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save formula');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">Priority score formula</p>
+          <p className="text-sm text-muted-foreground">
+            Re-ranks these results instantly. Saved formulas are also used for future lookups.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        maxLength={MAX_FORMULA_LENGTH}
+        rows={2}
+        spellCheck={false}
+        className="w-full px-3 py-2 font-mono text-sm border rounded bg-background"
+      />
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {saveError && <p className="text-sm text-red-600 dark:text-red-400">{saveError}</p>}
+
+      <details className="text-sm text-muted-foreground">
+        <summary className="cursor-pointer">Variables and functions</summary>
+        <div className="mt-2 space-y-2">
+          <ul className="grid gap-1 sm:grid-cols-2">
+            {Object.entries(SCORING_VARIABLES).map(([name, description]) => (
+              <li key={name}>
+                <code className="text-foreground">{name}</code> - {description}
+              </li>
+            ))}
+          </ul>
+          <p>
+            Operators: <code>+ - * / % ^</code>, comparisons, <code>&amp;&amp;</code>,{' '}
+            <code>||</code>. Functions: <code>log10 ln sqrt abs round floor ceil min max</code>,{' '}
+            <code>if(condition, then, else)</code>.
+          </p>
+          {columns.length > 0 && (
+            <p>
+              Numeric file columns:{' '}
+              {columns.map((c, i) => (
+                <span key={c}>
+                  {i > 0 && ', '}
+                  <code className="text-foreground">col(&quot;{c}&quot;)</code>
+                </span>
+              ))}
+            </p>
+          )}
+          <p>Examples:</p>
+          <ul className="space-y-1">
+            {EXAMPLES.map((example) => (
+              <li key={example}>
+                <button
+                  type="button"
+                  className="font-mono text-xs hover:text-foreground"
+                  onClick={() => setDraft(example)}
+                >
+                  {example}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </details>
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft(DEFAULT_PRIORITY_FORMULA)}
+          disabled={draft.trim() === DEFAULT_PRIORITY_FORMULA}
+        >
+          Reset to default
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleApply(false)} disabled={!!error}>
+          Apply
+        </Button>
+        {canSave && (
+          <Button size="sm" onClick={() => handleApply(true)} disabled={!!error || saving}>
+            {saving ? 'Saving...' : 'Apply and save'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
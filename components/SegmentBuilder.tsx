@@ -0,0 +1,332 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  COLUMN_OPERATORS,
+  MAX_COLUMN_PREDICATES,
+  SEGMENT_PLATFORMS,
+  describeSegment,
+  filterBySegment,
+  isEmptySegment,
+  validateSegment,
+  type ColumnOperator,
+  type ColumnPredicate,
+  type NumberRange,
+  type SegmentDefinition,
+  type SegmentPlatform,
+} from '@/lib/segment-filter';
+import type { WalletSocialResult } from '@/lib/types';
+
+export interface SegmentOption {
+  id: string;
+  name: string;
+  definition: SegmentDefinition;
+}
+
+interface SegmentBuilderProps {
+  /** Active segment, null = everyone */
+  segment: SegmentDefinition | null;
+  savedSegments: SegmentOption[];
+  /** Results the live match count is taken from */
+  results: WalletSocialResult[];
+  /** Columns offered for column filters */
+  columns: string[];
+  /** Signed-in users can save segments to their account */
+  canSave?: boolean;
+  onApply: (segment: SegmentDefinition | null) => void;
+  onSave?: (name: string, segment: SegmentDefinition) => Promise<void> | void;
+  onDelete?: (id: string) => Promise<void> | void;
+  onClose: () => void;
+}
+
+type EnsChoice = 'any' | 'yes' | 'no';
+
+const rangeToDraft = (range?: NumberRange) => ({
+  min: range?.min?.toString() ?? '',
+  max: range?.max?.toString() ?? '',
+});
+
+function draftToRange(draft: { min: string; max: string }): NumberRange | undefined {
+  const min = draft.min.trim() === '' ? undefined : Number(draft.min);
+  const max = draft.max.trim() === '' ? undefined : Number(draft.max);
+  return min === undefined && max === undefined ? undefined : { min, max };
+}
+
+/**
+ * Build an outreach segment (holdings/follower ranges, ENS, platforms, column
+ * filters) that narrows the table, the export and the DM recipients
+ */
+export function SegmentBuilder({
+  segment,
+  savedSegments,
+  results,
+  columns,
+  canSave,
+  onApply,
+  onSave,
+  onDelete,
+  onClose,
+}: SegmentBuilderProps) {
+  const [holdings, setHoldings] = useState(() => rangeToDraft(segment?.holdings));
+  const [followers, setFollowers] = useState(() => rangeToDraft(segment?.followers));
+  const [ens, setEns] = useState<EnsChoice>(
+    segment?.hasEns === undefined ? 'any' : segment.hasEns ? 'yes' : 'no'
+  );
+  const [platforms, setPlatforms] = useState<SegmentPlatform[]>(segment?.platforms ?? []);
+  const [predicates, setPredicates] = useState<ColumnPredicate[]>(segment?.columns ?? []);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const draft = useMemo<SegmentDefinition>(
+    () => ({
+      holdings: draftToRange(holdings),
+      followers: draftToRange(followers),
+      hasEns: ens === 'any' ? undefined : ens === 'yes',
+      platforms: platforms.length > 0 ? platforms : undefined,
+      columns: predicates.length > 0 ? predicates : undefined,
+    }),
+    [holdings, followers, ens, platforms, predicates]
+  );
+
+  const error = useMemo(() => validateSegment(draft), [draft]);
+  const matchCount = useMemo(
+    () => (error ? null : filterBySegment(results, draft).length),
+    [error, results, draft]
+  );
+
+  const loadSegment = (definition: SegmentDefinition) => {
+    setHoldings(rangeToDraft(definition.holdings));
+    setFollowers(rangeToDraft(definition.followers));
+    setEns(definition.hasEns === undefined ? 'any' : definition.hasEns ? 'yes' : 'no');
+    setPlatforms(definition.platforms ?? []);
+    setPredicates(definition.columns ?? []);
+  };
+
+  const togglePlatform = (platform: SegmentPlatform) => {
+    setPlatforms((prev) =>
+      prev.includes(platform) ? prev.filter((p) => p !== platform) : [...prev, platform]
+    );
+  };
+
+  const updatePredicate = (index: number, changes: Partial<ColumnPredicate>) => {
+    setPredicates((prev) => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const handleApply = () => {
+    onApply(isEmptySegment(draft) ? null : draft);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (!onSave || !name.trim()) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(name.trim(), draft);
+      setName('');
+      onApply(draft);
+      onClose();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save segment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rangeInputs = (
+    label: string,
+    value: { min: string; max: string },
+    onChange: (value: { min: string; max: string }) => void
+  ) => (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          placeholder="Min"
+          value={value.min}
+          onChange={(e) => onChange({ ...value, min: e.target.value })}
+          className="h-8"
+        />
+        <span className="text-muted-foreground">-</span>
+        <Input
+          type="number"
+          placeholder="Max"
+          value={value.max}
+          onChange={(e) => onChange({ ...value, max: e.target.value })}
+          className="h-8"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">Segment</p>
+          <p className="text-sm text-muted-foreground">
+            Narrows the table, CSV export and Farcaster DM recipients.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+
+      {savedSegments.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Saved:</span>
+          {savedSegments.map((saved) => (
+            <span key={saved.id} className="flex items-center gap-1 px-2 py-1 rounded bg-background border">
+              <button
+                type="button"
+                className="hover:text-foreground"
+                onClick={() => loadSegment(saved.definition)}
+                title={describeSegment(saved.definition)}
+              >
+                {saved.name}
+              </button>
+              {onDelete && (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-red-600"
+                  onClick={() => onDelete(saved.id)}
+                  title="Delete segment"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {rangeInputs('Holdings', holdings, setHoldings)}
+        {rangeInputs('Farcaster followers', followers, setFollowers)}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          ENS
+          <select
+            className="h-8 px-2 border rounded bg-background"
+            value={ens}
+            onChange={(e) => setEns(e.target.value as EnsChoice)}
+          >
+            <option value="any">Any</option>
+            <option value="yes">Has ENS</option>
+            <option value="no">No ENS</option>
+          </select>
+        </label>
+        <span className="text-muted-foreground">Has:</span>
+        {(Object.keys(SEGMENT_PLATFORMS) as SegmentPlatform[]).map((platform) => (
+          <label key={platform} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={platforms.includes(platform)}
+              onChange={() => togglePlatform(platform)}
+              className="rounded"
+            />
+            {SEGMENT_PLATFORMS[platform]}
+          </label>
+        ))}
+      </div>
+
+      {columns.length > 0 && (
+        <div className="space-y-2">
+          {predicates.map((predicate, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                className="h-8 px-2 border rounded bg-background"
+                value={predicate.column}
+                onChange={(e) => updatePredicate(index, { column: e.target.value })}
+              >
+                {columns.map((col) => (
+                  <option key={col} value={col}>
+                    {col}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="h-8 px-2 border rounded bg-background"
+                value={predicate.operator}
+                onChange={(e) => updatePredicate(index, { operator: e.target.value as ColumnOperator })}
+              >
+                {(Object.keys(COLUMN_OPERATORS) as ColumnOperator[]).map((op) => (
+                  <option key={op} value={op}>
+                    {COLUMN_OPERATORS[op]}
+                  </option>
+                ))}
+              </select>
+              {predicate.operator !== 'present' && predicate.operator !== 'missing' && (
+                <Input
+                  value={predicate.value ?? ''}
+                  onChange={(e) => updatePredicate(index, { value: e.target.value })}
+                  className="h-8 w-40"
+                />
+              )}
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() => setPredicates((prev) => prev.filter((_, i) => i !== index))}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {predicates.length < MAX_COLUMN_PREDICATES && (
+            <button
+              type="button"
+              className="text-sm text-muted-foreground hover:text-foreground"
+              onClick={() =>
+                setPredicates((prev) => [...prev, { column: columns[0], operator: 'equals', value: '' }])
+              }
+            >
+              + Add column filter
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {saveError && <p className="text-sm text-red-600 dark:text-red-400">{saveError}</p>}
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {matchCount !== null && (
+          <span className="mr-auto text-sm text-muted-foreground">
+            {matchCount.toLocaleString()} of {results.length.toLocaleString()} match
+          </span>
+        )}
+        <Button variant="outline" size="sm" onClick={() => loadSegment({})}>
+          Clear
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleApply} disabled={!!error}>
+          Apply
+        </Button>
+        {canSave && onSave && (
+          <>
+            <Input
+              placeholder="Segment name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              className="h-8 w-40"
+            />
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!!error || saving || !name.trim() || isEmptySegment(draft)}
+            >
+              {saving ? 'Saving...' : 'Apply and save'}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, memo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/components/AuthProvider';
+import { getPermissionStatus, sendNotification } from '@/lib/notifications';
+import { CHAIN_LABELS, SUPPORTED_CHAINS, type SupportedChain } from '@/lib/chains';
+import type { UserTier } from '@/lib/access';
+import type { WatchlistAlert, WatchlistFrequency } from '@/lib/watchlists';
+
+interface WatchlistItem {
+  id: string;
+  name: string;
+  sourceType: 'lookup' | 'contract';
+  frequency: WatchlistFrequency;
+  emailAlerts: boolean;
+  isActive: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string;
+}
+
+interface WatchlistsPanelProps {
+  userTier: UserTier;
+  /** Bump to reload the list after a watchlist is created elsewhere */
+  refreshKey?: number;
+}
+
+// How often to check for new in-app alerts
+const ALERT_POLL_INTERVAL = 5 * 60 * 1000;
+
+const FIELD_LABELS: Record<string, string> = {
+  twitter_handle: 'Twitter',
+  farcaster: 'Farcaster',
+  ens_name: 'ENS',
+  lens: 'Lens',
+  github: 'GitHub',
+};
+
+/**
+ * Scheduled watchlists plus their unread new-match alerts
+ */
+export const WatchlistsPanel = memo(function WatchlistsPanel({
+  userTier,
+  refreshKey = 0,
+}: WatchlistsPanelProps) {
+  const { user } = useAuth();
+  const [watchlists, setWatchlists] = useState<WatchlistItem[]>([]);
+  const [alerts, setAlerts] = useState<WatchlistAlert[]>([]);
+  const [contractAddress, setContractAddress] = useState('');
+  const [chain, setChain] = useState<SupportedChain>('ethereum');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const notifiedRunIds = useRef(new Set<string>());
+
+  const enabled = !!user && (userTier === 'pro' || userTier === 'unlimited');
+
+  const fetchWatchlists = useCallback(async () => {
+    try {
+      const res = await fetch('/api/watchlists');
+      if (!res.ok) return;
+      const data = await res.json();
+      setWatchlists(data.watchlists || []);
+    } catch (err) {
+      console.error('Failed to fetch watchlists:', err);
+    }
+  }, []);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/watchlists/alerts');
+      if (!res.ok) return;
+      const data = await res.json();
+      const unread: WatchlistAlert[] = data.alerts || [];
+      setAlerts(unread);
+
+      // Browser notification for alerts we haven't notified about this session
+      const fresh = unread.filter((a) => !notifiedRunIds.current.has(a.runId));
+      fresh.forEach((a) => notifiedRunIds.current.add(a.runId));
+      if (fresh.length > 0 && getPermissionStatus() === 'granted') {
+        const total = fresh.reduce((sum, a) => sum + a.newMatchCount, 0);
+        sendNotification('New watchlist matches', {
+          body: `${total} new ${total === 1 ? 'match' : 'matches'} in ${fresh.map((a) => a.watchlistName).join(', ')}`,
+          tag: 'watchlist-alerts',
+        });
+      }
+    } catch (err) {
+      console.error('Failed to fetch watchlist alerts:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchWatchlists();
+  }, [enabled, refreshKey, fetchWatchlists]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, ALERT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [enabled, fetchAlerts]);
+
+  const updateWatchlist = async (id: string, changes: Partial<WatchlistItem>) => {
+    setWatchlists((prev) => prev.map((w) => (w.id === id ? { ...w, ...changes } : w)));
+    try {
+      const res = await fetch(`/api/watchlists/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) throw new Error(`HTTP error: ${res.status}`);
+    } catch (err) {
+      console.error('Failed to update watchlist:', err);
+    }
+    fetchWatchlists();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Stop watching and delete this watchlist?')) return;
+    setWatchlists((prev) => prev.filter((w) => w.id !== id));
+    try {
+      await fetch(`/api/watchlists/${id}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to delete watchlist:', err);
+      fetchWatchlists();
+    }
+  };
+
+  const handleDismissAlerts = async () => {
+    const runIds = alerts.map((a) => a.runId);
+    setAlerts([]);
+    try {
+      await fetch('/api/watchlists/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runIds }),
+      });
+    } catch (err) {
+      console.error('Failed to mark alerts read:', err);
+    }
+  };
+
+  const handleWatchContract = async () => {
+    setCreating(true);
+    setFormError(null);
+    try {
+      const res = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contractAddress: contractAddress.trim(), chain }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP error: ${res.status}`);
+      setContractAddress('');
+      fetchWatchlists();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to create watchlist');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!enabled || (watchlists.length === 0 && alerts.length === 0 && userTier !== 'unlimited')) {
+    return null;
+  }
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Watchlists</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {alerts.length > 0 && (
+          <div className="p-3 rounded-lg bg-green-50 dark:bg-green-950/50 text-sm space-y-2">
+            {alerts.map((alert) => (
+              <div key={alert.runId}>
+                <p className="font-medium">
+                  {alert.newMatchCount} new match{alert.newMatchCount !== 1 ? 'es' : ''} in {alert.watchlistName}
+                </p>
+                <ul className="text-xs text-muted-foreground">
+                  {alert.newMatches.slice(0, 5).map((m) => (
+                    <li key={`${m.wallet}-${m.field}`}>
+                      {m.wallet.slice(0, 6)}...{m.wallet.slice(-4)} · {FIELD_LABELS[m.field] ?? m.field} {m.value}
+                    </li>
+                  ))}
+                  {alert.newMatches.length > 5 && <li>and {alert.newMatches.length - 5} more</li>}
+                </ul>
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" onClick={handleDismissAlerts}>
+              Mark as read
+            </Button>
+          </div>
+        )}
+
+        {watchlists.map((watchlist) => (
+          <div key={watchlist.id} className="p-3 bg-muted/50 rounded-lg space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className={`font-medium text-sm ${watchlist.isActive ? '' : 'text-muted-foreground'}`}>
+                  {watchlist.name}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {watchlist.isActive
+                    ? `Next run ${formatDate(watchlist.nextRunAt)}`
+                    : 'Paused'}
+                  {watchlist.lastRunAt && ` · last ran ${formatDate(watchlist.lastRunAt)}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(watchlist.id)}
+                className="text-muted-foreground"
+              >
+                Delete
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <select
+                className="px-2 py-1 border rounded bg-background"
+                value={watchlist.frequency}
+                onChange={(e) =>
+                  updateWatchlist(watchlist.id, { frequency: e.target.value as WatchlistFrequency })
+                }
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+              </select>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={watchlist.emailAlerts}
+                  onChange={(e) => updateWatchlist(watchlist.id, { emailAlerts: e.target.checked })}
+                  className="rounded"
+                />
+                Email
+              </label>
+              <button
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() => updateWatchlist(watchlist.id, { isActive: !watchlist.isActive })}
+              >
+                {watchlist.isActive ? 'Pause' : 'Resume'}
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {userTier === 'unlimited' && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Watch the holders of a contract</p>
+            <div className="flex gap-2">
+              <Input
+                placeholder="0x..."
+                value={contractAddress}
+                onChange={(e) => setContractAddress(e.target.value)}
+                className="font-mono text-xs"
+              />
+              <select
+                className="px-2 text-xs border rounded bg-background"
+                value={chain}
+                onChange={(e) => setChain(e.target.value as SupportedChain)}
+              >
+                {SUPPORTED_CHAINS.map((option) => (
+                  <option key={option} value={option}>
+                    {CHAIN_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {formError && <p className="text-xs text-red-600 dark:text-red-400">{formError}</p>}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleWatchContract}
+              disabled={creating || !contractAddress.trim()}
+            >
+              {creating ? 'Adding...' : 'Watch weekly'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
@@ -0,0 +1,325 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalTitle,
+  ModalDescription,
+} from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, Check, Copy, Download, ExternalLink } from 'lucide-react';
+import {
+  OUTREACH_STATUSES,
+  X_AUDIENCE_MIN_SIZE,
+  X_LIST_MAX_MEMBERS,
+  exportHandleList,
+  exportOutreachCSV,
+  exportXAudienceCSV,
+  getOutreachHandles,
+  splitIntoBatches,
+  type OutreachHandle,
+  type OutreachStatus,
+  type OutreachStatusMap,
+} from '@/lib/x-outreach';
+import { Analytics } from '@/lib/client-analytics';
+import type { WalletSocialResult } from '@/lib/types';
+
+interface XOutreachModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rows to build the list from, in table order */
+  results: WalletSocialResult[];
+  /** Saved lookup the outreach status is tracked against */
+  lookupId?: string | null;
+  /** Download filename without extension, e.g. "my-lookup-2026-01-01" */
+  getFilename: (prefix: string) => string;
+}
+
+type StatusFilter = OutreachStatus | 'all';
+
+// Handles listed inline with a status picker; the tracker CSV has all of them
+const VISIBLE_HANDLES = 100;
+
+function download(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Build X outreach lists from the results: deduped handles in list-sized
+ * batches, the X Ads audience file, and per-handle status for a saved lookup
+ */
+export function XOutreachModal({ open, onOpenChange, results, lookupId, getFilename }: XOutreachModalProps) {
+  const [statuses, setStatuses] = useState<OutreachStatusMap>({});
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [batchSize, setBatchSize] = useState(String(X_LIST_MAX_MEMBERS));
+  const [copiedBatch, setCopiedBatch] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const allHandles = useMemo(() => getOutreachHandles(results), [results]);
+  const handles = useMemo(
+    () =>
+      filter === 'all' ? allHandles : allHandles.filter((h) => (statuses[h.handle] ?? 'to_contact') === filter),
+    [allHandles, statuses, filter]
+  );
+  const batches = useMemo(() => splitIntoBatches(handles, Number(batchSize)), [handles, batchSize]);
+
+  const counts = useMemo(() => {
+    const byStatus: Record<OutreachStatus, number> = { to_contact: 0, contacted: 0, replied: 0 };
+    for (const h of allHandles) byStatus[statuses[h.handle] ?? 'to_contact']++;
+    return byStatus;
+  }, [allHandles, statuses]);
+
+  const fetchStatuses = useCallback(async () => {
+    if (!lookupId) return;
+    try {
+      const res = await fetch(`/api/history/${lookupId}/outreach`);
+      if (!res.ok) return;
+      const data: { statuses: OutreachStatusMap } = await res.json();
+      setStatuses(data.statuses);
+    } catch (err) {
+      console.error('Failed to load outreach status:', err);
+    }
+  }, [lookupId]);
+
+  useEffect(() => {
+    if (open) fetchStatuses();
+  }, [open, fetchStatuses]);
+
+  // Reset when the modal closes (statuses are reloaded on open)
+  useEffect(() => {
+    if (!open) {
+      setFilter('all');
+      setError(null);
+      setCopiedBatch(null);
+    }
+  }, [open]);
+
+  // Statuses belong to one lookup
+  useEffect(() => {
+    setStatuses({});
+  }, [lookupId]);
+
+  const updateStatus = async (targets: OutreachHandle[], status: OutreachStatus) => {
+    if (!lookupId || targets.length === 0) return;
+
+    // Optimistic; reloaded from the server if the update fails
+    const previous = statuses;
+    setStatuses((prev) => {
+      const next = { ...prev };
+      for (const { handle } of targets) {
+        if (status === 'to_contact') delete next[handle];
+        else next[handle] = status;
+      }
+      return next;
+    });
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/history/${lookupId}/outreach`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ handles: targets.map((h) => h.handle), status }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP error: ${res.status}`);
+      }
+    } catch (err) {
+      console.error('Failed to update outreach status:', err);
+      setError('Failed to update outreach status');
+      setStatuses(previous);
+      fetchStatuses();
+    }
+  };
+
+  const handleCopyBatch = async (batch: OutreachHandle[], index: number) => {
+    try {
+      await navigator.clipboard.writeText(exportHandleList(batch));
+      setCopiedBatch(index);
+      setTimeout(() => setCopiedBatch(null), 1500);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      setError('Could not copy to clipboard');
+    }
+  };
+
+  const handleDownloadBatch = (batch: OutreachHandle[], index: number) => {
+    Analytics.exportClicked('twitter', batch.length);
+    const suffix = batches.length > 1 ? `-${index + 1}` : '';
+    download(exportHandleList(batch), 'text/plain;charset=utf-8;', `${getFilename('twitter-handles')}${suffix}.txt`);
+  };
+
+  const handleDownloadAudience = () => {
+    Analytics.exportClicked('x_audience', handles.length);
+    download(exportXAudienceCSV(handles), 'text/csv;charset=utf-8;', `${getFilename('x-audience')}.csv`);
+  };
+
+  const handleDownloadTracker = () => {
+    Analytics.exportClicked('twitter', handles.length);
+    download(exportOutreachCSV(handles, statuses), 'text/csv;charset=utf-8;', `${getFilename('x-outreach')}.csv`);
+  };
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange}>
+      <ModalContent className="max-w-2xl">
+        <ModalHeader>
+          <ModalTitle>X outreach</ModalTitle>
+          <ModalDescription>
+            {allHandles.length.toLocaleString()} unique handles from {results.length.toLocaleString()} rows
+          </ModalDescription>
+        </ModalHeader>
+
+        <div className="space-y-5">
+          {/* Status filter */}
+          {lookupId ? (
+            <div className="flex flex-wrap gap-2 text-sm">
+              {(['all', 'to_contact', 'contacted', 'replied'] as StatusFilter[]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFilter(value)}
+                  className={`px-3 py-1 rounded-full border ${
+                    filter === value ? 'bg-foreground text-background' : 'hover:bg-muted'
+                  }`}
+                >
+                  {value === 'all' ? 'All' : OUTREACH_STATUSES[value]} (
+                  {(value === 'all' ? allHandles.length : counts[value]).toLocaleString()})
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Open a saved lookup from your history to track who you have contacted.
+            </p>
+          )}
+
+          {/* X lists */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">X lists</span>
+              <label htmlFor="xBatchSize" className="text-muted-foreground ml-auto">
+                Handles per list
+              </label>
+              <Input
+                id="xBatchSize"
+                type="number"
+                min={1}
+                max={X_LIST_MAX_MEMBERS}
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                className="w-24 h-8"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              An X list holds up to {X_LIST_MAX_MEMBERS.toLocaleString()} members.
+            </p>
+            {batches.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No handles to export</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto border rounded-lg">
+                {batches.map((batch, i) => (
+                  <div key={i} className="flex items-center gap-2 px-3 py-2 text-sm border-b last:border-b-0">
+                    <span className="font-medium">List {i + 1}</span>
+                    <span className="text-muted-foreground">{batch.length.toLocaleString()} handles</span>
+                    <div className="ml-auto flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => handleCopyBatch(batch, i)} title="Copy handles">
+                        {copiedBatch === i ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDownloadBatch(batch, i)} title="Download .txt">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {lookupId && (
+                        <Button size="sm" variant="outline" onClick={() => updateStatus(batch, 'contacted')}>
+                          Mark contacted
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Files */}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleDownloadAudience} disabled={handles.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              X Ads audience (CSV)
+            </Button>
+            <Button variant="outline" onClick={handleDownloadTracker} disabled={handles.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Outreach tracker (CSV)
+            </Button>
+          </div>
+          {handles.length > 0 && handles.length < X_AUDIENCE_MIN_SIZE && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              X Ads needs at least {X_AUDIENCE_MIN_SIZE} matched users to run an audience.
+            </p>
+          )}
+
+          {/* Per-handle status */}
+          {lookupId && handles.length > 0 && (
+            <div className="max-h-60 overflow-y-auto border rounded-lg">
+              {handles.slice(0, VISIBLE_HANDLES).map((h) => (
+                <div key={h.handle} className="flex items-center gap-2 px-3 py-1.5 text-sm border-b last:border-b-0">
+                  <a
+                    href={`https://x.com/${h.handle}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium hover:underline flex items-center gap-1"
+                  >
+                    @{h.handle}
+                    <ExternalLink className="h-3 w-3 text-muted-foreground" />
+                  </a>
+                  {h.wallets > 1 && (
+                    <span className="text-xs text-muted-foreground">{h.wallets} wallets</span>
+                  )}
+                  <select
+                    className="ml-auto px-2 py-1 border rounded bg-background text-xs"
+                    value={statuses[h.handle] ?? 'to_contact'}
+                    onChange={(e) => updateStatus([h], e.target.value as OutreachStatus)}
+                  >
+                    {(Object.keys(OUTREACH_STATUSES) as OutreachStatus[]).map((status) => (
+                      <option key={status} value={status}>
+                        {OUTREACH_STATUSES[status]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {handles.length > VISIBLE_HANDLES && (
+                <p className="px-3 py-1.5 text-xs text-muted-foreground">
+                  and {(handles.length - VISIBLE_HANDLES).toLocaleString()} more - mark a whole list above or
+                  download the tracker
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {error}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          </div>
+        </div>
+      </ModalContent>
+    </Modal>
+  );
+}
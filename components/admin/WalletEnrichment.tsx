@@ -13,6 +13,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Search, Loader2, Save, X, ExternalLink, Pencil } from 'lucide-react';
+import { isValidWallet } from '@/lib/wallets';
 
 interface SocialGraphData {
   wallet: string;
@@ -73,7 +74,7 @@ export function WalletEnrichment({ password }: WalletEnrichmentProps) {
 
     // Validate wallet format
     const wallet = searchQuery.trim();
-    if (!/^0x[a-fA-F0-9]{40}$/i.test(wallet)) {
+    if (!isValidWallet(wallet)) {
       setSaveMessage({ type: 'error', text: 'Invalid wallet address format' });
       return;
     }
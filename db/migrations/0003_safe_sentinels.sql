@@ -0,0 +1,2 @@
+ALTER TABLE "social_graph" ADD COLUMN "ens_chain" text;--> statement-breakpoint
+UPDATE "social_graph" SET "ens_chain" = CASE WHEN "ens_name" LIKE '%.base.eth' THEN 'base' ELSE 'ethereum' END WHERE "ens_name" IS NOT NULL;
@@ -0,0 +1,10 @@
+CREATE TABLE "farcaster_verified_addresses" (
+	"address" text PRIMARY KEY NOT NULL,
+	"fid" integer NOT NULL,
+	"protocol" text NOT NULL,
+	"discovered_via" text,
+	"first_seen_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "farcaster_verified_addresses_fid_idx" ON "farcaster_verified_addresses" USING btree ("fid");
\ No newline at end of file
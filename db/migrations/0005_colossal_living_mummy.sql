@@ -0,0 +1 @@
+ALTER TABLE "social_graph" ADD COLUMN "namespace" text DEFAULT 'evm' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "priority_formula" text;
\ No newline at end of file
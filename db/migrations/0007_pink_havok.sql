@@ -0,0 +1,17 @@
+CREATE TABLE "lookup_refreshes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"lookup_id" uuid NOT NULL,
+	"job_id" uuid NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"wallets_checked" integer NOT NULL,
+	"wallets_billed" integer NOT NULL,
+	"added_count" integer DEFAULT 0 NOT NULL,
+	"changed_count" integer DEFAULT 0 NOT NULL,
+	"lost_count" integer DEFAULT 0 NOT NULL,
+	"changes" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "lookup_refreshes_lookup_id_idx" ON "lookup_refreshes" USING btree ("lookup_id");--> statement-breakpoint
+CREATE INDEX "lookup_refreshes_job_id_idx" ON "lookup_refreshes" USING btree ("job_id");
\ No newline at end of file
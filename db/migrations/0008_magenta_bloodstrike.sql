@@ -0,0 +1,37 @@
+CREATE TABLE "watchlist_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"watchlist_id" uuid NOT NULL,
+	"job_id" uuid,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"wallet_count" integer DEFAULT 0 NOT NULL,
+	"new_match_count" integer DEFAULT 0 NOT NULL,
+	"new_matches" jsonb,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"read_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "watchlists" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"source_type" text NOT NULL,
+	"lookup_id" uuid,
+	"contract_address" text,
+	"chain" text,
+	"frequency" text DEFAULT 'weekly' NOT NULL,
+	"email_alerts" boolean DEFAULT true NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"snapshot" jsonb,
+	"last_run_at" timestamp,
+	"next_run_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "watchlist_runs" ADD CONSTRAINT "watchlist_runs_watchlist_id_watchlists_id_fk" FOREIGN KEY ("watchlist_id") REFERENCES "public"."watchlists"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "watchlists" ADD CONSTRAINT "watchlists_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "watchlist_runs_watchlist_id_idx" ON "watchlist_runs" USING btree ("watchlist_id");--> statement-breakpoint
+CREATE INDEX "watchlist_runs_created_at_idx" ON "watchlist_runs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "watchlists_user_id_idx" ON "watchlists" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "watchlists_next_run_at_idx" ON "watchlists" USING btree ("is_active","next_run_at");
\ No newline at end of file
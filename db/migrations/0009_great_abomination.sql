@@ -0,0 +1,17 @@
+CREATE TABLE "contract_holder_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"contract_address" text NOT NULL,
+	"chain" text NOT NULL,
+	"contract_type" text NOT NULL,
+	"token_name" text,
+	"token_symbol" text,
+	"holder_count" integer NOT NULL,
+	"total_holders" integer NOT NULL,
+	"truncated" boolean DEFAULT false NOT NULL,
+	"holders" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contract_holder_snapshots" ADD CONSTRAINT "contract_holder_snapshots_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contract_holder_snapshots_contract_idx" ON "contract_holder_snapshots" USING btree ("user_id","contract_address","chain","created_at");
\ No newline at end of file
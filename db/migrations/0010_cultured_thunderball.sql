@@ -0,0 +1 @@
+ALTER TABLE "contract_holder_snapshots" ADD COLUMN "token_scope" text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "onchain_cache" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet" text NOT NULL,
+	"chain" text NOT NULL,
+	"token_contract" text DEFAULT '' NOT NULL,
+	"native_balance" text,
+	"token_balance" text,
+	"tx_count" integer,
+	"first_seen_block" integer,
+	"last_active_block" integer,
+	"cached_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "onchain_cache_wallet_idx" ON "onchain_cache" USING btree ("wallet","chain","token_contract");--> statement-breakpoint
+CREATE INDEX "onchain_cache_cached_at_idx" ON "onchain_cache" USING btree ("cached_at");
\ No newline at end of file
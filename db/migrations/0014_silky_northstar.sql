@@ -0,0 +1,34 @@
+CREATE TABLE "dm_campaign_recipients" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"fid" integer NOT NULL,
+	"recipient" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"message" text,
+	"error" text,
+	"attempted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "dm_campaigns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"template" text NOT NULL,
+	"status" text DEFAULT 'sending' NOT NULL,
+	"api_key" text,
+	"total_recipients" integer NOT NULL,
+	"sent_count" integer DEFAULT 0 NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"current_username" text,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "dm_campaign_recipients" ADD CONSTRAINT "dm_campaign_recipients_campaign_id_dm_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."dm_campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dm_campaigns" ADD CONSTRAINT "dm_campaigns_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "dm_campaign_recipients_campaign_status_idx" ON "dm_campaign_recipients" USING btree ("campaign_id","status","position");--> statement-breakpoint
+CREATE INDEX "dm_campaigns_user_id_idx" ON "dm_campaigns" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "dm_campaigns_status_updated_idx" ON "dm_campaigns" USING btree ("status","updated_at");
\ No newline at end of file
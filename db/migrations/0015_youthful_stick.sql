@@ -0,0 +1,14 @@
+CREATE TABLE "dm_suppressions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"fid" integer NOT NULL,
+	"username" text,
+	"reason" text DEFAULT 'blocklist' NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dm_campaigns" ADD COLUMN "skipped_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "dm_cooldown_days" integer;--> statement-breakpoint
+ALTER TABLE "dm_suppressions" ADD CONSTRAINT "dm_suppressions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "dm_suppressions_user_fid_idx" ON "dm_suppressions" USING btree ("user_id","fid");
\ No newline at end of file
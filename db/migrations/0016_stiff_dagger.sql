@@ -0,0 +1,2 @@
+ALTER TABLE "dm_campaign_recipients" ADD COLUMN "variant" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "dm_campaigns" ADD COLUMN "variants" text[];
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "x_outreach" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"lookup_id" uuid NOT NULL,
+	"handle" text NOT NULL,
+	"status" text DEFAULT 'to_contact' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "x_outreach" ADD CONSTRAINT "x_outreach_lookup_id_lookup_history_id_fk" FOREIGN KEY ("lookup_id") REFERENCES "public"."lookup_history"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "x_outreach_lookup_handle_idx" ON "x_outreach" USING btree ("lookup_id","handle");
\ No newline at end of file
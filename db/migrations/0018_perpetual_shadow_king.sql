@@ -0,0 +1 @@
+ALTER TABLE "social_graph" ADD COLUMN "provenance" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "social_graph_fc_fid_idx" ON "social_graph" USING btree ("fc_fid");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "lookup_jobs" ADD COLUMN "lease_id" uuid;--> statement-breakpoint
+ALTER TABLE "lookup_jobs" ADD COLUMN "lease_expires_at" timestamp;
\ No newline at end of file
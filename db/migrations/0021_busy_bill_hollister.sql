@@ -0,0 +1,2 @@
+ALTER TABLE "dm_campaigns" ADD COLUMN "lease_id" uuid;--> statement-breakpoint
+ALTER TABLE "dm_campaigns" ADD COLUMN "lease_expires_at" timestamp;
\ No newline at end of file
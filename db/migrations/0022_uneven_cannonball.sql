@@ -0,0 +1,3 @@
+-- Keep only the newest pending refresh per lookup so the unique index can be built
+UPDATE "lookup_refreshes" SET "status" = 'failed', "completed_at" = now() WHERE "status" = 'pending' AND "id" NOT IN (SELECT DISTINCT ON ("lookup_id") "id" FROM "lookup_refreshes" WHERE "status" = 'pending' ORDER BY "lookup_id", "created_at" DESC);--> statement-breakpoint
+CREATE UNIQUE INDEX "lookup_refreshes_active_lookup_idx" ON "lookup_refreshes" USING btree ("lookup_id") WHERE "lookup_refreshes"."status" = 'pending';
\ No newline at end of file
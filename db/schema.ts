@@ -11,6 +11,10 @@ import {
   date,
   numeric,
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { SegmentDefinition } from '../lib/segment-filter';
+import type { DMRecipient } from '../lib/farcaster-dm';
+import type { SocialProvenance } from '../lib/provenance';
 
 // Cache individual wallet social lookups (24h TTL)
 export const walletCache = pgTable(
@@ -59,8 +63,10 @@ export const lookupHistory = pgTable(
 export const socialGraph = pgTable(
   'social_graph',
   {
-    wallet: text('wallet').primaryKey(), // lowercase eth address
+    wallet: text('wallet').primaryKey(), // lowercase eth address, or base58 Solana address as-is
+    namespace: text('namespace').default('evm').notNull(), // 'evm' | 'solana'
     ensName: text('ens_name'),
+    ensChain: text('ens_chain'), // 'ethereum' | 'base' | 'solana' - chain ens_name was resolved on
     twitterHandle: text('twitter_handle'),
     twitterUrl: text('twitter_url'),
     farcaster: text('farcaster'),
@@ -69,7 +75,8 @@ export const socialGraph = pgTable(
     fcFid: integer('fc_fid'),
     lens: text('lens'),
     github: text('github'),
-    sources: text('sources').array(), // ['web3bio', 'neynar', 'ens']
+    sources: text('sources').array(), // ['web3bio', 'neynar', 'ens', 'basenames']
+    provenance: jsonb('provenance').$type<SocialProvenance>(), // per-field source, confidence, updatedAt
     firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
     lastUpdatedAt: timestamp('last_updated_at').defaultNow().notNull(),
     lookupCount: integer('lookup_count').default(1).notNull(),
@@ -85,6 +92,7 @@ export const socialGraph = pgTable(
     index('social_graph_farcaster_idx').on(table.farcaster),
     index('social_graph_ens_idx').on(table.ensName),
     index('social_graph_fc_followers_idx').on(table.fcFollowers),
+    index('social_graph_fc_fid_idx').on(table.fcFid), // Wallets verified on the same Farcaster account
     index('social_graph_stale_at_idx').on(table.staleAt), // For finding stale records to refresh
   ]
 );
@@ -94,7 +102,7 @@ export const lookupJobs = pgTable(
   'lookup_jobs',
   {
     id: uuid('id').primaryKey().defaultRandom(),
-    status: text('status').notNull().default('pending'), // pending | processing | completed | failed
+    status: text('status').notNull().default('pending'), // fetching_holders | pending | processing | completed | failed
     userId: text('user_id'), // localStorage ID until profiles exist
     wallets: jsonb('wallets').notNull().$type<string[]>(), // full wallet list as JSONB array
     originalData: jsonb('original_data'), // CSV extra columns
@@ -117,6 +125,11 @@ export const lookupJobs = pgTable(
     completedAt: timestamp('completed_at'),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 
+    // Background holder import lease (lib/holder-import.ts): the worker
+    // fetching pages holds it, so Inngest and the cron worker never both append
+    leaseId: uuid('lease_id'),
+    leaseExpiresAt: timestamp('lease_expires_at'),
+
     // Error handling
     errorMessage: text('error_message'),
     retryCount: integer('retry_count').default(0).notNull(),
@@ -148,6 +161,8 @@ export const users = pgTable(
     paidAt: timestamp('paid_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     walletsUsed: integer('wallets_used').default(0).notNull(), // cumulative usage for starter tier
+    priorityFormula: text('priority_formula'), // custom priority-score formula, null = default
+    dmCooldownDays: integer('dm_cooldown_days'), // skip FIDs DMed within this many days, null = default, 0 = off
   },
   (table) => [index('users_email_idx').on(table.email)]
 );
@@ -406,6 +421,348 @@ export const socialGraphHistory = pgTable(
   ]
 );
 
+// ============================================================================
+// Farcaster Verified Addresses
+// ============================================================================
+
+// Every ETH/SOL address a Farcaster user has verified, keyed by address.
+// Linked to social_graph via fid = social_graph.fc_fid, so any verified wallet
+// of a known FID resolves to that person without an API call.
+export const farcasterVerifiedAddresses = pgTable(
+  'farcaster_verified_addresses',
+  {
+    address: text('address').primaryKey(), // lowercase for ETH, base58 as-is for SOL
+    fid: integer('fid').notNull(),
+    protocol: text('protocol').notNull(), // 'ethereum' | 'solana'
+    discoveredVia: text('discovered_via'), // wallet whose Neynar lookup returned this address
+    firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+  },
+  (table) => [index('farcaster_verified_addresses_fid_idx').on(table.fid)]
+);
+
+// ============================================================================
+// Lookup Refreshes
+// ============================================================================
+
+// One row per "refresh this lookup" run. Stale/unmatched wallets of a saved
+// lookup are re-run as a job; on completion the new matches are merged into
+// lookup_history.results and the per-wallet diff is recorded here.
+export const lookupRefreshes = pgTable(
+  'lookup_refreshes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    lookupId: uuid('lookup_id').notNull(),
+    jobId: uuid('job_id').notNull(),
+    status: text('status').notNull().default('pending'), // 'pending' | 'completed' | 'failed'
+    walletsChecked: integer('wallets_checked').notNull(),
+    walletsBilled: integer('wallets_billed').notNull(), // previously unmatched wallets, counted against quota
+    addedCount: integer('added_count').default(0).notNull(),
+    changedCount: integer('changed_count').default(0).notNull(),
+    lostCount: integer('lost_count').default(0).notNull(),
+    changes: jsonb('changes').$type<unknown[]>(), // SocialChange[] (lib/lookup-refresh.ts)
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => [
+    index('lookup_refreshes_lookup_id_idx').on(table.lookupId),
+    index('lookup_refreshes_job_id_idx').on(table.jobId),
+    // At most one active refresh per lookup; two would overwrite each other's merge
+    uniqueIndex('lookup_refreshes_active_lookup_idx')
+      .on(table.lookupId)
+      .where(sql`${table.status} = 'pending'`),
+  ]
+);
+
+// ============================================================================
+// Watchlists
+// ============================================================================
+
+// A saved lookup or contract re-run on a schedule (Inngest cron). Each run is
+// diffed against `snapshot` (the socials seen so far) and new matches are
+// sent as an email digest and surfaced in-app.
+export const watchlists = pgTable(
+  'watchlists',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    sourceType: text('source_type').notNull(), // 'lookup' | 'contract'
+    lookupId: uuid('lookup_id'), // sourceType = 'lookup'
+    contractAddress: text('contract_address'), // sourceType = 'contract'
+    chain: text('chain'), // sourceType = 'contract'
+    frequency: text('frequency').notNull().default('weekly'), // 'daily' | 'weekly'
+    emailAlerts: boolean('email_alerts').default(true).notNull(),
+    isActive: boolean('is_active').default(true).notNull(),
+    snapshot: jsonb('snapshot').$type<Record<string, string[]>>(), // wallet -> social keys seen so far
+    lastRunAt: timestamp('last_run_at'),
+    nextRunAt: timestamp('next_run_at').defaultNow().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('watchlists_user_id_idx').on(table.userId),
+    index('watchlists_next_run_at_idx').on(table.isActive, table.nextRunAt),
+  ]
+);
+
+// One row per scheduled run. Completed runs with new matches and no readAt
+// are the user's unread in-app alerts.
+export const watchlistRuns = pgTable(
+  'watchlist_runs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    watchlistId: uuid('watchlist_id')
+      .notNull()
+      .references(() => watchlists.id, { onDelete: 'cascade' }),
+    jobId: uuid('job_id'),
+    status: text('status').notNull().default('pending'), // 'pending' | 'completed' | 'failed'
+    walletCount: integer('wallet_count').default(0).notNull(),
+    newMatchCount: integer('new_match_count').default(0).notNull(),
+    newMatches: jsonb('new_matches').$type<unknown[]>(), // WatchlistMatch[] (lib/watchlists.ts)
+    errorMessage: text('error_message'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+    readAt: timestamp('read_at'),
+  },
+  (table) => [
+    index('watchlist_runs_watchlist_id_idx').on(table.watchlistId),
+    index('watchlist_runs_created_at_idx').on(table.createdAt),
+  ]
+);
+
+// ============================================================================
+// Contract holder snapshots
+// ============================================================================
+
+// Holder list of a contract as of one import. Consecutive snapshots of the
+// same contract+chain (and ERC-1155 token scope) are diffed to find new and
+// exited holders.
+export const contractHolderSnapshots = pgTable(
+  'contract_holder_snapshots',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    contractAddress: text('contract_address').notNull(), // lowercase
+    chain: text('chain').notNull(),
+    contractType: text('contract_type').notNull(), // 'ERC-20' | 'ERC-721' | 'ERC-1155'
+    tokenScope: text('token_scope'), // sorted comma-joined ERC-1155 token IDs; null = whole contract
+    tokenName: text('token_name'),
+    tokenSymbol: text('token_symbol'),
+    holderCount: integer('holder_count').notNull(), // holders stored in this snapshot
+    totalHolders: integer('total_holders').notNull(), // holders onchain (may exceed holderCount)
+    truncated: boolean('truncated').default(false).notNull(),
+    holders: jsonb('holders').$type<Record<string, string | null>>().notNull(), // wallet -> ERC-20 balance or ERC-1155 editions held; null for ERC-721
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('contract_holder_snapshots_contract_idx').on(
+      table.userId,
+      table.contractAddress,
+      table.chain,
+      table.createdAt
+    ),
+  ]
+);
+
+// ============================================================================
+// Onchain enrichment cache
+// ============================================================================
+
+// Per-wallet balances and activity for the optional onchain enrichment stage
+// (lib/onchain.ts). Kept apart from wallet_cache because balances go stale far
+// sooner than socials (6h TTL).
+export const onchainCache = pgTable(
+  'onchain_cache',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    wallet: text('wallet').notNull(), // lowercase eth address
+    chain: text('chain').notNull(),
+    tokenContract: text('token_contract').default('').notNull(), // lowercase ERC-20 address; '' = no token balance
+    nativeBalance: text('native_balance'), // decimal string in ether units
+    tokenBalance: text('token_balance'), // decimal string in token units
+    txCount: integer('tx_count'), // transactions sent (nonce)
+    firstSeenBlock: integer('first_seen_block'),
+    lastActiveBlock: integer('last_active_block'),
+    cachedAt: timestamp('cached_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('onchain_cache_wallet_idx').on(table.wallet, table.chain, table.tokenContract),
+    index('onchain_cache_cached_at_idx').on(table.cachedAt),
+  ]
+);
+
+// ============================================================================
+// Outreach segments
+// ============================================================================
+
+// Saved result filters (lib/segment-filter.ts) that drive the results table,
+// exports and DM recipients
+export const segments = pgTable(
+  'segments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    definition: jsonb('definition').$type<SegmentDefinition>().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [index('segments_user_id_idx').on(table.userId)]
+);
+
+// ============================================================================
+// Outgoing webhooks
+// ============================================================================
+
+// Endpoints that receive signed job/lookup events (lib/webhooks.ts). Scoped to
+// one API key's jobs when api_key_id is set, otherwise all of the user's.
+export const webhookEndpoints = pgTable(
+  'webhook_endpoints',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    apiKeyId: uuid('api_key_id').references(() => apiKeys.id, { onDelete: 'cascade' }),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(), // HMAC signing secret (whsec_...), shown once on creation
+    events: text('events').array().notNull(), // job.completed | job.failed | lookup.enriched
+    isActive: boolean('is_active').default(true).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [index('webhook_endpoints_user_id_idx').on(table.userId)]
+);
+
+// One row per event sent to an endpoint, with the outcome of its latest attempt
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    endpointId: uuid('endpoint_id')
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+    event: text('event').notNull(),
+    payload: jsonb('payload').notNull(),
+    status: text('status').notNull().default('pending'), // pending | delivered | failed
+    attempts: integer('attempts').default(0).notNull(),
+    responseStatus: integer('response_status'),
+    error: text('error'), // last failure (HTTP status + body excerpt, or network error)
+    resentFrom: uuid('resent_from'), // delivery this one re-sends
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    lastAttemptAt: timestamp('last_attempt_at'),
+    deliveredAt: timestamp('delivered_at'),
+  },
+  (table) => [
+    index('webhook_deliveries_endpoint_created_idx').on(table.endpointId, table.createdAt),
+  ]
+);
+
+// ============================================================================
+// Farcaster DM campaigns
+// ============================================================================
+
+// A batch of Warpcast direct casts sent server-side (lib/dm-campaigns.ts,
+// Inngest dm-campaign). api_key is encrypted with DM_KEY_SECRET and only held
+// while the campaign is sending; pausing or ending it clears the key.
+export const dmCampaigns = pgTable(
+  'dm_campaigns',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    template: text('template').notNull(), // message with {{username}}-style variables (variant A)
+    variants: text('variants').array(), // all A/B variant templates, assigned round-robin; null = just template
+    status: text('status').notNull().default('sending'), // sending | paused | completed | cancelled | failed
+    apiKey: text('api_key'), // encrypted Warpcast API key, null unless sending
+    // Held by the worker sending a chunk (lib/dm-campaigns.ts), renewed before each DM
+    leaseId: uuid('lease_id'),
+    leaseExpiresAt: timestamp('lease_expires_at'),
+    totalRecipients: integer('total_recipients').notNull(),
+    sentCount: integer('sent_count').default(0).notNull(),
+    failedCount: integer('failed_count').default(0).notNull(),
+    skippedCount: integer('skipped_count').default(0).notNull(), // suppressed after the campaign started
+    currentUsername: text('current_username'),
+    errorMessage: text('error_message'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => [
+    index('dm_campaigns_user_id_idx').on(table.userId),
+    index('dm_campaigns_status_updated_idx').on(table.status, table.updatedAt),
+  ]
+);
+
+// One row per campaign recipient. Rows that are no longer pending make up the
+// campaign's DM log.
+export const dmCampaignRecipients = pgTable(
+  'dm_campaign_recipients',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    campaignId: uuid('campaign_id')
+      .notNull()
+      .references(() => dmCampaigns.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(), // send order
+    fid: integer('fid').notNull(),
+    recipient: jsonb('recipient').$type<DMRecipient>().notNull(),
+    variant: integer('variant').default(0).notNull(), // index into dm_campaigns.variants
+    status: text('status').notNull().default('pending'), // pending | sent | failed | skipped
+    message: text('message'), // rendered message, set once attempted
+    error: text('error'),
+    attemptedAt: timestamp('attempted_at'),
+  },
+  (table) => [
+    index('dm_campaign_recipients_campaign_status_idx').on(table.campaignId, table.status, table.position),
+  ]
+);
+
+// FIDs a user never wants to DM (lib/dm-suppressions.ts). Recent recipients
+// are suppressed separately, straight from dm_campaign_recipients.
+export const dmSuppressions = pgTable(
+  'dm_suppressions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    fid: integer('fid').notNull(),
+    username: text('username'),
+    reason: text('reason').notNull().default('blocklist'), // opt_out | blocklist
+    note: text('note'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('dm_suppressions_user_fid_idx').on(table.userId, table.fid)]
+);
+
+// ============================================================================
+// X Outreach
+// ============================================================================
+
+// Outreach status of an X handle within a saved lookup (lib/outreach-status.ts).
+// Handles without a row are still to be contacted.
+export const xOutreach = pgTable(
+  'x_outreach',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    lookupId: uuid('lookup_id')
+      .notNull()
+      .references(() => lookupHistory.id, { onDelete: 'cascade' }),
+    handle: text('handle').notNull(), // lowercase, no @
+    status: text('status').notNull().default('to_contact'), // to_contact | contacted | replied
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('x_outreach_lookup_handle_idx').on(table.lookupId, table.handle)]
+);
+
 // Types for insert/select
 export type WalletCache = typeof walletCache.$inferSelect;
 export type NewWalletCache = typeof walletCache.$inferInsert;
@@ -441,3 +798,29 @@ export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
 export type NewMagicLinkToken = typeof magicLinkTokens.$inferInsert;
 export type SocialGraphHistory = typeof socialGraphHistory.$inferSelect;
 export type NewSocialGraphHistory = typeof socialGraphHistory.$inferInsert;
+export type FarcasterVerifiedAddress = typeof farcasterVerifiedAddresses.$inferSelect;
+export type NewFarcasterVerifiedAddress = typeof farcasterVerifiedAddresses.$inferInsert;
+export type LookupRefresh = typeof lookupRefreshes.$inferSelect;
+export type NewLookupRefresh = typeof lookupRefreshes.$inferInsert;
+export type Watchlist = typeof watchlists.$inferSelect;
+export type NewWatchlist = typeof watchlists.$inferInsert;
+export type WatchlistRun = typeof watchlistRuns.$inferSelect;
+export type NewWatchlistRun = typeof watchlistRuns.$inferInsert;
+export type ContractHolderSnapshot = typeof contractHolderSnapshots.$inferSelect;
+export type NewContractHolderSnapshot = typeof contractHolderSnapshots.$inferInsert;
+export type OnchainCache = typeof onchainCache.$inferSelect;
+export type NewOnchainCache = typeof onchainCache.$inferInsert;
+export type Segment = typeof segments.$inferSelect;
+export type NewSegment = typeof segments.$inferInsert;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type DMCampaign = typeof dmCampaigns.$inferSelect;
+export type NewDMCampaign = typeof dmCampaigns.$inferInsert;
+export type DMCampaignRecipient = typeof dmCampaignRecipients.$inferSelect;
+export type NewDMCampaignRecipient = typeof dmCampaignRecipients.$inferInsert;
+export type DMSuppression = typeof dmSuppressions.$inferSelect;
+export type NewDMSuppression = typeof dmSuppressions.$inferInsert;
+export type XOutreach = typeof xOutreach.$inferSelect;
+export type NewXOutreach = typeof xOutreach.$inferInsert;
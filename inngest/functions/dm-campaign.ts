@@ -0,0 +1,37 @@
+import { inngest } from '../client';
+import { processDMCampaignChunk } from '@/lib/dm-campaigns';
+
+// Safety valve: 45s chunks x 200 = 2.5 hours of sending
+const MAX_CHUNKS = 200;
+
+/**
+ * Send a DM campaign in time-boxed chunks. Each chunk is its own step, so a
+ * retried step resumes from the recipients still pending. Pausing or
+ * cancelling ends the run; resuming starts a new one.
+ */
+export const dmCampaign = inngest.createFunction(
+  {
+    id: 'dm-campaign',
+    // One run per campaign, so a quick pause/resume can't double-send
+    concurrency: {
+      limit: 1,
+      key: 'event.data.campaignId',
+    },
+    retries: 3,
+  },
+  { event: 'dm/campaign.requested' },
+  async ({ event, step }) => {
+    const { campaignId } = event.data as { campaignId: string };
+
+    let result = await step.run('send-0', () => processDMCampaignChunk(campaignId));
+    for (let chunk = 1; !result.done && chunk < MAX_CHUNKS; chunk++) {
+      // The cron worker is sending this campaign; let it finish its chunk
+      if (result.busy) {
+        await step.sleep(`lease-wait-${chunk}`, '30s');
+      }
+      result = await step.run(`send-${chunk}`, () => processDMCampaignChunk(campaignId));
+    }
+
+    return result;
+  }
+);
@@ -0,0 +1,43 @@
+import { inngest } from '../client';
+import { processHolderImportChunk } from '@/lib/holder-import';
+
+// Safety valve: 45s chunks x 200 = 2.5 hours of paging
+const MAX_CHUNKS = 200;
+
+/**
+ * Page through every holder of a large contract, then hand the job to the
+ * wallet lookup. Each chunk is its own step, so a failed page retries without
+ * refetching what was already stored.
+ */
+export const holderImport = inngest.createFunction(
+  {
+    id: 'holder-import',
+    concurrency: {
+      limit: 10,
+    },
+    retries: 3,
+  },
+  { event: 'contracts/holders.requested' },
+  async ({ event, step }) => {
+    const { jobId } = event.data as { jobId: string };
+
+    let result = await step.run('fetch-holders-0', () => processHolderImportChunk(jobId));
+    for (let chunk = 1; !result.done && chunk < MAX_CHUNKS; chunk++) {
+      // Back off briefly after a rate-limited chunk, or while the cron
+      // worker holds the import
+      if (result.rateLimited || result.busy) {
+        await step.sleep(`rate-limit-wait-${chunk}`, '30s');
+      }
+      result = await step.run(`fetch-holders-${chunk}`, () => processHolderImportChunk(jobId));
+    }
+
+    if (result.status === 'pending') {
+      await step.sendEvent('start-lookup', {
+        name: 'wallet/lookup.requested',
+        data: { jobId },
+      });
+    }
+
+    return result;
+  }
+);
@@ -2,32 +2,34 @@ import { inngest } from '../client';
 import { getDb } from '@/db';
 import { lookupJobs } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { batchFetchWeb3Bio } from '@/lib/web3bio';
-import { batchFetchNeynar, type NeynarResult } from '@/lib/neynar';
-import { batchLookupENS } from '@/lib/ens';
+import { runProviderChain } from '@/lib/providers';
 import { getCachedWallets, cacheWalletResults } from '@/lib/cache';
 import { saveLookup } from '@/lib/history';
+import { completeLookupRefresh, failLookupRefresh } from '@/lib/lookup-refresh';
+import { completeWatchlistRun, failWatchlistRun } from '@/lib/watchlists';
+import { countAnySocialFound, emitJobWebhook } from '@/lib/webhooks';
 import {
   upsertSocialGraph,
   getSocialGraphData,
   socialGraphToResult,
 } from '@/lib/social-graph';
 import {
-  findHoldingsColumn,
+  resolveHoldingsColumn,
   parseHoldingsValue,
-  calculatePriorityScore,
 } from '@/lib/csv-parser';
+import { getPriorityScorer } from '@/lib/scoring';
+import { normalizeWallet } from '@/lib/wallets';
+import { getOnchainStats, applyOnchainStats, type OnchainStats } from '@/lib/onchain';
+import type { JobOptions } from '@/lib/job-processor';
 import type { WalletSocialResult } from '@/lib/types';
 
 // Process wallets in micro-batches for parallel execution
 const MICRO_BATCH_SIZE = 500;
 
-interface JobOptions {
-  includeENS?: boolean;
-  saveToHistory?: boolean;
-  historyName?: string;
-  userId?: string;
-}
+// Wallets per onchain-enrichment step, and the time one step may spend on
+// them; wallets a step didn't reach go to the next step
+const ONCHAIN_BATCH_SIZE = 100;
+const ONCHAIN_STEP_BUDGET_MS = 30000;
 
 // Define the event type
 type WalletLookupEvent = {
@@ -51,6 +53,33 @@ export const walletLookup = inngest.createFunction(
     },
     // Retry on failure
     retries: 3,
+    // Out of retries: fail the job like the cron worker does, so pollers and
+    // webhook endpoints hear about it
+    onFailure: async ({ event, error }) => {
+      const { jobId } = event.data.event.data as WalletLookupEvent['data'];
+      const db = getDb();
+      if (!db) return;
+
+      const [job] = await db
+        .update(lookupJobs)
+        .set({ status: 'failed', errorMessage: error.message, updatedAt: new Date() })
+        .where(eq(lookupJobs.id, jobId))
+        .returning();
+      if (!job) return;
+
+      const options = job.options as JobOptions;
+      if (options.refreshLookupId) {
+        await failLookupRefresh(options.refreshLookupId, jobId);
+      }
+      if (options.watchlistRunId) {
+        await failWatchlistRun(options.watchlistRunId, error.message);
+      }
+      await emitJobWebhook(job, 'job.failed', {
+        error: error.message,
+        processed_count: job.processedCount,
+        wallet_count: job.wallets.length,
+      });
+    },
   },
   { event: 'wallet/lookup.requested' },
   async ({ event, step }) => {
@@ -100,14 +129,14 @@ export const walletLookup = inngest.createFunction(
       }
 
       // Detect holdings column
-      const firstWallet = allWallets[0]?.toLowerCase();
+      const firstWallet = allWallets[0] && normalizeWallet(allWallets[0]);
       const firstData = originalData[firstWallet] || {};
       const dataColumns = Object.keys(firstData);
-      const holdingsCol = findHoldingsColumn(dataColumns);
+      const holdingsCol = resolveHoldingsColumn(dataColumns, options.holdingsColumn);
 
       // Initialize results for all wallets
       for (const wallet of allWallets) {
-        const walletLower = wallet.toLowerCase();
+        const walletLower = normalizeWallet(wallet);
         if (!resultsMap.has(walletLower)) {
           const walletData = originalData[walletLower] || {};
           let holdings: number | undefined;
@@ -153,7 +182,7 @@ export const walletLookup = inngest.createFunction(
         });
       }
 
-      const uncached = allWallets.filter((w) => !cached.has(w.toLowerCase()));
+      const uncached = allWallets.filter((w) => !cached.has(normalizeWallet(w)));
       return {
         cachedCount: cached.size,
         uncachedWallets: uncached,
@@ -198,11 +227,10 @@ export const walletLookup = inngest.createFunction(
 
         const batchResults = await step.run(`process-batch-${batchIndex}`, async () => {
           const batchResultsMap = new Map<string, WalletSocialResult>();
-          const neynarApiKey = process.env.NEYNAR_API_KEY;
 
           // Initialize batch results
           for (const wallet of batch) {
-            const walletLower = wallet.toLowerCase();
+            const walletLower = normalizeWallet(wallet);
             const walletData = originalData[walletLower] || {};
             let holdings: number | undefined;
             if (holdingsColumn && walletData[holdingsColumn]) {
@@ -216,75 +244,18 @@ export const walletLookup = inngest.createFunction(
             });
           }
 
-          // Optional ENS lookups
-          if (options.includeENS) {
-            try {
-              const ensResults = await batchLookupENS(batch);
-              for (const [wallet, data] of ensResults) {
-                const existing = batchResultsMap.get(wallet)!;
-                batchResultsMap.set(wallet, {
-                  ...existing,
-                  ens_name: data.ensName || existing.ens_name,
-                  twitter_handle: data.twitter || existing.twitter_handle,
-                  twitter_url: data.twitterUrl || existing.twitter_url,
-                  github: data.github || existing.github,
-                  source: [...existing.source, 'ens'],
-                });
-              }
-            } catch (error) {
-              console.error('ENS lookup error:', error);
-            }
-          }
-
-          // Web3.bio + Neynar in parallel
-          const [web3BioResults, neynarResults] = await Promise.all([
-            batchFetchWeb3Bio(batch),
-            neynarApiKey
-              ? batchFetchNeynar(batch, neynarApiKey).catch((error) => {
-                  console.error('Neynar fetch error:', error);
-                  return new Map<string, NeynarResult>();
-                })
-              : Promise.resolve(new Map<string, NeynarResult>()),
-          ]);
-
-          // Apply Web3.bio results
-          for (const [wallet, data] of web3BioResults) {
-            const existing = batchResultsMap.get(wallet)!;
-            batchResultsMap.set(wallet, {
-              ...existing,
-              ens_name: existing.ens_name || data.ens_name,
-              twitter_handle: existing.twitter_handle || data.twitter_handle,
-              twitter_url: existing.twitter_url || data.twitter_url,
-              farcaster: data.farcaster || existing.farcaster,
-              farcaster_url: data.farcaster_url || existing.farcaster_url,
-              lens: data.lens || existing.lens,
-              github: existing.github || data.github,
-              source: existing.source.includes('web3bio')
-                ? existing.source
-                : [...existing.source, 'web3bio'],
-            });
-          }
-
-          // Apply Neynar results
-          for (const [wallet, data] of neynarResults) {
-            const existing = batchResultsMap.get(wallet)!;
-            batchResultsMap.set(wallet, {
-              ...existing,
-              twitter_handle: existing.twitter_handle || data.twitter_handle,
-              twitter_url: existing.twitter_url || data.twitter_url,
-              farcaster: data.farcaster || existing.farcaster,
-              farcaster_url: data.farcaster_url || existing.farcaster_url,
-              fc_followers: data.fc_followers,
-              source: existing.source.includes('neynar')
-                ? existing.source
-                : [...existing.source, 'neynar'],
-            });
-          }
+          // Shared identity-provider chain (ENS → Neynar → Web3.bio)
+          await runProviderChain(batch, batchResultsMap, {
+            includeENS: options.includeENS,
+            canUseENS: options.canUseENS,
+            canUseNeynar: options.canUseNeynar,
+            jobId,
+          });
 
           // Cache results
           try {
             const newResults = batch
-              .map((w) => batchResultsMap.get(w.toLowerCase())!)
+              .map((w) => batchResultsMap.get(normalizeWallet(w))!)
               .filter((r) => r.source.length > 0);
             if (newResults.length > 0) {
               await cacheWalletResults(newResults);
@@ -342,7 +313,10 @@ export const walletLookup = inngest.createFunction(
           const stored = graphData.get(wallet);
           if (stored) {
             const storedData = socialGraphToResult(stored);
-            if (!result.ens_name && storedData.ens_name) result.ens_name = storedData.ens_name;
+            if (!result.ens_name && storedData.ens_name) {
+              result.ens_name = storedData.ens_name;
+              result.ens_chain = storedData.ens_chain;
+            }
             if (!result.twitter_handle && storedData.twitter_handle) {
               result.twitter_handle = storedData.twitter_handle;
               result.twitter_url = storedData.twitter_url;
@@ -362,18 +336,54 @@ export const walletLookup = inngest.createFunction(
       }
     });
 
+    // Step 5b: Onchain balances and activity (optional), one step per batch so
+    // a retry doesn't refetch batches that already finished
+    const onchain = options.onchain;
+    if (onchain) {
+      await step.run('update-progress-onchain', async () => {
+        const db = getDb();
+        if (!db) return;
+        await db
+          .update(lookupJobs)
+          .set({ currentStage: 'onchain', updatedAt: new Date() })
+          .where(eq(lookupJobs.id, jobId));
+      });
+
+      let pending = allWallets;
+      for (let stepIndex = 0; pending.length > 0; stepIndex++) {
+        const batch = pending.slice(0, ONCHAIN_BATCH_SIZE);
+        const { stats, unfetched } = await step.run(`enrich-onchain-${stepIndex}`, async () => {
+          try {
+            const result = await getOnchainStats(batch, onchain, ONCHAIN_STEP_BUDGET_MS);
+            // A step that cached nothing (RPC outage) gives up on the rest
+            // of its batch instead of retrying it forever
+            return {
+              stats: Array.from(result.stats.entries()),
+              unfetched: result.cached > 0 ? result.unfetched : [],
+            };
+          } catch (error) {
+            console.error('Onchain enrichment error:', error);
+            return { stats: [], unfetched: [] };
+          }
+        });
+        applyOnchainStats(resultsMap, new Map<string, OnchainStats>(stats));
+        pending = [...unfetched, ...pending.slice(batch.length)];
+      }
+    }
+
     // Step 6: Calculate priority scores
     await step.run('calculate-scores', async () => {
+      const scorePriority = getPriorityScorer(options.priorityFormula);
       for (const [wallet, result] of resultsMap) {
-        result.priority_score = calculatePriorityScore(result.holdings, result.fc_followers);
+        result.priority_score = scorePriority(result);
         resultsMap.set(wallet, result);
       }
     });
 
     // Step 7: Finalize job
-    await step.run('finalize', async () => {
+    const finalStats = await step.run('finalize', async () => {
       const db = getDb();
-      if (!db) return;
+      if (!db) return null;
 
       const allResults = Array.from(resultsMap.values());
 
@@ -386,6 +396,14 @@ export const walletLookup = inngest.createFunction(
         }
       }
 
+      if (options.refreshLookupId) {
+        await completeLookupRefresh(options.refreshLookupId, jobId, allResults, options.priorityFormula);
+      }
+
+      if (options.watchlistRunId) {
+        await completeWatchlistRun(options.watchlistRunId, allResults);
+      }
+
       // Persist positive results to social graph
       try {
         const positiveResults = allResults.filter(
@@ -405,6 +423,7 @@ export const walletLookup = inngest.createFunction(
         if (result.twitter_handle) twitterFound++;
         if (result.farcaster) farcasterFound++;
       }
+      const anySocialFound = countAnySocialFound(allResults);
 
       // Mark job as complete
       await db
@@ -415,13 +434,30 @@ export const walletLookup = inngest.createFunction(
           partialResults: allResults,
           twitterFound,
           farcasterFound,
+          anySocialFound,
           cacheHits: cachedCount,
           completedAt: new Date(),
           updatedAt: new Date(),
         })
         .where(eq(lookupJobs.id, jobId));
+
+      return { twitterFound, farcasterFound, anySocialFound, completedAt: new Date().toISOString() };
     });
 
+    // Step 8: Notify webhook endpoints (own step so a finalize retry can't send twice)
+    if (finalStats) {
+      await step.run('emit-webhooks', () =>
+        emitJobWebhook(job, 'job.completed', {
+          wallet_count: allWallets.length,
+          twitter_found: finalStats.twitterFound,
+          farcaster_found: finalStats.farcasterFound,
+          any_social_found: finalStats.anySocialFound,
+          cache_hits: cachedCount,
+          completed_at: finalStats.completedAt,
+        })
+      );
+    }
+
     return {
       status: 'completed',
       jobId,
@@ -0,0 +1,37 @@
+import { inngest } from '../client';
+import { getDueWatchlistIds, startWatchlistRun } from '@/lib/watchlists';
+
+/**
+ * Hourly scheduler for watchlists. Starts a lookup job for every watchlist
+ * whose next run is due; the wallet-lookup function processes the job and
+ * completeWatchlistRun diffs the results and sends alerts.
+ */
+export const watchlistScheduler = inngest.createFunction(
+  {
+    id: 'watchlist-scheduler',
+    // Never overlap ticks - a slow contract fetch shouldn't double-start runs
+    concurrency: {
+      limit: 1,
+    },
+  },
+  { cron: '0 * * * *' },
+  async ({ step }) => {
+    const dueIds = await step.run('find-due-watchlists', () => getDueWatchlistIds());
+
+    let started = 0;
+    for (const watchlistId of dueIds) {
+      const jobId = await step.run(`start-run-${watchlistId}`, () =>
+        startWatchlistRun(watchlistId)
+      );
+      if (!jobId) continue;
+
+      await step.sendEvent(`trigger-lookup-${watchlistId}`, {
+        name: 'wallet/lookup.requested',
+        data: { jobId },
+      });
+      started++;
+    }
+
+    return { due: dueIds.length, started };
+  }
+);
@@ -0,0 +1,38 @@
+import { inngest } from '../client';
+import {
+  attemptWebhookDelivery,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_DELAYS,
+} from '@/lib/webhooks';
+
+/**
+ * Delivers one webhook_deliveries row, retrying failed attempts after
+ * WEBHOOK_RETRY_DELAYS. Each attempt is its own step, so a retry never
+ * re-sends an attempt that already succeeded.
+ */
+export const webhookDelivery = inngest.createFunction(
+  {
+    id: 'webhook-delivery',
+    concurrency: {
+      limit: 20,
+    },
+    // Retries are the attempts below; a thrown step is a bug, not a bad endpoint
+    retries: 0,
+  },
+  { event: 'webhook/delivery.requested' },
+  async ({ event, step }) => {
+    const { deliveryId } = event.data as { deliveryId: string };
+
+    for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      const result = await step.run(`attempt-${attempt}`, () =>
+        attemptWebhookDelivery(deliveryId, attempt === WEBHOOK_MAX_ATTEMPTS)
+      );
+      if (result.done) {
+        return { deliveryId, status: result.status, attempts: attempt };
+      }
+      await step.sleep(`backoff-${attempt}`, WEBHOOK_RETRY_DELAYS[attempt - 1]);
+    }
+
+    return { deliveryId, status: 'failed', attempts: WEBHOOK_MAX_ATTEMPTS };
+  }
+);
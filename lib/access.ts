@@ -224,6 +224,19 @@ export async function getUserByEmail(email: string) {
   return user || null;
 }
 
+export async function getUserById(id: string) {
+  const db = getDb();
+  if (!db) return null;
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, id))
+    .limit(1);
+
+  return user || null;
+}
+
 /**
  * Add entry to whitelist
  */
@@ -25,6 +25,8 @@ export type AnalyticsEventType =
   | 'user_registered'
   | 'contract_import_blocked'
   | 'contract_import_success'
+  | 'contract_import_background'
+  | 'dm_campaign_started'
   // Social graph tracking events (Phase 3)
   | 'social_graph_hit'        // Served from high-quality graph data, skipped API
   | 'social_graph_miss'       // Not in graph or low quality, needed API
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { validateApiKey } from './api-keys';
 import { checkRateLimit, type RateLimitHeaders } from './rate-limiter';
 import { trackApiUsage } from './api-usage';
+import { isValidWallet, normalizeWallet } from './wallets';
 import type { ApiKey, ApiPlan } from '@/db/schema';
 
 export interface AuthenticatedContext {
@@ -187,10 +188,10 @@ export function withApiAuth<T>(
 }
 
 /**
- * Validates wallet address format
+ * Validates wallet address format (0x EVM or base58 Solana)
  */
 export function isValidWalletAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
+  return isValidWallet(address);
 }
 
 /**
@@ -210,10 +211,10 @@ export function isValidFarcasterUsername(username: string): boolean {
 }
 
 /**
- * Normalizes a wallet address to lowercase
+ * Normalizes a wallet address (lowercases EVM, leaves Solana as-is)
  */
 export function normalizeWalletAddress(address: string): string {
-  return address.toLowerCase();
+  return normalizeWallet(address);
 }
 
 /**
@@ -0,0 +1,220 @@
+import { ethers } from 'ethers';
+import { TWITTER_KEYS, withTimeout } from './ens';
+import { cleanTwitterHandle } from './twitter-cleaner';
+
+// Basenames live on Base: primary names are set through the L2 reverse registrar
+// and stored on the L2 resolver, which also holds the text records.
+const L2_RESOLVER_ADDRESS = '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD';
+
+// ENSIP-11 coin type for Base (0x80000000 | 8453), used in the reverse namespace
+const BASE_REVERSE_NAMESPACE = '80002105.reverse';
+
+const L2_RESOLVER_ABI = [
+  'function name(bytes32 node) view returns (string)',
+  'function addr(bytes32 node) view returns (address)',
+  'function text(bytes32 node, string key) view returns (string)',
+];
+
+const RPC_ENDPOINTS = [
+  'https://mainnet.base.org',
+  'https://base.llamarpc.com',
+  'https://base.publicnode.com',
+];
+
+const RPC_TIMEOUT_MS = 15000; // 15 second timeout for RPC calls
+
+let providerIndex = 0;
+
+function getResolver(): ethers.Contract {
+  const endpoint = process.env.ALCHEMY_KEY
+    ? `https://base-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_KEY}`
+    : RPC_ENDPOINTS[providerIndex % RPC_ENDPOINTS.length];
+  const provider = new ethers.JsonRpcProvider(endpoint);
+  return new ethers.Contract(L2_RESOLVER_ADDRESS, L2_RESOLVER_ABI, provider);
+}
+
+function rotateProvider() {
+  providerIndex++;
+}
+
+export interface BasenameResult {
+  wallet: string;
+  basename: string | null;
+  twitter: string | null;
+  twitterUrl: string | null;
+  url: string | null;
+  github: string | null;
+}
+
+/**
+ * Reverse node for an address on Base: namehash("<addr>.80002105.reverse")
+ */
+function getReverseNode(wallet: string): string {
+  const address = wallet.toLowerCase().replace(/^0x/, '');
+  return ethers.namehash(`${address}.${BASE_REVERSE_NAMESPACE}`);
+}
+
+/**
+ * Forward resolve a Basename ("jesse.base.eth") to its address on Base
+ */
+export async function resolveBasename(basename: string): Promise<string | null> {
+  const resolver = getResolver();
+  try {
+    const address: string = await withTimeout(
+      resolver.addr(ethers.namehash(basename)),
+      RPC_TIMEOUT_MS,
+      `Basename resolution timed out for ${basename}`
+    );
+    if (!address || address === ethers.ZeroAddress) return null;
+    return address.toLowerCase();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('timed out')) {
+      console.error(error.message);
+    }
+    rotateProvider();
+    return null;
+  }
+}
+
+/**
+ * Reverse resolve a wallet to its primary Basename.
+ * The name is only returned if it forward-resolves back to the same wallet,
+ * otherwise anyone could claim a reverse record pointing at someone else's name.
+ */
+export async function getBasename(wallet: string): Promise<string | null> {
+  const resolver = getResolver();
+  try {
+    const name: string = await withTimeout(
+      resolver.name(getReverseNode(wallet)),
+      RPC_TIMEOUT_MS,
+      `Basename lookup timed out for ${wallet}`
+    );
+    if (!name) return null;
+
+    const resolved = await resolveBasename(name);
+    if (resolved !== wallet.toLowerCase()) return null;
+
+    return name;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('timed out')) {
+      console.error(error.message);
+    }
+    rotateProvider();
+    return null;
+  }
+}
+
+export async function getBasenameTextRecords(basename: string): Promise<{
+  twitter: string | null;
+  url: string | null;
+  github: string | null;
+}> {
+  const resolver = getResolver();
+  const node = ethers.namehash(basename);
+  const result = {
+    twitter: null as string | null,
+    url: null as string | null,
+    github: null as string | null,
+  };
+
+  const getText = (key: string): Promise<string> =>
+    withTimeout(resolver.text(node, key), RPC_TIMEOUT_MS, 'getText timeout');
+
+  try {
+    const [url, github, ...twitters] = await Promise.allSettled([
+      getText('url'),
+      getText('com.github'),
+      ...TWITTER_KEYS.map(getText),
+    ]);
+
+    // Find first valid Twitter handle
+    for (const t of twitters) {
+      if (t.status === 'fulfilled' && t.value) {
+        const cleaned = cleanTwitterHandle(t.value);
+        if (cleaned) {
+          result.twitter = cleaned;
+          break;
+        }
+      }
+    }
+
+    if (url.status === 'fulfilled') result.url = url.value || null;
+    if (github.status === 'fulfilled') result.github = github.value || null;
+
+    return result;
+  } catch (error) {
+    console.error(`Basename text records failed for ${basename}:`, error);
+    rotateProvider();
+    return result;
+  }
+}
+
+export async function lookupWalletBasename(
+  wallet: string
+): Promise<BasenameResult> {
+  const result: BasenameResult = {
+    wallet: wallet.toLowerCase(),
+    basename: null,
+    twitter: null,
+    twitterUrl: null,
+    url: null,
+    github: null,
+  };
+
+  try {
+    const basename = await getBasename(wallet);
+    if (!basename) return result;
+
+    result.basename = basename;
+
+    const records = await getBasenameTextRecords(basename);
+    result.twitter = records.twitter;
+    if (records.twitter) {
+      result.twitterUrl = `https://x.com/${records.twitter}`;
+    }
+    result.url = records.url;
+    result.github = records.github;
+
+    return result;
+  } catch (error) {
+    console.error(`Basename lookup failed for ${wallet}:`, error);
+    return result;
+  }
+}
+
+export async function batchLookupBasenames(
+  wallets: string[],
+  onProgress?: (completed: number, found: number) => void,
+  batchSize = 50,
+  delayMs = 50
+): Promise<Map<string, BasenameResult>> {
+  const results = new Map<string, BasenameResult>();
+  let completed = 0;
+  let found = 0;
+
+  for (let i = 0; i < wallets.length; i += batchSize) {
+    const batch = wallets.slice(i, i + batchSize);
+
+    const batchResults = await Promise.allSettled(
+      batch.map((wallet) => lookupWalletBasename(wallet))
+    );
+
+    for (const result of batchResults) {
+      if (result.status === 'fulfilled') {
+        const data = result.value;
+        if (data.basename) {
+          results.set(data.wallet, data);
+          found++;
+        }
+      }
+      completed++;
+    }
+    onProgress?.(completed, found);
+
+    if (i + batchSize < wallets.length) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  return results;
+}
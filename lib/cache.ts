@@ -1,5 +1,6 @@
 import { getDb, walletCache, type NewWalletCache } from '@/db';
 import { inArray, lt, sql } from 'drizzle-orm';
+import { normalizeWallet } from './wallets';
 import type { WalletSocialResult } from './types';
 
 const CACHE_TTL_HOURS = 24;
@@ -11,13 +12,13 @@ export async function getCachedWallets(
   if (!db || wallets.length === 0) return new Map();
 
   const cutoff = new Date(Date.now() - CACHE_TTL_HOURS * 60 * 60 * 1000);
-  const lowercaseWallets = wallets.map((w) => w.toLowerCase());
+  const normalizedWallets = wallets.map((w) => normalizeWallet(w));
 
   try {
     const cached = await db
       .select()
       .from(walletCache)
-      .where(inArray(walletCache.wallet, lowercaseWallets));
+      .where(inArray(walletCache.wallet, normalizedWallets));
 
     const results = new Map<string, WalletSocialResult>();
 
@@ -55,7 +56,7 @@ export async function cacheWalletResults(
 
   try {
     const rows: NewWalletCache[] = results.map((r) => ({
-      wallet: r.wallet.toLowerCase(),
+      wallet: normalizeWallet(r.wallet),
       ensName: r.ens_name ?? null,
       twitterHandle: r.twitter_handle ?? null,
       twitterUrl: r.twitter_url ?? null,
@@ -0,0 +1,44 @@
+// Chains supported by contract-holder import. Client-safe: no server imports,
+// so the import modal can render the chain picker from the same list the API
+// validates against.
+
+export type SupportedChain = 'ethereum' | 'base' | 'optimism' | 'arbitrum' | 'polygon' | 'zora';
+
+export const SUPPORTED_CHAINS: SupportedChain[] = [
+  'ethereum',
+  'base',
+  'optimism',
+  'arbitrum',
+  'polygon',
+  'zora',
+];
+
+export const CHAIN_LABELS: Record<SupportedChain, string> = {
+  ethereum: 'Ethereum',
+  base: 'Base',
+  optimism: 'Optimism',
+  arbitrum: 'Arbitrum',
+  polygon: 'Polygon',
+  zora: 'Zora',
+};
+
+// EVM chain IDs
+export const CHAIN_IDS: Record<SupportedChain, number> = {
+  ethereum: 1,
+  base: 8453,
+  optimism: 10,
+  arbitrum: 42161,
+  polygon: 137,
+  zora: 7777777,
+};
+
+export function isSupportedChain(chain: unknown): chain is SupportedChain {
+  return typeof chain === 'string' && (SUPPORTED_CHAINS as string[]).includes(chain);
+}
+
+/**
+ * Error message for an unsupported `chain` request field
+ */
+export function unsupportedChainMessage(): string {
+  return `Chain must be one of: ${SUPPORTED_CHAINS.join(', ')}`;
+}
@@ -60,7 +60,10 @@ export const Analytics = {
   lookupCompleted: (walletCount: number, matchRate: number, durationMs: number) =>
     trackClientEvent('lookup_completed', { walletCount, matchRate, durationMs }),
 
-  exportClicked: (format: 'csv' | 'twitter', resultCount: number) =>
+  exportClicked: (
+    format: 'csv' | 'xlsx' | 'json' | 'ndjson' | 'tsv' | 'crm' | 'twitter' | 'x_audience',
+    resultCount: number
+  ) =>
     trackClientEvent('export_clicked', { format, resultCount }),
 
   historySaved: (lookupId: string, walletCount: number) =>
@@ -0,0 +1,187 @@
+import { findHoldingsColumn, type WalletRow } from './csv-parser';
+
+// Column-mapping step between upload and lookup. The user confirms (or
+// overrides) which column holds wallets and holdings, which columns are
+// labels, and which to drop. Mappings are remembered in localStorage per
+// header signature so the same export from the same tool maps itself.
+
+export type ColumnRole = 'wallet' | 'holdings' | 'label' | 'keep' | 'drop';
+
+export interface ColumnMapping {
+  walletColumn: string;
+  holdingsColumn: string | null;
+  labelColumns: string[];
+  droppedColumns: string[];
+}
+
+interface SavedMapping extends ColumnMapping {
+  savedAt: number;
+}
+
+const STORAGE_KEY = 'column_mappings';
+const MAX_SAVED_MAPPINGS = 50;
+
+/**
+ * Order-insensitive key for a set of headers
+ */
+export function getHeaderSignature(columns: string[]): string {
+  return columns
+    .map((c) => c.trim().toLowerCase())
+    .sort()
+    .join('|');
+}
+
+function readSavedMappings(): Record<string, SavedMapping> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Saved mapping for these headers, if every column it names still exists
+ */
+export function loadSavedMapping(columns: string[]): ColumnMapping | null {
+  const saved = readSavedMappings()[getHeaderSignature(columns)];
+  if (!saved) return null;
+
+  const present = new Set(columns);
+  const named = [
+    saved.walletColumn,
+    ...(saved.holdingsColumn ? [saved.holdingsColumn] : []),
+    ...saved.labelColumns,
+    ...saved.droppedColumns,
+  ];
+  if (!named.every((c) => present.has(c))) return null;
+
+  return {
+    walletColumn: saved.walletColumn,
+    holdingsColumn: saved.holdingsColumn,
+    labelColumns: saved.labelColumns,
+    droppedColumns: saved.droppedColumns,
+  };
+}
+
+export function saveMapping(columns: string[], mapping: ColumnMapping): void {
+  if (typeof window === 'undefined') return;
+
+  const mappings = readSavedMappings();
+  mappings[getHeaderSignature(columns)] = { ...mapping, savedAt: Date.now() };
+
+  // Keep the most recently used signatures only
+  const kept = Object.entries(mappings)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_SAVED_MAPPINGS);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch {
+    // Storage full or disabled - mapping just won't be remembered
+  }
+}
+
+/**
+ * Starting point for the mapping step: the saved mapping for these headers,
+ * or the parser's detected wallet column plus a header-name holdings guess.
+ */
+export function suggestMapping(
+  columns: string[],
+  detectedWalletColumn: string
+): { mapping: ColumnMapping; fromSaved: boolean } {
+  const saved = loadSavedMapping(columns);
+  if (saved) return { mapping: saved, fromSaved: true };
+
+  return {
+    mapping: {
+      walletColumn: detectedWalletColumn,
+      holdingsColumn: findHoldingsColumn(
+        columns.filter((c) => c !== detectedWalletColumn)
+      ),
+      labelColumns: [],
+      droppedColumns: [],
+    },
+    fromSaved: false,
+  };
+}
+
+export function getColumnRole(mapping: ColumnMapping, column: string): ColumnRole {
+  if (column === mapping.walletColumn) return 'wallet';
+  if (column === mapping.holdingsColumn) return 'holdings';
+  if (mapping.labelColumns.includes(column)) return 'label';
+  if (mapping.droppedColumns.includes(column)) return 'drop';
+  return 'keep';
+}
+
+/**
+ * Give `column` a new role. Wallet and holdings are single-column roles, so
+ * the column that had it before goes back to 'keep'.
+ */
+export function setColumnRole(
+  mapping: ColumnMapping,
+  column: string,
+  role: ColumnRole
+): ColumnMapping {
+  const next: ColumnMapping = {
+    walletColumn: mapping.walletColumn,
+    holdingsColumn: mapping.holdingsColumn === column ? null : mapping.holdingsColumn,
+    labelColumns: mapping.labelColumns.filter((c) => c !== column),
+    droppedColumns: mapping.droppedColumns.filter((c) => c !== column),
+  };
+
+  switch (role) {
+    case 'wallet':
+      next.walletColumn = column;
+      break;
+    case 'holdings':
+      next.holdingsColumn = column;
+      break;
+    case 'label':
+      next.labelColumns.push(column);
+      break;
+    case 'drop':
+      next.droppedColumns.push(column);
+      break;
+  }
+
+  return next;
+}
+
+/**
+ * Turn parsed rows into the per-wallet originalData sent with the job.
+ * Dropped columns are removed; label columns come first in extraColumns.
+ */
+export function applyMapping(
+  rows: WalletRow[],
+  mapping: Pick<ColumnMapping, 'labelColumns' | 'droppedColumns'>
+): {
+  originalData: Record<string, Record<string, string>>;
+  extraColumns: string[];
+} {
+  const dropped = new Set(mapping.droppedColumns);
+  const originalData: Record<string, Record<string, string>> = {};
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    const extra: Record<string, string> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (key !== 'wallet' && value && !dropped.has(key)) {
+        extra[key] = value;
+        seen.add(key);
+      }
+    }
+    originalData[row.wallet] = extra;
+  }
+
+  return { originalData, extraColumns: orderExtraColumns([...seen], mapping.labelColumns) };
+}
+
+/**
+ * Order extra columns for display: label columns first, then the rest.
+ * Shared with the job status API so resumed jobs keep the same order.
+ */
+export function orderExtraColumns(columns: string[], labelColumns: string[]): string[] {
+  const labels = labelColumns.filter((c) => columns.includes(c));
+  return [...labels, ...columns.filter((c) => !labels.includes(c))];
+}
@@ -1,8 +1,10 @@
 import { ethers } from 'ethers';
+import { CHAIN_IDS, type SupportedChain } from './chains';
+
+export type { SupportedChain } from './chains';
 
 // Types
 export type ContractType = 'ERC-20' | 'ERC-721' | 'ERC-1155';
-export type SupportedChain = 'ethereum' | 'base';
 
 export interface HolderResult {
   wallets: string[];
@@ -12,12 +14,49 @@ export interface HolderResult {
   totalHolders: number;
   truncated: boolean;
   chain: SupportedChain;
+  /** Balance per holder: formatted ERC-20 balance, or ERC-1155 editions held across `tokenIds` */
+  balances?: Record<string, string>;
+  /** ERC-1155 token IDs the holders were limited to */
+  tokenIds?: string[];
+  /** ERC-1155 per-token-ID balances: wallet -> tokenId -> balance */
+  tokenBalances?: Record<string, Record<string, string>>;
+  /** ERC-1155 token scan stopped at ERC1155_SCAN_MS before reaching the end of the contract */
+  partial?: boolean;
+}
+
+export interface ContractToken {
+  tokenId: string;
+  name: string | null;
+}
+
+export interface ContractInfo {
+  /** Checksummed contract address */
+  address: string;
+  contractType: ContractType;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+export interface HolderPage {
+  wallets: string[];
+  /** Pass back to fetch the next page; null when there are no more pages */
+  cursor: string | null;
+  /** Total holder count when the API reports one */
+  totalHolders: number | null;
+  /** Wallet -> formatted balance (ERC-20 only) */
+  balances?: Record<string, string>;
 }
 
 // Constants
-const HOLDER_LIMIT = 10000;
+export const HOLDER_LIMIT = 10000;
+export const MAX_TOKEN_IDS = 50;
 const RPC_TIMEOUT_MS = 15000;
 
+// Per-token-ID holders page through every owner of the contract, so stop
+// well inside the route's 60s maxDuration and return what was found
+const ERC1155_SCAN_MS = 40000;
+const ERC1155_PAGE_TIMEOUT_MS = 30000;
+
 // ERC-165 interface IDs
 const ERC721_INTERFACE_ID = '0x80ac58cd';
 const ERC1155_INTERFACE_ID = '0xd9b67a26';
@@ -45,20 +84,64 @@ const RPC_ENDPOINTS: Record<SupportedChain, string[]> = {
     'https://base.llamarpc.com',
     'https://base.publicnode.com',
   ],
+  optimism: [
+    'https://mainnet.optimism.io',
+    'https://optimism.llamarpc.com',
+    'https://optimism-rpc.publicnode.com',
+  ],
+  arbitrum: [
+    'https://arb1.arbitrum.io/rpc',
+    'https://arbitrum.llamarpc.com',
+    'https://arbitrum-one-rpc.publicnode.com',
+  ],
+  polygon: [
+    'https://polygon-rpc.com',
+    'https://polygon.llamarpc.com',
+    'https://polygon-bor-rpc.publicnode.com',
+  ],
+  zora: [
+    'https://rpc.zora.energy',
+  ],
 };
 
 // Alchemy endpoints for NFT holder lookups
 const ALCHEMY_ENDPOINTS: Record<SupportedChain, string> = {
   ethereum: 'https://eth-mainnet.g.alchemy.com/nft/v3',
   base: 'https://base-mainnet.g.alchemy.com/nft/v3',
+  optimism: 'https://opt-mainnet.g.alchemy.com/nft/v3',
+  arbitrum: 'https://arb-mainnet.g.alchemy.com/nft/v3',
+  polygon: 'https://polygon-mainnet.g.alchemy.com/nft/v3',
+  zora: 'https://zora-mainnet.g.alchemy.com/nft/v3',
 };
 
-// Moralis chain IDs (use hex format for better compatibility)
-const MORALIS_CHAIN_IDS: Record<SupportedChain, string> = {
+// Moralis chain IDs (use hex format for better compatibility). Moralis has no
+// Zora support, so ERC-20 holders can't be listed there.
+const MORALIS_CHAIN_IDS: Partial<Record<SupportedChain, string>> = {
   ethereum: '0x1',
   base: '0x2105',
+  optimism: '0xa',
+  arbitrum: '0xa4b1',
+  polygon: '0x89',
 };
 
+/**
+ * Whether holders of this contract type can be listed on this chain
+ */
+export function supportsHolderListing(contractType: ContractType, chain: SupportedChain): boolean {
+  return contractType !== 'ERC-20' || MORALIS_CHAIN_IDS[chain] !== undefined;
+}
+
+/**
+ * Moralis chain ID for ERC-20 holder lookups
+ */
+function getMoralisChainId(chain: SupportedChain): string {
+  const chainId = MORALIS_CHAIN_IDS[chain];
+  if (!chainId) {
+    throw new Error('UNSUPPORTED_CHAIN');
+  }
+  return chainId;
+}
+
 /**
  * Wraps a promise with a timeout
  */
@@ -75,20 +158,37 @@ async function withTimeout<T>(
 
 /**
  * Get a provider for the specified chain
- * Uses Alchemy for Ethereum, public RPCs for Base (unless Alchemy Base is configured)
+ * Uses Alchemy for Ethereum, public RPCs for L2s (unless Alchemy is enabled for them)
  */
-function getProvider(chain: SupportedChain): ethers.JsonRpcProvider {
+export function getChainProvider(chain: SupportedChain): ethers.JsonRpcProvider {
   const alchemyKey = process.env.ALCHEMY_KEY;
+  const network = ethers.Network.from(CHAIN_IDS[chain]);
 
   // For Ethereum, prefer Alchemy if available
   if (chain === 'ethereum' && alchemyKey) {
-    return new ethers.JsonRpcProvider(`https://eth-mainnet.g.alchemy.com/v2/${alchemyKey}`);
+    return new ethers.JsonRpcProvider(`https://eth-mainnet.g.alchemy.com/v2/${alchemyKey}`, network, {
+      staticNetwork: network,
+    });
   }
 
-  // For Base, use public RPCs by default (Alchemy Base requires separate enablement)
-  // This avoids the "BASE_MAINNET is not enabled" error
+  // For L2s, use public RPCs by default (Alchemy L2s require separate enablement)
+  // This avoids the "BASE_MAINNET is not enabled" error. The chain ID is known,
+  // so skip ethers' network-detection round trip.
   const endpoints = RPC_ENDPOINTS[chain];
-  return new ethers.JsonRpcProvider(endpoints[0]);
+  return new ethers.JsonRpcProvider(endpoints[0], network, { staticNetwork: network });
+}
+
+/**
+ * Alchemy JSON-RPC provider for the chain, for the alchemy_* methods public
+ * RPCs don't have. Null without ALCHEMY_KEY.
+ */
+export function getAlchemyRpcProvider(chain: SupportedChain): ethers.JsonRpcProvider | null {
+  const alchemyKey = process.env.ALCHEMY_KEY;
+  if (!alchemyKey) return null;
+
+  const network = ethers.Network.from(CHAIN_IDS[chain]);
+  const url = ALCHEMY_ENDPOINTS[chain].replace('/nft/v3', `/v2/${alchemyKey}`);
+  return new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
 }
 
 /**
@@ -98,7 +198,7 @@ export async function detectContractType(
   address: string,
   chain: SupportedChain
 ): Promise<ContractType> {
-  const provider = getProvider(chain);
+  const provider = getChainProvider(chain);
 
   // Verify it's a contract (not an EOA)
   const code = await withTimeout(
@@ -144,7 +244,7 @@ async function getTokenInfo(
   address: string,
   chain: SupportedChain
 ): Promise<{ name: string; symbol: string }> {
-  const provider = getProvider(chain);
+  const provider = getChainProvider(chain);
   const contract = new ethers.Contract(address, TOKEN_INFO_ABI, provider);
 
   let name = 'Unknown Token';
@@ -216,6 +316,149 @@ async function getERC721Holders(
   };
 }
 
+/**
+ * Canonical decimal form of a token ID ("0x1f" and "31" are the same token)
+ */
+export function normalizeTokenId(tokenId: string): string | null {
+  const trimmed = tokenId.trim();
+  if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(trimmed)) return null;
+  return BigInt(trimmed).toString();
+}
+
+/**
+ * Get ERC-1155 holders of specific token IDs, with per-ID balances, using
+ * Alchemy getOwnersForContract with token balances. Stops paging after
+ * ERC1155_SCAN_MS; `complete` is false when owners were left unscanned.
+ */
+async function getERC1155TokenHolders(
+  address: string,
+  chain: SupportedChain,
+  tokenIds: string[],
+  limit: number = HOLDER_LIMIT
+): Promise<{
+  wallets: string[];
+  totalHolders: number;
+  balances: Record<string, string>;
+  tokenBalances: Record<string, Record<string, string>>;
+  complete: boolean;
+}> {
+  const alchemyKey = process.env.ALCHEMY_KEY;
+  if (!alchemyKey) {
+    throw new Error('ALCHEMY_KEY required for NFT holder lookups');
+  }
+
+  const wanted = new Set(tokenIds);
+  const tokenBalances: Record<string, Record<string, string>> = {};
+  const totals = new Map<string, bigint>();
+  const deadline = Date.now() + ERC1155_SCAN_MS;
+  let pageKey: string | null = null;
+
+  do {
+    const url = new URL(`${ALCHEMY_ENDPOINTS[chain]}/${alchemyKey}/getOwnersForContract`);
+    url.searchParams.set('contractAddress', address);
+    url.searchParams.set('withTokenBalances', 'true');
+    if (pageKey) url.searchParams.set('pageKey', pageKey);
+
+    const response = await withTimeout(
+      fetch(url.toString(), { method: 'GET', headers: { 'Accept': 'application/json' } }),
+      Math.min(ERC1155_PAGE_TIMEOUT_MS, Math.max(deadline - Date.now(), 1000)),
+      'Alchemy getOwnersForContract timed out'
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Alchemy API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const owners = (data.owners || []) as Array<{
+      ownerAddress: string;
+      tokenBalances?: Array<{ tokenId: string; balance: string | number }>;
+    }>;
+
+    for (const owner of owners) {
+      const wallet = owner.ownerAddress.toLowerCase();
+      for (const { tokenId, balance } of owner.tokenBalances || []) {
+        const id = normalizeTokenId(String(tokenId));
+        if (!id || !wanted.has(id)) continue;
+
+        // Alchemy returns decimal or hex strings; skip anything else
+        const raw = String(balance).trim();
+        if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(raw)) continue;
+        const amount = BigInt(raw);
+        if (amount <= BigInt(0)) continue;
+
+        tokenBalances[wallet] = { ...tokenBalances[wallet], [id]: amount.toString() };
+        totals.set(wallet, (totals.get(wallet) ?? BigInt(0)) + amount);
+      }
+    }
+
+    pageKey = data.pageKey || null;
+  } while (pageKey && Date.now() < deadline);
+
+  // Biggest holders first, so truncation drops the smallest
+  const ranked = [...totals.entries()].sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0));
+  const wallets = ranked.slice(0, limit).map(([wallet]) => wallet);
+
+  const balances: Record<string, string> = {};
+  const limitedTokenBalances: Record<string, Record<string, string>> = {};
+  for (const wallet of wallets) {
+    balances[wallet] = totals.get(wallet)!.toString();
+    limitedTokenBalances[wallet] = tokenBalances[wallet];
+  }
+
+  return {
+    wallets,
+    totalHolders: ranked.length,
+    balances,
+    tokenBalances: limitedTokenBalances,
+    complete: pageKey === null,
+  };
+}
+
+/**
+ * Token IDs of an NFT contract (first page), for the ERC-1155 token picker
+ */
+export async function listContractTokens(
+  address: string,
+  chain: SupportedChain,
+  limit: number = 100
+): Promise<ContractToken[]> {
+  const alchemyKey = process.env.ALCHEMY_KEY;
+  if (!alchemyKey) return [];
+
+  const url = new URL(`${ALCHEMY_ENDPOINTS[chain]}/${alchemyKey}/getNFTsForContract`);
+  url.searchParams.set('contractAddress', address);
+  url.searchParams.set('withMetadata', 'true');
+  url.searchParams.set('limit', String(limit));
+
+  try {
+    const response = await withTimeout(
+      fetch(url.toString(), { method: 'GET', headers: { 'Accept': 'application/json' } }),
+      RPC_TIMEOUT_MS,
+      'Alchemy getNFTsForContract timed out'
+    );
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    const nfts = (data.nfts || []) as Array<{
+      tokenId: string;
+      name?: string | null;
+      raw?: { metadata?: { name?: string } };
+    }>;
+
+    return nfts.flatMap((nft) => {
+      const tokenId = normalizeTokenId(String(nft.tokenId));
+      if (!tokenId) return [];
+      return [{ tokenId, name: nft.name || nft.raw?.metadata?.name || null }];
+    });
+  } catch (error) {
+    // The picker falls back to typing IDs by hand
+    console.error('List contract tokens error:', error);
+    return [];
+  }
+}
+
 /**
  * Get ERC-20 token holders using Moralis API
  */
@@ -223,14 +466,15 @@ async function getERC20Holders(
   address: string,
   chain: SupportedChain,
   limit: number = HOLDER_LIMIT
-): Promise<{ wallets: string[]; totalHolders: number }> {
+): Promise<{ wallets: string[]; totalHolders: number; balances: Record<string, string> }> {
   const moralisKey = process.env.MORALIS_API_KEY;
   if (!moralisKey) {
     throw new Error('MORALIS_API_KEY required for ERC-20 holder lookups');
   }
 
-  const chainId = MORALIS_CHAIN_IDS[chain];
+  const chainId = getMoralisChainId(chain);
   const wallets: string[] = [];
+  const balances: Record<string, string> = {};
   let cursor: string | null = null;
   let totalHolders = 0;
 
@@ -273,11 +517,14 @@ async function getERC20Holders(
       totalHolders = data.total;
     }
 
-    // Extract wallet addresses
-    const pageWallets = (data.result || []).map((h: { owner_address: string }) =>
-      h.owner_address.toLowerCase()
-    );
-    wallets.push(...pageWallets);
+    // Extract wallet addresses and balances
+    for (const holder of (data.result || []) as Array<{ owner_address: string; balance_formatted?: string }>) {
+      const wallet = holder.owner_address.toLowerCase();
+      wallets.push(wallet);
+      if (holder.balance_formatted !== undefined) {
+        balances[wallet] = holder.balance_formatted;
+      }
+    }
 
     cursor = data.cursor || null;
 
@@ -298,34 +545,148 @@ async function getERC20Holders(
   return {
     wallets: uniqueWallets,
     totalHolders: totalHolders || uniqueWallets.length,
+    balances,
   };
 }
 
 /**
- * Main entry point: Get all holders for a contract
+ * Validate a contract and read its type and token metadata
  */
-export async function getContractHolders(
+export async function getContractInfo(
   address: string,
   chain: SupportedChain
-): Promise<HolderResult> {
-  // Validate address format
+): Promise<ContractInfo> {
   if (!ethers.isAddress(address)) {
     throw new Error('INVALID_ADDRESS');
   }
 
-  // Normalize address
   const normalizedAddress = ethers.getAddress(address);
-
-  // Detect contract type
   const contractType = await detectContractType(normalizedAddress, chain);
-
-  // Get token info
   const { name: tokenName, symbol: tokenSymbol } = await getTokenInfo(normalizedAddress, chain);
 
-  // Fetch holders based on contract type
-  let holdersResult: { wallets: string[]; totalHolders: number };
+  return { address: normalizedAddress, contractType, tokenName, tokenSymbol };
+}
 
+/**
+ * Fetch one page of holders. Used by the background holder import, which
+ * persists the cursor between pages so large collections can be resumed.
+ */
+export async function fetchHolderPage(
+  address: string,
+  chain: SupportedChain,
+  contractType: ContractType,
+  cursor: string | null
+): Promise<HolderPage> {
   if (contractType === 'ERC-721' || contractType === 'ERC-1155') {
+    const alchemyKey = process.env.ALCHEMY_KEY;
+    if (!alchemyKey) {
+      throw new Error('ALCHEMY_KEY required for NFT holder lookups');
+    }
+
+    const url = new URL(`${ALCHEMY_ENDPOINTS[chain]}/${alchemyKey}/getOwnersForContract`);
+    url.searchParams.set('contractAddress', address);
+    url.searchParams.set('withTokenBalances', 'false');
+    if (cursor) url.searchParams.set('pageKey', cursor);
+
+    const response = await withTimeout(
+      fetch(url.toString(), { method: 'GET', headers: { 'Accept': 'application/json' } }),
+      30000,
+      'Alchemy getOwnersForContract timed out'
+    );
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new Error('RATE_LIMIT');
+      }
+      const errorText = await response.text();
+      throw new Error(`Alchemy API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return {
+      wallets: ((data.owners || []) as string[]).map((w) => w.toLowerCase()),
+      cursor: data.pageKey || null,
+      totalHolders: null,
+    };
+  }
+
+  const moralisKey = process.env.MORALIS_API_KEY;
+  if (!moralisKey) {
+    throw new Error('MORALIS_API_KEY required for ERC-20 holder lookups');
+  }
+
+  const url = new URL(`https://deep-index.moralis.io/api/v2.2/erc20/${address}/owners`);
+  url.searchParams.set('chain', getMoralisChainId(chain));
+  url.searchParams.set('limit', '100');
+  if (cursor) url.searchParams.set('cursor', cursor);
+
+  const response = await withTimeout(
+    fetch(url.toString(), {
+      method: 'GET',
+      headers: { 'Accept': 'application/json', 'X-API-Key': moralisKey },
+    }),
+    30000,
+    'Moralis getTokenHolders timed out'
+  );
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new Error('RATE_LIMIT');
+    }
+    const errorText = await response.text();
+    throw new Error(`Moralis API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  const wallets: string[] = [];
+  const balances: Record<string, string> = {};
+  for (const holder of (data.result || []) as Array<{ owner_address: string; balance_formatted?: string }>) {
+    const wallet = holder.owner_address.toLowerCase();
+    wallets.push(wallet);
+    if (holder.balance_formatted !== undefined) {
+      balances[wallet] = holder.balance_formatted;
+    }
+  }
+  return {
+    wallets,
+    cursor: data.cursor || null,
+    totalHolders: data.total ?? null,
+    balances,
+  };
+}
+
+/**
+ * Main entry point: Get all holders for a contract
+ */
+export async function getContractHolders(
+  address: string,
+  chain: SupportedChain,
+  tokenIds?: string[]
+): Promise<HolderResult> {
+  // Validate address, detect contract type and read token info
+  const {
+    address: normalizedAddress,
+    contractType,
+    tokenName,
+    tokenSymbol,
+  } = await getContractInfo(address, chain);
+
+  // Fetch holders based on contract type
+  let holdersResult: {
+    wallets: string[];
+    totalHolders: number;
+    balances?: Record<string, string>;
+    tokenBalances?: Record<string, Record<string, string>>;
+    complete?: boolean;
+  };
+
+  if (tokenIds && tokenIds.length > 0) {
+    // Per-token-ID holders only make sense for multi-edition contracts
+    if (contractType !== 'ERC-1155') {
+      throw new Error('NOT_ERC1155');
+    }
+    holdersResult = await getERC1155TokenHolders(normalizedAddress, chain, tokenIds, HOLDER_LIMIT);
+  } else if (contractType === 'ERC-721' || contractType === 'ERC-1155') {
     holdersResult = await getERC721Holders(normalizedAddress, chain, HOLDER_LIMIT);
   } else {
     holdersResult = await getERC20Holders(normalizedAddress, chain, HOLDER_LIMIT);
@@ -335,13 +696,19 @@ export async function getContractHolders(
     throw new Error('NO_HOLDERS');
   }
 
+  const partial = holdersResult.complete === false;
+
   return {
     wallets: holdersResult.wallets,
     tokenName,
     tokenSymbol,
     contractType,
     totalHolders: holdersResult.totalHolders,
-    truncated: holdersResult.totalHolders > HOLDER_LIMIT,
+    truncated: holdersResult.totalHolders > HOLDER_LIMIT || partial,
     chain,
+    balances: holdersResult.balances,
+    tokenIds: tokenIds && tokenIds.length > 0 ? tokenIds : undefined,
+    tokenBalances: holdersResult.tokenBalances,
+    partial: partial || undefined,
   };
 }
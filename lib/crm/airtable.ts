@@ -0,0 +1,74 @@
+import { crmRequest, isBatchError } from './request';
+import type { CrmAdapter, CrmConnection, CrmRecord, CrmUpsertResult } from './types';
+
+export const AIRTABLE_API_URL = 'https://api.airtable.com';
+
+// Airtable allows 5 requests/second per base
+const REQUEST_DELAY_MS = 250;
+
+interface UpsertResponse {
+  createdRecords?: string[];
+  updatedRecords?: string[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Airtable rows via PATCH with performUpsert, merging on the key field.
+ * `typecast` lets Airtable convert values to the field types (e.g. numbers
+ * into a currency field, new options into a single select).
+ */
+export function createAirtableAdapter(baseUrl = AIRTABLE_API_URL): CrmAdapter {
+  return {
+    id: 'airtable',
+    batchSize: 10,
+
+    validateConnection(connection: CrmConnection) {
+      if (!connection.token) return 'Airtable access token required';
+      if (!connection.baseId || !/^app[a-zA-Z0-9]{14}$/.test(connection.baseId)) {
+        return 'Airtable base ID must look like appXXXXXXXXXXXXXX';
+      }
+      if (!connection.table?.trim()) return 'Airtable table required';
+      return null;
+    },
+
+    async upsertRecords(records: CrmRecord[], keyField: string, connection: CrmConnection) {
+      const result: CrmUpsertResult = { created: 0, updated: 0, failed: 0, errors: [] };
+      const url = `${baseUrl}/v0/${connection.baseId}/${encodeURIComponent(connection.table!.trim())}`;
+
+      for (let i = 0; i < records.length; i += this.batchSize) {
+        const batch = records.slice(i, i + this.batchSize);
+        // Blank values are left out so an upsert never clears data already in the table
+        const rows = batch.map((record) => ({
+          fields: Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null)),
+        }));
+
+        try {
+          const response = await crmRequest<UpsertResponse>('Airtable', url, {
+            method: 'PATCH',
+            token: connection.token,
+            body: JSON.stringify({
+              performUpsert: { fieldsToMergeOn: [keyField] },
+              records: rows,
+              typecast: true,
+            }),
+          });
+          result.created += response.createdRecords?.length ?? 0;
+          result.updated += response.updatedRecords?.length ?? 0;
+        } catch (error) {
+          if (!isBatchError(error)) throw error;
+          result.failed += batch.length;
+          result.errors.push(error.message);
+        }
+
+        if (i + this.batchSize < records.length) {
+          await sleep(REQUEST_DELAY_MS);
+        }
+      }
+
+      return result;
+    },
+  };
+}
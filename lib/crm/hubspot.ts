@@ -0,0 +1,64 @@
+import { crmRequest, isBatchError } from './request';
+import type { CrmAdapter, CrmConnection, CrmRecord, CrmUpsertResult } from './types';
+
+export const HUBSPOT_API_URL = 'https://api.hubapi.com';
+
+interface BatchUpsertResponse {
+  results: { id: string; new?: boolean }[];
+  errors?: { message: string }[];
+}
+
+/**
+ * HubSpot contacts via the batch upsert endpoint. The key field must be a
+ * contact property marked "unique value" in HubSpot; mapped properties must
+ * already exist (HubSpot rejects unknown ones).
+ */
+export function createHubSpotAdapter(baseUrl = HUBSPOT_API_URL): CrmAdapter {
+  return {
+    id: 'hubspot',
+    batchSize: 100,
+
+    validateConnection(connection: CrmConnection) {
+      return connection.token ? null : 'HubSpot access token required';
+    },
+
+    async upsertRecords(records: CrmRecord[], keyField: string, connection: CrmConnection) {
+      const result: CrmUpsertResult = { created: 0, updated: 0, failed: 0, errors: [] };
+
+      for (let i = 0; i < records.length; i += this.batchSize) {
+        const batch = records.slice(i, i + this.batchSize);
+        const inputs = batch.map((record) => {
+          const properties: Record<string, string> = {};
+          for (const [field, value] of Object.entries(record)) {
+            // HubSpot takes every property value as a string
+            if (field !== keyField && value !== null) properties[field] = String(value);
+          }
+          return { idProperty: keyField, id: String(record[keyField]), properties };
+        });
+
+        try {
+          const response = await crmRequest<BatchUpsertResponse>(
+            'HubSpot',
+            `${baseUrl}/crm/v3/objects/contacts/batch/upsert`,
+            { method: 'POST', token: connection.token, body: JSON.stringify({ inputs }) }
+          );
+          for (const row of response.results) {
+            if (row.new) result.created++;
+            else result.updated++;
+          }
+          const missing = batch.length - response.results.length;
+          if (missing > 0) {
+            result.failed += missing;
+            result.errors.push(...(response.errors ?? []).map((e) => e.message));
+          }
+        } catch (error) {
+          if (!isBatchError(error)) throw error;
+          result.failed += batch.length;
+          result.errors.push(error.message);
+        }
+      }
+
+      return result;
+    },
+  };
+}
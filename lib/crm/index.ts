@@ -0,0 +1,27 @@
+import { createAirtableAdapter } from './airtable';
+import { createHubSpotAdapter } from './hubspot';
+import { createNotionAdapter } from './notion';
+import type { CrmAdapter, CrmDestination } from './types';
+
+export type { CrmAdapter, CrmConnection, CrmDestination, CrmRecord, CrmUpsertResult } from './types';
+export { CrmError } from './types';
+export { createAirtableAdapter, createHubSpotAdapter, createNotionAdapter };
+
+// One adapter per destination. Each factory takes the API base URL, and
+// setCrmAdapter() replaces the adapter used for a destination.
+const adapters: Record<CrmDestination, CrmAdapter> = {
+  hubspot: createHubSpotAdapter(),
+  airtable: createAirtableAdapter(),
+  notion: createNotionAdapter(),
+};
+
+export function getCrmAdapter(destination: CrmDestination): CrmAdapter {
+  return adapters[destination];
+}
+
+/**
+ * Replace a destination's adapter, e.g. `setCrmAdapter(createHubSpotAdapter(proxyUrl))`
+ */
+export function setCrmAdapter(adapter: CrmAdapter): void {
+  adapters[adapter.id] = adapter;
+}
@@ -0,0 +1,182 @@
+import { getResultValue } from '../csv-parser';
+import type { ResultValue, WalletSocialResult } from '../types';
+import type { CrmConnection, CrmDestination, CrmRecord } from './types';
+
+// Field mappings from lookup results to a CRM's own fields. Client-safe: the
+// export modal builds mappings and records with these, and /api/crm-export
+// validates against the same rules before calling an adapter.
+
+export interface CrmFieldMapping {
+  /** WalletSocialResult field or uploaded file column */
+  source: string;
+  /** Destination field (HubSpot property, Airtable/Notion field name) */
+  target: string;
+}
+
+/** Result fields records can be matched on */
+export type CrmKeySource = 'wallet' | 'twitter_handle' | 'farcaster';
+
+export interface CrmDestinationInfo {
+  label: string;
+  /** Connection fields the user fills in, besides the token */
+  connectionFields: { key: Exclude<keyof CrmConnection, 'token'>; label: string; placeholder: string }[];
+  tokenLabel: string;
+  /** Suggested target per source field */
+  defaultTargets: Record<string, string>;
+  /** Most records sent in one export */
+  maxRecords: number;
+  /** Records per /api/crm-export request; sized so a request finishes well within the route's 300s */
+  chunkSize: number;
+}
+
+export const MAX_CRM_MAPPINGS = 40;
+
+export const CRM_KEY_SOURCES: Record<CrmKeySource, string> = {
+  wallet: 'Wallet',
+  twitter_handle: 'Twitter handle',
+  farcaster: 'Farcaster username',
+};
+
+// Sources offered for every lookup; file columns are added per lookup
+export const CRM_SOURCE_FIELDS = [
+  'wallet',
+  'ens_name',
+  'twitter_handle',
+  'twitter_url',
+  'farcaster',
+  'farcaster_url',
+  'fc_fid',
+  'fc_followers',
+  'lens',
+  'github',
+  'holdings',
+  'priority_score',
+  'native_balance',
+  'token_balance',
+  'tx_count',
+  'source',
+];
+
+const SHARED_TARGETS: Record<string, string> = {
+  wallet: 'Wallet',
+  ens_name: 'ENS',
+  twitter_handle: 'Twitter',
+  farcaster: 'Farcaster',
+  fc_followers: 'Farcaster followers',
+  holdings: 'Holdings',
+  priority_score: 'Priority score',
+};
+
+export const CRM_DESTINATIONS: Record<CrmDestination, CrmDestinationInfo> = {
+  hubspot: {
+    label: 'HubSpot',
+    tokenLabel: 'Private app access token',
+    connectionFields: [],
+    // HubSpot contact properties are internal names; custom ones must exist first
+    defaultTargets: {
+      wallet: 'wallet_address',
+      ens_name: 'ens_name',
+      twitter_handle: 'twitterhandle',
+      farcaster: 'farcaster_username',
+      fc_followers: 'farcaster_followers',
+      holdings: 'token_holdings',
+      priority_score: 'priority_score',
+    },
+    maxRecords: 10000,
+    chunkSize: 200,
+  },
+  airtable: {
+    label: 'Airtable',
+    tokenLabel: 'Personal access token',
+    connectionFields: [
+      { key: 'baseId', label: 'Base ID', placeholder: 'appXXXXXXXXXXXXXX' },
+      { key: 'table', label: 'Table', placeholder: 'Holders' },
+    ],
+    defaultTargets: SHARED_TARGETS,
+    maxRecords: 5000,
+    chunkSize: 200,
+  },
+  notion: {
+    label: 'Notion',
+    tokenLabel: 'Integration secret',
+    connectionFields: [{ key: 'databaseId', label: 'Database ID', placeholder: '32-character ID from the URL' }],
+    defaultTargets: SHARED_TARGETS,
+    // One query plus one write per record at Notion's ~3 requests/second
+    maxRecords: 500,
+    // ~1.3s per record, so ~35s per request
+    chunkSize: 25,
+  },
+};
+
+export function isCrmDestination(value: unknown): value is CrmDestination {
+  return typeof value === 'string' && Object.hasOwn(CRM_DESTINATIONS, value);
+}
+
+/**
+ * Suggested mapping: every source with a default target for the destination
+ */
+export function getDefaultMapping(destination: CrmDestination): CrmFieldMapping[] {
+  return Object.entries(CRM_DESTINATIONS[destination].defaultTargets).map(([source, target]) => ({
+    source,
+    target,
+  }));
+}
+
+/**
+ * Check a mapping and key choice. Returns an error message, or null when valid.
+ */
+export function validateMapping(mapping: unknown, keySource: unknown): string | null {
+  if (!Array.isArray(mapping) || mapping.length === 0) return 'Map at least one field';
+  if (mapping.length > MAX_CRM_MAPPINGS) return `At most ${MAX_CRM_MAPPINGS} mapped fields`;
+
+  const targets = new Set<string>();
+  for (const m of mapping as CrmFieldMapping[]) {
+    if (typeof m?.source !== 'string' || !m.source) return 'Every mapped field needs a source';
+    if (typeof m.target !== 'string' || !m.target.trim()) return `"${m.source}" needs a destination field`;
+    const target = m.target.trim();
+    if (targets.has(target)) return `"${target}" is mapped twice`;
+    targets.add(target);
+  }
+
+  if (typeof keySource !== 'string' || !Object.hasOwn(CRM_KEY_SOURCES, keySource)) {
+    return `Match records on one of: ${Object.keys(CRM_KEY_SOURCES).join(', ')}`;
+  }
+  if (!(mapping as CrmFieldMapping[]).some((m) => m.source === keySource)) {
+    return `Map ${CRM_KEY_SOURCES[keySource as CrmKeySource]} to a field to match records on it`;
+  }
+  return null;
+}
+
+/**
+ * Destination field the key source is mapped to
+ */
+export function getKeyField(mapping: CrmFieldMapping[], keySource: CrmKeySource): string {
+  return mapping.find((m) => m.source === keySource)!.target.trim();
+}
+
+function toValue(value: ResultValue): string | number | null {
+  if (value === undefined || value === '') return null;
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  return value;
+}
+
+/**
+ * Map results to destination records. Results without a key value cannot
+ * be upserted and are skipped.
+ */
+export function mapResults(
+  results: WalletSocialResult[],
+  mapping: CrmFieldMapping[],
+  keySource: CrmKeySource
+): CrmRecord[] {
+  return results
+    .filter((r) => !!r[keySource])
+    .map((result) => {
+      const record: CrmRecord = {};
+      for (const { source, target } of mapping) {
+        record[target.trim()] = toValue(getResultValue(result, source));
+      }
+      return record;
+    });
+}
@@ -0,0 +1,152 @@
+import { crmRequest, isBatchError } from './request';
+import { CrmError, type CrmAdapter, type CrmConnection, type CrmRecord, type CrmUpsertResult } from './types';
+
+export const NOTION_API_URL = 'https://api.notion.com';
+const NOTION_VERSION = '2022-06-28';
+
+// Notion averages 3 requests/second per integration
+const REQUEST_DELAY_MS = 350;
+// Longest text Notion accepts in one rich text object
+const MAX_TEXT_LENGTH = 2000;
+
+// Property types values can be written to
+const WRITABLE_TYPES = ['title', 'rich_text', 'number', 'url', 'email', 'phone_number', 'select'];
+// Property types the key field can be matched with an `equals` filter
+const MATCHABLE_TYPES = ['title', 'rich_text', 'number', 'url', 'email', 'phone_number'];
+
+interface DatabaseResponse {
+  properties: Record<string, { type: string }>;
+}
+
+interface QueryResponse {
+  results: { id: string }[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Notion database IDs appear with or without dashes; the API takes either
+ */
+function normalizeDatabaseId(id: string): string {
+  return id.trim().replace(/-/g, '');
+}
+
+function toPropertyValue(type: string, value: string | number): Record<string, unknown> | null {
+  const text = String(value).slice(0, MAX_TEXT_LENGTH);
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return { [type]: [{ text: { content: text } }] };
+    case 'number': {
+      const n = typeof value === 'number' ? value : Number(value);
+      return isFinite(n) ? { number: n } : null;
+    }
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return { [type]: text };
+    case 'select':
+      // Notion select option names cannot contain commas
+      return { select: { name: text.replace(/,/g, ' ').slice(0, 100) } };
+    default:
+      return null;
+  }
+}
+
+function toEqualsFilter(property: string, type: string, value: string | number): Record<string, unknown> {
+  return {
+    property,
+    [type]: { equals: type === 'number' ? Number(value) : String(value) },
+  };
+}
+
+/**
+ * Notion database pages. Notion has no upsert, so each record is a query on
+ * the key property followed by an update or a create.
+ */
+export function createNotionAdapter(baseUrl = NOTION_API_URL): CrmAdapter {
+  return {
+    id: 'notion',
+    batchSize: 1,
+
+    validateConnection(connection: CrmConnection) {
+      if (!connection.token) return 'Notion integration secret required';
+      if (!connection.databaseId || !/^[a-f0-9]{32}$/i.test(normalizeDatabaseId(connection.databaseId))) {
+        return 'Notion database ID must be the 32-character ID from the database URL';
+      }
+      return null;
+    },
+
+    async upsertRecords(records: CrmRecord[], keyField: string, connection: CrmConnection) {
+      const result: CrmUpsertResult = { created: 0, updated: 0, failed: 0, errors: [] };
+      const databaseId = normalizeDatabaseId(connection.databaseId!);
+      const request = <T>(path: string, init: RequestInit = {}) =>
+        crmRequest<T>('Notion', `${baseUrl}/v1${path}`, {
+          ...init,
+          token: connection.token,
+          headers: { 'Notion-Version': NOTION_VERSION },
+        });
+
+      // Property types decide how each value is written, so check the mapping up front
+      const { properties } = await request<DatabaseResponse>(`/databases/${databaseId}`);
+      const fields = new Set(records.flatMap((record) => Object.keys(record)));
+      for (const field of fields) {
+        const type = properties[field]?.type;
+        if (!type) {
+          throw new CrmError(`Notion database has no property "${field}"`, 400);
+        }
+        if (!WRITABLE_TYPES.includes(type)) {
+          throw new CrmError(`Notion property "${field}" is a ${type} property, which exports cannot write`, 400);
+        }
+      }
+      const keyType = properties[keyField].type;
+      if (!MATCHABLE_TYPES.includes(keyType)) {
+        throw new CrmError(`Notion property "${keyField}" cannot be matched on; use a title or text property`, 400);
+      }
+
+      for (const record of records) {
+        const pageProperties: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(record)) {
+          if (value === null) continue;
+          const propertyValue = toPropertyValue(properties[field].type, value);
+          if (propertyValue) pageProperties[field] = propertyValue;
+        }
+
+        try {
+          const existing = await request<QueryResponse>(`/databases/${databaseId}/query`, {
+            method: 'POST',
+            body: JSON.stringify({
+              filter: toEqualsFilter(keyField, keyType, record[keyField]!),
+              page_size: 1,
+            }),
+          });
+          await sleep(REQUEST_DELAY_MS);
+
+          if (existing.results.length > 0) {
+            await request(`/pages/${existing.results[0].id}`, {
+              method: 'PATCH',
+              body: JSON.stringify({ properties: pageProperties }),
+            });
+            result.updated++;
+          } else {
+            await request('/pages', {
+              method: 'POST',
+              body: JSON.stringify({ parent: { database_id: databaseId }, properties: pageProperties }),
+            });
+            result.created++;
+          }
+        } catch (error) {
+          if (!isBatchError(error)) throw error;
+          result.failed++;
+          result.errors.push(`${record[keyField]}: ${error.message}`);
+        }
+
+        await sleep(REQUEST_DELAY_MS);
+      }
+
+      return result;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { CrmError } from './types';
+
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Best-effort error message from a CRM error body
+ */
+function getErrorMessage(body: unknown, fallback: string): string {
+  if (typeof body !== 'object' || body === null) return fallback;
+  const b = body as { message?: unknown; error?: unknown };
+  if (typeof b.message === 'string') return b.message;
+  if (typeof b.error === 'string') return b.error;
+  if (typeof b.error === 'object' && b.error !== null) {
+    const nested = (b.error as { message?: unknown }).message;
+    if (typeof nested === 'string') return nested;
+  }
+  return fallback;
+}
+
+/**
+ * JSON request to a CRM API. Retries 429/5xx with backoff, then throws
+ * CrmError with the upstream message.
+ */
+export async function crmRequest<T>(
+  label: string,
+  url: string,
+  init: RequestInit & { token: string }
+): Promise<T> {
+  const { token, ...rest } = init;
+  let backoff = INITIAL_BACKOFF_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      ...rest,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...rest.headers,
+      },
+    });
+
+    if (response.ok) {
+      return (await response.json()) as T;
+    }
+
+    if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES - 1) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      await sleep(retryAfter > 0 ? retryAfter * 1000 : backoff);
+      backoff *= 2;
+      continue;
+    }
+
+    const body = await response.json().catch(() => null);
+    const message = getErrorMessage(body, `${label} API error: ${response.status}`);
+
+    if (response.status === 401 || response.status === 403) {
+      throw new CrmError(`${label} rejected the token: ${message}`, 401);
+    }
+    if (response.status === 404) {
+      throw new CrmError(`${label}: ${message}`, 404);
+    }
+    // Validation errors (unknown field, wrong type) keep 400; upstream outages become 502
+    throw new CrmError(message, response.status < 500 && response.status !== 429 ? 400 : 502);
+  }
+}
+
+/**
+ * Whether an error only sinks the current batch (a rejected record) rather
+ * than the whole export
+ */
+export function isBatchError(error: unknown): error is CrmError {
+  return error instanceof CrmError && error.status === 400;
+}
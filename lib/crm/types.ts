@@ -0,0 +1,53 @@
+export type CrmDestination = 'hubspot' | 'airtable' | 'notion';
+
+/** A mapped row, keyed by destination field name */
+export type CrmRecord = Record<string, string | number | null>;
+
+/**
+ * Credentials and target for one export. Supplied by the client on every
+ * request and never stored, like the Farcaster DM API key.
+ */
+export interface CrmConnection {
+  /** HubSpot private app token, Airtable personal access token or Notion integration secret */
+  token: string;
+  /** Airtable base ID (app...) */
+  baseId?: string;
+  /** Airtable table name or ID */
+  table?: string;
+  /** Notion database ID */
+  databaseId?: string;
+}
+
+export interface CrmUpsertResult {
+  created: number;
+  updated: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface CrmAdapter {
+  id: CrmDestination;
+  /** Records per upstream request */
+  batchSize: number;
+  /** Missing connection fields, or null when the connection is usable */
+  validateConnection(connection: CrmConnection): string | null;
+  /**
+   * Create or update records, matching existing ones on `keyField`
+   * (a destination field that every record carries)
+   */
+  upsertRecords(
+    records: CrmRecord[],
+    keyField: string,
+    connection: CrmConnection
+  ): Promise<CrmUpsertResult>;
+}
+
+/**
+ * Thrown for upstream errors that fail the whole export (bad token, missing
+ * table) rather than single records
+ */
+export class CrmError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
@@ -1,118 +1,417 @@
+import { parseIdentifier, type LookupIdentifier } from './identifiers';
+import type { ResultValue, WalletSocialResult } from './types';
+
 export interface WalletRow {
   wallet: string;
   [key: string]: string;
 }
 
+/**
+ * Row whose wallet cell is an ENS name / handle rather than an address.
+ * Resolved to wallets via /api/resolve before the lookup runs.
+ */
+export interface PendingRow {
+  identifier: LookupIdentifier;
+  data: Record<string, string>;
+}
+
 export interface ParseResult {
   rows: WalletRow[];
   headers: string[];
+  pending?: PendingRow[];
+  /** Every column in file order, wallet column included (for the mapping step) */
+  columns?: string[];
+  /** Column the wallets were read from */
+  walletColumn?: string;
   error?: string;
 }
 
+export interface ParseOptions {
+  /** Read wallets from this column instead of auto-detecting it */
+  walletColumn?: string;
+}
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export type ParseProgressCallback = (progress: ParseProgress) => void;
+
+// Rows buffered before choosing the wallet column; the rest are streamed
+const DETECTION_SAMPLE_ROWS = 1000;
+const CSV_DELIMITERS = [',', ';', '\t'] as const;
+const CSV_ERRORS: CollectorErrors = {
+  empty: 'Empty CSV file',
+  noWallets: 'No valid wallet addresses found in CSV',
+};
+
+/**
+ * Parse CSV text that is already in memory (pasted text, small files)
+ */
 export function parseCSV(content: string): ParseResult {
-  const lines = content.trim().split(/\r?\n/);
+  const text = stripBOM(content);
+  const tokenizer = createCSVTokenizer(detectDelimiter(text));
+  const collector = createRowCollector(CSV_ERRORS);
+
+  for (const row of tokenizer.push(text)) collector.push(row);
+  for (const row of tokenizer.flush()) collector.push(row);
 
-  if (lines.length === 0) {
-    return { rows: [], headers: [], error: 'Empty CSV file' };
+  return collector.finish();
+}
+
+/**
+ * Stream a CSV file without loading it into memory as one string.
+ * The wallet column is detected from the first rows; everything after is
+ * processed as it arrives.
+ */
+export async function parseCSVStream(
+  file: Blob,
+  onProgress?: ParseProgressCallback,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  const collector = createRowCollector(CSV_ERRORS, options.walletColumn);
+  let tokenizer: CSVTokenizer | null = null;
+  let bytesRead = 0;
+
+  try {
+    while (!collector.failed) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      let text = decoder.decode(value, { stream: true });
+
+      // Delimiter comes from the first chunk (64KB+, plenty of lines)
+      if (!tokenizer) {
+        text = stripBOM(text);
+        tokenizer = createCSVTokenizer(detectDelimiter(text));
+      }
+
+      for (const row of tokenizer.push(text)) collector.push(row);
+      onProgress?.({ bytesRead, totalBytes: file.size, rows: collector.rowCount });
+    }
+
+    if (tokenizer && !collector.failed) {
+      for (const row of tokenizer.push(decoder.decode())) collector.push(row);
+      for (const row of tokenizer.flush()) collector.push(row);
+    }
+  } finally {
+    reader.releaseLock();
   }
 
-  // Parse all lines to detect wallet column
-  const parsedLines = lines.map((line) => parseCSVLine(line));
+  return collector.finish();
+}
 
-  // Find the column with the most valid Ethereum addresses
-  const walletColumnIndex = detectWalletColumn(parsedLines);
+function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
 
-  if (walletColumnIndex === -1) {
-    return {
-      rows: [],
-      headers: [],
-      error: 'No valid wallet addresses found in CSV',
-    };
+/**
+ * Pick the delimiter that splits the first lines into the same number of
+ * columns (so "1,5" decimals in a semicolon file don't win on raw count).
+ */
+export function detectDelimiter(sample: string): string {
+  const lines = sample.split(/\r?\n/);
+  // The last line of a stream chunk is usually cut off
+  if (lines.length > 1) lines.pop();
+  const sampleLines = lines.filter((l) => l.trim()).slice(0, 20);
+  if (sampleLines.length === 0) return ',';
+
+  let best: string = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = sampleLines.map((line) => countOutsideQuotes(line, delimiter));
+    const total = counts.reduce((sum, n) => sum + n, 0);
+    if (total === 0) continue;
+
+    // Consistent column counts beat a higher raw count
+    const consistent = counts.every((n) => n === counts[0]);
+    const score = consistent ? total * 1000 : total;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
   }
 
-  // Check if first row contains a valid address (headerless file)
-  const firstRowValue = parsedLines[0]?.[walletColumnIndex]?.trim();
-  const hasHeader = !isValidEthAddress(firstRowValue || '');
-
-  // Determine headers
-  let headers: string[];
-  let dataStartIndex: number;
-
-  if (hasHeader) {
-    headers = parsedLines[0];
-    dataStartIndex = 1;
-  } else {
-    // Generate placeholder headers (Column A, Column B, etc.)
-    const columnCount = Math.max(...parsedLines.map((l) => l.length));
-    headers = Array.from({ length: columnCount }, (_, i) =>
-      String.fromCharCode(65 + (i % 26)) + (i >= 26 ? Math.floor(i / 26) : '')
-    );
-    dataStartIndex = 0;
+  return best;
+}
+
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const c of line) {
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === char && !inQuotes) count++;
   }
+  return count;
+}
+
+export interface CSVTokenizer {
+  /** Feed the next chunk; returns rows completed by it */
+  push(chunk: string): string[][];
+  /** End of input; returns the last row if the file had no trailing newline */
+  flush(): string[][];
+}
+
+/**
+ * Incremental RFC 4180-style tokenizer. Quoted fields may contain the
+ * delimiter, newlines and doubled quotes, and can span chunk boundaries.
+ */
+export function createCSVTokenizer(delimiter: string): CSVTokenizer {
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // saw '"' inside quotes, waiting to see if it's escaped
+  let skipLF = false; // previous char was '\r'
+
+  const endRow = (rows: string[][]) => {
+    row.push(field.trim());
+    field = '';
+    // Blank lines carry no data
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
 
-  const rows: WalletRow[] = [];
+  return {
+    push(chunk) {
+      const rows: string[][] = [];
+
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+
+        if (skipLF) {
+          skipLF = false;
+          if (char === '\n') continue;
+        }
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (char === '"') {
+              field += '"';
+              continue;
+            }
+            inQuotes = false;
+          } else if (char === '"') {
+            quotePending = true;
+            continue;
+          } else {
+            field += char;
+            continue;
+          }
+        }
+
+        if (char === '"') {
+          inQuotes = true;
+        } else if (char === delimiter) {
+          row.push(field.trim());
+          field = '';
+        } else if (char === '\n' || char === '\r') {
+          skipLF = char === '\r';
+          endRow(rows);
+        } else {
+          field += char;
+        }
+      }
 
-  for (let i = dataStartIndex; i < parsedLines.length; i++) {
-    const values = parsedLines[i];
-    const wallet = values[walletColumnIndex]?.trim();
+      return rows;
+    },
 
-    // Validate wallet address
-    if (!wallet || !isValidEthAddress(wallet)) {
-      continue;
-    }
+    flush() {
+      const rows: string[][] = [];
+      inQuotes = false;
+      quotePending = false;
+      if (field !== '' || row.length > 0) endRow(rows);
+      return rows;
+    },
+  };
+}
+
+/**
+ * Spreadsheet-style placeholder name for column `index` (A, B, ... Z, A1, B1, ...)
+ */
+function columnLabel(index: number): string {
+  return String.fromCharCode(65 + (index % 26)) + (index >= 26 ? Math.floor(index / 26) : '');
+}
+
+/**
+ * Make header names unique and non-empty so no column silently overwrites another
+ */
+export function dedupeHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((header, index) => {
+    const base = header || columnLabel(index);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+export interface CollectorErrors {
+  empty: string;
+  noWallets: string;
+}
+
+export interface RowCollector {
+  push(values: string[]): void;
+  finish(): ParseResult;
+  /** Rows seen so far, including the header */
+  readonly rowCount: number;
+  /** No wallet column in the sample - callers can stop reading */
+  readonly failed: boolean;
+}
 
-    const row: WalletRow = { wallet: wallet.toLowerCase() };
+/**
+ * Shared by the CSV and XLSX readers: buffers a sample to detect the wallet
+ * column and header row, then turns every row into a WalletRow / PendingRow.
+ * `walletColumn` skips detection (a choice made in the column-mapping step).
+ */
+export function createRowCollector(
+  errors: CollectorErrors,
+  walletColumn?: string
+): RowCollector {
+  let sample: string[][] | null = [];
+  let walletColumnIndex = -1;
+  let headers: string[] = [];
+  let headerless = false;
+  let rowCount = 0;
+  let failed = false;
+
+  // Map keeps first-seen order; a later duplicate overwrites the row data
+  const rows = new Map<string, WalletRow>();
+  const pending: PendingRow[] = [];
+
+  const processRow = (values: string[]) => {
+    const identifier = parseIdentifier(values[walletColumnIndex] || '');
+    if (!identifier) return;
+
+    // Headerless files can have rows wider than the sample
+    if (headerless) {
+      for (let i = headers.length; i < values.length; i++) headers.push(columnLabel(i));
+    }
 
     // Preserve all other columns
+    const data: Record<string, string> = {};
     headers.forEach((header, index) => {
       if (index !== walletColumnIndex && values[index] !== undefined) {
-        row[header] = values[index];
+        data[header] = values[index];
       }
     });
 
-    rows.push(row);
-  }
+    if (identifier.type === 'address') {
+      rows.set(identifier.value, { ...data, wallet: identifier.value });
+    } else {
+      pending.push({ identifier, data });
+    }
+  };
 
-  if (rows.length === 0) {
-    return {
-      rows: [],
-      headers: [],
-      error: 'No valid wallet addresses found in CSV',
-    };
-  }
+  const detect = () => {
+    const buffered = sample ?? [];
+    sample = null;
 
-  // Deduplicate by wallet address
-  const uniqueRows = Array.from(
-    new Map(rows.map((row) => [row.wallet, row])).values()
-  );
+    if (buffered.length === 0) return;
+
+    const width = buffered.reduce((max, line) => Math.max(max, line.length), 0);
+    const placeholders = Array.from({ length: width }, (_, i) => columnLabel(i));
+
+    if (walletColumn) {
+      // A header row names the chosen column; otherwise it's a placeholder label
+      walletColumnIndex = dedupeHeaders(buffered[0]).indexOf(walletColumn);
+      headerless = walletColumnIndex === -1;
+      if (headerless) walletColumnIndex = placeholders.indexOf(walletColumn);
+    } else {
+      // Find the column with the most addresses / resolvable names
+      walletColumnIndex = detectWalletColumn(buffered);
+
+      // Check if first row contains a wallet identifier (headerless file)
+      const firstRowValue = buffered[0]?.[walletColumnIndex]?.trim();
+      headerless = !!parseIdentifier(firstRowValue || '');
+    }
+
+    if (walletColumnIndex === -1) {
+      failed = true;
+      return;
+    }
+
+    if (headerless) {
+      headers = placeholders;
+      buffered.forEach(processRow);
+    } else {
+      headers = dedupeHeaders(buffered[0]);
+      buffered.slice(1).forEach(processRow);
+    }
+  };
 
   return {
-    rows: uniqueRows,
-    headers: headers.filter((_, i) => i !== walletColumnIndex),
+    push(values) {
+      if (failed) return;
+      rowCount++;
+
+      if (sample) {
+        sample.push(values);
+        if (sample.length >= DETECTION_SAMPLE_ROWS) detect();
+      } else {
+        processRow(values);
+      }
+    },
+
+    finish() {
+      if (sample) detect();
+
+      if (failed || (rows.size === 0 && pending.length === 0)) {
+        return {
+          rows: [],
+          headers: [],
+          error: rowCount === 0 ? errors.empty : errors.noWallets,
+        };
+      }
+
+      return {
+        rows: Array.from(rows.values()),
+        headers: headers.filter((_, i) => i !== walletColumnIndex),
+        pending,
+        columns: headers,
+        walletColumn: headers[walletColumnIndex],
+      };
+    },
+
+    get rowCount() {
+      return rowCount;
+    },
+
+    get failed() {
+      return failed;
+    },
   };
 }
 
 /**
- * Scan all columns to find which one contains the most valid Ethereum addresses.
- * Returns the column index, or -1 if no valid addresses found.
+ * Scan all columns to find which one contains the most wallet identifiers.
+ * Raw addresses count double so an address column beats a Twitter URL column.
+ * Returns the column index, or -1 if no identifiers found.
  */
-function detectWalletColumn(parsedLines: string[][]): number {
-  if (parsedLines.length === 0) return -1;
+export function detectWalletColumn(cells: unknown[][]): number {
+  if (cells.length === 0) return -1;
 
-  const columnCount = Math.max(...parsedLines.map((l) => l.length));
+  const columnCount = cells.reduce((max, line) => Math.max(max, line.length), 0);
   let bestColumn = -1;
-  let bestCount = 0;
+  let bestScore = 0;
 
   for (let col = 0; col < columnCount; col++) {
-    let validCount = 0;
-    for (const line of parsedLines) {
-      const value = line[col]?.trim();
-      if (value && isValidEthAddress(value)) {
-        validCount++;
+    let score = 0;
+    for (const line of cells) {
+      const identifier = parseIdentifier(String(line[col] ?? ''));
+      if (identifier) {
+        score += identifier.type === 'address' ? 2 : 1;
       }
     }
-    if (validCount > bestCount) {
-      bestCount = validCount;
+    if (score > bestScore) {
+      bestScore = score;
       bestColumn = col;
     }
   }
@@ -120,37 +419,6 @@ function detectWalletColumn(parsedLines: string[][]): number {
   return bestColumn;
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-
-  result.push(current.trim());
-  return result;
-}
-
-function isValidEthAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
-}
-
 // Column names that indicate holdings/value data
 const HOLDINGS_COLUMN_PATTERNS = [
   'peak index dtf value',
@@ -182,6 +450,26 @@ export function findHoldingsColumn(headers: string[]): string | null {
   return null;
 }
 
+/**
+ * Holdings column for a lookup: the mapping step's choice wins (`null` means
+ * "no holdings column"), otherwise guess from the header names.
+ */
+export function resolveHoldingsColumn(
+  dataColumns: string[],
+  mapped?: string | null
+): string | null {
+  return mapped !== undefined ? mapped : findHoldingsColumn(dataColumns);
+}
+
+/**
+ * A result field or file column by name. Never the `provenance` object, so
+ * the value can be treated as text, a number or a list.
+ */
+export function getResultValue(result: WalletSocialResult, key: string): ResultValue {
+  const value = result[key];
+  return typeof value === 'object' && !Array.isArray(value) ? undefined : value;
+}
+
 export function parseHoldingsValue(value: string | undefined): number | null {
   if (!value) return null;
 
@@ -196,15 +484,6 @@ export function parseHoldingsValue(value: string | undefined): number | null {
   return num;
 }
 
-export function calculatePriorityScore(
-  holdings: number | undefined,
-  fcFollowers: number | undefined
-): number {
-  const h = holdings || 1;
-  const f = fcFollowers || 1;
-  return h * Math.log10(f + 1);
-}
-
 export function exportToCSV(
   data: Record<string, unknown>[],
   headers: string[]
@@ -227,6 +506,23 @@ export function exportToCSV(
   return csvRows.join('\n');
 }
 
+/**
+ * Tab-separated rows for pasting into Google Sheets / Excel. Tabs and line
+ * breaks inside values would split cells, so they become spaces.
+ */
+export function exportToTSV(
+  data: Record<string, unknown>[],
+  headers: string[]
+): string {
+  const clean = (value: unknown) =>
+    value === null || value === undefined ? '' : String(value).replace(/[\t\r\n]+/g, ' ');
+
+  return [
+    headers.map(clean).join('\t'),
+    ...data.map((row) => headers.map((header) => clean(row[header])).join('\t')),
+  ].join('\n');
+}
+
 function escapeCSVField(field: string): string {
   if (field.includes(',') || field.includes('"') || field.includes('\n')) {
     return `"${field.replace(/"/g, '""')}"`;
@@ -293,18 +293,20 @@ export async function getPerformanceMetrics(period: TimePeriod): Promise<Perform
 
   const { start, end } = getTimeRangeBounds(period);
 
-  // Queue status (pending and processing jobs)
+  // Queue status (pending and running jobs; holder imports count as running)
   const queueRows = await db
     .select({
       status: lookupJobs.status,
       count: sql<number>`COUNT(*)::int`,
     })
     .from(lookupJobs)
-    .where(sql`${lookupJobs.status} IN ('pending', 'processing')`)
+    .where(sql`${lookupJobs.status} IN ('pending', 'processing', 'fetching_holders')`)
     .groupBy(lookupJobs.status);
 
   const pendingJobs = queueRows.find((r) => r.status === 'pending')?.count || 0;
-  const runningJobs = queueRows.find((r) => r.status === 'processing')?.count || 0;
+  const runningJobs = queueRows
+    .filter((r) => r.status === 'processing' || r.status === 'fetching_holders')
+    .reduce((sum, r) => sum + r.count, 0);
 
   // Success/failure stats for period
   const [statusCounts] = await db
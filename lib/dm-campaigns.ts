@@ -0,0 +1,659 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import { and, asc, count, desc, eq, inArray, isNotNull, isNull, lt, ne, or, sql } from 'drizzle-orm';
+import { dmCampaignRecipients, dmCampaigns, getDb } from '@/db';
+import type { DMCampaign, DMCampaignRecipient } from '@/db/schema';
+import { inngest } from '@/inngest/client';
+import {
+  DM_SUPPRESSION_REASONS,
+  type DMCampaignDetail,
+  type DMCampaignStatus,
+  type DMCampaignSummary,
+  type DMLogEntry,
+  type DMRecipient,
+  type DMVariantStats,
+} from './farcaster-dm';
+import { TemplateError, compileTemplate, variantLabel } from './dm-templates';
+import { getDMSuppressionMap } from './dm-suppressions';
+
+// Server-side Farcaster DM campaigns. Recipients are stored with a per-row
+// status and sent in time-boxed chunks (Inngest dm-campaign, or the cron
+// worker when Inngest isn't driving), so a campaign survives the browser tab
+// closing and can be paused, resumed or cancelled. The Warpcast key is stored
+// encrypted (DM_KEY_SECRET) and only while the campaign is sending: pausing
+// or ending a campaign drops it, and resume/retry ask for it again.
+
+export const MAX_CAMPAIGN_RECIPIENTS = 10000;
+export const MAX_CAMPAIGN_NAME_LENGTH = 100;
+// Campaigns share the user's Warpcast rate limit, so only one runs at a time
+export const MAX_ACTIVE_CAMPAIGNS = 1;
+
+const WARPCAST_DM_URL = 'https://api.warpcast.com/v2/ext-send-direct-cast';
+
+// Rate limiting: ~4 DMs/second, with backoff on 429s and transient errors
+const DM_DELAY_MS = 250;
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Stop sending and return after this long, so one chunk fits a serverless invocation
+const SEND_CHUNK_MS = 45000;
+
+// Pending recipients loaded per query
+const RECIPIENT_BATCH_SIZE = 25;
+
+// The cron worker only picks up campaigns nobody has touched for this long,
+// so it doesn't race an in-flight Inngest run
+const STALLED_AFTER_MS = 60000;
+
+// A chunk holds a lease on the campaign while sending, renewed before every
+// send; longer than one send with all its retries (~48s)
+const LEASE_MS = 90000;
+
+const INSERT_BATCH_SIZE = 1000;
+const RECENT_LOG_SIZE = 5;
+
+export interface DMCampaignChunkResult {
+  /** Nothing left to send in this run (finished, paused, cancelled or failed) */
+  done: boolean;
+  status: string;
+  sent: number;
+  failed: number;
+  error?: string;
+  /** Another worker holds the campaign's lease; try again shortly */
+  busy?: boolean;
+}
+
+interface SendResult {
+  success: boolean;
+  error?: string;
+  /** The API key was rejected - stop the whole campaign */
+  fatal?: boolean;
+}
+
+// AES-256-GCM, stored as v1.<iv>.<tag>.<ciphertext> (base64url)
+const KEY_CIPHER = 'aes-256-gcm';
+const KEY_FORMAT_VERSION = 'v1';
+
+function getKeySecret(): Buffer | null {
+  const secret = process.env.DM_KEY_SECRET;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+/**
+ * Whether Warpcast keys can be stored, i.e. DM_KEY_SECRET is set
+ */
+export function isDMKeyStorageConfigured(): boolean {
+  return getKeySecret() !== null;
+}
+
+function encryptApiKey(apiKey: string): string {
+  const secret = getKeySecret();
+  if (!secret) {
+    throw new Error('KEY_STORAGE_NOT_CONFIGURED');
+  }
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(KEY_CIPHER, secret, iv);
+  const encrypted = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+  return [KEY_FORMAT_VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+/**
+ * The stored key, or null when it can't be read (secret missing or rotated,
+ * or a row written before keys were encrypted)
+ */
+function decryptApiKey(stored: string): string | null {
+  const secret = getKeySecret();
+  const [version, iv, tag, encrypted] = stored.split('.');
+  if (!secret || version !== KEY_FORMAT_VERSION || !iv || !tag || !encrypted) return null;
+
+  try {
+    const decipher = createDecipheriv(KEY_CIPHER, secret, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    console.error('Failed to decrypt DM campaign key:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send one direct cast through the Warpcast API
+ */
+async function sendDirectCast(
+  apiKey: string,
+  recipientFid: number,
+  message: string,
+  idempotencyKey: string
+): Promise<SendResult & { status?: number }> {
+  try {
+    const response = await fetch(WARPCAST_DM_URL, {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ recipientFid, message, idempotencyKey }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      return { success: true, status: response.status };
+    }
+
+    let error = `Warpcast API error: ${response.status}`;
+    try {
+      const data = await response.json();
+      if (data.errors?.[0]?.message) {
+        error = data.errors[0].message;
+      } else if (data.message) {
+        error = data.message;
+      }
+    } catch {
+      // Use default error message
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      return { success: false, error: 'Invalid API key - stopping all DMs', fatal: true, status: response.status };
+    }
+    return { success: false, error, status: response.status };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Network error' };
+  }
+}
+
+/**
+ * Send with exponential backoff on rate limits and transient errors. Bad
+ * requests (4xx) are not retried.
+ */
+async function sendWithRetries(
+  apiKey: string,
+  recipientFid: number,
+  message: string,
+  idempotencyKey: string
+): Promise<SendResult> {
+  let backoff = INITIAL_BACKOFF_MS;
+  let result: SendResult & { status?: number } = { success: false };
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    result = await sendDirectCast(apiKey, recipientFid, message, idempotencyKey);
+    if (result.success || result.fatal) return result;
+
+    const retryable = result.status === undefined || result.status === 429 || result.status >= 500;
+    if (!retryable) return result;
+
+    if (attempt < MAX_RETRIES - 1) {
+      await sleep(Math.min(backoff, MAX_BACKOFF_MS));
+      backoff *= 2;
+    }
+  }
+
+  return result;
+}
+
+function toSummary(campaign: DMCampaign): DMCampaignSummary {
+  return {
+    id: campaign.id,
+    name: campaign.name,
+    status: campaign.status as DMCampaignStatus,
+    total: campaign.totalRecipients,
+    sent: campaign.sentCount,
+    failed: campaign.failedCount,
+    skipped: campaign.skippedCount,
+    currentUsername: campaign.currentUsername,
+    error: campaign.errorMessage,
+    createdAt: campaign.createdAt.toISOString(),
+    completedAt: campaign.completedAt?.toISOString() ?? null,
+  };
+}
+
+function toLogEntry(row: DMCampaignRecipient, campaign: DMCampaign): DMLogEntry {
+  return {
+    timestamp: (row.attemptedAt ?? new Date()).toISOString(),
+    fid: row.fid,
+    username: row.recipient.username,
+    status: row.status === 'sent' || row.status === 'skipped' ? row.status : 'failed',
+    error: row.error ?? undefined,
+    message: row.message ?? '',
+    variant: campaign.variants ? variantLabel(row.variant) : undefined,
+  };
+}
+
+async function getOwnedCampaign(campaignId: string, userId: string): Promise<DMCampaign | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const [campaign] = await db
+    .select()
+    .from(dmCampaigns)
+    .where(and(eq(dmCampaigns.id, campaignId), eq(dmCampaigns.userId, userId)))
+    .limit(1);
+
+  return campaign ?? null;
+}
+
+/**
+ * Hand a campaign to the dm-campaign Inngest function. Without Inngest the
+ * cron worker picks it up once it looks stalled.
+ */
+async function queueDMCampaign(campaignId: string): Promise<void> {
+  try {
+    await inngest.send({
+      name: 'dm/campaign.requested',
+      data: { campaignId },
+    });
+  } catch (error) {
+    console.log('Inngest DM campaign trigger skipped (cron will process):', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Store a campaign with its recipients and start sending. With more than one
+ * template, recipients are assigned variants round-robin in send order.
+ * Throws CAMPAIGN_ACTIVE when the user already has MAX_ACTIVE_CAMPAIGNS
+ * sending or paused, KEY_STORAGE_NOT_CONFIGURED without DM_KEY_SECRET.
+ */
+export async function createDMCampaign(
+  userId: string,
+  input: { name: string; templates: string[]; apiKey: string; recipients: DMRecipient[] }
+): Promise<DMCampaignSummary> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  const [{ active }] = await db
+    .select({ active: count() })
+    .from(dmCampaigns)
+    .where(and(eq(dmCampaigns.userId, userId), inArray(dmCampaigns.status, ['sending', 'paused'])));
+  if (active >= MAX_ACTIVE_CAMPAIGNS) {
+    throw new Error('CAMPAIGN_ACTIVE');
+  }
+
+  const [campaign] = await db
+    .insert(dmCampaigns)
+    .values({
+      userId,
+      name: input.name,
+      template: input.templates[0],
+      variants: input.templates.length > 1 ? input.templates : null,
+      apiKey: encryptApiKey(input.apiKey),
+      totalRecipients: input.recipients.length,
+    })
+    .returning();
+
+  try {
+    for (let i = 0; i < input.recipients.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(dmCampaignRecipients).values(
+        input.recipients.slice(i, i + INSERT_BATCH_SIZE).map((recipient, j) => ({
+          campaignId: campaign.id,
+          position: i + j,
+          fid: recipient.fid,
+          recipient,
+          variant: (i + j) % input.templates.length,
+        }))
+      );
+    }
+  } catch (error) {
+    // Don't leave a half-stored campaign (and its key) behind
+    await db.delete(dmCampaigns).where(eq(dmCampaigns.id, campaign.id));
+    throw error;
+  }
+
+  await queueDMCampaign(campaign.id);
+  return toSummary(campaign);
+}
+
+export async function listDMCampaigns(userId: string, limit = 20): Promise<DMCampaignSummary[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(dmCampaigns)
+    .where(eq(dmCampaigns.userId, userId))
+    .orderBy(desc(dmCampaigns.createdAt))
+    .limit(limit);
+
+  return rows.map(toSummary);
+}
+
+/**
+ * A campaign's progress with its latest log entries, or null when it isn't the user's
+ */
+export async function getDMCampaign(campaignId: string, userId: string): Promise<DMCampaignDetail | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const campaign = await getOwnedCampaign(campaignId, userId);
+  if (!campaign) return null;
+
+  const recent = await db
+    .select()
+    .from(dmCampaignRecipients)
+    .where(and(eq(dmCampaignRecipients.campaignId, campaignId), isNotNull(dmCampaignRecipients.attemptedAt)))
+    .orderBy(desc(dmCampaignRecipients.attemptedAt))
+    .limit(RECENT_LOG_SIZE);
+
+  return {
+    ...toSummary(campaign),
+    recentLog: recent.map((row) => toLogEntry(row, campaign)),
+    variantStats: campaign.variants ? await getVariantStats(campaign) : [],
+  };
+}
+
+async function getVariantStats(campaign: DMCampaign): Promise<DMVariantStats[]> {
+  const db = getDb();
+  if (!db || !campaign.variants) return [];
+
+  const rows = await db
+    .select({ variant: dmCampaignRecipients.variant, status: dmCampaignRecipients.status, total: count() })
+    .from(dmCampaignRecipients)
+    .where(eq(dmCampaignRecipients.campaignId, campaign.id))
+    .groupBy(dmCampaignRecipients.variant, dmCampaignRecipients.status);
+
+  const stats = campaign.variants.map((_, i) => ({ variant: variantLabel(i), sent: 0, failed: 0 }));
+  for (const { variant, status, total } of rows) {
+    const entry = stats[variant];
+    if (!entry) continue;
+    if (status === 'sent') entry.sent += total;
+    else if (status === 'failed') entry.failed += total;
+  }
+  return stats;
+}
+
+/**
+ * Every attempted recipient in send order, or null when the campaign isn't the user's
+ */
+export async function getDMCampaignLog(campaignId: string, userId: string): Promise<DMLogEntry[] | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const campaign = await getOwnedCampaign(campaignId, userId);
+  if (!campaign) return null;
+
+  const rows = await db
+    .select()
+    .from(dmCampaignRecipients)
+    .where(and(eq(dmCampaignRecipients.campaignId, campaignId), ne(dmCampaignRecipients.status, 'pending')))
+    .orderBy(asc(dmCampaignRecipients.attemptedAt));
+
+  return rows.map((row) => toLogEntry(row, campaign));
+}
+
+/**
+ * Pause, resume, cancel, or retry a finished campaign's failed recipients.
+ * Pausing drops the stored API key, so resume and retry need it again.
+ * Returns null when the campaign isn't the user's; throws INVALID_STATE when
+ * the action doesn't apply to its status.
+ */
+export async function controlDMCampaign(
+  campaignId: string,
+  userId: string,
+  action: 'pause' | 'resume' | 'cancel' | 'retry',
+  apiKey?: string
+): Promise<DMCampaignSummary | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const campaign = await getOwnedCampaign(campaignId, userId);
+  if (!campaign) return null;
+
+  const transitions: Record<typeof action, string[]> = {
+    pause: ['sending'],
+    resume: ['paused'],
+    cancel: ['sending', 'paused'],
+    retry: ['completed', 'failed'],
+  };
+  if (!transitions[action].includes(campaign.status)) {
+    throw new Error('INVALID_STATE');
+  }
+
+  const now = new Date();
+  let changes: Partial<typeof dmCampaigns.$inferInsert>;
+  if (action === 'pause') {
+    changes = { status: 'paused', apiKey: null };
+  } else if (action === 'cancel') {
+    changes = { status: 'cancelled', apiKey: null, currentUsername: null, completedAt: now };
+  } else {
+    if (!apiKey) {
+      throw new Error('API_KEY_REQUIRED');
+    }
+    changes =
+      action === 'resume'
+        ? { status: 'sending', apiKey: encryptApiKey(apiKey) }
+        : { status: 'sending', apiKey: encryptApiKey(apiKey), failedCount: 0, errorMessage: null, completedAt: null };
+  }
+
+  // Conditional on the status we checked, so a concurrent change wins cleanly
+  const [updated] = await db
+    .update(dmCampaigns)
+    .set({ ...changes, updatedAt: now })
+    .where(and(eq(dmCampaigns.id, campaignId), eq(dmCampaigns.status, campaign.status)))
+    .returning();
+  if (!updated) {
+    throw new Error('INVALID_STATE');
+  }
+
+  if (action === 'retry') {
+    await db
+      .update(dmCampaignRecipients)
+      .set({ status: 'pending', message: null, error: null, attemptedAt: null })
+      .where(and(eq(dmCampaignRecipients.campaignId, campaignId), eq(dmCampaignRecipients.status, 'failed')));
+  }
+  if (updated.status === 'sending') {
+    await queueDMCampaign(campaignId);
+  }
+  return toSummary(updated);
+}
+
+/**
+ * Send to pending recipients for up to SEND_CHUNK_MS. Called repeatedly
+ * (Inngest steps or the cron worker) until done. Stops after the current
+ * recipient when the campaign is paused or cancelled. Only the worker holding
+ * the campaign's lease sends; others get `busy`.
+ */
+export async function processDMCampaignChunk(campaignId: string): Promise<DMCampaignChunkResult> {
+  const db = getDb();
+  if (!db) {
+    return { done: true, status: 'failed', sent: 0, failed: 0, error: 'Database not configured' };
+  }
+
+  // Claim the campaign, so the cron worker and Inngest never send at once
+  const leaseId = randomUUID();
+  const [campaign] = await db
+    .update(dmCampaigns)
+    .set({ leaseId, leaseExpiresAt: new Date(Date.now() + LEASE_MS) })
+    .where(
+      and(
+        eq(dmCampaigns.id, campaignId),
+        eq(dmCampaigns.status, 'sending'),
+        or(isNull(dmCampaigns.leaseExpiresAt), lt(dmCampaigns.leaseExpiresAt, new Date()))
+      )
+    )
+    .returning();
+
+  if (!campaign) {
+    const [current] = await db
+      .select()
+      .from(dmCampaigns)
+      .where(eq(dmCampaigns.id, campaignId))
+      .limit(1);
+
+    if (!current) {
+      return { done: true, status: 'failed', sent: 0, failed: 0, error: 'Campaign not found' };
+    }
+    const counts = { status: current.status, sent: current.sentCount, failed: current.failedCount };
+    return current.status === 'sending' ? { done: false, busy: true, ...counts } : { done: true, ...counts };
+  }
+
+  let sent = campaign.sentCount;
+  let failed = campaign.failedCount;
+  const held = and(eq(dmCampaigns.id, campaignId), eq(dmCampaigns.leaseId, leaseId));
+
+  // Frees the lease when this chunk stops without ending the campaign
+  const release = async () => {
+    await db.update(dmCampaigns).set({ leaseExpiresAt: null }).where(held);
+  };
+
+  // Ends the campaign and drops its key. Conditional on 'sending' so a
+  // concurrent pause or cancel isn't overwritten.
+  const finish = async (status: 'completed' | 'failed', errorMessage?: string): Promise<DMCampaignChunkResult> => {
+    await db
+      .update(dmCampaigns)
+      .set({
+        status,
+        apiKey: null,
+        currentUsername: null,
+        errorMessage: errorMessage ?? null,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(held, eq(dmCampaigns.status, 'sending')));
+    return { done: true, status, sent, failed, error: errorMessage };
+  };
+  const apiKey = campaign.apiKey ? decryptApiKey(campaign.apiKey) : null;
+  if (!apiKey) {
+    return finish('failed', 'API key missing - retry with your Warpcast API key');
+  }
+
+  // Templates are validated when the campaign is created; a parse error here
+  // means the stored row is bad, so retrying won't help
+  let renderers: ReturnType<typeof compileTemplate>[];
+  try {
+    renderers = (campaign.variants ?? [campaign.template]).map(compileTemplate);
+  } catch (error) {
+    return finish('failed', error instanceof TemplateError ? `Invalid template: ${error.message}` : 'Invalid template');
+  }
+
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < SEND_CHUNK_MS) {
+    const batch = await db
+      .select()
+      .from(dmCampaignRecipients)
+      .where(and(eq(dmCampaignRecipients.campaignId, campaignId), eq(dmCampaignRecipients.status, 'pending')))
+      .orderBy(asc(dmCampaignRecipients.position))
+      .limit(RECIPIENT_BATCH_SIZE);
+
+    if (batch.length === 0) {
+      return finish('completed');
+    }
+
+    // Opt-outs and blocklist entries added since the campaign started. Recent
+    // recipients were already left out when it was created.
+    const suppressed = await getDMSuppressionMap(campaign.userId, {
+      fids: batch.map((row) => row.fid),
+      includeRecent: false,
+    });
+
+    for (const row of batch) {
+      if (Date.now() - startedAt >= SEND_CHUNK_MS) break;
+
+      const reason = suppressed[row.fid];
+      if (reason) {
+        await db
+          .update(dmCampaignRecipients)
+          .set({ status: 'skipped', error: `Suppressed: ${DM_SUPPRESSION_REASONS[reason]}`, attemptedAt: new Date() })
+          .where(eq(dmCampaignRecipients.id, row.id));
+        await db
+          .update(dmCampaigns)
+          .set({ skippedCount: sql`${dmCampaigns.skippedCount} + 1`, updatedAt: new Date() })
+          .where(eq(dmCampaigns.id, campaignId));
+        continue;
+      }
+
+      // Renew the lease (and updatedAt, so the cron worker sees the campaign
+      // as live) before a send that can take ~48s with retries
+      const [renewed] = await db
+        .update(dmCampaigns)
+        .set({ leaseExpiresAt: new Date(Date.now() + LEASE_MS), updatedAt: new Date() })
+        .where(and(held, eq(dmCampaigns.status, 'sending')))
+        .returning();
+      if (!renewed) {
+        await release();
+        const [current] = await db
+          .select({ status: dmCampaigns.status })
+          .from(dmCampaigns)
+          .where(eq(dmCampaigns.id, campaignId))
+          .limit(1);
+        return { done: true, status: current?.status ?? 'cancelled', sent, failed };
+      }
+
+      const render = renderers[row.variant] ?? renderers[0];
+      const message = render(row.recipient);
+      // The row ID doubles as the idempotency key, so a recipient re-sent
+      // after a crashed chunk isn't messaged twice
+      const result = await sendWithRetries(apiKey, row.fid, message, row.id);
+
+      await db
+        .update(dmCampaignRecipients)
+        .set({
+          status: result.success ? 'sent' : 'failed',
+          message,
+          error: result.success ? null : result.error ?? 'Unknown error',
+          attemptedAt: new Date(),
+        })
+        .where(eq(dmCampaignRecipients.id, row.id));
+
+      if (result.success) sent++;
+      else failed++;
+
+      const [updated] = await db
+        .update(dmCampaigns)
+        .set({
+          sentCount: sql`${dmCampaigns.sentCount} + ${result.success ? 1 : 0}`,
+          failedCount: sql`${dmCampaigns.failedCount} + ${result.success ? 0 : 1}`,
+          currentUsername: row.recipient.username,
+          updatedAt: new Date(),
+        })
+        .where(eq(dmCampaigns.id, campaignId))
+        .returning();
+
+      if (result.fatal) {
+        return finish('failed', result.error);
+      }
+      // Paused or cancelled while we were sending
+      if (!updated || updated.status !== 'sending') {
+        await release();
+        return { done: true, status: updated?.status ?? 'cancelled', sent, failed };
+      }
+
+      await sleep(DM_DELAY_MS);
+    }
+  }
+
+  await release();
+  return { done: false, status: 'sending', sent, failed };
+}
+
+/**
+ * Sending campaigns no worker has touched recently and nobody holds a lease
+ * on (Inngest not configured, or its run died). Picked up by the cron worker.
+ */
+export async function getStalledDMCampaigns(limit: number): Promise<string[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ id: dmCampaigns.id })
+    .from(dmCampaigns)
+    .where(
+      and(
+        eq(dmCampaigns.status, 'sending'),
+        lt(dmCampaigns.updatedAt, new Date(Date.now() - STALLED_AFTER_MS)),
+        or(isNull(dmCampaigns.leaseExpiresAt), lt(dmCampaigns.leaseExpiresAt, new Date()))
+      )
+    )
+    .orderBy(dmCampaigns.updatedAt)
+    .limit(limit);
+
+  return rows.map((r) => r.id);
+}
@@ -0,0 +1,186 @@
+import { and, count, desc, eq, gt, inArray } from 'drizzle-orm';
+import { dmCampaignRecipients, dmCampaigns, dmSuppressions, getDb, users } from '@/db';
+import {
+  DEFAULT_DM_COOLDOWN_DAYS,
+  type DMSuppressionEntry,
+  type DMSuppressionInput,
+  type DMSuppressionMap,
+  type StoredDMSuppressionReason,
+} from './farcaster-dm';
+import { fetchFidsByUsernames, isNeynarConfigured } from './neynar';
+
+// DM suppression: FIDs a user must not message. Stored entries are opt-outs
+// and a manual blocklist; on top of that, anyone a campaign of the user DMed
+// within their cooldown is suppressed. Applied when a campaign starts and
+// again (stored entries) before each batch is sent.
+
+export const MAX_DM_SUPPRESSIONS = 50000;
+export const MAX_SUPPRESSION_IMPORT = 10000;
+// Usernames without a FID are resolved through Neynar, up to this many per import
+const MAX_USERNAME_LOOKUPS = 500;
+const MAX_NOTE_LENGTH = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function listDMSuppressions(userId: string): Promise<DMSuppressionEntry[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(dmSuppressions)
+    .where(eq(dmSuppressions.userId, userId))
+    .orderBy(desc(dmSuppressions.createdAt));
+
+  return rows.map((row) => ({
+    fid: row.fid,
+    username: row.username,
+    reason: row.reason as StoredDMSuppressionReason,
+    note: row.note,
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Days after a DM before the same FID can be messaged again (0 = no cooldown)
+ */
+export async function getDMCooldownDays(userId: string): Promise<number> {
+  const db = getDb();
+  if (!db) return DEFAULT_DM_COOLDOWN_DAYS;
+
+  const [user] = await db
+    .select({ dmCooldownDays: users.dmCooldownDays })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return user?.dmCooldownDays ?? DEFAULT_DM_COOLDOWN_DAYS;
+}
+
+export async function setDMCooldownDays(userId: string, days: number): Promise<void> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  await db.update(users).set({ dmCooldownDays: days }).where(eq(users.id, userId));
+}
+
+/**
+ * Every FID the user must not DM, with the reason. Stored entries win over
+ * 'recent'. Pass fids to only check those; includeRecent: false skips the
+ * prior-recipient lookup.
+ */
+export async function getDMSuppressionMap(
+  userId: string,
+  options: { fids?: number[]; includeRecent?: boolean } = {}
+): Promise<DMSuppressionMap> {
+  const db = getDb();
+  if (!db) return {};
+
+  const { fids, includeRecent = true } = options;
+  if (fids && fids.length === 0) return {};
+
+  const suppressed: DMSuppressionMap = {};
+
+  if (includeRecent) {
+    const cooldownDays = await getDMCooldownDays(userId);
+    if (cooldownDays > 0) {
+      const recent = await db
+        .selectDistinct({ fid: dmCampaignRecipients.fid })
+        .from(dmCampaignRecipients)
+        .innerJoin(dmCampaigns, eq(dmCampaignRecipients.campaignId, dmCampaigns.id))
+        .where(
+          and(
+            eq(dmCampaigns.userId, userId),
+            eq(dmCampaignRecipients.status, 'sent'),
+            gt(dmCampaignRecipients.attemptedAt, new Date(Date.now() - cooldownDays * DAY_MS)),
+            fids ? inArray(dmCampaignRecipients.fid, fids) : undefined
+          )
+        );
+      for (const { fid } of recent) suppressed[fid] = 'recent';
+    }
+  }
+
+  const stored = await db
+    .select({ fid: dmSuppressions.fid, reason: dmSuppressions.reason })
+    .from(dmSuppressions)
+    .where(and(eq(dmSuppressions.userId, userId), fids ? inArray(dmSuppressions.fid, fids) : undefined));
+  for (const { fid, reason } of stored) suppressed[fid] = reason as StoredDMSuppressionReason;
+
+  return suppressed;
+}
+
+/**
+ * Add entries to the suppression list. Usernames without a FID are resolved
+ * through Neynar when it is configured; entries already on the list are kept
+ * as they are. Throws SUPPRESSION_LIMIT past MAX_DM_SUPPRESSIONS.
+ */
+export async function addDMSuppressions(
+  userId: string,
+  inputs: DMSuppressionInput[],
+  defaultReason: StoredDMSuppressionReason = 'blocklist'
+): Promise<{ added: number; unresolved: string[] }> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  const lookups = [
+    ...new Set(inputs.filter((e) => !e.fid && e.username).map((e) => e.username!.toLowerCase())),
+  ];
+  const resolved =
+    lookups.length > 0 && isNeynarConfigured()
+      ? await fetchFidsByUsernames(lookups.slice(0, MAX_USERNAME_LOOKUPS), process.env.NEYNAR_API_KEY!)
+      : new Map<string, number>();
+
+  const unresolved: string[] = [];
+  const byFid = new Map<number, typeof dmSuppressions.$inferInsert>();
+  for (const input of inputs) {
+    const fid = input.fid ?? resolved.get(input.username?.toLowerCase() ?? '');
+    if (!fid) {
+      if (input.username) unresolved.push(input.username);
+      continue;
+    }
+    if (byFid.has(fid)) continue;
+    byFid.set(fid, {
+      userId,
+      fid,
+      username: input.username ?? null,
+      reason: input.reason ?? defaultReason,
+      note: input.note?.slice(0, MAX_NOTE_LENGTH) ?? null,
+    });
+  }
+
+  if (byFid.size === 0) {
+    return { added: 0, unresolved };
+  }
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(dmSuppressions)
+    .where(eq(dmSuppressions.userId, userId));
+  if (total + byFid.size > MAX_DM_SUPPRESSIONS) {
+    throw new Error('SUPPRESSION_LIMIT');
+  }
+
+  const inserted = await db
+    .insert(dmSuppressions)
+    .values([...byFid.values()])
+    .onConflictDoNothing({ target: [dmSuppressions.userId, dmSuppressions.fid] })
+    .returning();
+
+  return { added: inserted.length, unresolved };
+}
+
+export async function removeDMSuppression(userId: string, fid: number): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const deleted = await db
+    .delete(dmSuppressions)
+    .where(and(eq(dmSuppressions.userId, userId), eq(dmSuppressions.fid, fid)))
+    .returning();
+
+  return deleted.length > 0;
+}
@@ -0,0 +1,302 @@
+import { parseHoldingsValue } from './csv-parser';
+import type { DMRecipient } from './farcaster-dm';
+
+// DM message templates. Besides plain text a template has variables with an
+// optional fallback (`{{ens|there}}`) and if-blocks on a variable
+// (`{{#if holdings >= 1000}}...{{else}}...{{/if}}`). Variables are the
+// built-ins below or any column of the uploaded file. Templates are parsed
+// into a tree and rendered directly, so the modal preview and the campaign
+// runner produce the same message.
+
+export const MAX_DM_VARIANTS = 5;
+
+export class TemplateError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+/**
+ * Built-in variables, with the help text shown in the DM modal
+ */
+export const DM_TEMPLATE_VARIABLES: Record<string, string> = {
+  username: 'Farcaster username',
+  holdings: 'Holdings from the uploaded file (1.2K, 3.4M)',
+  ens: 'ENS, Basename or SNS name',
+  wallet: 'Wallet, shortened (0x1234...5678)',
+  followers: 'Farcaster followers',
+  fid: 'Farcaster ID',
+};
+
+type ComparisonOp = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+interface Condition {
+  name: string;
+  /** Absent: the block renders when the variable is set (and not 0) */
+  op?: ComparisonOp;
+  value?: number;
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; fallback: string }
+  | { type: 'if'; condition: Condition; then: Node[]; else: Node[] };
+
+interface VariableValue {
+  text: string;
+  number: number | null;
+}
+
+/**
+ * Truncate wallet address for display (0x1234...5678)
+ */
+function truncateWallet(wallet: string): string {
+  if (!wallet || wallet.length < 10) return wallet;
+  return `${wallet.slice(0, 6)}...${wallet.slice(-4)}`;
+}
+
+/**
+ * Format holdings number with commas and reasonable precision
+ */
+function formatHoldings(holdings: number | undefined): string {
+  if (holdings === undefined || holdings === null) return '';
+  if (holdings >= 1000000) {
+    return `${(holdings / 1000000).toFixed(2)}M`;
+  }
+  if (holdings >= 1000) {
+    return `${(holdings / 1000).toFixed(2)}K`;
+  }
+  return holdings.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function numberValue(value: number | undefined): VariableValue {
+  return value === undefined || value === null
+    ? { text: '', number: null }
+    : { text: value.toLocaleString(), number: value };
+}
+
+/**
+ * Value of a variable for one recipient. Built-ins first, then file columns
+ * (case-insensitive).
+ */
+function lookup(recipient: DMRecipient, name: string): VariableValue {
+  const key = name.toLowerCase();
+  switch (key) {
+    case 'username':
+      return { text: recipient.username || '', number: null };
+    case 'holdings':
+      return { text: formatHoldings(recipient.holdings), number: recipient.holdings ?? null };
+    case 'ens':
+      return { text: recipient.ens || '', number: null };
+    case 'wallet':
+      return { text: truncateWallet(recipient.wallet), number: null };
+    case 'followers':
+      return numberValue(recipient.followers);
+    case 'fid':
+      return { text: String(recipient.fid), number: recipient.fid };
+  }
+
+  const fields = recipient.fields ?? {};
+  const column = Object.keys(fields).find((k) => k.trim().toLowerCase() === key);
+  const text = column ? fields[column] : '';
+  return { text, number: text ? parseHoldingsValue(text) : null };
+}
+
+const CONDITION_PATTERN = /^(.+?)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)$/;
+
+function parseCondition(source: string, position: number): Condition {
+  const trimmed = source.trim();
+  if (!trimmed) {
+    throw new TemplateError('{{#if}} needs a condition, e.g. {{#if holdings > 1000}}', position);
+  }
+
+  const match = trimmed.match(CONDITION_PATTERN);
+  if (match) {
+    return { name: match[1].trim(), op: match[2] as ComparisonOp, value: Number(match[3]) };
+  }
+  if (/[<>=!]/.test(trimmed)) {
+    throw new TemplateError(`Invalid condition "${trimmed}" - compare a variable to a number`, position);
+  }
+  return { name: trimmed };
+}
+
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  // Open if-blocks, innermost last; `target` is where nodes are appended
+  const stack: { node: Extract<Node, { type: 'if' }>; position: number; inElse: boolean }[] = [];
+  const target = (): Node[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.node.else : open.node.then;
+  };
+
+  const tagPattern = /\{\{([\s\S]*?)\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(source))) {
+    if (match.index > last) {
+      target().push({ type: 'text', value: source.slice(last, match.index) });
+    }
+    last = tagPattern.lastIndex;
+
+    const tag = match[1].trim();
+    const position = match.index;
+
+    if (tag.startsWith('#if')) {
+      const node: Node = { type: 'if', condition: parseCondition(tag.slice(3), position), then: [], else: [] };
+      target().push(node);
+      stack.push({ node, position, inElse: false });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw new TemplateError('{{else}} without a matching {{#if}}', position);
+      }
+      open.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new TemplateError('{{/if}} without a matching {{#if}}', position);
+      }
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new TemplateError(`Unknown block {{${tag}}} - only {{#if}} is supported`, position);
+    } else {
+      const pipe = tag.indexOf('|');
+      const name = (pipe >= 0 ? tag.slice(0, pipe) : tag).trim();
+      if (!name) {
+        throw new TemplateError('Empty variable {{}}', position);
+      }
+      target().push({ type: 'variable', name, fallback: pipe >= 0 ? tag.slice(pipe + 1).trim() : '' });
+    }
+  }
+
+  if (last < source.length) {
+    target().push({ type: 'text', value: source.slice(last) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError('{{#if}} is missing its {{/if}}', unclosed.position);
+  }
+
+  return root;
+}
+
+function matches(condition: Condition, recipient: DMRecipient): boolean {
+  const { text, number } = lookup(recipient, condition.name);
+  if (!condition.op) {
+    return text !== '' && number !== 0;
+  }
+  if (number === null) return false;
+
+  const value = condition.value!;
+  switch (condition.op) {
+    case '>':
+      return number > value;
+    case '>=':
+      return number >= value;
+    case '<':
+      return number < value;
+    case '<=':
+      return number <= value;
+    case '==':
+      return number === value;
+    case '!=':
+      return number !== value;
+  }
+}
+
+function render(nodes: Node[], recipient: DMRecipient): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.value;
+    } else if (node.type === 'variable') {
+      out += lookup(recipient, node.name).text || node.fallback;
+    } else {
+      out += render(matches(node.condition, recipient) ? node.then : node.else, recipient);
+    }
+  }
+  return out;
+}
+
+function collectVariables(nodes: Node[], names: Set<string>): void {
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      names.add(node.name);
+    } else if (node.type === 'if') {
+      names.add(node.condition.name);
+      collectVariables(node.then, names);
+      collectVariables(node.else, names);
+    }
+  }
+}
+
+/**
+ * Parse a template once and return a renderer for it. Throws TemplateError.
+ */
+export function compileTemplate(source: string): (recipient: DMRecipient) => string {
+  const nodes = parse(source);
+  return (recipient) => render(nodes, recipient);
+}
+
+/**
+ * Variable names a template uses, in variables and conditions
+ */
+export function getTemplateVariables(source: string): string[] {
+  try {
+    const names = new Set<string>();
+    collectVariables(parse(source), names);
+    return [...names];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check a template; returns an error message or null. With `columns`, names
+ * that are neither built-ins nor one of those columns are reported too.
+ */
+export function validateTemplate(source: string, columns?: string[]): string | null {
+  let names: string[];
+  try {
+    const found = new Set<string>();
+    collectVariables(parse(source), found);
+    names = [...found];
+  } catch (error) {
+    return error instanceof TemplateError ? error.message : 'Invalid template';
+  }
+
+  if (columns) {
+    const known = new Set([
+      ...Object.keys(DM_TEMPLATE_VARIABLES),
+      ...columns.map((c) => c.trim().toLowerCase()),
+    ]);
+    const unknown = names.find((name) => !known.has(name.toLowerCase()));
+    if (unknown) {
+      return `Unknown variable {{${unknown}}} - not a built-in or a column of your file`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the file columns the templates use, so recipients sent to the
+ * server don't carry every column of the upload
+ */
+export function pickTemplateFields(recipient: DMRecipient, templates: string[]): DMRecipient {
+  const used = new Set(templates.flatMap(getTemplateVariables).map((name) => name.toLowerCase()));
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(recipient.fields ?? {})) {
+    if (used.has(key.trim().toLowerCase())) fields[key] = value;
+  }
+
+  return { ...recipient, fields: Object.keys(fields).length > 0 ? fields : undefined };
+}
+
+/**
+ * Label of the nth variant: A, B, C...
+ */
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
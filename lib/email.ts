@@ -118,3 +118,138 @@ If you didn't request this email, you can safely ignore it.
 walletlink.social — Turn your wallet list into Twitter handles and Farcaster profiles
 `.trim();
 }
+
+export interface WatchlistDigestMatch {
+  wallet: string;
+  label: string; // e.g. 'Twitter', 'Farcaster'
+  value: string;
+}
+
+// Digests list at most this many matches; the rest are summarized
+const DIGEST_MAX_MATCHES = 50;
+
+/**
+ * Send a watchlist digest listing newly matched socials
+ */
+export async function sendWatchlistDigest(
+  email: string,
+  watchlistName: string,
+  matches: WatchlistDigestMatch[]
+): Promise<{ success: boolean; error?: string }> {
+  if (!resend) {
+    console.error('Resend not configured - RESEND_API_KEY missing');
+    return { success: false, error: 'Email service not configured' };
+  }
+
+  const subject = `${matches.length} new ${matches.length === 1 ? 'match' : 'matches'} in ${watchlistName}`;
+
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to: email,
+      subject,
+      html: getWatchlistDigestHtml(watchlistName, matches),
+      text: getWatchlistDigestText(watchlistName, matches),
+    });
+
+    if (error) {
+      console.error('Resend error:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to send watchlist digest:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function truncateWallet(wallet: string): string {
+  return `${wallet.slice(0, 6)}...${wallet.slice(-4)}`;
+}
+
+/**
+ * HTML email template for watchlist digests
+ */
+function getWatchlistDigestHtml(watchlistName: string, matches: WatchlistDigestMatch[]): string {
+  const listed = matches.slice(0, DIGEST_MAX_MATCHES);
+  const rows = listed
+    .map(
+      (m) => `
+    <tr>
+      <td style="padding: 6px 8px; font-family: monospace; font-size: 13px; color: #666;">${escapeHtml(truncateWallet(m.wallet))}</td>
+      <td style="padding: 6px 8px; font-size: 14px;">${escapeHtml(m.label)}</td>
+      <td style="padding: 6px 8px; font-size: 14px; font-weight: 500;">${escapeHtml(m.value)}</td>
+    </tr>`
+    )
+    .join('');
+  const more = matches.length - listed.length;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New matches in ${escapeHtml(watchlistName)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #1a1a1a; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+  <div style="text-align: center; margin-bottom: 32px;">
+    <img src="https://walletlink.social/icon.png" alt="walletlink.social" width="48" height="48" style="border-radius: 8px; margin-bottom: 16px;">
+    <h1 style="font-size: 24px; font-weight: 600; margin: 0;">walletlink.social</h1>
+  </div>
+
+  <p style="font-size: 16px; margin-bottom: 24px;">
+    Your watchlist <strong>${escapeHtml(watchlistName)}</strong> found ${matches.length} newly linked ${matches.length === 1 ? 'social' : 'socials'}:
+  </p>
+
+  <table style="width: 100%; border-collapse: collapse; border-top: 1px solid #eee;">${rows}
+  </table>
+  ${more > 0 ? `<p style="font-size: 14px; color: #666;">...and ${more} more.</p>` : ''}
+
+  <div style="text-align: center; margin: 32px 0;">
+    <a href="${BASE_URL}"
+       style="display: inline-block; background-color: #000; color: #fff; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 16px;">
+      Open walletlink.social
+    </a>
+  </div>
+
+  <hr style="border: none; border-top: 1px solid #eee; margin: 32px 0;">
+
+  <p style="font-size: 12px; color: #999; text-align: center;">
+    You're receiving this because email alerts are on for this watchlist. Turn them off from the Watchlists panel.
+  </p>
+</body>
+</html>
+`.trim();
+}
+
+/**
+ * Plain text email template for watchlist digests
+ */
+function getWatchlistDigestText(watchlistName: string, matches: WatchlistDigestMatch[]): string {
+  const listed = matches.slice(0, DIGEST_MAX_MATCHES);
+  const more = matches.length - listed.length;
+
+  return `
+New matches in ${watchlistName}
+
+${listed.map((m) => `${truncateWallet(m.wallet)}  ${m.label}: ${m.value}`).join('\n')}
+${more > 0 ? `\n...and ${more} more.\n` : ''}
+Open walletlink.social: ${BASE_URL}
+
+---
+You're receiving this because email alerts are on for this watchlist. Turn them off from the Watchlists panel.
+`.trim();
+}
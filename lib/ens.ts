@@ -26,7 +26,7 @@ function rotateProvider() {
  * Wraps a promise with a timeout
  * Rejects with a timeout error if the promise doesn't resolve in time
  */
-async function withTimeout<T>(
+export async function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
   errorMessage: string
@@ -38,7 +38,21 @@ async function withTimeout<T>(
 }
 
 // Text record keys where Twitter handles are stored (per ENSIP-5)
-const TWITTER_KEYS = ['com.twitter', 'twitter', 'vnd.twitter'];
+export const TWITTER_KEYS = ['com.twitter', 'twitter', 'vnd.twitter'];
+
+// Chain a primary name was resolved on (mainnet ENS, Base L2 reverse registrar, or SNS)
+export type NameChain = 'ethereum' | 'base' | 'solana';
+
+/**
+ * Infer the chain from a name when the source doesn't tell us (e.g. Web3.bio).
+ * Basenames are always subnames of base.eth; SNS names end in .sol.
+ */
+export function getNameChain(name: string): NameChain {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.base.eth')) return 'base';
+  if (lower.endsWith('.sol')) return 'solana';
+  return 'ethereum';
+}
 
 export interface ENSResult {
   wallet: string;
@@ -68,6 +82,27 @@ export async function getENSName(wallet: string): Promise<string | null> {
   }
 }
 
+/**
+ * Forward resolve an ENS name to its address (input rows like "vitalik.eth")
+ */
+export async function resolveENSName(ensName: string): Promise<string | null> {
+  const provider = getProvider();
+  try {
+    const address = await withTimeout(
+      provider.resolveName(ensName),
+      RPC_TIMEOUT_MS,
+      `ENS resolution timed out for ${ensName}`
+    );
+    return address ? address.toLowerCase() : null;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('timed out')) {
+      console.error(error.message);
+    }
+    rotateProvider();
+    return null;
+  }
+}
+
 export async function getENSTextRecords(ensName: string): Promise<{
   twitter: string | null;
   url: string | null;
@@ -0,0 +1,210 @@
+import { getResultValue } from './csv-parser';
+import { toApiProvenance } from './provenance';
+import { getWalletNamespace } from './wallets';
+import type { XlsxCell } from './xlsx-writer';
+import type { WalletSocialResult } from './types';
+
+// Column layout and row shapes shared by the CSV, TSV, XLSX and JSON exports.
+// Every export takes results in the order given, so it matches the table's
+// current filter and sort.
+
+const ONCHAIN_FIELDS = [
+  'native_balance',
+  'token_balance',
+  'tx_count',
+  'first_seen_block',
+  'last_active_block',
+];
+
+// Written as numbers in XLSX
+const NUMERIC_FIELDS = new Set([
+  'holdings',
+  'priority_score',
+  'fc_fid',
+  'fc_followers',
+  'wallet_count',
+  ...ONCHAIN_FIELDS,
+]);
+
+// File values that are plainly numbers ("1,234.5", "$20"). Addresses, IDs,
+// zip codes with a leading zero and anything past 15 digits (where a spreadsheet
+// number loses precision) stay text
+const NUMERIC_TEXT = /^(?!(?:\D*\d){16})\$?-?(0|[1-9]\d{0,2}(,\d{3})*|[1-9]\d*)(\.\d+)?$/;
+
+/**
+ * File columns worth exporting: holdings-like columns are folded into `holdings`
+ */
+function getFileColumns(extraColumns: string[]): string[] {
+  return extraColumns.filter(
+    (col) =>
+      !col.toLowerCase().includes('value') &&
+      !col.toLowerCase().includes('balance') &&
+      !col.toLowerCase().includes('holdings')
+  );
+}
+
+/**
+ * Column order for tabular exports (CSV, TSV, XLSX)
+ */
+export function getExportHeaders(results: WalletSocialResult[], extraColumns: string[]): string[] {
+  const isPersonView = results.some((r) => r.wallet_count !== undefined);
+  const onchainFields = ONCHAIN_FIELDS.filter((field) => results.some((r) => r[field] !== undefined));
+
+  return [
+    'wallet',
+    'ens_name',
+    'ens_chain',
+    'holdings',
+    ...getFileColumns(extraColumns),
+    'twitter_handle',
+    'twitter_url',
+    'farcaster',
+    'farcaster_url',
+    'fc_fid',
+    'fc_followers',
+    'priority_score',
+    ...onchainFields,
+    'lens',
+    'github',
+    'source',
+    // One-row-per-person view adds the wallets each person was merged from
+    ...(isPersonView ? ['wallet_count', 'linked_wallets', 'matched_on'] : []),
+  ];
+}
+
+/**
+ * A result flattened to text for CSV/TSV
+ */
+export function toExportRow(result: WalletSocialResult): Record<string, unknown> {
+  return {
+    ...result,
+    holdings: result.holdings?.toFixed(2) || '',
+    priority_score: result.priority_score?.toFixed(2) || '',
+    source: result.source.join(','),
+    linked_wallets: result.linked_wallets?.join(',') ?? '',
+    matched_on: result.matched_on?.join(',') ?? '',
+  };
+}
+
+function getLink(result: WalletSocialResult, header: string): string | null {
+  switch (header) {
+    case 'twitter_handle':
+      return result.twitter_handle ? result.twitter_url || `https://x.com/${result.twitter_handle}` : null;
+    case 'twitter_url':
+      return result.twitter_url ?? null;
+    case 'farcaster':
+      return result.farcaster ? result.farcaster_url || `https://warpcast.com/${result.farcaster}` : null;
+    case 'farcaster_url':
+      return result.farcaster_url ?? null;
+    case 'github':
+      return result.github ? `https://github.com/${result.github}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * XLSX cells for a result: numbers as numbers, socials as clickable links
+ */
+export function toXlsxRow(result: WalletSocialResult, headers: string[]): XlsxCell[] {
+  const row = toExportRow(result);
+
+  return headers.map((header): XlsxCell => {
+    const raw = getResultValue(result, header);
+    if (NUMERIC_FIELDS.has(header)) {
+      return typeof raw === 'number' ? raw : null;
+    }
+
+    const text = row[header] === undefined || row[header] === null ? '' : String(row[header]);
+    const url = getLink(result, header);
+    if (url && text) return { text, url };
+
+    if (NUMERIC_TEXT.test(text.trim())) {
+      return Number(text.trim().replace(/[$,]/g, ''));
+    }
+    return text;
+  });
+}
+
+/**
+ * A result in the public v1 API's shape (see /api/v1/batch), plus the
+ * lookup's own fields: holdings, priority score, onchain stats and file columns
+ */
+export function toApiRecord(result: WalletSocialResult, extraColumns: string[]): Record<string, unknown> {
+  const item: Record<string, unknown> = {
+    wallet: result.wallet,
+    namespace: getWalletNamespace(result.wallet),
+  };
+
+  if (result.ens_name) {
+    item.ens_name = result.ens_name;
+    item.ens_chain = result.ens_chain ?? 'ethereum';
+  }
+  if (result.twitter_handle) {
+    item.twitter = {
+      handle: result.twitter_handle,
+      url: result.twitter_url || `https://twitter.com/${result.twitter_handle}`,
+    };
+  }
+  if (result.farcaster) {
+    item.farcaster = {
+      username: result.farcaster,
+      url: result.farcaster_url || `https://warpcast.com/${result.farcaster}`,
+      followers: result.fc_followers,
+      fid: result.fc_fid,
+    };
+  }
+  if (result.lens) item.lens = result.lens;
+  if (result.github) item.github = result.github;
+  if (result.source.length > 0) item.sources = result.source;
+  const provenance = toApiProvenance(result.provenance);
+  if (provenance) item.provenance = provenance;
+
+  if (result.holdings !== undefined) item.holdings = result.holdings;
+  if (result.priority_score !== undefined) item.priority_score = result.priority_score;
+
+  const onchain = Object.fromEntries(
+    ONCHAIN_FIELDS.filter((field) => result[field] !== undefined).map((field) => [field, result[field]])
+  );
+  if (Object.keys(onchain).length > 0) item.onchain = onchain;
+
+  if (result.linked_wallets) item.linked_wallets = result.linked_wallets;
+
+  const columns = Object.fromEntries(
+    extraColumns
+      .map((col) => [col, getResultValue(result, col)] as const)
+      .filter(([, value]) => value !== undefined && value !== '')
+  );
+  if (Object.keys(columns).length > 0) item.columns = columns;
+
+  return item;
+}
+
+/**
+ * `{ data, meta }` document, like a v1 API response
+ */
+export function exportToJSON(
+  results: WalletSocialResult[],
+  extraColumns: string[],
+  lookupName?: string | null
+): string {
+  return JSON.stringify(
+    {
+      data: results.map((r) => toApiRecord(r, extraColumns)),
+      meta: {
+        count: results.length,
+        lookup: lookupName ?? null,
+        exported_at: new Date().toISOString(),
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * One v1-shaped record per line
+ */
+export function exportToNDJSON(results: WalletSocialResult[], extraColumns: string[]): string {
+  return results.map((r) => JSON.stringify(toApiRecord(r, extraColumns))).join('\n');
+}
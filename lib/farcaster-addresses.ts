@@ -0,0 +1,112 @@
+import {
+  getDb,
+  farcasterVerifiedAddresses,
+  type FarcasterVerifiedAddress,
+  type NewFarcasterVerifiedAddress,
+} from '@/db';
+import { inArray, eq, sql } from 'drizzle-orm';
+import type { NeynarResult } from './neynar';
+
+export type VerifiedAddressProtocol = 'ethereum' | 'solana';
+
+/**
+ * Store every verified address carried by Neynar results.
+ * Neynar returns the full user for any one of their wallets, so a single
+ * hit tells us about all the other wallets that person has verified.
+ */
+export async function storeVerifiedAddresses(
+  results: Iterable<NeynarResult>
+): Promise<number> {
+  const db = getDb();
+  if (!db) return 0;
+
+  const rows = new Map<string, NewFarcasterVerifiedAddress>();
+  for (const result of results) {
+    if (!result.fc_fid) continue;
+
+    for (const address of result.verified_eth_addresses ?? []) {
+      rows.set(address.toLowerCase(), {
+        address: address.toLowerCase(),
+        fid: result.fc_fid,
+        protocol: 'ethereum',
+        discoveredVia: result.wallet,
+      });
+    }
+    for (const address of result.verified_sol_addresses ?? []) {
+      rows.set(address, {
+        address,
+        fid: result.fc_fid,
+        protocol: 'solana',
+        discoveredVia: result.wallet,
+      });
+    }
+  }
+
+  if (rows.size === 0) return 0;
+
+  const values = Array.from(rows.values());
+  try {
+    for (let i = 0; i < values.length; i += 100) {
+      await db
+        .insert(farcasterVerifiedAddresses)
+        .values(values.slice(i, i + 100))
+        .onConflictDoUpdate({
+          target: farcasterVerifiedAddresses.address,
+          set: {
+            // Addresses can move between FIDs if a user un-verifies and someone else verifies
+            fid: sql`EXCLUDED.fid`,
+            lastSeenAt: sql`NOW()`,
+          },
+        });
+    }
+    return values.length;
+  } catch (error) {
+    console.error('Verified address write error:', error);
+    return 0;
+  }
+}
+
+/**
+ * Map wallets to the FID that has verified them (wallet -> fid)
+ */
+export async function getFidsForAddresses(
+  wallets: string[]
+): Promise<Map<string, number>> {
+  const db = getDb();
+  if (!db || wallets.length === 0) return new Map();
+
+  try {
+    const rows = await db
+      .select({
+        address: farcasterVerifiedAddresses.address,
+        fid: farcasterVerifiedAddresses.fid,
+      })
+      .from(farcasterVerifiedAddresses)
+      .where(inArray(farcasterVerifiedAddresses.address, wallets));
+
+    return new Map(rows.map((r) => [r.address, r.fid]));
+  } catch (error) {
+    console.error('Verified address read error:', error);
+    return new Map();
+  }
+}
+
+/**
+ * All verified addresses for a FID ("other wallets of this person")
+ */
+export async function getVerifiedAddressesForFid(
+  fid: number
+): Promise<FarcasterVerifiedAddress[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  try {
+    return await db
+      .select()
+      .from(farcasterVerifiedAddresses)
+      .where(eq(farcasterVerifiedAddresses.fid, fid));
+  } catch (error) {
+    console.error('Verified address read error:', error);
+    return [];
+  }
+}
@@ -1,9 +1,11 @@
 /**
- * Farcaster DM sending library
- * Uses server proxy to avoid CORS issues with Warpcast API
- * API key is passed through but never stored on server
+ * Farcaster DM helpers shared by the DM modal and the server-side campaign
+ * runner (lib/dm-campaigns.ts). Sending happens on the server; the browser
+ * only starts, polls and controls campaigns.
  */
 
+import { createCSVTokenizer, detectDelimiter } from './csv-parser';
+import { compileTemplate } from './dm-templates';
 import type { WalletSocialResult } from './types';
 
 export interface DMRecipient {
@@ -12,284 +14,195 @@ export interface DMRecipient {
   wallet: string;
   holdings?: number;
   ens?: string;
+  followers?: number;
+  /** Other result fields and file columns, for template variables */
+  fields?: Record<string, string>;
 }
 
 export interface DMLogEntry {
   timestamp: string;
   fid: number;
   username: string;
-  status: 'sent' | 'failed';
+  status: 'sent' | 'failed' | 'skipped';
   error?: string;
   message: string; // Rendered message with variables
+  variant?: string; // A/B variant label
 }
 
-export interface DMProgress {
+export type DMCampaignStatus = 'sending' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface DMCampaignSummary {
+  id: string;
+  name: string;
+  status: DMCampaignStatus;
   total: number;
   sent: number;
   failed: number;
-  status: 'idle' | 'sending' | 'paused' | 'complete' | 'cancelled';
-  currentUsername?: string;
-  failedRecipients: DMRecipient[];
-  log: DMLogEntry[];
+  /** Suppressed after the campaign started */
+  skipped: number;
+  currentUsername: string | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
 }
 
-// Rate limiting configuration
-const DM_DELAY_MS = 250; // 250ms between DMs (~4/second)
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF_MS = 1000;
-const MAX_BACKOFF_MS = 30000;
+export interface DMVariantStats {
+  variant: string;
+  sent: number;
+  failed: number;
+}
 
-/**
- * Generate a UUID v4 for idempotency keys
- */
-function generateIdempotencyKey(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
+export interface DMCampaignDetail extends DMCampaignSummary {
+  /** Latest attempted recipients, newest first */
+  recentLog: DMLogEntry[];
+  /** Per-variant outcomes, when the campaign has more than one template */
+  variantStats: DMVariantStats[];
 }
 
-/**
- * Truncate wallet address for display (0x1234...5678)
- */
-function truncateWallet(wallet: string): string {
-  if (!wallet || wallet.length < 10) return wallet;
-  return `${wallet.slice(0, 6)}...${wallet.slice(-4)}`;
+export const MAX_DM_MESSAGE_LENGTH = 500;
+
+// Suppression: FIDs never to DM. 'recent' is derived from earlier campaigns
+// (sent within the user's cooldown); the others are stored entries.
+export type DMSuppressionReason = 'opt_out' | 'blocklist' | 'recent';
+export type StoredDMSuppressionReason = Exclude<DMSuppressionReason, 'recent'>;
+
+export const DM_SUPPRESSION_REASONS: Record<DMSuppressionReason, string> = {
+  opt_out: 'Opted out',
+  blocklist: 'Blocklist',
+  recent: 'DMed recently',
+};
+
+export const DEFAULT_DM_COOLDOWN_DAYS = 30;
+export const MAX_DM_COOLDOWN_DAYS = 365;
+
+/** FID -> why it must not be DMed */
+export type DMSuppressionMap = Record<number, DMSuppressionReason>;
+
+export interface DMSuppressionEntry {
+  fid: number;
+  username: string | null;
+  reason: StoredDMSuppressionReason;
+  note: string | null;
+  createdAt: string;
 }
 
-/**
- * Format holdings number with commas and reasonable precision
- */
-function formatHoldings(holdings: number | undefined): string {
-  if (holdings === undefined || holdings === null) return '';
-  if (holdings >= 1000000) {
-    return `${(holdings / 1000000).toFixed(2)}M`;
-  }
-  if (holdings >= 1000) {
-    return `${(holdings / 1000).toFixed(2)}K`;
-  }
-  return holdings.toLocaleString(undefined, { maximumFractionDigits: 2 });
+/** Suppression entry as imported, before usernames are resolved to FIDs */
+export interface DMSuppressionInput {
+  fid?: number;
+  username?: string;
+  reason?: StoredDMSuppressionReason;
+  note?: string;
 }
 
-/**
- * Render template variables in a message
- * Supported: {{username}}, {{holdings}}, {{ens}}, {{wallet}}
- */
-export function renderTemplate(template: string, recipient: DMRecipient): string {
-  return template
-    .replace(/\{\{username\}\}/gi, recipient.username || '')
-    .replace(/\{\{holdings\}\}/gi, formatHoldings(recipient.holdings))
-    .replace(/\{\{ens\}\}/gi, recipient.ens || '')
-    .replace(/\{\{wallet\}\}/gi, truncateWallet(recipient.wallet));
+export interface DMExclusions {
+  /** Recipients left out by the suppression list, per reason */
+  byReason: Record<DMSuppressionReason, number>;
+  /** Extra wallets of a FID that is already a recipient */
+  duplicates: number;
 }
 
-/**
- * Extract DM-eligible recipients from lookup results
- * Only includes wallets with fc_fid set (they have Farcaster accounts)
- */
-export function extractDMRecipients(results: WalletSocialResult[]): DMRecipient[] {
-  return results
-    .filter((r) => r.fc_fid && r.farcaster)
-    .map((r) => ({
-      fid: r.fc_fid!,
-      username: r.farcaster!,
-      wallet: r.wallet,
-      holdings: r.holdings,
-      ens: r.ens_name,
-    }));
+export function isStoredSuppressionReason(value: unknown): value is StoredDMSuppressionReason {
+  return value === 'opt_out' || value === 'blocklist';
 }
 
 /**
- * Send a single Farcaster DM via server proxy (avoids CORS issues)
- * Returns { success: true } or { success: false, error: string }
+ * Render a message template (lib/dm-templates.ts) for one recipient
+ * Throws TemplateError for an invalid template
  */
-export async function sendFarcasterDM(
-  apiKey: string,
-  recipientFid: number,
-  message: string
-): Promise<{ success: boolean; error?: string }> {
-  const idempotencyKey = generateIdempotencyKey();
+export function renderTemplate(template: string, recipient: DMRecipient): string {
+  return compileTemplate(template)(recipient);
+}
 
-  try {
-    const response = await fetch('/api/farcaster-dm', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        action: 'send',
-        apiKey,
-        recipientFid,
-        message,
-        idempotencyKey,
-      }),
-    });
+// Result fields that have their own DMRecipient property or aren't text
+const NON_FIELD_KEYS = new Set(['wallet', 'fc_fid', 'farcaster', 'holdings', 'ens_name', 'fc_followers', 'source']);
 
-    const data = await response.json();
+function toFields(result: WalletSocialResult): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(result)) {
+    if (NON_FIELD_KEYS.has(key)) continue;
+    if (typeof value === 'string' && value) fields[key] = value;
+    else if (typeof value === 'number' && Number.isFinite(value)) fields[key] = String(value);
+  }
+  return fields;
+}
 
-    if (data.success) {
-      return { success: true };
+function partitionDMRecipients(
+  results: WalletSocialResult[],
+  suppressed: DMSuppressionMap = {}
+): { recipients: DMRecipient[]; exclusions: DMExclusions } {
+  const recipients: DMRecipient[] = [];
+  const exclusions: DMExclusions = {
+    byReason: { opt_out: 0, blocklist: 0, recent: 0 },
+    duplicates: 0,
+  };
+  const seen = new Set<number>();
+
+  for (const r of results) {
+    if (!r.fc_fid || !r.farcaster) continue;
+    // Several wallets of one person share a FID; they get one DM
+    if (seen.has(r.fc_fid)) {
+      exclusions.duplicates++;
+      continue;
     }
+    seen.add(r.fc_fid);
 
-    return { success: false, error: data.error || 'Unknown error' };
-  } catch (err) {
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : 'Network error',
-    };
+    const reason = suppressed[r.fc_fid];
+    if (reason) {
+      exclusions.byReason[reason]++;
+      continue;
+    }
+
+    recipients.push({
+      fid: r.fc_fid,
+      username: r.farcaster,
+      wallet: r.wallet,
+      holdings: r.holdings,
+      ens: r.ens_name,
+      followers: r.fc_followers,
+      fields: toFields(r),
+    });
   }
+
+  return { recipients, exclusions };
 }
 
 /**
- * Sleep for specified milliseconds
+ * Extract DM-eligible recipients from lookup results
+ * Only includes wallets with fc_fid set (they have Farcaster accounts), one
+ * per FID, leaving out suppressed FIDs
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function extractDMRecipients(
+  results: WalletSocialResult[],
+  suppressed?: DMSuppressionMap
+): DMRecipient[] {
+  return partitionDMRecipients(results, suppressed).recipients;
 }
 
 /**
- * Send DMs to a batch of recipients with progress updates
- * Supports cancellation via AbortSignal
+ * How many Farcaster users extractDMRecipients leaves out, and why
  */
-export async function sendBatchDMs(
-  apiKey: string,
-  recipients: DMRecipient[],
-  messageTemplate: string,
-  onProgress: (progress: DMProgress) => void,
-  signal?: AbortSignal
-): Promise<DMProgress> {
-  const progress: DMProgress = {
-    total: recipients.length,
-    sent: 0,
-    failed: 0,
-    status: 'sending',
-    failedRecipients: [],
-    log: [],
-  };
-
-  // Helper to emit progress with new object reference (required for React re-render)
-  const emitProgress = () => {
-    onProgress({
-      ...progress,
-      failedRecipients: [...progress.failedRecipients],
-      log: [...progress.log],
-    });
-  };
-
-  emitProgress();
-
-  for (let i = 0; i < recipients.length; i++) {
-    // Check for cancellation
-    if (signal?.aborted) {
-      progress.status = 'cancelled';
-      emitProgress();
-      return progress;
-    }
-
-    const recipient = recipients[i];
-    const renderedMessage = renderTemplate(messageTemplate, recipient);
-    progress.currentUsername = recipient.username;
-    emitProgress();
-
-    let success = false;
-    let lastError: string | undefined;
-    let backoff = INITIAL_BACKOFF_MS;
-
-    // Retry logic with exponential backoff
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      if (signal?.aborted) {
-        progress.status = 'cancelled';
-        emitProgress();
-        return progress;
-      }
-
-      const result = await sendFarcasterDM(apiKey, recipient.fid, renderedMessage);
-
-      if (result.success) {
-        success = true;
-        break;
-      }
-
-      lastError = result.error;
-
-      // Don't retry on auth errors or bad requests
-      if (result.error === 'Invalid API key') {
-        // Fatal error - stop all sending
-        progress.status = 'cancelled';
-        progress.log.push({
-          timestamp: new Date().toISOString(),
-          fid: recipient.fid,
-          username: recipient.username,
-          status: 'failed',
-          error: 'Invalid API key - stopping all DMs',
-          message: renderedMessage,
-        });
-        progress.failed++;
-        progress.failedRecipients.push(recipient);
-        emitProgress();
-        return progress;
-      }
-
-      if (result.error?.includes('Bad request')) {
-        // Don't retry bad requests
-        break;
-      }
-
-      // Rate limited or transient error - backoff and retry
-      if (attempt < MAX_RETRIES - 1) {
-        await sleep(Math.min(backoff, MAX_BACKOFF_MS));
-        backoff *= 2;
-      }
-    }
-
-    // Log result
-    const logEntry: DMLogEntry = {
-      timestamp: new Date().toISOString(),
-      fid: recipient.fid,
-      username: recipient.username,
-      status: success ? 'sent' : 'failed',
-      error: success ? undefined : lastError,
-      message: renderedMessage,
-    };
-    progress.log.push(logEntry);
-
-    if (success) {
-      progress.sent++;
-    } else {
-      progress.failed++;
-      progress.failedRecipients.push(recipient);
-    }
-
-    emitProgress();
+export function getDMExclusions(
+  results: WalletSocialResult[],
+  suppressed?: DMSuppressionMap
+): DMExclusions {
+  return partitionDMRecipients(results, suppressed).exclusions;
+}
 
-    // Rate limit delay before next DM
-    if (i < recipients.length - 1) {
-      await sleep(DM_DELAY_MS);
-    }
+function escapeCSV(value: string | number | null | undefined): string {
+  if (value === undefined || value === null) return '';
+  const str = String(value);
+  // Escape quotes and wrap in quotes if contains comma, quote, or newline
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
   }
-
-  progress.status = 'complete';
-  progress.currentUsername = undefined;
-  emitProgress();
-
-  return progress;
+  return str;
 }
 
 /**
  * Export DM log as CSV string
  */
 export function exportLogAsCSV(log: DMLogEntry[]): string {
-  const headers = ['timestamp', 'fid', 'username', 'status', 'error', 'message'];
-  const escapeCSV = (value: string | number | undefined): string => {
-    if (value === undefined || value === null) return '';
-    const str = String(value);
-    // Escape quotes and wrap in quotes if contains comma, quote, or newline
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-      return `"${str.replace(/"/g, '""')}"`;
-    }
-    return str;
-  };
+  const headers = ['timestamp', 'fid', 'username', 'variant', 'status', 'error', 'message'];
 
   const rows = log.map((entry) =>
     headers.map((h) => escapeCSV(entry[h as keyof DMLogEntry])).join(',')
@@ -298,6 +211,59 @@ export function exportLogAsCSV(log: DMLogEntry[]): string {
   return [headers.join(','), ...rows].join('\n');
 }
 
+/**
+ * Export the suppression list as CSV (re-importable with parseSuppressionCSV)
+ */
+export function exportSuppressionsAsCSV(entries: DMSuppressionEntry[]): string {
+  const headers = ['fid', 'username', 'reason', 'note', 'created_at'];
+
+  const rows = entries.map((entry) =>
+    [entry.fid, entry.username, entry.reason, entry.note, entry.createdAt].map(escapeCSV).join(',')
+  );
+
+  return [headers.join(','), ...rows].join('\n');
+}
+
+/**
+ * Parse a suppression list: a CSV with fid/username (and optional reason,
+ * note) columns, or one FID or @username per line
+ */
+export function parseSuppressionCSV(content: string): DMSuppressionInput[] {
+  const tokenizer = createCSVTokenizer(detectDelimiter(content.slice(0, 4096)));
+  const rows = [...tokenizer.push(content), ...tokenizer.flush()];
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((h) => h.toLowerCase());
+  const hasHeader = header.includes('fid') || header.includes('username');
+  const fidCol = hasHeader ? header.indexOf('fid') : -1;
+  const usernameCol = hasHeader ? header.indexOf('username') : -1;
+  const reasonCol = hasHeader ? header.indexOf('reason') : -1;
+  const noteCol = hasHeader ? header.indexOf('note') : -1;
+
+  const entries: DMSuppressionInput[] = [];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const entry: DMSuppressionInput = {};
+
+    if (hasHeader) {
+      const fid = fidCol >= 0 ? Number(row[fidCol]) : NaN;
+      if (Number.isInteger(fid) && fid > 0) entry.fid = fid;
+      const username = usernameCol >= 0 ? row[usernameCol]?.replace(/^@/, '') : '';
+      if (username) entry.username = username;
+      const reason = reasonCol >= 0 ? row[reasonCol] : undefined;
+      if (isStoredSuppressionReason(reason)) entry.reason = reason;
+      if (noteCol >= 0 && row[noteCol]) entry.note = row[noteCol];
+    } else {
+      const value = row[0].replace(/^@/, '');
+      if (/^\d+$/.test(value)) entry.fid = Number(value);
+      else if (value) entry.username = value;
+    }
+
+    if (entry.fid || entry.username) entries.push(entry);
+  }
+
+  return entries;
+}
+
 /**
  * Validate Warpcast API key format
  * Keys typically start with wc_secret_ followed by a long hex string
@@ -1,8 +1,9 @@
-import type { ParseResult } from './csv-parser';
+import type { ParseOptions, ParseProgressCallback, ParseResult } from './csv-parser';
 
 export type SupportedFileType = 'csv' | 'xlsx';
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Files are streamed, so this only guards against obviously wrong uploads
+const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB
 
 function detectFileType(fileName: string): SupportedFileType | null {
   const ext = fileName.toLowerCase().split('.').pop();
@@ -16,13 +17,17 @@ function detectFileType(fileName: string): SupportedFileType | null {
   }
 }
 
-export async function parseFile(file: File): Promise<ParseResult> {
+export async function parseFile(
+  file: File,
+  onProgress?: ParseProgressCallback,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
   // Check file size
   if (file.size > MAX_FILE_SIZE) {
     return {
       rows: [],
       headers: [],
-      error: 'File too large. Maximum size is 10MB.',
+      error: 'File too large. Maximum size is 200MB.',
     };
   }
 
@@ -47,15 +52,13 @@ export async function parseFile(file: File): Promise<ParseResult> {
   }
 
   if (fileType === 'csv') {
-    const text = await file.text();
-    const { parseCSV } = await import('./csv-parser');
-    return parseCSV(text);
+    const { parseCSVStream } = await import('./csv-parser');
+    return parseCSVStream(file, onProgress, options);
   }
 
   if (fileType === 'xlsx') {
-    const buffer = await file.arrayBuffer();
     const { parseXLSX } = await import('./xlsx-parser');
-    return parseXLSX(buffer);
+    return parseXLSX(file, onProgress, options);
   }
 
   return { rows: [], headers: [], error: 'Unknown error parsing file' };
@@ -0,0 +1,164 @@
+import { getDb, socialGraph } from '@/db';
+import { inArray } from 'drizzle-orm';
+import { resolveENSName } from './ens';
+import { resolveBasename } from './basenames';
+import { resolveSNSName } from './sns';
+import type { LookupIdentifier, ResolvedIdentifier } from './identifiers';
+
+// Same concurrency as the ENS reverse lookups
+const RPC_BATCH_SIZE = 50;
+
+// A handle linked to more wallets than this is almost certainly noise
+const MAX_WALLETS_PER_HANDLE = 10;
+
+/**
+ * Forward resolve names and handles to wallet addresses.
+ * - ENS names: mainnet forward resolution
+ * - Basenames: Base L2 resolver
+ * - SNS .sol names: the configured Solana name resolver
+ * - Twitter / Farcaster handles: social_graph indexes (same data as /v1/reverse/*)
+ * Returns one entry per input, in input order, so the UI can show a per-row report.
+ */
+export async function resolveIdentifiers(
+  identifiers: LookupIdentifier[]
+): Promise<ResolvedIdentifier[]> {
+  const results: ResolvedIdentifier[] = identifiers.map((identifier) => ({
+    ...identifier,
+    status: 'not_found',
+    wallets: [],
+  }));
+
+  // Addresses pass straight through
+  for (const result of results) {
+    if (result.type === 'address') {
+      result.status = 'resolved';
+      result.wallets = [result.value];
+    }
+  }
+
+  await resolveNames(
+    results.filter((r) => r.type === 'ens' || r.type === 'basename' || r.type === 'sns')
+  );
+  await resolveHandles(
+    results.filter(
+      (r) => r.type === 'twitter' || r.type === 'farcaster' || r.type === 'handle'
+    )
+  );
+
+  return results;
+}
+
+async function resolveNames(pending: ResolvedIdentifier[]): Promise<void> {
+  for (let i = 0; i < pending.length; i += RPC_BATCH_SIZE) {
+    const batch = pending.slice(i, i + RPC_BATCH_SIZE);
+
+    await Promise.allSettled(
+      batch.map(async (result) => {
+        if (result.type === 'sns') {
+          const address = await resolveSNSName(result.value);
+          if (address) {
+            result.status = 'resolved';
+            result.wallets = [address];
+            result.via = 'sns';
+          } else {
+            result.reason = '.sol name is not registered';
+          }
+          return;
+        }
+
+        const isBasename = result.type === 'basename';
+        const address = isBasename
+          ? await resolveBasename(result.value)
+          : await resolveENSName(result.value);
+
+        if (address) {
+          result.status = 'resolved';
+          result.wallets = [address];
+          result.via = isBasename ? 'basenames' : 'ens';
+        } else {
+          result.reason = isBasename
+            ? 'Basename has no address on Base'
+            : 'ENS name has no address record';
+        }
+      })
+    );
+  }
+}
+
+async function resolveHandles(pending: ResolvedIdentifier[]): Promise<void> {
+  if (pending.length === 0) return;
+
+  const db = getDb();
+  if (!db) {
+    for (const result of pending) {
+      result.status = 'error';
+      result.reason = 'Social graph unavailable';
+    }
+    return;
+  }
+
+  const twitterHandles = pending
+    .filter((r) => r.type === 'twitter' || r.type === 'handle')
+    .map((r) => r.value);
+  const farcasterNames = pending
+    .filter((r) => r.type === 'farcaster' || r.type === 'handle')
+    .map((r) => r.value);
+
+  try {
+    const [twitterRows, farcasterRows] = await Promise.all([
+      twitterHandles.length > 0
+        ? db
+            .select({ wallet: socialGraph.wallet, handle: socialGraph.twitterHandle })
+            .from(socialGraph)
+            .where(inArray(socialGraph.twitterHandle, [...new Set(twitterHandles)]))
+        : Promise.resolve([]),
+      farcasterNames.length > 0
+        ? db
+            .select({ wallet: socialGraph.wallet, handle: socialGraph.farcaster })
+            .from(socialGraph)
+            .where(inArray(socialGraph.farcaster, [...new Set(farcasterNames)]))
+        : Promise.resolve([]),
+    ]);
+
+    const byTwitter = groupWallets(twitterRows);
+    const byFarcaster = groupWallets(farcasterRows);
+
+    for (const result of pending) {
+      // Bare @handles try Twitter first, then Farcaster
+      const twitterWallets =
+        result.type !== 'farcaster' ? byTwitter.get(result.value) : undefined;
+      const farcasterWallets =
+        result.type !== 'twitter' ? byFarcaster.get(result.value) : undefined;
+
+      if (twitterWallets?.length) {
+        result.status = 'resolved';
+        result.wallets = twitterWallets.slice(0, MAX_WALLETS_PER_HANDLE);
+        result.via = 'twitter';
+      } else if (farcasterWallets?.length) {
+        result.status = 'resolved';
+        result.wallets = farcasterWallets.slice(0, MAX_WALLETS_PER_HANDLE);
+        result.via = 'farcaster';
+      } else {
+        result.reason = 'No wallets linked to this handle yet';
+      }
+    }
+  } catch (error) {
+    console.error('Handle resolution error:', error);
+    for (const result of pending) {
+      result.status = 'error';
+      result.reason = 'Handle lookup failed';
+    }
+  }
+}
+
+function groupWallets(
+  rows: Array<{ wallet: string; handle: string | null }>
+): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const row of rows) {
+    if (!row.handle) continue;
+    const key = row.handle.toLowerCase();
+    grouped.set(key, [...(grouped.get(key) ?? []), row.wallet]);
+  }
+  return grouped;
+}
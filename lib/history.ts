@@ -1,5 +1,6 @@
 import { getDb, lookupHistory, socialGraph } from '@/db';
 import { desc, eq, sql, inArray } from 'drizzle-orm';
+import { normalizeWallet } from './wallets';
 import type { WalletSocialResult } from './types';
 
 export interface SavedLookup {
@@ -258,7 +259,7 @@ export async function getEnrichmentCounts(
       }
 
       const results = lookup.results as WalletSocialResult[];
-      const wallets = results.map((r) => r.wallet.toLowerCase());
+      const wallets = results.map((r) => normalizeWallet(r.wallet));
 
       if (wallets.length === 0) {
         result.set(lookup.id, 0);
@@ -0,0 +1,335 @@
+import { randomUUID } from 'crypto';
+import { getDb } from '@/db';
+import { lookupJobs } from '@/db/schema';
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import {
+  fetchHolderPage,
+  getContractInfo,
+  supportsHolderListing,
+  type ContractType,
+  type SupportedChain,
+} from './contract-holders';
+import type { JobOptions } from './job-processor';
+import { emitJobWebhook } from './webhooks';
+
+// Background holder import: contracts with more holders than the synchronous
+// /api/contract-holders cap are paged into a lookup_jobs row (status
+// 'fetching_holders'). The page cursor is persisted as we go, so a timed-out
+// or crashed chunk resumes where it left off. A chunk first takes a lease on
+// the row and every write is conditional on still holding it, so Inngest and
+// the cron worker never append to the same import at once. Once every page is
+// in, the job becomes a normal 'pending' lookup job.
+
+// Hard ceiling on holders per import
+export const HOLDER_IMPORT_LIMIT = 250000;
+
+// originalData column ERC-20 balances are stored under, used as the holdings column
+export const HOLDER_BALANCE_COLUMN = 'balance';
+
+// Stop fetching and persist after this long, so one chunk fits a serverless invocation
+const FETCH_CHUNK_MS = 45000;
+
+// Persist progress at least this often while fetching
+const PERSIST_INTERVAL_MS = 10000;
+
+// The cron worker only picks up imports that nobody has touched for this long,
+// so it doesn't race an in-flight Inngest run
+const STALLED_AFTER_MS = 60000;
+
+// How long a chunk's lease lasts; renewed on every persist. Longer than a
+// chunk plus one slow page, so a live worker never loses it.
+const LEASE_MS = 120000;
+
+export interface HolderImportState {
+  contractAddress: string;
+  chain: SupportedChain;
+  contractType: ContractType;
+  tokenName: string;
+  tokenSymbol: string;
+  totalHolders: number | null;
+  /** Next page to fetch; null before the first page and after the last */
+  cursor: string | null;
+  pagesFetched: number;
+}
+
+export interface HolderImportChunkResult {
+  /** No more fetching to do (holders complete, or the job failed) */
+  done: boolean;
+  /** Job status after this chunk */
+  status: string;
+  fetched: number;
+  /** The provider rate-limited us; wait before the next chunk */
+  rateLimited?: boolean;
+  /** Another worker holds the job's lease; wait before the next chunk */
+  busy?: boolean;
+  error?: string;
+}
+
+/**
+ * Create a lookup job that first fetches every holder of a contract
+ */
+export async function createHolderImportJob(
+  contractAddress: string,
+  chain: SupportedChain,
+  options: JobOptions,
+  expectedHolders?: number
+): Promise<{ jobId: string; holderImport: HolderImportState }> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  const info = await getContractInfo(contractAddress, chain);
+  if (!supportsHolderListing(info.contractType, chain)) {
+    throw new Error('UNSUPPORTED_CHAIN');
+  }
+
+  const holderImport: HolderImportState = {
+    contractAddress: info.address,
+    chain,
+    contractType: info.contractType,
+    tokenName: info.tokenName,
+    tokenSymbol: info.tokenSymbol,
+    totalHolders: expectedHolders ?? null,
+    cursor: null,
+    pagesFetched: 0,
+  };
+
+  const [job] = await db
+    .insert(lookupJobs)
+    .values({
+      status: 'fetching_holders',
+      currentStage: 'holders',
+      wallets: [],
+      originalData: {},
+      options: {
+        ...options,
+        historyName: options.historyName ?? `${info.tokenName} holders`,
+        inputSource: 'contract_import',
+        // ERC-20 pages carry balances; NFT imports have none
+        holdingsColumn: info.contractType === 'ERC-20' ? HOLDER_BALANCE_COLUMN : null,
+        holderImport,
+      },
+      userId: options.userId,
+    })
+    .returning();
+
+  return { jobId: job.id, holderImport };
+}
+
+/**
+ * Fetch holder pages for up to FETCH_CHUNK_MS, appending them (and ERC-20
+ * balances) to the job. Called repeatedly (Inngest steps or the cron worker)
+ * until done. Returns `busy` without fetching when another worker holds the
+ * job, and stops when it loses the lease mid-chunk.
+ */
+export async function processHolderImportChunk(jobId: string): Promise<HolderImportChunkResult> {
+  const db = getDb();
+  if (!db) {
+    return { done: true, status: 'failed', fetched: 0, error: 'Database not configured' };
+  }
+
+  // Claim the job before fetching; the claimed row's wallets and cursor are
+  // the ones to continue from
+  const leaseId = randomUUID();
+  const [job] = await db
+    .update(lookupJobs)
+    .set({ leaseId, leaseExpiresAt: new Date(Date.now() + LEASE_MS) })
+    .where(
+      and(
+        eq(lookupJobs.id, jobId),
+        eq(lookupJobs.status, 'fetching_holders'),
+        or(isNull(lookupJobs.leaseExpiresAt), lt(lookupJobs.leaseExpiresAt, new Date()))
+      )
+    )
+    .returning();
+
+  if (!job) {
+    const [current] = await db
+      .select({
+        status: lookupJobs.status,
+        fetched: sql<number>`jsonb_array_length(${lookupJobs.wallets})`.mapWith(Number),
+      })
+      .from(lookupJobs)
+      .where(eq(lookupJobs.id, jobId))
+      .limit(1);
+
+    if (!current) {
+      return { done: true, status: 'failed', fetched: 0, error: 'Job not found' };
+    }
+    if (current.status !== 'fetching_holders') {
+      return { done: true, status: current.status, fetched: current.fetched };
+    }
+    // Another worker holds the lease
+    return { done: false, status: current.status, fetched: current.fetched, busy: true };
+  }
+
+  const options = job.options as JobOptions;
+  const state = options.holderImport;
+  if (!state) {
+    return { done: true, status: job.status, fetched: job.wallets.length };
+  }
+
+  const held = and(eq(lookupJobs.id, jobId), eq(lookupJobs.leaseId, leaseId));
+  // Every write below is conditional on `held`; this tells whether it applied
+  const holdsLease = async (): Promise<boolean> => {
+    const [row] = await db
+      .select({ leaseId: lookupJobs.leaseId })
+      .from(lookupJobs)
+      .where(eq(lookupJobs.id, jobId))
+      .limit(1);
+    return row?.leaseId === leaseId;
+  };
+
+  // Re-fetching a page after a crash is harmless: holders are deduped here
+  const holders = new Set(job.wallets);
+  let cursor = state.cursor;
+  let totalHolders = state.totalHolders;
+  let pagesFetched = state.pagesFetched;
+  let finished = false;
+
+  // Holders and balances fetched since the last persist, appended to the
+  // stored JSONB rather than rewriting the whole list
+  let newWallets: string[] = [];
+  let newData: Record<string, Record<string, string>> = {};
+
+  // Appends what was fetched and renews the lease (or frees it when the chunk
+  // ends). False when the lease was lost, so nothing was written.
+  const persist = async (status: string, release = false): Promise<boolean> => {
+    const appendWallets = JSON.stringify(newWallets);
+    const appendData = JSON.stringify(newData);
+    newWallets = [];
+    newData = {};
+
+    await db
+      .update(lookupJobs)
+      .set({
+        status,
+        wallets: sql`${lookupJobs.wallets} || ${appendWallets}::jsonb`,
+        originalData: sql`coalesce(${lookupJobs.originalData}, '{}'::jsonb) || ${appendData}::jsonb`,
+        currentStage: status === 'fetching_holders' ? 'holders' : null,
+        options: {
+          ...options,
+          holderImport: { ...state, cursor, totalHolders, pagesFetched },
+        },
+        leaseExpiresAt: release ? null : new Date(Date.now() + LEASE_MS),
+        startedAt: job.startedAt || new Date(),
+        updatedAt: new Date(),
+      })
+      .where(held);
+    return holdsLease();
+  };
+  const leaseLost = (): HolderImportChunkResult => {
+    console.error(`Holder import ${jobId} lost its lease; another worker continues it`);
+    return { done: false, status: 'fetching_holders', fetched: holders.size, busy: true };
+  };
+
+  const startedAt = Date.now();
+  let lastPersist = startedAt;
+
+  try {
+    while (Date.now() - startedAt < FETCH_CHUNK_MS) {
+      const page = await fetchHolderPage(
+        state.contractAddress,
+        state.chain,
+        state.contractType,
+        cursor
+      );
+      for (const wallet of page.wallets) {
+        if (holders.has(wallet) || holders.size >= HOLDER_IMPORT_LIMIT) continue;
+        holders.add(wallet);
+        newWallets.push(wallet);
+        const balance = page.balances?.[wallet];
+        if (balance !== undefined) newData[wallet] = { [HOLDER_BALANCE_COLUMN]: balance };
+      }
+      cursor = page.cursor;
+      totalHolders = page.totalHolders ?? totalHolders;
+      pagesFetched++;
+
+      if (!cursor || holders.size >= HOLDER_IMPORT_LIMIT) {
+        finished = true;
+        break;
+      }
+
+      if (Date.now() - lastPersist > PERSIST_INTERVAL_MS) {
+        if (!(await persist('fetching_holders'))) return leaseLost();
+        lastPersist = Date.now();
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    // Rate limits are transient - keep what we have and resume next chunk
+    if (message === 'RATE_LIMIT') {
+      if (!(await persist('fetching_holders', true))) return leaseLost();
+      return { done: false, status: 'fetching_holders', fetched: holders.size, rateLimited: true };
+    }
+
+    console.error(`Holder import ${jobId} failed:`, error);
+    await db
+      .update(lookupJobs)
+      .set({
+        status: 'failed',
+        errorMessage: `Failed to fetch contract holders: ${message}`,
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(held);
+    if (!(await holdsLease())) return leaseLost();
+    await emitJobWebhook(job, 'job.failed', {
+      error: `Failed to fetch contract holders: ${message}`,
+      processed_count: 0,
+      wallet_count: holders.size,
+    });
+    return { done: true, status: 'failed', fetched: holders.size, error: message };
+  }
+
+  if (finished && holders.size === 0) {
+    await db
+      .update(lookupJobs)
+      .set({
+        status: 'failed',
+        errorMessage: 'This contract has no token holders',
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(held);
+    if (!(await holdsLease())) return leaseLost();
+    await emitJobWebhook(job, 'job.failed', {
+      error: 'This contract has no token holders',
+      processed_count: 0,
+      wallet_count: 0,
+    });
+    return { done: true, status: 'failed', fetched: 0, error: 'NO_HOLDERS' };
+  }
+
+  // All holders in: hand the job to the normal lookup pipeline
+  const status = finished ? 'pending' : 'fetching_holders';
+  if (!(await persist(status, true))) return leaseLost();
+
+  return { done: finished, status, fetched: Math.min(holders.size, HOLDER_IMPORT_LIMIT) };
+}
+
+/**
+ * Holder imports no worker has touched recently and nobody holds a lease on
+ * (Inngest not configured, or its run died). Picked up by the cron worker.
+ */
+export async function getStalledHolderImportJobs(limit: number): Promise<string[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ id: lookupJobs.id })
+    .from(lookupJobs)
+    .where(
+      and(
+        eq(lookupJobs.status, 'fetching_holders'),
+        lt(lookupJobs.updatedAt, new Date(Date.now() - STALLED_AFTER_MS)),
+        or(isNull(lookupJobs.leaseExpiresAt), lt(lookupJobs.leaseExpiresAt, new Date()))
+      )
+    )
+    .orderBy(lookupJobs.createdAt)
+    .limit(limit);
+
+  return rows.map((r) => r.id);
+}
@@ -0,0 +1,252 @@
+import { getDb, contractHolderSnapshots } from '@/db';
+import { and, desc, eq, isNull, lt } from 'drizzle-orm';
+import type { ContractType, HolderResult, SupportedChain } from './contract-holders';
+
+// Holder snapshots: every contract import is stored per contract+chain (and
+// ERC-1155 token scope) so the next import can be diffed against it (new
+// holders, exited holders and balance changes).
+
+export interface HolderSnapshotSummary {
+  id: string;
+  contractAddress: string;
+  chain: SupportedChain;
+  contractType: ContractType;
+  /** ERC-1155 token IDs this snapshot is limited to; null = whole contract */
+  tokenIds: string[] | null;
+  tokenName: string | null;
+  tokenSymbol: string | null;
+  holderCount: number;
+  totalHolders: number;
+  truncated: boolean;
+  createdAt: Date;
+}
+
+export interface HolderBalanceChange {
+  wallet: string;
+  before: string;
+  after: string;
+}
+
+export interface HolderSnapshotDiff {
+  fromSnapshotId: string;
+  toSnapshotId: string;
+  fromCreatedAt: Date;
+  toCreatedAt: Date;
+  newHolders: string[];
+  exitedHolders: string[];
+  balanceChanges: HolderBalanceChange[];
+  /** Either snapshot hit the holder cap, so new/exited may include wallets that only crossed it */
+  truncated: boolean;
+}
+
+type SnapshotRow = typeof contractHolderSnapshots.$inferSelect;
+
+const summaryColumns = {
+  id: contractHolderSnapshots.id,
+  contractAddress: contractHolderSnapshots.contractAddress,
+  chain: contractHolderSnapshots.chain,
+  contractType: contractHolderSnapshots.contractType,
+  tokenScope: contractHolderSnapshots.tokenScope,
+  tokenName: contractHolderSnapshots.tokenName,
+  tokenSymbol: contractHolderSnapshots.tokenSymbol,
+  holderCount: contractHolderSnapshots.holderCount,
+  totalHolders: contractHolderSnapshots.totalHolders,
+  truncated: contractHolderSnapshots.truncated,
+  createdAt: contractHolderSnapshots.createdAt,
+};
+
+function toSummary({ tokenScope, ...row }: Omit<SnapshotRow, 'userId' | 'holders'>): HolderSnapshotSummary {
+  return {
+    ...row,
+    chain: row.chain as SupportedChain,
+    contractType: row.contractType as ContractType,
+    tokenIds: tokenScope ? tokenScope.split(',') : null,
+  };
+}
+
+/**
+ * Snapshots are only comparable within the same set of ERC-1155 token IDs
+ */
+function getTokenScope(tokenIds?: string[]): string | null {
+  if (!tokenIds || tokenIds.length === 0) return null;
+  return [...tokenIds].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1)).join(',');
+}
+
+/**
+ * Compare two holder maps (wallet -> ERC-20 balance or ERC-1155 editions, or null)
+ */
+export function diffHolders(
+  before: Record<string, string | null>,
+  after: Record<string, string | null>
+): Pick<HolderSnapshotDiff, 'newHolders' | 'exitedHolders' | 'balanceChanges'> {
+  const newHolders: string[] = [];
+  const balanceChanges: HolderBalanceChange[] = [];
+
+  for (const [wallet, balance] of Object.entries(after)) {
+    if (!(wallet in before)) {
+      newHolders.push(wallet);
+      continue;
+    }
+    const previous = before[wallet];
+    if (previous !== null && balance !== null && Number(previous) !== Number(balance)) {
+      balanceChanges.push({ wallet, before: previous, after: balance });
+    }
+  }
+
+  const exitedHolders = Object.keys(before).filter((wallet) => !(wallet in after));
+
+  return { newHolders, exitedHolders, balanceChanges };
+}
+
+function diffSnapshots(from: SnapshotRow, to: SnapshotRow): HolderSnapshotDiff {
+  return {
+    fromSnapshotId: from.id,
+    toSnapshotId: to.id,
+    fromCreatedAt: from.createdAt,
+    toCreatedAt: to.createdAt,
+    ...diffHolders(from.holders, to.holders),
+    truncated: from.truncated || to.truncated,
+  };
+}
+
+/**
+ * Store the holder list of a contract import
+ */
+export async function saveHolderSnapshot(
+  userId: string,
+  result: HolderResult,
+  contractAddress: string
+): Promise<HolderSnapshotSummary | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const holders: Record<string, string | null> = {};
+  for (const wallet of result.wallets) {
+    holders[wallet] = result.balances?.[wallet] ?? null;
+  }
+
+  try {
+    const [row] = await db
+      .insert(contractHolderSnapshots)
+      .values({
+        userId,
+        contractAddress: contractAddress.toLowerCase(),
+        chain: result.chain,
+        contractType: result.contractType,
+        tokenScope: getTokenScope(result.tokenIds),
+        tokenName: result.tokenName,
+        tokenSymbol: result.tokenSymbol,
+        holderCount: result.wallets.length,
+        totalHolders: result.totalHolders,
+        truncated: result.truncated,
+        holders,
+      })
+      .returning();
+
+    return toSummary(row);
+  } catch (error) {
+    console.error('Save holder snapshot error:', error);
+    return null;
+  }
+}
+
+/**
+ * A user's snapshots of one contract, newest first
+ */
+export async function listHolderSnapshots(
+  userId: string,
+  contractAddress: string,
+  chain: SupportedChain
+): Promise<HolderSnapshotSummary[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  try {
+    const rows = await db
+      .select(summaryColumns)
+      .from(contractHolderSnapshots)
+      .where(
+        and(
+          eq(contractHolderSnapshots.userId, userId),
+          eq(contractHolderSnapshots.contractAddress, contractAddress.toLowerCase()),
+          eq(contractHolderSnapshots.chain, chain)
+        )
+      )
+      .orderBy(desc(contractHolderSnapshots.createdAt))
+      .limit(50);
+
+    return rows.map(toSummary);
+  } catch (error) {
+    console.error('List holder snapshots error:', error);
+    return [];
+  }
+}
+
+async function getSnapshotRow(userId: string, id: string): Promise<SnapshotRow | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const [row] = await db
+    .select()
+    .from(contractHolderSnapshots)
+    .where(and(eq(contractHolderSnapshots.id, id), eq(contractHolderSnapshots.userId, userId)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Diff a snapshot against an earlier one. Without `fromId` it is compared to
+ * the previous snapshot of the same contract+chain and token scope. Returns
+ * null when either snapshot is missing (or not the user's) or there is
+ * nothing earlier.
+ */
+export async function compareHolderSnapshots(
+  userId: string,
+  toId: string,
+  fromId?: string
+): Promise<HolderSnapshotDiff | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  try {
+    const to = await getSnapshotRow(userId, toId);
+    if (!to) return null;
+
+    let from: SnapshotRow | null;
+    if (fromId) {
+      from = await getSnapshotRow(userId, fromId);
+      if (
+        from &&
+        (from.contractAddress !== to.contractAddress ||
+          from.chain !== to.chain ||
+          from.tokenScope !== to.tokenScope)
+      ) {
+        return null;
+      }
+    } else {
+      [from = null] = await db
+        .select()
+        .from(contractHolderSnapshots)
+        .where(
+          and(
+            eq(contractHolderSnapshots.userId, userId),
+            eq(contractHolderSnapshots.contractAddress, to.contractAddress),
+            eq(contractHolderSnapshots.chain, to.chain),
+            to.tokenScope
+              ? eq(contractHolderSnapshots.tokenScope, to.tokenScope)
+              : isNull(contractHolderSnapshots.tokenScope),
+            lt(contractHolderSnapshots.createdAt, to.createdAt)
+          )
+        )
+        .orderBy(desc(contractHolderSnapshots.createdAt))
+        .limit(1);
+    }
+
+    if (!from) return null;
+    return diffSnapshots(from, to);
+  } catch (error) {
+    console.error('Compare holder snapshots error:', error);
+    return null;
+  }
+}
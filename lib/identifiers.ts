@@ -0,0 +1,178 @@
+import { isValidWallet, normalizeWallet } from './wallets';
+import type { PendingRow, WalletRow } from './csv-parser';
+
+// Lookup input identifiers. Anything that isn't a raw wallet address gets
+// forward-resolved to wallets (POST /api/resolve) before the lookup runs.
+// Client-safe: no server imports.
+
+export type IdentifierType =
+  | 'address' // 0x EVM or base58 Solana
+  | 'ens' // *.eth on mainnet
+  | 'basename' // *.base.eth
+  | 'sns' // *.sol on Solana
+  | 'twitter' // x.com/twitter.com URL or "twitter:handle"
+  | 'farcaster' // warpcast.com URL or "fc:username"
+  | 'handle'; // bare @handle - tried against Twitter, then Farcaster
+
+export interface LookupIdentifier {
+  input: string; // original cell / token, trimmed
+  type: IdentifierType;
+  value: string; // normalized: wallet key (see normalizeWallet), name or handle without @
+}
+
+export type ResolutionStatus = 'resolved' | 'not_found' | 'invalid' | 'error';
+
+export interface ResolvedIdentifier extends LookupIdentifier {
+  status: ResolutionStatus;
+  wallets: string[];
+  via?: 'ens' | 'basenames' | 'sns' | 'twitter' | 'farcaster';
+  reason?: string;
+}
+
+export const MAX_RESOLVE_IDENTIFIERS = 1000;
+
+const ENS_PATTERN = /^(?:[a-z0-9-]+\.)+eth$/;
+const SNS_PATTERN = /^(?:[a-z0-9-]+\.)+sol$/;
+const HANDLE_PATTERN = /^[a-z0-9_]{1,20}$/;
+const TWITTER_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/([a-z0-9_]{1,15})\/?$/;
+const FARCASTER_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?warpcast\.com\/([a-z0-9_.-]{1,20})\/?$/;
+
+/**
+ * Classify a single cell or pasted token. Returns null for anything we can't
+ * resolve (plain names, emails, numbers) so ordinary columns aren't mistaken
+ * for wallet columns.
+ */
+export function parseIdentifier(raw: string): LookupIdentifier | null {
+  const input = raw.trim();
+  if (!input) return null;
+
+  if (isValidWallet(input)) {
+    return { input, type: 'address', value: normalizeWallet(input) };
+  }
+
+  const lower = input.toLowerCase();
+
+  if (ENS_PATTERN.test(lower)) {
+    return {
+      input,
+      type: lower.endsWith('.base.eth') ? 'basename' : 'ens',
+      value: lower,
+    };
+  }
+
+  if (SNS_PATTERN.test(lower)) {
+    return { input, type: 'sns', value: lower };
+  }
+
+  const twitterUrl = lower.match(TWITTER_URL_PATTERN);
+  if (twitterUrl) {
+    return { input, type: 'twitter', value: twitterUrl[1] };
+  }
+
+  const farcasterUrl = lower.match(FARCASTER_URL_PATTERN);
+  if (farcasterUrl) {
+    return { input, type: 'farcaster', value: farcasterUrl[1] };
+  }
+
+  const prefixed = lower.match(/^(twitter|x|fc|farcaster):@?(.+)$/);
+  if (prefixed && HANDLE_PATTERN.test(prefixed[2])) {
+    const type = prefixed[1] === 'fc' || prefixed[1] === 'farcaster' ? 'farcaster' : 'twitter';
+    return { input, type, value: prefixed[2] };
+  }
+
+  if (lower.startsWith('@') && HANDLE_PATTERN.test(lower.slice(1))) {
+    return { input, type: 'handle', value: lower.slice(1) };
+  }
+
+  return null;
+}
+
+/**
+ * Pull every identifier out of free-form pasted text.
+ * 0x addresses are matched anywhere; Solana addresses, names and handles must
+ * be their own token (base58 runs inside URLs or hashes are too easy to mis-match).
+ */
+export function extractIdentifiers(text: string): LookupIdentifier[] {
+  if (!text.trim()) return [];
+
+  const seen = new Set<string>();
+  const identifiers: LookupIdentifier[] = [];
+
+  const add = (identifier: LookupIdentifier | null) => {
+    if (!identifier) return;
+    const key = `${identifier.type}:${identifier.value}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    identifiers.push(identifier);
+  };
+
+  for (const match of text.match(/0x[a-fA-F0-9]{40}/g) || []) {
+    add(parseIdentifier(match));
+  }
+
+  for (const token of text.split(/[\s,;"']+/)) {
+    if (/0x[a-fA-F0-9]{40}/.test(token)) continue;
+    add(parseIdentifier(token));
+  }
+
+  return identifiers;
+}
+
+/**
+ * Resolve identifiers through POST /api/resolve (client-side helper).
+ * Duplicate inputs are sent once; results come back keyed by input.
+ */
+export async function requestResolution(
+  identifiers: LookupIdentifier[]
+): Promise<Map<string, ResolvedIdentifier>> {
+  const inputs = [...new Set(identifiers.map((i) => i.input))];
+  const resolved = new Map<string, ResolvedIdentifier>();
+
+  for (let i = 0; i < inputs.length; i += MAX_RESOLVE_IDENTIFIERS) {
+    const response = await fetch('/api/resolve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ inputs: inputs.slice(i, i + MAX_RESOLVE_IDENTIFIERS) }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to resolve names');
+    }
+
+    for (const result of data.results as ResolvedIdentifier[]) {
+      resolved.set(result.input, result);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Turn resolved pending rows into wallet rows, keeping their other columns.
+ * Each row records what it was resolved from so exports stay traceable.
+ * Returns the new rows plus a per-row report (one entry per pending row).
+ */
+export function applyResolution(
+  pending: PendingRow[],
+  resolved: Map<string, ResolvedIdentifier>
+): { rows: WalletRow[]; report: ResolvedIdentifier[] } {
+  const rows: WalletRow[] = [];
+  const report: ResolvedIdentifier[] = [];
+
+  for (const { identifier, data } of pending) {
+    const result: ResolvedIdentifier = resolved.get(identifier.input) ?? {
+      ...identifier,
+      status: 'error',
+      wallets: [],
+      reason: 'No response from resolver',
+    };
+    report.push(result);
+
+    for (const wallet of result.wallets) {
+      rows.push({ ...data, wallet: normalizeWallet(wallet), resolved_from: identifier.input });
+    }
+  }
+
+  return { rows, report };
+}
@@ -0,0 +1,145 @@
+import { getPriorityScorer, type PriorityScorer } from './scoring';
+import type { WalletSocialResult } from './types';
+
+// Identity keys that link wallets to the same person.
+// FID comes from Neynar's verified addresses, Twitter/ENS from any provider.
+export type ClusterKey = 'fid' | 'twitter' | 'ens';
+
+export interface IdentityCluster {
+  id: string; // primary wallet of the cluster
+  wallets: string[]; // all member wallets, highest priority first
+  matchedOn: ClusterKey[];
+  members: WalletSocialResult[];
+}
+
+function getClusterKeys(result: WalletSocialResult): Array<[ClusterKey, string]> {
+  const keys: Array<[ClusterKey, string]> = [];
+  if (result.fc_fid) keys.push(['fid', String(result.fc_fid)]);
+  if (result.twitter_handle) keys.push(['twitter', result.twitter_handle.toLowerCase()]);
+  if (result.ens_name) keys.push(['ens', result.ens_name.toLowerCase()]);
+  return keys;
+}
+
+function rank(result: WalletSocialResult): number {
+  return result.priority_score ?? result.holdings ?? 0;
+}
+
+/**
+ * Group wallets that share a Farcaster FID, Twitter handle or ENS name.
+ * Uses union-find so A-(fid)-B-(twitter)-C ends up as one person.
+ * Wallets with no identity keys stay as single-wallet clusters.
+ */
+export function clusterIdentities(results: WalletSocialResult[]): IdentityCluster[] {
+  const parent = results.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const keyOwner = new Map<string, number>();
+  const links: Array<[number, ClusterKey]> = [];
+
+  results.forEach((result, i) => {
+    for (const [type, value] of getClusterKeys(result)) {
+      const key = `${type}:${value}`;
+      const owner = keyOwner.get(key);
+      if (owner === undefined) {
+        keyOwner.set(key, i);
+        continue;
+      }
+
+      const a = find(owner);
+      const b = find(i);
+      if (a !== b) parent[b] = a;
+      links.push([i, type]);
+    }
+  });
+
+  // Resolve match types against final roots (roots move as clusters merge)
+  const matched = new Map<number, Set<ClusterKey>>();
+  for (const [i, type] of links) {
+    const root = find(i);
+    matched.set(root, (matched.get(root) ?? new Set<ClusterKey>()).add(type));
+  }
+
+  const groups = new Map<number, WalletSocialResult[]>();
+  results.forEach((result, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.set(root, [result]);
+    }
+  });
+
+  const clusters: IdentityCluster[] = [];
+  for (const [root, members] of groups) {
+    const sorted = [...members].sort((a, b) => rank(b) - rank(a));
+
+    clusters.push({
+      id: sorted[0].wallet,
+      wallets: sorted.map((r) => r.wallet),
+      matchedOn: [...(matched.get(root) ?? [])],
+      members: sorted,
+    });
+  }
+
+  return clusters;
+}
+
+/**
+ * Collapse a cluster into a single "person" row.
+ * Identity fields come from the highest-priority wallet that has them,
+ * holdings are summed and the priority score recalculated from the total.
+ */
+export function clusterToResult(
+  cluster: IdentityCluster,
+  scorePriority: PriorityScorer = getPriorityScorer()
+): WalletSocialResult {
+  const [primary, ...rest] = cluster.members;
+  if (rest.length === 0) {
+    return { ...primary, wallet_count: 1, linked_wallets: [] };
+  }
+
+  const merged: WalletSocialResult = { ...primary };
+  for (const member of rest) {
+    for (const [key, value] of Object.entries(member)) {
+      if (merged[key] === undefined || merged[key] === '') {
+        merged[key] = value;
+      }
+    }
+  }
+
+  const withHoldings = cluster.members.filter((m) => m.holdings !== undefined);
+  const holdings = withHoldings.length > 0
+    ? withHoldings.reduce((sum, m) => sum + (m.holdings ?? 0), 0)
+    : undefined;
+  const followers = Math.max(0, ...cluster.members.map((m) => m.fc_followers ?? 0));
+  const hasScore = cluster.members.some((m) => m.priority_score !== undefined);
+
+  const person: WalletSocialResult = {
+    ...merged,
+    holdings,
+    fc_followers: merged.fc_followers !== undefined ? followers : undefined,
+    source: [...new Set(cluster.members.flatMap((m) => m.source))],
+    wallet_count: cluster.wallets.length,
+    linked_wallets: cluster.wallets.slice(1),
+    matched_on: cluster.matchedOn,
+  };
+  person.priority_score = hasScore ? scorePriority(person) : undefined;
+  return person;
+}
+
+/**
+ * One row per person, for the results view and export
+ */
+export function toPersonRows(
+  results: WalletSocialResult[],
+  scorePriority?: PriorityScorer
+): WalletSocialResult[] {
+  return clusterIdentities(results).map((c) => clusterToResult(c, scorePriority));
+}
@@ -7,6 +7,7 @@ import { NextRequest } from 'next/server';
 export const IP_RATE_LIMITS = {
   '/api/lookup': { limit: 3, windowHours: 1 },
   '/api/jobs': { limit: 3, windowHours: 1 },
+  '/api/resolve': { limit: 10, windowHours: 1 },
 } as const;
 
 export type RateLimitedEndpoint = keyof typeof IP_RATE_LIMITS;
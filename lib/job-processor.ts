@@ -1,11 +1,11 @@
 import { getDb } from '@/db';
 import { lookupJobs } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { batchFetchWeb3Bio } from '@/lib/web3bio';
-import { batchFetchNeynar, type NeynarResult } from '@/lib/neynar';
-import { batchLookupENS } from '@/lib/ens';
+import { runProviderChain } from '@/lib/providers';
 import { getCachedWallets, cacheWalletResults } from '@/lib/cache';
 import { saveLookup, type InputSource } from '@/lib/history';
+import { completeLookupRefresh, failLookupRefresh } from '@/lib/lookup-refresh';
+import { completeWatchlistRun, failWatchlistRun } from '@/lib/watchlists';
 import {
   upsertSocialGraphWithRetry,
   getSocialGraphWithQuality,
@@ -13,17 +13,25 @@ import {
   type SocialGraphQualityResult,
 } from '@/lib/social-graph';
 import {
-  findHoldingsColumn,
+  resolveHoldingsColumn,
   parseHoldingsValue,
-  calculatePriorityScore,
 } from '@/lib/csv-parser';
 import { trackEvent } from '@/lib/analytics';
+import { countAnySocialFound, emitJobWebhook } from '@/lib/webhooks';
+import { getPriorityScorer } from '@/lib/scoring';
+import { normalizeWallet } from '@/lib/wallets';
+import { getOnchainStats, applyOnchainStats, type OnchainEnrichmentOptions } from '@/lib/onchain';
 import type { WalletSocialResult } from '@/lib/types';
+import type { HolderImportState } from '@/lib/holder-import';
 import type { LookupJob } from '@/db/schema';
 
 // Process up to this many wallets per cron invocation
 const CHUNK_SIZE = 3000; // Increased from 2000 for faster throughput
 
+// Time onchain enrichment may take per invocation (the worker has 300s); the
+// rest of the chunk's onchain stats are fetched on the next run
+const ONCHAIN_BUDGET_MS = 120000;
+
 export interface JobOptions {
   includeENS?: boolean;
   saveToHistory?: boolean;
@@ -33,6 +41,22 @@ export interface JobOptions {
   canUseNeynar?: boolean;
   canUseENS?: boolean;
   inputSource?: InputSource;
+  // Column-mapping step choices; holdingsColumn undefined = guess from headers.
+  // Dropped columns never reach originalData; labelColumns orders extraColumns.
+  holdingsColumn?: string | null;
+  labelColumns?: string[];
+  // Custom priority-score formula (lib/scoring.ts); undefined = default
+  priorityFormula?: string;
+  // Saved lookup this job refreshes; results are merged into it on completion
+  refreshLookupId?: string;
+  // Scheduled watchlist run this job belongs to; diffed and alerted on completion
+  watchlistRunId?: string;
+  // Background contract-holder import feeding this job (lib/holder-import.ts)
+  holderImport?: HolderImportState;
+  // Onchain balance/activity enrichment (lib/onchain.ts); undefined = skipped
+  onchain?: OnchainEnrichmentOptions;
+  // API key the job was created with; scopes which webhook endpoints hear about it
+  apiKeyId?: string;
 }
 
 export interface ProcessResult {
@@ -102,14 +126,14 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
     }
 
     // Detect holdings column
-    const firstWallet = walletsToProcess[0]?.toLowerCase();
+    const firstWallet = walletsToProcess[0] && normalizeWallet(walletsToProcess[0]);
     const firstData = originalData[firstWallet] || {};
     const dataColumns = Object.keys(firstData);
-    const holdingsColumn = findHoldingsColumn(dataColumns);
+    const holdingsColumn = resolveHoldingsColumn(dataColumns, options.holdingsColumn);
 
     // Initialize results for this chunk
     for (const wallet of walletsToProcess) {
-      const walletLower = wallet.toLowerCase();
+      const walletLower = normalizeWallet(wallet);
       if (!results.has(walletLower)) {
         const walletData = originalData[walletLower] || {};
 
@@ -127,7 +151,6 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
       }
     }
 
-    const neynarApiKey = process.env.NEYNAR_API_KEY;
     let cacheHits = job.cacheHits;
     let graphHits = 0;
     let uncachedWallets = walletsToProcess;
@@ -151,6 +174,7 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
           results.set(wallet, {
             ...existing,
             ens_name: storedData.ens_name || existing.ens_name,
+            ens_chain: storedData.ens_name ? storedData.ens_chain : existing.ens_chain,
             twitter_handle: storedData.twitter_handle || existing.twitter_handle,
             twitter_url: storedData.twitter_url || existing.twitter_url,
             farcaster: storedData.farcaster || existing.farcaster,
@@ -159,6 +183,7 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
             fc_fid: storedData.fc_fid || existing.fc_fid,
             lens: storedData.lens || existing.lens,
             github: storedData.github || existing.github,
+            provenance: { ...existing.provenance, ...storedData.provenance },
             source: [...existing.source, 'graph'],
           });
           graphHits++;
@@ -168,6 +193,7 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
           results.set(wallet, {
             ...existing,
             ens_name: storedData.ens_name || existing.ens_name,
+            ens_chain: storedData.ens_name ? storedData.ens_chain : existing.ens_chain,
             twitter_handle: storedData.twitter_handle || existing.twitter_handle,
             twitter_url: storedData.twitter_url || existing.twitter_url,
             farcaster: storedData.farcaster || existing.farcaster,
@@ -176,6 +202,7 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
             fc_fid: storedData.fc_fid || existing.fc_fid,
             lens: storedData.lens || existing.lens,
             github: storedData.github || existing.github,
+            provenance: { ...existing.provenance, ...storedData.provenance },
             source: [...existing.source, 'graph'],
           });
           // Medium quality still needs lookup to potentially refresh data
@@ -216,6 +243,38 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
       });
     }
 
+    // =========================================================================
+    // STEP 1b: Onchain balances and activity (optional)
+    // Independent of socials, so it runs for every wallet in the chunk. Each
+    // fetched slice is cached, so when the budget runs out the chunk is
+    // retried on the next run and resumes from the cache.
+    // =========================================================================
+    if (options.onchain) {
+      await updateJobStage(db, jobId, 'onchain');
+      try {
+        const { stats, cached, unfetched } = await getOnchainStats(
+          walletsToProcess,
+          options.onchain,
+          ONCHAIN_BUDGET_MS
+        );
+        // Only defer when this run cached something, so an RPC outage can't
+        // hold the chunk back forever
+        if (unfetched.length > 0 && cached > 0) {
+          return {
+            completed: false,
+            processedCount: job.processedCount,
+            twitterFound: job.twitterFound,
+            farcasterFound: job.farcasterFound,
+            anySocialFound: job.anySocialFound,
+            cacheHits: job.cacheHits,
+          };
+        }
+        applyOnchainStats(results, stats);
+      } catch (error) {
+        console.error('Onchain enrichment error:', error);
+      }
+    }
+
     // =========================================================================
     // STEP 2: Check cache for wallets that need lookup
     // =========================================================================
@@ -236,7 +295,7 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
       }
 
       uncachedWallets = walletsNeedingLookup.filter(
-        (w) => !cached.has(w.toLowerCase())
+        (w) => !cached.has(normalizeWallet(w))
       );
     } catch (error) {
       console.error('Cache error:', error);
@@ -247,96 +306,25 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
     // STEP 3: Call external APIs for remaining uncached wallets
     // =========================================================================
     if (uncachedWallets.length > 0) {
-      // ENS lookups (optional, requires paid tier)
-      if (options.includeENS && options.canUseENS !== false) {
-        await updateJobStage(db, jobId, 'ens');
-        try {
-          const ensResults = await batchLookupENS(uncachedWallets);
-
-          for (const [wallet, data] of ensResults) {
-            const existing = results.get(wallet)!;
-            results.set(wallet, {
-              ...existing,
-              ens_name: data.ensName || existing.ens_name,
-              twitter_handle: data.twitter || existing.twitter_handle,
-              twitter_url: data.twitterUrl || existing.twitter_url,
-              github: data.github || existing.github,
-              source: [...existing.source, 'ens'],
-            });
-          }
-        } catch (error) {
-          console.error('ENS lookup error:', error);
-        }
-      }
-
-      // Neynar first (fast batch API), then Web3Bio only for wallets without Twitter
-      // This optimization reduces Web3Bio calls by 30-60% since Neynar returns verified Twitter
-      const canUseNeynar = neynarApiKey && options.canUseNeynar !== false;
-
-      // Step 1: Run Neynar (fast - batch API handles 200 wallets per request)
-      let neynarResults = new Map<string, NeynarResult>();
-      if (canUseNeynar) {
-        await updateJobStage(db, jobId, 'neynar');
-        try {
-          neynarResults = await batchFetchNeynar(uncachedWallets, neynarApiKey);
-        } catch (error) {
-          console.error('Neynar fetch error:', error);
-        }
-
-        // Apply Neynar results immediately
-        for (const [wallet, data] of neynarResults) {
-          const existing = results.get(wallet)!;
-          results.set(wallet, {
-            ...existing,
-            twitter_handle: existing.twitter_handle || data.twitter_handle,
-            twitter_url: existing.twitter_url || data.twitter_url,
-            farcaster: data.farcaster || existing.farcaster,
-            farcaster_url: data.farcaster_url || existing.farcaster_url,
-            fc_followers: data.fc_followers,
-            fc_fid: data.fc_fid,
-            source: existing.source.includes('neynar')
-              ? existing.source
-              : [...existing.source, 'neynar'],
-          });
-        }
-      }
-
-      // Step 2: Filter wallets that still need Twitter lookup
-      // Skip Web3Bio for wallets that already have Twitter from cache, ENS, or Neynar
-      const walletsNeedingWeb3Bio = uncachedWallets.filter((wallet) => {
-        const existing = results.get(wallet.toLowerCase());
-        // Only call Web3Bio if we don't have Twitter yet
-        return !existing?.twitter_handle;
-      });
-
-      // Step 3: Run Web3Bio only for wallets without Twitter (slow - 1 request per wallet)
-      if (walletsNeedingWeb3Bio.length > 0) {
-        await updateJobStage(db, jobId, 'web3bio');
-        const web3BioResults = await batchFetchWeb3Bio(walletsNeedingWeb3Bio);
-
-        // Apply Web3.bio results
-        for (const [wallet, data] of web3BioResults) {
-          const existing = results.get(wallet)!;
-          results.set(wallet, {
-            ...existing,
-            ens_name: existing.ens_name || data.ens_name,
-            twitter_handle: existing.twitter_handle || data.twitter_handle,
-            twitter_url: existing.twitter_url || data.twitter_url,
-            farcaster: data.farcaster || existing.farcaster,
-            farcaster_url: data.farcaster_url || existing.farcaster_url,
-            lens: data.lens || existing.lens,
-            github: existing.github || data.github,
-            source: existing.source.includes('web3bio')
-              ? existing.source
-              : [...existing.source, 'web3bio'],
-          });
+      // Run the shared identity-provider chain (ENS → Neynar → Web3.bio)
+      await runProviderChain(
+        uncachedWallets,
+        results,
+        {
+          includeENS: options.includeENS,
+          canUseENS: options.canUseENS,
+          canUseNeynar: options.canUseNeynar,
+          jobId: job.id,
+        },
+        {
+          onProviderStart: (provider) => updateJobStage(db, jobId, provider.id),
         }
-      }
+      );
 
       // Cache newly fetched results
       try {
         const newResults = uncachedWallets
-          .map((w) => results.get(w.toLowerCase())!)
+          .map((w) => results.get(normalizeWallet(w))!)
           .filter((r) => r.source.length > 0 && !r.source.includes('cache'));
 
         if (newResults.length > 0) {
@@ -352,25 +340,23 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
 
     // Calculate priority scores (paid tiers only)
     const isPaidTier = options.tier === 'starter' || options.tier === 'pro' || options.tier === 'unlimited';
+    const scorePriority = getPriorityScorer(options.priorityFormula);
     for (const [wallet, result] of results) {
       if (!isPaidTier) {
         // Free tier doesn't get premium data
         result.priority_score = undefined;
         result.fc_followers = undefined;
       } else {
-        result.priority_score = calculatePriorityScore(
-          result.holdings,
-          result.fc_followers
-        );
+        result.priority_score = scorePriority(result);
       }
       results.set(wallet, result);
     }
 
     // Calculate stats for this chunk
-    const chunkResults = walletsToProcess.map((w) => results.get(w.toLowerCase())!);
+    const chunkResults = walletsToProcess.map((w) => results.get(normalizeWallet(w))!);
     const twitterFound = job.twitterFound + chunkResults.filter((r) => r.twitter_handle).length;
     const farcasterFound = job.farcasterFound + chunkResults.filter((r) => r.farcaster).length;
-    const anySocialFound = job.anySocialFound + chunkResults.filter((r) => r.twitter_handle || r.farcaster).length;
+    const anySocialFound = job.anySocialFound + countAnySocialFound(chunkResults);
 
     const newProcessedCount = startIndex + walletsToProcess.length;
     const allResults = Array.from(results.values());
@@ -427,6 +413,20 @@ export async function processJobChunk(jobId: string): Promise<ProcessResult> {
       })
       .where(eq(lookupJobs.id, jobId));
 
+    const { refreshLookupId, watchlistRunId } = job.options as JobOptions;
+    if (refreshLookupId) {
+      await failLookupRefresh(refreshLookupId, jobId);
+    }
+    if (watchlistRunId) {
+      await failWatchlistRun(watchlistRunId, error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    await emitJobWebhook(job, 'job.failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      processed_count: job.processedCount,
+      wallet_count: job.wallets.length,
+    });
+
     return {
       completed: true,
       processedCount: job.processedCount,
@@ -487,6 +487,14 @@ async function finalizeJobWithResults(
     }
   }
 
+  if (options.refreshLookupId) {
+    await completeLookupRefresh(options.refreshLookupId, job.id, results, options.priorityFormula);
+  }
+
+  if (options.watchlistRunId) {
+    await completeWatchlistRun(options.watchlistRunId, results);
+  }
+
   // Persist positive results to social graph with retry logic
   let socialGraphWriteStatus: 'success' | 'partial' | 'failed' | null = null;
   let socialGraphWriteErrors: string[] = [];
@@ -571,6 +579,15 @@ async function finalizeJobWithResults(
     },
   });
 
+  await emitJobWebhook(job, 'job.completed', {
+    wallet_count: job.wallets.length,
+    twitter_found: twitterFound,
+    farcaster_found: farcasterFound,
+    any_social_found: anySocialFound,
+    cache_hits: cacheHits,
+    completed_at: completedAt.toISOString(),
+  });
+
   return {
     completed: true,
     processedCount: job.wallets.length,
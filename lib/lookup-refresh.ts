@@ -0,0 +1,338 @@
+import { getDb, lookupJobs, lookupRefreshes } from '@/db';
+import { and, desc, eq, inArray, notInArray } from 'drizzle-orm';
+import { getLookupById, updateLookup } from './history';
+import { getEnrichedWalletsSince } from './social-graph';
+import { getPriorityScorer, rescoreResults } from './scoring';
+import { normalizeWallet } from './wallets';
+import { emitWebhookEvent } from './webhooks';
+import type { ProvenanceField } from './provenance';
+import type { WalletSocialResult } from './types';
+
+// "Refresh this lookup": re-run the stale or unmatched wallets of a saved
+// lookup through the job pipeline, then merge the new matches into the stored
+// results and record what changed.
+
+// Matched wallets whose social_graph record is older than this are re-checked
+export const REFRESH_STALE_DAYS = 30;
+
+// Changes listed in a lookup.enriched webhook; the counts cover the rest
+const MAX_WEBHOOK_CHANGES = 500;
+
+// Each social is a primary field plus the fields that travel with it
+const SOCIAL_FIELDS = {
+  twitter_handle: ['twitter_url'],
+  farcaster: ['farcaster_url', 'fc_followers', 'fc_fid'],
+  ens_name: ['ens_chain'],
+  lens: [],
+  github: [],
+} as const;
+
+export type SocialField = keyof typeof SOCIAL_FIELDS;
+
+const PROVENANCE_KEYS: Record<SocialField, ProvenanceField> = {
+  twitter_handle: 'twitter',
+  farcaster: 'farcaster',
+  ens_name: 'ens',
+  lens: 'lens',
+  github: 'github',
+};
+
+export interface SocialChange {
+  wallet: string;
+  field: SocialField;
+  kind: 'added' | 'changed' | 'lost';
+  before?: string;
+  after?: string;
+}
+
+export interface LookupRefreshSummary {
+  id: string;
+  jobId: string;
+  status: string;
+  walletsChecked: number;
+  walletsBilled: number;
+  addedCount: number;
+  changedCount: number;
+  lostCount: number;
+  changes: SocialChange[];
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Whether a social missing from the refreshed row is really gone: every
+ * provider that supplied it (its provenance source, else the row's sources)
+ * ran and succeeded for the wallet this time. A provider that errored or that
+ * the tier can't use leaves the stored value alone.
+ */
+function confirmedMissing(row: WalletSocialResult, fresh: WalletSocialResult, field: SocialField): boolean {
+  const checked = fresh.checked_by ?? [];
+  if (checked.length === 0) return false;
+
+  const owner = row.provenance?.[PROVENANCE_KEYS[field]]?.source;
+  const owners = owner ? [owner] : row.source.filter((s) => s !== 'cache' && s !== 'graph');
+  return owners.length > 0 && owners.every((s) => checked.includes(s));
+}
+
+function hasSocial(result: WalletSocialResult): boolean {
+  return (Object.keys(SOCIAL_FIELDS) as SocialField[]).some((field) => result[field]);
+}
+
+/**
+ * Pick the wallets a refresh should re-run: every unmatched wallet, plus
+ * matched wallets whose social_graph record is missing or stale. Only the
+ * unmatched ones count against the wallet quota.
+ */
+export async function selectWalletsToRefresh(
+  results: WalletSocialResult[]
+): Promise<{ wallets: string[]; billable: number }> {
+  const matched = results.filter(hasSocial).map((r) => r.wallet);
+  const staleBefore = new Date(Date.now() - REFRESH_STALE_DAYS * 24 * 60 * 60 * 1000);
+  const fresh = new Set(await getEnrichedWalletsSince(matched, staleBefore));
+
+  const unmatched = results.filter((r) => !hasSocial(r)).map((r) => r.wallet);
+  const stale = matched.filter((w) => !fresh.has(normalizeWallet(w)));
+
+  return { wallets: [...unmatched, ...stale], billable: unmatched.length };
+}
+
+/**
+ * Overlay refreshed socials onto the stored results. CSV columns and holdings
+ * always come from the stored row; a social missing from the refreshed row is
+ * recorded as lost and removed only when its provider confirmed it is gone.
+ */
+export function mergeRefreshResults(
+  existing: WalletSocialResult[],
+  refreshed: WalletSocialResult[]
+): { results: WalletSocialResult[]; changes: SocialChange[] } {
+  const refreshedByWallet = new Map(refreshed.map((r) => [normalizeWallet(r.wallet), r]));
+  const changes: SocialChange[] = [];
+
+  const results = existing.map((row) => {
+    const fresh = refreshedByWallet.get(normalizeWallet(row.wallet));
+    if (!fresh) return row;
+
+    const merged: WalletSocialResult = {
+      ...row,
+      source: [...new Set([...row.source, ...fresh.source])],
+    };
+    const provenance = { ...row.provenance };
+
+    for (const [field, related] of Object.entries(SOCIAL_FIELDS) as Array<[SocialField, readonly string[]]>) {
+      const before = row[field] as string | undefined;
+      const after = fresh[field] as string | undefined;
+
+      if (after) {
+        merged[field] = after;
+        for (const key of related) merged[key] = fresh[key];
+        const freshProvenance = fresh.provenance?.[PROVENANCE_KEYS[field]];
+        if (freshProvenance) provenance[PROVENANCE_KEYS[field]] = freshProvenance;
+        if (!before) {
+          changes.push({ wallet: row.wallet, field, kind: 'added', after });
+        } else if (before.toLowerCase() !== after.toLowerCase()) {
+          changes.push({ wallet: row.wallet, field, kind: 'changed', before, after });
+        }
+      } else if (before && confirmedMissing(row, fresh, field)) {
+        merged[field] = undefined;
+        for (const key of related) merged[key] = undefined;
+        delete provenance[PROVENANCE_KEYS[field]];
+        changes.push({ wallet: row.wallet, field, kind: 'lost', before });
+      }
+    }
+
+    merged.provenance = Object.keys(provenance).length > 0 ? provenance : undefined;
+    return merged;
+  });
+
+  return { results, changes };
+}
+
+/**
+ * Whether the lookup has a refresh whose job is still queued or running
+ */
+export async function hasActiveRefresh(lookupId: string): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const [active] = await db
+    .select({ id: lookupRefreshes.id })
+    .from(lookupRefreshes)
+    .innerJoin(lookupJobs, eq(lookupRefreshes.jobId, lookupJobs.id))
+    .where(
+      and(
+        eq(lookupRefreshes.lookupId, lookupId),
+        eq(lookupRefreshes.status, 'pending'),
+        inArray(lookupJobs.status, ['pending', 'processing'])
+      )
+    )
+    .limit(1);
+
+  return !!active;
+}
+
+/**
+ * Record `jobId` as the lookup's active refresh. Returns false, and deletes
+ * the job, when another refresh of the lookup got there first (the unique
+ * index on pending refreshes).
+ */
+export async function createLookupRefresh(
+  lookupId: string,
+  jobId: string,
+  walletsChecked: number,
+  walletsBilled: number
+): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  // A pending refresh whose job died without failing it would hold the index forever
+  const liveJobs = db
+    .select({ jobId: lookupJobs.id })
+    .from(lookupJobs)
+    .where(inArray(lookupJobs.status, ['pending', 'processing']));
+  await db
+    .update(lookupRefreshes)
+    .set({ status: 'failed', completedAt: new Date() })
+    .where(
+      and(
+        eq(lookupRefreshes.lookupId, lookupId),
+        eq(lookupRefreshes.status, 'pending'),
+        notInArray(lookupRefreshes.jobId, liveJobs)
+      )
+    );
+
+  const [created] = await db
+    .insert(lookupRefreshes)
+    .values({
+      lookupId,
+      jobId,
+      walletsChecked,
+      walletsBilled,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    await db.delete(lookupJobs).where(eq(lookupJobs.id, jobId));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Merge a finished refresh job into its saved lookup and record the diff.
+ * Called from the job pipelines when JobOptions.refreshLookupId is set.
+ */
+export async function completeLookupRefresh(
+  lookupId: string,
+  jobId: string,
+  refreshed: WalletSocialResult[],
+  priorityFormula?: string
+): Promise<void> {
+  const db = getDb();
+  if (!db) return;
+
+  const refreshWhere = and(eq(lookupRefreshes.lookupId, lookupId), eq(lookupRefreshes.jobId, jobId));
+
+  try {
+    // Finalize steps can be retried; only merge once
+    const [refresh] = await db
+      .select({ status: lookupRefreshes.status })
+      .from(lookupRefreshes)
+      .where(refreshWhere)
+      .limit(1);
+    if (refresh?.status !== 'pending') return;
+
+    const lookup = await getLookupById(lookupId);
+    if (!lookup) {
+      throw new Error(`Lookup ${lookupId} no longer exists`);
+    }
+
+    const { results, changes } = mergeRefreshResults(lookup.results, refreshed);
+
+    // Holdings and socials may both have moved, so re-score scored rows
+    await updateLookup(lookupId, rescoreResults(results, getPriorityScorer(priorityFormula)));
+
+    const addedCount = changes.filter((c) => c.kind === 'added').length;
+    const changedCount = changes.filter((c) => c.kind === 'changed').length;
+    const lostCount = changes.filter((c) => c.kind === 'lost').length;
+    const completedAt = new Date();
+
+    await db
+      .update(lookupRefreshes)
+      .set({
+        status: 'completed',
+        addedCount,
+        changedCount,
+        lostCount,
+        changes,
+        completedAt,
+      })
+      .where(refreshWhere);
+
+    await emitWebhookEvent({ userId: lookup.userId }, 'lookup.enriched', {
+      lookup_id: lookupId,
+      job_id: jobId,
+      wallet_count: results.length,
+      added_count: addedCount,
+      changed_count: changedCount,
+      lost_count: lostCount,
+      changes: changes.slice(0, MAX_WEBHOOK_CHANGES),
+      completed_at: completedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Lookup refresh merge error:', error);
+    await failLookupRefresh(lookupId, jobId);
+  }
+}
+
+/**
+ * Mark a refresh as failed (its job failed or the merge threw)
+ */
+export async function failLookupRefresh(lookupId: string, jobId: string): Promise<void> {
+  const db = getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .update(lookupRefreshes)
+      .set({ status: 'failed', completedAt: new Date() })
+      .where(and(eq(lookupRefreshes.lookupId, lookupId), eq(lookupRefreshes.jobId, jobId)));
+  } catch (error) {
+    console.error('Mark refresh failed error:', error);
+  }
+}
+
+/**
+ * Most recent refresh of a lookup, if any
+ */
+export async function getLatestRefresh(lookupId: string): Promise<LookupRefreshSummary | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  try {
+    const [row] = await db
+      .select()
+      .from(lookupRefreshes)
+      .where(eq(lookupRefreshes.lookupId, lookupId))
+      .orderBy(desc(lookupRefreshes.createdAt))
+      .limit(1);
+
+    if (!row) return null;
+    return {
+      id: row.id,
+      jobId: row.jobId,
+      status: row.status,
+      walletsChecked: row.walletsChecked,
+      walletsBilled: row.walletsBilled,
+      addedCount: row.addedCount,
+      changedCount: row.changedCount,
+      lostCount: row.lostCount,
+      changes: (row.changes ?? []) as SocialChange[],
+      createdAt: row.createdAt,
+      completedAt: row.completedAt,
+    };
+  } catch (error) {
+    console.error('Get latest refresh error:', error);
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 import { cleanTwitterHandle } from './twitter-cleaner';
 import { trackApiCall } from './analytics';
+import { isValidWallet, normalizeWallet } from './wallets';
 
 export interface NeynarUser {
   fid: number;
@@ -11,6 +12,10 @@ export interface NeynarUser {
     platform: string;
     username: string;
   }>;
+  verified_addresses?: {
+    eth_addresses?: string[];
+    sol_addresses?: string[];
+  };
 }
 
 export interface NeynarResult {
@@ -21,6 +26,8 @@ export interface NeynarResult {
   fc_fid?: number;
   twitter_handle?: string;
   twitter_url?: string;
+  verified_eth_addresses?: string[];
+  verified_sol_addresses?: string[];
   source: string;
 }
 
@@ -49,10 +56,8 @@ export async function fetchNeynarBatch(
   addresses: string[],
   apiKey: string
 ): Promise<Record<string, NeynarUser[]> | null> {
-  // Filter out empty/invalid addresses and ensure lowercase
-  const validAddresses = addresses
-    .filter((addr) => addr && addr.length === 42 && addr.startsWith('0x'))
-    .map((addr) => addr.toLowerCase());
+  // EVM (lowercased) and Solana (case kept) addresses; drop anything else
+  const validAddresses = addresses.filter((addr) => addr && isValidWallet(addr.trim())).map(normalizeWallet);
 
   // Return empty if no valid addresses
   if (validAddresses.length === 0) {
@@ -112,11 +117,15 @@ export function parseNeynarUser(
   const user = users[0];
 
   const result: NeynarResult = {
-    wallet: wallet.toLowerCase(),
+    wallet: normalizeWallet(wallet),
     farcaster: user.username,
     farcaster_url: `https://warpcast.com/${user.username}`,
     fc_followers: user.follower_count,
     fc_fid: user.fid,
+    verified_eth_addresses: user.verified_addresses?.eth_addresses?.map((a) =>
+      a.toLowerCase()
+    ),
+    verified_sol_addresses: user.verified_addresses?.sol_addresses,
     source: 'neynar',
   };
 
@@ -177,12 +186,12 @@ export async function batchFetchNeynar(
     for (const { batch, response } of batchResults) {
       if (response) {
         for (const wallet of batch) {
-          const walletLower = wallet.toLowerCase();
-          const users = response[walletLower];
+          const key = normalizeWallet(wallet);
+          const users = response[key];
           const parsed = parseNeynarUser(users, wallet);
 
           if (parsed) {
-            results.set(walletLower, parsed);
+            results.set(key, parsed);
             found++;
           }
         }
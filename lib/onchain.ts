@@ -0,0 +1,326 @@
+import { ethers } from 'ethers';
+import { getDb, onchainCache, type NewOnchainCache } from '@/db';
+import { and, eq, gte, inArray, sql } from 'drizzle-orm';
+import { getAlchemyRpcProvider, getChainProvider, type SupportedChain } from './contract-holders';
+import { isEvmAddress, normalizeWallet } from './wallets';
+import type { WalletSocialResult } from './types';
+
+// Onchain enrichment: native balance, an optional ERC-20 balance, transaction
+// count and first-seen/last-active blocks per EVM wallet. Requests for a batch
+// of wallets are issued together so ethers sends them as JSON-RPC batches.
+
+// Balances change far more often than socials
+const ONCHAIN_CACHE_TTL_HOURS = 6;
+
+// Wallets fetched concurrently (up to 6 calls each, 3 of them
+// alchemy_getAssetTransfers, which is compute-heavy), with a pause between
+// rounds to stay under Alchemy's throughput limits
+const RPC_BATCH_WALLETS = 10;
+const RPC_BATCH_DELAY_MS = 250;
+
+// Wallets fetched and cached together, so a caller that runs out of time
+// keeps every slice it finished
+const ONCHAIN_SLICE_WALLETS = 50;
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+]);
+
+// Transfer categories every Alchemy chain supports ('internal' is Ethereum/Polygon only)
+const TRANSFER_CATEGORIES = ['external', 'erc20', 'erc721', 'erc1155'];
+
+export interface OnchainEnrichmentOptions {
+  chain: SupportedChain;
+  /** ERC-20 contract to report each wallet's balance of */
+  tokenContract?: string;
+}
+
+export type OnchainStats = Pick<
+  WalletSocialResult,
+  'native_balance' | 'token_balance' | 'tx_count' | 'first_seen_block' | 'last_active_block'
+>;
+
+interface TokenInfo {
+  address: string;
+  decimals: number;
+}
+
+function cacheKey(options: OnchainEnrichmentOptions): { chain: string; tokenContract: string } {
+  return { chain: options.chain, tokenContract: options.tokenContract?.toLowerCase() ?? '' };
+}
+
+function toNumber(value: string | null): number | undefined {
+  return value === null ? undefined : Number(value);
+}
+
+async function getCachedOnchainStats(
+  wallets: string[],
+  options: OnchainEnrichmentOptions
+): Promise<Map<string, OnchainStats>> {
+  const db = getDb();
+  if (!db || wallets.length === 0) return new Map();
+
+  const { chain, tokenContract } = cacheKey(options);
+  const cutoff = new Date(Date.now() - ONCHAIN_CACHE_TTL_HOURS * 60 * 60 * 1000);
+
+  try {
+    const rows = await db
+      .select()
+      .from(onchainCache)
+      .where(
+        and(
+          inArray(onchainCache.wallet, wallets),
+          eq(onchainCache.chain, chain),
+          eq(onchainCache.tokenContract, tokenContract),
+          gte(onchainCache.cachedAt, cutoff)
+        )
+      );
+
+    const results = new Map<string, OnchainStats>();
+    for (const row of rows) {
+      results.set(row.wallet, {
+        native_balance: toNumber(row.nativeBalance),
+        token_balance: toNumber(row.tokenBalance),
+        tx_count: row.txCount ?? undefined,
+        first_seen_block: row.firstSeenBlock ?? undefined,
+        last_active_block: row.lastActiveBlock ?? undefined,
+      });
+    }
+    return results;
+  } catch (error) {
+    console.error('Onchain cache read error:', error);
+    return new Map();
+  }
+}
+
+async function cacheOnchainStats(
+  stats: Map<string, OnchainStats>,
+  options: OnchainEnrichmentOptions
+): Promise<void> {
+  const db = getDb();
+  if (!db || stats.size === 0) return;
+
+  const { chain, tokenContract } = cacheKey(options);
+
+  try {
+    const rows: NewOnchainCache[] = Array.from(stats, ([wallet, s]) => ({
+      wallet,
+      chain,
+      tokenContract,
+      nativeBalance: s.native_balance?.toString() ?? null,
+      tokenBalance: s.token_balance?.toString() ?? null,
+      txCount: s.tx_count ?? null,
+      firstSeenBlock: s.first_seen_block ?? null,
+      lastActiveBlock: s.last_active_block ?? null,
+      cachedAt: new Date(),
+    }));
+
+    // Upsert in batches of 100
+    for (let i = 0; i < rows.length; i += 100) {
+      await db
+        .insert(onchainCache)
+        .values(rows.slice(i, i + 100))
+        .onConflictDoUpdate({
+          target: [onchainCache.wallet, onchainCache.chain, onchainCache.tokenContract],
+          set: {
+            nativeBalance: sql`EXCLUDED.native_balance`,
+            tokenBalance: sql`EXCLUDED.token_balance`,
+            txCount: sql`EXCLUDED.tx_count`,
+            firstSeenBlock: sql`EXCLUDED.first_seen_block`,
+            lastActiveBlock: sql`EXCLUDED.last_active_block`,
+            cachedAt: sql`EXCLUDED.cached_at`,
+          },
+        });
+    }
+  } catch (error) {
+    console.error('Onchain cache write error:', error);
+  }
+}
+
+/**
+ * Block of the first or last transfer matching `filter`, via Alchemy's
+ * alchemy_getAssetTransfers (plain JSON-RPC has no address history)
+ */
+async function getTransferBlock(
+  provider: ethers.JsonRpcProvider,
+  filter: { fromAddress: string } | { toAddress: string },
+  order: 'asc' | 'desc'
+): Promise<number | undefined> {
+  const result = await provider.send('alchemy_getAssetTransfers', [
+    {
+      fromBlock: '0x0',
+      toBlock: 'latest',
+      ...filter,
+      category: TRANSFER_CATEGORIES,
+      order,
+      maxCount: '0x1',
+      excludeZeroValue: false,
+      withMetadata: false,
+    },
+  ]);
+  const blockNum: string | undefined = result?.transfers?.[0]?.blockNum;
+  return blockNum ? parseInt(blockNum, 16) : undefined;
+}
+
+/**
+ * Fetch stats for one wallet. Each call fails on its own, leaving that
+ * column empty instead of dropping the wallet; `complete` is false when any
+ * call failed, so the gaps aren't cached as "no data".
+ */
+async function fetchWalletStats(
+  wallet: string,
+  provider: ethers.JsonRpcProvider,
+  alchemy: ethers.JsonRpcProvider | null,
+  token: TokenInfo | null
+): Promise<{ stats: OnchainStats; complete: boolean }> {
+  let complete = true;
+  const optional = <T>(promise: Promise<T>): Promise<T | undefined> =>
+    promise.catch(() => {
+      complete = false;
+      return undefined;
+    });
+
+  const [balance, nonce, tokenBalance, firstSent, firstReceived, lastSent] = await Promise.all([
+    optional(provider.send('eth_getBalance', [wallet, 'latest'])),
+    optional(provider.send('eth_getTransactionCount', [wallet, 'latest'])),
+    token
+      ? optional(
+          provider.send('eth_call', [
+            { to: token.address, data: ERC20_INTERFACE.encodeFunctionData('balanceOf', [wallet]) },
+            'latest',
+          ])
+        )
+      : undefined,
+    alchemy ? optional(getTransferBlock(alchemy, { fromAddress: wallet }, 'asc')) : undefined,
+    alchemy ? optional(getTransferBlock(alchemy, { toAddress: wallet }, 'asc')) : undefined,
+    // Last active = last transfer the wallet itself sent; receiving isn't activity
+    alchemy ? optional(getTransferBlock(alchemy, { fromAddress: wallet }, 'desc')) : undefined,
+  ]);
+
+  const firstSeen = [firstSent, firstReceived].filter((b): b is number => b !== undefined);
+
+  const stats: OnchainStats = {
+    native_balance: balance ? Number(ethers.formatEther(balance)) : undefined,
+    token_balance:
+      token && tokenBalance && tokenBalance !== '0x'
+        ? Number(ethers.formatUnits(BigInt(tokenBalance), token.decimals))
+        : undefined,
+    tx_count: nonce ? Number(BigInt(nonce)) : undefined,
+    first_seen_block: firstSeen.length > 0 ? Math.min(...firstSeen) : undefined,
+    last_active_block: lastSent,
+  };
+  return { stats, complete };
+}
+
+/**
+ * Decimals of the ERC-20 to report balances of, or null when it can't be read
+ */
+async function getTokenInfo(provider: ethers.JsonRpcProvider, tokenContract: string): Promise<TokenInfo | null> {
+  try {
+    const data = await provider.send('eth_call', [
+      { to: tokenContract, data: ERC20_INTERFACE.encodeFunctionData('decimals') },
+      'latest',
+    ]);
+    const [decimals] = ERC20_INTERFACE.decodeFunctionResult('decimals', data);
+    return { address: tokenContract, decimals: Number(decimals) };
+  } catch (error) {
+    console.error(`Token decimals lookup failed for ${tokenContract}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch stats for `wallets`. `failed` lists the wallets with a call that
+ * errored (rate limits, RPC outages), which must not be cached.
+ */
+async function fetchOnchainStats(
+  wallets: string[],
+  provider: ethers.JsonRpcProvider,
+  alchemy: ethers.JsonRpcProvider | null,
+  token: TokenInfo | null,
+  options: OnchainEnrichmentOptions
+): Promise<{ stats: Map<string, OnchainStats>; failed: Set<string> }> {
+  const results = new Map<string, OnchainStats>();
+  const failed = new Set<string>();
+  for (let i = 0; i < wallets.length; i += RPC_BATCH_WALLETS) {
+    if (i > 0) await new Promise((resolve) => setTimeout(resolve, RPC_BATCH_DELAY_MS));
+
+    const batch = wallets.slice(i, i + RPC_BATCH_WALLETS);
+    const fetched = await Promise.all(
+      batch.map((wallet) => fetchWalletStats(wallet, provider, alchemy, token))
+    );
+    batch.forEach((wallet, index) => {
+      results.set(wallet, fetched[index].stats);
+      // Without the token's decimals no wallet has a token balance
+      if (!fetched[index].complete || (options.tokenContract && !token)) failed.add(wallet);
+    });
+  }
+
+  return { stats: results, failed };
+}
+
+export interface OnchainStatsResult {
+  stats: Map<string, OnchainStats>;
+  cacheHits: number;
+  /** Wallets fetched and cached by this call */
+  cached: number;
+  /** Uncached wallets not fetched because `budgetMs` ran out */
+  unfetched: string[];
+}
+
+/**
+ * Onchain stats for the EVM wallets in `wallets` (Solana addresses are
+ * skipped), served from onchain_cache where fresh. The rest are fetched in
+ * slices of ONCHAIN_SLICE_WALLETS, each cached as soon as it finishes; no
+ * new slice starts once `budgetMs` has passed.
+ */
+export async function getOnchainStats(
+  wallets: string[],
+  options: OnchainEnrichmentOptions,
+  budgetMs = Infinity
+): Promise<OnchainStatsResult> {
+  const startedAt = Date.now();
+  const evmWallets = [...new Set(wallets.filter(isEvmAddress).map(normalizeWallet))];
+  if (evmWallets.length === 0) return { stats: new Map(), cacheHits: 0, cached: 0, unfetched: [] };
+
+  const stats = await getCachedOnchainStats(evmWallets, options);
+  const cacheHits = stats.size;
+
+  const uncached = evmWallets.filter((w) => !stats.has(w));
+  if (uncached.length === 0) return { stats, cacheHits, cached: 0, unfetched: [] };
+
+  const provider = getChainProvider(options.chain);
+  const alchemy = getAlchemyRpcProvider(options.chain);
+  const token = options.tokenContract ? await getTokenInfo(provider, options.tokenContract) : null;
+
+  let cached = 0;
+  let next = 0;
+  while (next < uncached.length && Date.now() - startedAt < budgetMs) {
+    const slice = uncached.slice(next, next + ONCHAIN_SLICE_WALLETS);
+    next += slice.length;
+
+    const fetched = await fetchOnchainStats(slice, provider, alchemy, token, options);
+    // Only complete results are cached; failed wallets are retried next lookup
+    const cacheable = new Map([...fetched.stats].filter(([wallet]) => !fetched.failed.has(wallet)));
+    await cacheOnchainStats(cacheable, options);
+    cached += cacheable.size;
+    for (const [wallet, s] of fetched.stats) stats.set(wallet, s);
+  }
+
+  return { stats, cacheHits, cached, unfetched: uncached.slice(next) };
+}
+
+/**
+ * Copy onchain stats onto lookup results
+ */
+export function applyOnchainStats(
+  results: Map<string, WalletSocialResult>,
+  stats: Map<string, OnchainStats>
+): void {
+  for (const [wallet, s] of stats) {
+    const existing = results.get(wallet);
+    if (!existing) continue;
+    results.set(wallet, { ...existing, ...s });
+  }
+}
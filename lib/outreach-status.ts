@@ -0,0 +1,81 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { getDb, lookupHistory, xOutreach } from '@/db';
+import type { OutreachStatus, OutreachStatusMap } from './x-outreach';
+
+// Per-handle X outreach status of a saved lookup. Rows go away with the
+// lookup; handles without one are still to be contacted.
+
+const UPSERT_BATCH_SIZE = 500;
+
+async function ownsLookup(lookupId: string, userId: string): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const [lookup] = await db
+    .select({ id: lookupHistory.id })
+    .from(lookupHistory)
+    .where(and(eq(lookupHistory.id, lookupId), eq(lookupHistory.userId, userId)))
+    .limit(1);
+
+  return !!lookup;
+}
+
+/**
+ * Statuses other than 'to_contact' by handle, or null when the lookup isn't the user's
+ */
+export async function getOutreachStatuses(lookupId: string, userId: string): Promise<OutreachStatusMap | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  if (!(await ownsLookup(lookupId, userId))) return null;
+
+  const rows = await db
+    .select({ handle: xOutreach.handle, status: xOutreach.status })
+    .from(xOutreach)
+    .where(eq(xOutreach.lookupId, lookupId));
+
+  const statuses: OutreachStatusMap = {};
+  for (const row of rows) {
+    if (row.status !== 'to_contact') statuses[row.handle] = row.status as OutreachStatus;
+  }
+  return statuses;
+}
+
+/**
+ * Set the status of handles (lowercase, no @) in a lookup. Going back to
+ * 'to_contact' deletes the rows. Returns false when the lookup isn't the user's.
+ */
+export async function setOutreachStatus(
+  lookupId: string,
+  userId: string,
+  handles: string[],
+  status: OutreachStatus
+): Promise<boolean> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  if (!(await ownsLookup(lookupId, userId))) return false;
+
+  for (let i = 0; i < handles.length; i += UPSERT_BATCH_SIZE) {
+    const batch = handles.slice(i, i + UPSERT_BATCH_SIZE);
+
+    if (status === 'to_contact') {
+      await db
+        .delete(xOutreach)
+        .where(and(eq(xOutreach.lookupId, lookupId), inArray(xOutreach.handle, batch)));
+      continue;
+    }
+
+    await db
+      .insert(xOutreach)
+      .values(batch.map((handle) => ({ lookupId, handle, status })))
+      .onConflictDoUpdate({
+        target: [xOutreach.lookupId, xOutreach.handle],
+        set: { status: sql`EXCLUDED.status`, updatedAt: new Date() },
+      });
+  }
+
+  return true;
+}
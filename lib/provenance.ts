@@ -0,0 +1,135 @@
+// Per-field provenance for identity data: which source supplied a field, how
+// much we trust that source, and when it last confirmed the value. Providers
+// stamp it in the chain, social_graph stores it, and conflicting values are
+// resolved by it instead of "newest wins". Client-safe.
+
+export type ProvenanceField = 'twitter' | 'farcaster' | 'ens' | 'lens' | 'github';
+
+export const PROVENANCE_FIELDS: ProvenanceField[] = ['twitter', 'farcaster', 'ens', 'lens', 'github'];
+
+export interface FieldProvenance {
+  /** Provider ID ('ens', 'neynar', 'web3bio', ...) or 'manual' */
+  source: string;
+  /** 0-100 */
+  confidence: number;
+  /** ISO timestamp the source last returned this value */
+  updatedAt: string;
+}
+
+export type SocialProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
+// A value no source has confirmed for this long can be replaced by a less
+// trusted source
+export const PROVENANCE_STALE_DAYS = 30;
+
+// Confidence by source, for values with no recorded provenance (rows written
+// before it was tracked, cached results). Providers carry their own.
+const SOURCE_CONFIDENCE: Record<string, number> = {
+  manual: 100,
+  ens: 90,
+  ens_onchain: 90,
+  basenames: 85,
+  sns: 85,
+  neynar: 80,
+  web3bio: 60,
+};
+const UNKNOWN_SOURCE_CONFIDENCE = 30;
+
+export const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Manual edit',
+  ens: 'ENS onchain records',
+  ens_onchain: 'ENS onchain records',
+  basenames: 'Basenames',
+  sns: 'SNS',
+  neynar: 'Neynar',
+  web3bio: 'Web3.bio',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Provenance for a value when only the result's source list is known. With
+ * several sources it can't tell which supplied the field, so it takes the
+ * least trusted one.
+ */
+export function inferProvenance(sources: string[] | null | undefined, updatedAt: Date): FieldProvenance {
+  const known = (sources ?? []).filter((s) => s !== 'cache' && s !== 'graph');
+  let source = 'unknown';
+  let confidence = UNKNOWN_SOURCE_CONFIDENCE;
+
+  for (const s of known) {
+    const c = SOURCE_CONFIDENCE[s] ?? UNKNOWN_SOURCE_CONFIDENCE;
+    if (source === 'unknown' || c < confidence) {
+      source = s;
+      confidence = c;
+    }
+  }
+
+  return { source, confidence, updatedAt: updatedAt.toISOString() };
+}
+
+function latest(a: string, b: string): string {
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+}
+
+function isStale(provenance: FieldProvenance, now: Date): boolean {
+  return now.getTime() - new Date(provenance.updatedAt).getTime() > PROVENANCE_STALE_DAYS * DAY_MS;
+}
+
+/**
+ * Decide between a stored value and an incoming one. The incoming value wins
+ * when the stored one is empty, or it is at least as trusted, or the stored
+ * one is stale. An equal value keeps the more trusted source and the newer
+ * timestamp.
+ */
+export function resolveField(
+  stored: { value: string | null | undefined; provenance: FieldProvenance },
+  incoming: { value: string | null | undefined; provenance: FieldProvenance },
+  now: Date = new Date()
+): { value: string | null; provenance: FieldProvenance | null; fromIncoming: boolean } {
+  if (!incoming.value) {
+    return { value: stored.value || null, provenance: stored.value ? stored.provenance : null, fromIncoming: false };
+  }
+  if (!stored.value) {
+    return { value: incoming.value, provenance: incoming.provenance, fromIncoming: true };
+  }
+
+  // Confirmed again: keep the more trusted source, with the newer timestamp
+  if (stored.value.toLowerCase() === incoming.value.toLowerCase()) {
+    const provenance =
+      incoming.provenance.confidence >= stored.provenance.confidence
+        ? incoming.provenance
+        : { ...stored.provenance, updatedAt: latest(stored.provenance.updatedAt, incoming.provenance.updatedAt) };
+    return { value: incoming.value, provenance, fromIncoming: true };
+  }
+
+  if (incoming.provenance.confidence >= stored.provenance.confidence || isStale(stored.provenance, now)) {
+    return { value: incoming.value, provenance: incoming.provenance, fromIncoming: true };
+  }
+  return { value: stored.value, provenance: stored.provenance, fromIncoming: false };
+}
+
+/**
+ * Tooltip text, e.g. "ENS onchain records · 90% confidence · updated 2026-01-31"
+ */
+export function describeProvenance(provenance: FieldProvenance | undefined): string | undefined {
+  if (!provenance) return undefined;
+  const label = SOURCE_LABELS[provenance.source] ?? provenance.source;
+  return `${label} · ${provenance.confidence}% confidence · updated ${provenance.updatedAt.slice(0, 10)}`;
+}
+
+/**
+ * Public API shape: `{ twitter: { source, confidence, updated_at } }`
+ */
+export function toApiProvenance(
+  provenance: SocialProvenance | null | undefined
+): Record<string, { source: string; confidence: number; updated_at: string }> | undefined {
+  if (!provenance) return undefined;
+
+  const out: Record<string, { source: string; confidence: number; updated_at: string }> = {};
+  for (const field of PROVENANCE_FIELDS) {
+    const p = provenance[field];
+    if (p) out[field] = { source: p.source, confidence: p.confidence, updated_at: p.updatedAt };
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
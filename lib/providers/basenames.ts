@@ -0,0 +1,46 @@
+import { batchLookupBasenames } from '@/lib/basenames';
+import type { IdentityProvider, ProviderResult } from './types';
+
+/**
+ * Basenames reverse resolution + text records on Base.
+ * Runs after mainnet ENS and only fills gaps, so an Ethereum primary name wins.
+ * Gated the same way as ENS since it's the same onchain lookup, just on L2.
+ */
+export const basenamesProvider: IdentityProvider = {
+  id: 'basenames',
+  label: 'Basenames',
+  cost: 'rpc',
+  confidence: 85,
+  rateLimit: { batchSize: 1, concurrency: 50, delayMs: 50 },
+  authoritativeFields: [],
+  namespaces: ['evm'],
+
+  isEnabled(context) {
+    return !!context.includeENS && context.canUseENS !== false;
+  },
+
+  shouldLookup(result) {
+    return !result.ens_name || !result.twitter_handle;
+  },
+
+  async fetchBatch(wallets, _context, onProgress) {
+    const basenameResults = await batchLookupBasenames(
+      wallets,
+      onProgress,
+      this.rateLimit.concurrency,
+      this.rateLimit.delayMs
+    );
+
+    const results = new Map<string, ProviderResult>();
+    for (const [wallet, data] of basenameResults) {
+      results.set(wallet, {
+        ens_name: data.basename ?? undefined,
+        ens_chain: data.basename ? 'base' : undefined,
+        twitter_handle: data.twitter ?? undefined,
+        twitter_url: data.twitterUrl ?? undefined,
+        github: data.github ?? undefined,
+      });
+    }
+    return results;
+  },
+};
@@ -0,0 +1,42 @@
+import { batchLookupENS } from '@/lib/ens';
+import type { IdentityProvider, ProviderResult } from './types';
+
+/**
+ * ENS onchain reverse resolution + text records.
+ * Paid tiers only, and only when the user opted in (slow for large batches).
+ */
+export const ensProvider: IdentityProvider = {
+  id: 'ens',
+  label: 'ENS',
+  cost: 'rpc',
+  confidence: 90,
+  rateLimit: { batchSize: 1, concurrency: 50, delayMs: 50 },
+  // Onchain text records are the most reliable Twitter source
+  authoritativeFields: ['ens_name', 'twitter_handle', 'twitter_url', 'github'],
+  namespaces: ['evm'],
+
+  isEnabled(context) {
+    return !!context.includeENS && context.canUseENS !== false;
+  },
+
+  async fetchBatch(wallets, _context, onProgress) {
+    const ensResults = await batchLookupENS(
+      wallets,
+      onProgress,
+      this.rateLimit.concurrency,
+      this.rateLimit.delayMs
+    );
+
+    const results = new Map<string, ProviderResult>();
+    for (const [wallet, data] of ensResults) {
+      results.set(wallet, {
+        ens_name: data.ensName ?? undefined,
+        ens_chain: data.ensName ? 'ethereum' : undefined,
+        twitter_handle: data.twitter ?? undefined,
+        twitter_url: data.twitterUrl ?? undefined,
+        github: data.github ?? undefined,
+      });
+    }
+    return results;
+  },
+};
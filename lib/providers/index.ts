@@ -0,0 +1,228 @@
+import type { WalletSocialResult } from '@/lib/types';
+import { basenamesProvider } from './basenames';
+import { ensProvider } from './ens';
+import { neynarProvider } from './neynar';
+import { snsProvider } from './sns';
+import { web3bioProvider } from './web3bio';
+import type { ProvenanceField, SocialProvenance } from '@/lib/provenance';
+import { getWalletNamespace, normalizeWallet } from '@/lib/wallets';
+import type {
+  IdentityField,
+  IdentityProvider,
+  ProviderContext,
+  ProviderResult,
+} from './types';
+
+export type {
+  IdentityField,
+  IdentityProvider,
+  ProviderContext,
+  ProviderResult,
+  ProviderRateLimit,
+} from './types';
+
+// Ordered provider chain shared by the cron worker, Inngest and the streaming route.
+// ENS runs first (authoritative Twitter), Basenames fills gaps for Base-native
+// wallets, Neynar next (fast batch API), SNS for Solana wallets, Web3.bio last
+// and only for wallets that still have no Twitter.
+const registry: IdentityProvider[] = [
+  ensProvider,
+  basenamesProvider,
+  neynarProvider,
+  snsProvider,
+  web3bioProvider,
+];
+
+// Fields that travel together: the first entry decides whether the group is taken
+const FIELD_GROUPS: IdentityField[][] = [
+  ['ens_name', 'ens_chain'],
+  ['twitter_handle', 'twitter_url'],
+  ['farcaster', 'farcaster_url'],
+  ['fc_followers'],
+  ['fc_fid'],
+  ['lens'],
+  ['github'],
+];
+
+// Group lead -> the field its provenance is recorded under
+const PROVENANCE_FIELD: Partial<Record<IdentityField, ProvenanceField>> = {
+  ens_name: 'ens',
+  twitter_handle: 'twitter',
+  farcaster: 'farcaster',
+  lens: 'lens',
+  github: 'github',
+};
+
+export interface ProviderChainHooks {
+  /** Called before a provider runs (e.g. to update the job's currentStage) */
+  onProviderStart?: (provider: IdentityProvider, walletCount: number) => void | Promise<void>;
+  onProgress?: (
+    provider: IdentityProvider,
+    processed: number,
+    total: number,
+    found: number
+  ) => void;
+  onProviderError?: (provider: IdentityProvider, error: unknown) => void;
+}
+
+/**
+ * Register an additional provider (Lens API, Basenames, a local fixture for tests).
+ * Appends to the end of the chain unless `before` names an existing provider ID.
+ */
+export function registerProvider(
+  provider: IdentityProvider,
+  options: { before?: string } = {}
+): void {
+  if (registry.some((p) => p.id === provider.id)) {
+    throw new Error(`Identity provider "${provider.id}" is already registered`);
+  }
+
+  const index = options.before
+    ? registry.findIndex((p) => p.id === options.before)
+    : -1;
+
+  if (index === -1) {
+    registry.push(provider);
+  } else {
+    registry.splice(index, 0, provider);
+  }
+}
+
+/**
+ * Remove a provider from the chain. Returns false if it wasn't registered.
+ */
+export function unregisterProvider(id: string): boolean {
+  const index = registry.findIndex((p) => p.id === id);
+  if (index === -1) return false;
+  registry.splice(index, 1);
+  return true;
+}
+
+export function getProviders(): readonly IdentityProvider[] {
+  return registry;
+}
+
+export function getProvider(id: string): IdentityProvider | undefined {
+  return registry.find((p) => p.id === id);
+}
+
+/**
+ * Providers that will run for this context, in chain order
+ */
+export function getProviderChain(context: ProviderContext): IdentityProvider[] {
+  return registry.filter((p) => p.isEnabled(context));
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Merge one provider's partial result into an existing wallet result.
+ * Authoritative fields overwrite; everything else only fills gaps. Taken
+ * fields are stamped with the provider's ID and confidence; a field the
+ * provider returns unchanged gets a fresh timestamp.
+ */
+export function mergeProviderResult(
+  existing: WalletSocialResult,
+  data: ProviderResult,
+  provider: IdentityProvider
+): WalletSocialResult {
+  const merged: Record<string, unknown> = { ...existing };
+  const provenance: SocialProvenance = { ...existing.provenance };
+  const now = new Date().toISOString();
+  let contributed = false;
+
+  for (const group of FIELD_GROUPS) {
+    const [lead] = group;
+    if (isEmpty(data[lead])) continue;
+
+    const take =
+      provider.authoritativeFields.includes(lead) || isEmpty(existing[lead]);
+    if (!take) {
+      // Same value from another source: it was just confirmed, so refresh the
+      // timestamp (keeping the more trusted source) or it would look stale
+      const provenanceField = PROVENANCE_FIELD[lead];
+      const current = provenanceField ? provenance[provenanceField] : undefined;
+      if (current && String(data[lead]).toLowerCase() === String(existing[lead]).toLowerCase()) {
+        provenance[provenanceField!] =
+          provider.confidence > current.confidence
+            ? { source: provider.id, confidence: provider.confidence, updatedAt: now }
+            : { ...current, updatedAt: now };
+      }
+      continue;
+    }
+
+    for (const field of group) {
+      if (!isEmpty(data[field])) {
+        merged[field] = data[field];
+      }
+    }
+    const provenanceField = PROVENANCE_FIELD[lead];
+    if (provenanceField) {
+      provenance[provenanceField] = { source: provider.id, confidence: provider.confidence, updatedAt: now };
+    }
+    contributed = true;
+  }
+
+  return {
+    ...(merged as WalletSocialResult),
+    provenance: Object.keys(provenance).length > 0 ? provenance : undefined,
+    source:
+      contributed && !existing.source.includes(provider.id)
+        ? [...existing.source, provider.id]
+        : existing.source,
+  };
+}
+
+/**
+ * Run every enabled provider over `wallets`, merging into `results` in place.
+ * A failing provider is logged and skipped so the rest of the chain still runs;
+ * the ones that succeeded are listed on each wallet's `checked_by`.
+ */
+export async function runProviderChain(
+  wallets: string[],
+  results: Map<string, WalletSocialResult>,
+  context: ProviderContext,
+  hooks: ProviderChainHooks = {}
+): Promise<void> {
+  for (const provider of getProviderChain(context)) {
+    const targets = wallets.filter((wallet) => {
+      const namespace = getWalletNamespace(wallet);
+      if (!namespace || !provider.namespaces.includes(namespace)) return false;
+      if (!provider.shouldLookup) return true;
+      const existing = results.get(normalizeWallet(wallet));
+      return !existing || provider.shouldLookup(existing);
+    });
+
+    if (targets.length === 0) continue;
+
+    await hooks.onProviderStart?.(provider, targets.length);
+
+    try {
+      const providerResults = await provider.fetchBatch(
+        targets,
+        context,
+        (processed, found) =>
+          hooks.onProgress?.(provider, processed, targets.length, found)
+      );
+
+      for (const [wallet, data] of providerResults) {
+        const existing = results.get(wallet);
+        if (!existing) continue;
+        results.set(wallet, mergeProviderResult(existing, data, provider));
+      }
+
+      for (const wallet of targets) {
+        const key = normalizeWallet(wallet);
+        const result = results.get(key);
+        if (result && !result.checked_by?.includes(provider.id)) {
+          results.set(key, { ...result, checked_by: [...(result.checked_by ?? []), provider.id] });
+        }
+      }
+    } catch (error) {
+      console.error(`${provider.label} lookup error:`, error);
+      hooks.onProviderError?.(provider, error);
+    }
+  }
+}
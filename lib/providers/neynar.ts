@@ -0,0 +1,46 @@
+import { batchFetchNeynar } from '@/lib/neynar';
+import { storeVerifiedAddresses } from '@/lib/farcaster-addresses';
+import type { IdentityProvider, ProviderResult } from './types';
+
+/**
+ * Neynar bulk-by-address: Farcaster profile plus verified Twitter, for EVM
+ * and Solana wallets. Runs before Web3.bio because it is a fast batch API.
+ */
+export const neynarProvider: IdentityProvider = {
+  id: 'neynar',
+  label: 'Neynar',
+  cost: 'api',
+  confidence: 80,
+  rateLimit: { batchSize: 200, concurrency: 5, delayMs: 200 },
+  authoritativeFields: ['farcaster', 'farcaster_url', 'fc_followers', 'fc_fid'],
+  namespaces: ['evm', 'solana'],
+
+  isEnabled(context) {
+    return !!process.env.NEYNAR_API_KEY && context.canUseNeynar !== false;
+  },
+
+  async fetchBatch(wallets, context, onProgress) {
+    const neynarResults = await batchFetchNeynar(
+      wallets,
+      process.env.NEYNAR_API_KEY!,
+      onProgress,
+      context.jobId
+    );
+
+    // Remember every wallet these users verified so future lookups hit the graph
+    await storeVerifiedAddresses(neynarResults.values());
+
+    const results = new Map<string, ProviderResult>();
+    for (const [wallet, data] of neynarResults) {
+      results.set(wallet, {
+        farcaster: data.farcaster,
+        farcaster_url: data.farcaster_url,
+        fc_followers: data.fc_followers,
+        fc_fid: data.fc_fid,
+        twitter_handle: data.twitter_handle,
+        twitter_url: data.twitter_url,
+      });
+    }
+    return results;
+  },
+};
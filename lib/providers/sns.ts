@@ -0,0 +1,38 @@
+import { batchLookupSNS } from '@/lib/sns';
+import type { IdentityProvider, ProviderResult } from './types';
+
+/**
+ * Solana Name Service primary (.sol) names for Solana wallets.
+ * Stored in ens_name with ens_chain 'solana' so the name column stays one per wallet.
+ */
+export const snsProvider: IdentityProvider = {
+  id: 'sns',
+  label: 'SNS',
+  cost: 'api',
+  confidence: 85,
+  rateLimit: { batchSize: 1, concurrency: 20, delayMs: 100 },
+  authoritativeFields: ['ens_name', 'ens_chain'],
+  namespaces: ['solana'],
+
+  isEnabled(context) {
+    return !!context.includeENS && context.canUseENS !== false;
+  },
+
+  async fetchBatch(wallets, _context, onProgress) {
+    const snsResults = await batchLookupSNS(
+      wallets,
+      onProgress,
+      this.rateLimit.concurrency,
+      this.rateLimit.delayMs
+    );
+
+    const results = new Map<string, ProviderResult>();
+    for (const [wallet, data] of snsResults) {
+      results.set(wallet, {
+        ens_name: data.snsName ?? undefined,
+        ens_chain: data.snsName ? 'solana' : undefined,
+      });
+    }
+    return results;
+  },
+};
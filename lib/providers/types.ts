@@ -0,0 +1,65 @@
+import type { WalletSocialResult } from '@/lib/types';
+import type { WalletNamespace } from '@/lib/wallets';
+
+/**
+ * Identity fields a provider can contribute to a WalletSocialResult.
+ * Everything else on the result (wallet, holdings, CSV columns) is owned by the pipeline.
+ */
+export type IdentityField =
+  | 'ens_name'
+  | 'ens_chain'
+  | 'twitter_handle'
+  | 'twitter_url'
+  | 'farcaster'
+  | 'farcaster_url'
+  | 'fc_followers'
+  | 'fc_fid'
+  | 'lens'
+  | 'github';
+
+export type ProviderResult = Partial<Pick<WalletSocialResult, IdentityField>>;
+
+/**
+ * Per-run context passed to every provider.
+ * Mirrors the tier flags stored on JobOptions so providers can gate themselves.
+ */
+export interface ProviderContext {
+  includeENS?: boolean;
+  canUseENS?: boolean;
+  canUseNeynar?: boolean;
+  jobId?: string;
+}
+
+export interface ProviderRateLimit {
+  batchSize: number; // wallets per request (1 for per-wallet APIs)
+  concurrency: number; // requests in flight at once
+  delayMs: number; // pause between rounds
+}
+
+export interface IdentityProvider {
+  /** Stable ID, used as the `source` tag and the job `currentStage` */
+  id: string;
+  /** Human-readable label for progress messages */
+  label: string;
+  /** 'rpc' hits public/Alchemy RPCs, 'api' spends third-party API quota */
+  cost: 'rpc' | 'api';
+  /** 0-100, how much we trust this provider's data (ENS onchain > Neynar > Web3.bio) */
+  confidence: number;
+  rateLimit: ProviderRateLimit;
+  /**
+   * Fields this provider overwrites when it returns a value.
+   * All other fields only fill gaps left by earlier providers in the chain.
+   */
+  authoritativeFields: IdentityField[];
+  /** Address namespaces this provider understands; other wallets are never sent to it */
+  namespaces: WalletNamespace[];
+  /** Whether the provider should run at all for this context (API keys, tier flags) */
+  isEnabled(context: ProviderContext): boolean;
+  /** Optional per-wallet filter, e.g. skip wallets that already have Twitter */
+  shouldLookup?(result: WalletSocialResult): boolean;
+  fetchBatch(
+    wallets: string[],
+    context: ProviderContext,
+    onProgress?: (processed: number, found: number) => void
+  ): Promise<Map<string, ProviderResult>>;
+}
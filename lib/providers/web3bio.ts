@@ -0,0 +1,48 @@
+import { getNameChain } from '@/lib/ens';
+import { batchFetchWeb3Bio } from '@/lib/web3bio';
+import type { IdentityProvider, ProviderResult } from './types';
+
+/**
+ * Web3.bio aggregated profiles (ENS, Twitter, Farcaster, Lens, GitHub).
+ * One request per wallet, so it only runs for wallets still missing Twitter.
+ */
+export const web3bioProvider: IdentityProvider = {
+  id: 'web3bio',
+  label: 'Web3.bio',
+  cost: 'api',
+  confidence: 60,
+  rateLimit: { batchSize: 1, concurrency: 50, delayMs: 20 },
+  authoritativeFields: ['lens'],
+  namespaces: ['evm', 'solana'],
+
+  isEnabled() {
+    return true;
+  },
+
+  shouldLookup(result) {
+    return !result.twitter_handle;
+  },
+
+  async fetchBatch(wallets, context, onProgress) {
+    const web3BioResults = await batchFetchWeb3Bio(
+      wallets,
+      onProgress,
+      context.jobId
+    );
+
+    const results = new Map<string, ProviderResult>();
+    for (const [wallet, data] of web3BioResults) {
+      results.set(wallet, {
+        ens_name: data.ens_name,
+        ens_chain: data.ens_name ? getNameChain(data.ens_name) : undefined,
+        twitter_handle: data.twitter_handle,
+        twitter_url: data.twitter_url,
+        farcaster: data.farcaster,
+        farcaster_url: data.farcaster_url,
+        lens: data.lens,
+        github: data.github,
+      });
+    }
+    return results;
+  },
+};
@@ -0,0 +1,346 @@
+import { getResultValue, parseHoldingsValue } from './csv-parser';
+import type { WalletSocialResult } from './types';
+
+// Priority-score formulas. A formula is a small arithmetic expression over a
+// result's fields, e.g. `holdings * log10(followers + 1) + 50 * has_twitter`.
+// It is parsed into a tree and evaluated directly - never passed to eval() -
+// so the same formula can run in the job pipelines and in the browser.
+
+export const DEFAULT_PRIORITY_FORMULA = '(holdings || 1) * log10((followers || 1) + 1)';
+export const MAX_FORMULA_LENGTH = 500;
+
+export type PriorityScorer = (result: WalletSocialResult) => number;
+
+export class FormulaError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+/**
+ * Variables available to formulas, with the help text shown in the editor
+ */
+export const SCORING_VARIABLES: Record<string, string> = {
+  holdings: 'Holdings from the uploaded file (0 if missing)',
+  followers: 'Farcaster followers (0 if none)',
+  has_twitter: '1 if a Twitter handle was found',
+  has_farcaster: '1 if a Farcaster account was found',
+  has_ens: '1 if an ENS, Basename or SNS name was found',
+  has_lens: '1 if a Lens handle was found',
+  has_github: '1 if a GitHub account was found',
+  platforms: 'Number of linked platforms (Twitter, Farcaster, Lens, GitHub)',
+  wallet_count: 'Wallets linked to this person (1 outside the person view)',
+  native_balance: 'Native token balance, if onchain activity was fetched (0 if missing)',
+  token_balance: 'Balance of the chosen token contract (0 if missing)',
+  tx_count: 'Transactions sent, if onchain activity was fetched (0 if missing)',
+};
+
+const VARIABLES: Record<string, (r: WalletSocialResult) => number> = {
+  holdings: (r) => r.holdings ?? 0,
+  followers: (r) => r.fc_followers ?? 0,
+  fc_followers: (r) => r.fc_followers ?? 0,
+  has_twitter: (r) => (r.twitter_handle ? 1 : 0),
+  has_farcaster: (r) => (r.farcaster ? 1 : 0),
+  has_ens: (r) => (r.ens_name ? 1 : 0),
+  has_lens: (r) => (r.lens ? 1 : 0),
+  has_github: (r) => (r.github ? 1 : 0),
+  platforms: (r) =>
+    [r.twitter_handle, r.farcaster, r.lens, r.github].filter(Boolean).length,
+  wallet_count: (r) => r.wallet_count ?? 1,
+  native_balance: (r) => r.native_balance ?? 0,
+  token_balance: (r) => r.token_balance ?? 0,
+  tx_count: (r) => r.tx_count ?? 0,
+};
+
+const FUNCTIONS: Record<string, { arity: number | [number, number]; fn: (...args: number[]) => number }> = {
+  log10: { arity: 1, fn: Math.log10 },
+  ln: { arity: 1, fn: Math.log },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  abs: { arity: 1, fn: Math.abs },
+  round: { arity: 1, fn: Math.round },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  min: { arity: [2, 10], fn: Math.min },
+  max: { arity: [2, 10], fn: Math.max },
+  if: { arity: 3, fn: (cond, a, b) => (cond ? a : b) },
+};
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'column'; name: string }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'unary'; op: '-' | '!'; operand: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'op' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = source.slice(i).match(/^[a-z_][a-z0-9_]*/i);
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], position: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new FormulaError('Unterminated string', i);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new FormulaError(`Unexpected character "${char}"`, i);
+    tokens.push({ type: 'op', value: op, position: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser. Precedence, lowest first:
+ * ||, &&, comparisons, + -, * / %, unary - !, ^
+ */
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => peek().type === 'op' && ops.includes(peek().value);
+  const expect = (op: string) => {
+    if (!isOp(op)) {
+      throw new FormulaError(`Expected "${op}"`, peek().position);
+    }
+    pos++;
+  };
+
+  const binaryLevel = (ops: string[], next: () => Node) => (): Node => {
+    let left = next();
+    while (isOp(...ops)) {
+      const op = tokens[pos++].value;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[pos++];
+
+    if (token.type === 'number') {
+      return { type: 'number', value: Number(token.value) };
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+
+    if (token.type === 'ident') {
+      const name = token.value.toLowerCase();
+
+      if (!isOp('(')) {
+        if (!(name in VARIABLES)) {
+          throw new FormulaError(`Unknown variable "${token.value}"`, token.position);
+        }
+        return { type: 'variable', name };
+      }
+
+      pos++; // (
+      if (name === 'col') {
+        const column = tokens[pos++];
+        if (column.type !== 'string') {
+          throw new FormulaError('col() takes a quoted column name', column.position);
+        }
+        expect(')');
+        return { type: 'column', name: column.value };
+      }
+
+      const fn = FUNCTIONS[name];
+      if (!fn) throw new FormulaError(`Unknown function "${token.value}"`, token.position);
+
+      const args: Node[] = [];
+      if (!isOp(')')) {
+        args.push(expression());
+        while (isOp(',')) {
+          pos++;
+          args.push(expression());
+        }
+      }
+      expect(')');
+
+      const [minArgs, maxArgs] = Array.isArray(fn.arity) ? fn.arity : [fn.arity, fn.arity];
+      if (args.length < minArgs || args.length > maxArgs) {
+        throw new FormulaError(`Wrong number of arguments to ${name}()`, token.position);
+      }
+      return { type: 'call', name, args };
+    }
+
+    if (token.type === 'end') throw new FormulaError('Unexpected end of formula', token.position);
+    throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+  };
+
+  const power = (): Node => {
+    const base = primary();
+    if (isOp('^')) {
+      pos++;
+      return { type: 'binary', op: '^', left: base, right: unary() };
+    }
+    return base;
+  };
+
+  const unary = (): Node => {
+    if (isOp('-', '!')) {
+      const op = tokens[pos++].value as '-' | '!';
+      return { type: 'unary', op, operand: unary() };
+    }
+    return power();
+  };
+
+  const multiplicative = binaryLevel(['*', '/', '%'], unary);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const comparison = binaryLevel(['<', '<=', '>', '>=', '==', '!='], additive);
+  const and = binaryLevel(['&&'], comparison);
+  const expression = binaryLevel(['||'], and);
+
+  const tree = expression();
+  if (peek().type !== 'end') {
+    throw new FormulaError(`Unexpected "${peek().value}"`, peek().position);
+  }
+  return tree;
+}
+
+function evaluate(node: Node, result: WalletSocialResult): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return VARIABLES[node.name](result);
+    case 'column': {
+      const value = getResultValue(result, node.name);
+      if (typeof value === 'number') return value;
+      return typeof value === 'string' ? parseHoldingsValue(value) ?? 0 : 0;
+    }
+    case 'call':
+      if (node.name === 'if') {
+        // Only evaluate the branch that is taken
+        return evaluate(node.args[0], result)
+          ? evaluate(node.args[1], result)
+          : evaluate(node.args[2], result);
+      }
+      return FUNCTIONS[node.name].fn(...node.args.map((a) => evaluate(a, result)));
+    case 'unary': {
+      const value = evaluate(node.operand, result);
+      return node.op === '-' ? -value : value ? 0 : 1;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, result);
+      // Short-circuit like JS, so `holdings || 1` means "holdings, or 1 if none"
+      if (node.op === '||') return left || evaluate(node.right, result);
+      if (node.op === '&&') return left && evaluate(node.right, result);
+
+      const right = evaluate(node.right, result);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case '^': return left ** right;
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+      }
+      return 0;
+    }
+  }
+}
+
+/**
+ * Parse a formula into a scorer. Throws FormulaError on invalid input.
+ * Scores that come out as NaN or Infinity (log10(0), x / 0) are clamped to 0.
+ */
+export function compileFormula(source: string): PriorityScorer {
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH);
+  }
+  const tree = parse(source);
+  return (result) => {
+    const score = evaluate(tree, result);
+    return Number.isFinite(score) ? score : 0;
+  };
+}
+
+/**
+ * Error message for an invalid formula, or null if it compiles
+ */
+export function validateFormula(source: string): string | null {
+  try {
+    compileFormula(source);
+    return null;
+  } catch (err) {
+    if (err instanceof FormulaError) {
+      return `${err.message} (at character ${err.position + 1})`;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Scorer for a saved formula. Empty or invalid formulas fall back to the
+ * default so a bad formula never fails a lookup.
+ */
+export function getPriorityScorer(formula?: string | null): PriorityScorer {
+  if (formula?.trim()) {
+    try {
+      return compileFormula(formula);
+    } catch (err) {
+      console.error('Invalid priority formula, using default:', err);
+    }
+  }
+  return compileFormula(DEFAULT_PRIORITY_FORMULA);
+}
+
+/**
+ * Re-score results with a different formula without rerunning the lookup.
+ * Rows without a score (free tier) are left unscored.
+ */
+export function rescoreResults(
+  results: WalletSocialResult[],
+  scorer: PriorityScorer
+): WalletSocialResult[] {
+  return results.map((r) =>
+    r.priority_score === undefined ? r : { ...r, priority_score: scorer(r) }
+  );
+}
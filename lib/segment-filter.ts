@@ -0,0 +1,238 @@
+import { getResultValue, parseHoldingsValue } from './csv-parser';
+import type { ResultValue, WalletSocialResult } from './types';
+
+// Outreach segments: a filter over lookup results (holdings and follower
+// ranges, ENS, platforms present, file-column predicates). Pure and
+// client-safe, so one definition filters the results table, the export and
+// the Farcaster DM recipients alike. Saved segments live in lib/segments.ts.
+
+export type SegmentPlatform = 'twitter' | 'farcaster' | 'lens' | 'github';
+
+export type ColumnOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'present'
+  | 'missing';
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ColumnPredicate {
+  column: string;
+  operator: ColumnOperator;
+  /** Unused by 'present' / 'missing' */
+  value?: string;
+}
+
+export interface SegmentDefinition {
+  holdings?: NumberRange;
+  /** Farcaster followers */
+  followers?: NumberRange;
+  hasEns?: boolean;
+  /** Every listed platform must be linked */
+  platforms?: SegmentPlatform[];
+  /** Every predicate must match */
+  columns?: ColumnPredicate[];
+}
+
+export const MAX_COLUMN_PREDICATES = 10;
+
+export const SEGMENT_PLATFORMS: Record<SegmentPlatform, string> = {
+  twitter: 'Twitter',
+  farcaster: 'Farcaster',
+  lens: 'Lens',
+  github: 'GitHub',
+};
+
+export const COLUMN_OPERATORS: Record<ColumnOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  present: 'is set',
+  missing: 'is empty',
+};
+
+const NUMERIC_OPERATORS: ColumnOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+const PLATFORM_FIELDS: Record<SegmentPlatform, keyof WalletSocialResult> = {
+  twitter: 'twitter_handle',
+  farcaster: 'farcaster',
+  lens: 'lens',
+  github: 'github',
+};
+
+function inRange(value: number, range?: NumberRange): boolean {
+  if (!range) return true;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
+
+function toNumber(value: ResultValue): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseHoldingsValue(value);
+  return null;
+}
+
+function matchesColumn(result: WalletSocialResult, predicate: ColumnPredicate): boolean {
+  const raw = getResultValue(result, predicate.column);
+  const text = Array.isArray(raw) ? raw.join(',') : raw === undefined ? '' : String(raw).trim();
+
+  switch (predicate.operator) {
+    case 'present':
+      return text !== '';
+    case 'missing':
+      return text === '';
+    case 'equals':
+      return text.toLowerCase() === (predicate.value ?? '').trim().toLowerCase();
+    case 'not_equals':
+      return text.toLowerCase() !== (predicate.value ?? '').trim().toLowerCase();
+    case 'contains':
+      return text.toLowerCase().includes((predicate.value ?? '').trim().toLowerCase());
+  }
+
+  // Numeric comparison; rows without a number never match
+  const value = toNumber(raw);
+  const target = Number(predicate.value);
+  if (value === null || predicate.value === undefined || predicate.value.trim() === '' || isNaN(target)) {
+    return false;
+  }
+  switch (predicate.operator) {
+    case 'gt':
+      return value > target;
+    case 'gte':
+      return value >= target;
+    case 'lt':
+      return value < target;
+    case 'lte':
+      return value <= target;
+  }
+}
+
+/**
+ * Whether a result falls in the segment
+ */
+export function matchesSegment(result: WalletSocialResult, segment: SegmentDefinition): boolean {
+  if (!inRange(result.holdings ?? 0, segment.holdings)) return false;
+  if (!inRange(result.fc_followers ?? 0, segment.followers)) return false;
+  if (segment.hasEns !== undefined && !!result.ens_name !== segment.hasEns) return false;
+  if (segment.platforms?.some((p) => !result[PLATFORM_FIELDS[p]])) return false;
+  if (segment.columns?.some((c) => !matchesColumn(result, c))) return false;
+  return true;
+}
+
+/**
+ * Results in the segment; everything when no segment is active
+ */
+export function filterBySegment<T extends WalletSocialResult>(
+  results: T[],
+  segment: SegmentDefinition | null
+): T[] {
+  if (!segment || isEmptySegment(segment)) return results;
+  return results.filter((r) => matchesSegment(r, segment));
+}
+
+export function isEmptySegment(segment: SegmentDefinition): boolean {
+  return (
+    !segment.holdings &&
+    !segment.followers &&
+    segment.hasEns === undefined &&
+    !segment.platforms?.length &&
+    !segment.columns?.length
+  );
+}
+
+function validateRange(range: unknown, label: string): string | null {
+  if (range === undefined) return null;
+  if (typeof range !== 'object' || range === null) return `${label} must be a range`;
+  const { min, max } = range as NumberRange;
+  for (const bound of [min, max]) {
+    if (bound !== undefined && (typeof bound !== 'number' || !isFinite(bound))) {
+      return `${label} bounds must be numbers`;
+    }
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    return `${label} minimum is above the maximum`;
+  }
+  return null;
+}
+
+/**
+ * Check a segment definition from a request body. Returns an error message,
+ * or null when valid.
+ */
+export function validateSegment(segment: unknown): string | null {
+  if (typeof segment !== 'object' || segment === null || Array.isArray(segment)) {
+    return 'Segment must be an object';
+  }
+  const { holdings, followers, hasEns, platforms, columns } = segment as SegmentDefinition;
+
+  const rangeError = validateRange(holdings, 'Holdings') ?? validateRange(followers, 'Followers');
+  if (rangeError) return rangeError;
+
+  if (hasEns !== undefined && typeof hasEns !== 'boolean') {
+    return 'hasEns must be true or false';
+  }
+
+  if (platforms !== undefined) {
+    if (!Array.isArray(platforms) || platforms.some((p) => !Object.hasOwn(SEGMENT_PLATFORMS, p))) {
+      return `Platforms must be any of: ${Object.keys(SEGMENT_PLATFORMS).join(', ')}`;
+    }
+  }
+
+  if (columns !== undefined) {
+    if (!Array.isArray(columns)) return 'Column filters must be a list';
+    if (columns.length > MAX_COLUMN_PREDICATES) {
+      return `At most ${MAX_COLUMN_PREDICATES} column filters`;
+    }
+    for (const c of columns) {
+      if (typeof c?.column !== 'string' || !c.column) return 'Column filters need a column';
+      if (!Object.hasOwn(COLUMN_OPERATORS, c.operator)) return `Unknown column operator: ${c.operator}`;
+      if (c.value !== undefined && typeof c.value !== 'string') return 'Column filter values must be text';
+      if (NUMERIC_OPERATORS.includes(c.operator) && (c.value === undefined || isNaN(Number(c.value)))) {
+        return `"${c.column} ${COLUMN_OPERATORS[c.operator]}" needs a number`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Short human-readable summary, e.g. "holdings ≥ 1000, Twitter, has ENS"
+ */
+export function describeSegment(segment: SegmentDefinition): string {
+  const parts: string[] = [];
+  const describeRange = (range: NumberRange | undefined, label: string) => {
+    if (!range) return;
+    if (range.min !== undefined && range.max !== undefined) {
+      parts.push(`${label} ${range.min.toLocaleString()}-${range.max.toLocaleString()}`);
+    } else if (range.min !== undefined) {
+      parts.push(`${label} ≥ ${range.min.toLocaleString()}`);
+    } else if (range.max !== undefined) {
+      parts.push(`${label} ≤ ${range.max.toLocaleString()}`);
+    }
+  };
+
+  describeRange(segment.holdings, 'holdings');
+  describeRange(segment.followers, 'followers');
+  if (segment.hasEns !== undefined) parts.push(segment.hasEns ? 'has ENS' : 'no ENS');
+  for (const platform of segment.platforms ?? []) parts.push(SEGMENT_PLATFORMS[platform]);
+  for (const c of segment.columns ?? []) {
+    const needsValue = c.operator !== 'present' && c.operator !== 'missing';
+    parts.push(`${c.column} ${COLUMN_OPERATORS[c.operator]}${needsValue ? ` ${c.value ?? ''}` : ''}`);
+  }
+
+  return parts.join(', ') || 'everyone';
+}
@@ -0,0 +1,120 @@
+import { getDb, segments } from '@/db';
+import type { Segment } from '@/db/schema';
+import { and, count, desc, eq } from 'drizzle-orm';
+import type { ColumnPredicate, SegmentDefinition } from './segment-filter';
+
+// Saved outreach segments: a user's named result filters. Matching happens
+// client-side (lib/segment-filter.ts); this module only stores them.
+
+export const MAX_SAVED_SEGMENTS = 50;
+export const MAX_SEGMENT_NAME_LENGTH = 100;
+
+export type SavedSegment = Omit<Segment, 'userId'>;
+
+/**
+ * Keep only the known fields of a validated definition, so arbitrary request
+ * JSON never ends up in the table
+ */
+function toDefinition(segment: SegmentDefinition): SegmentDefinition {
+  const definition: SegmentDefinition = {};
+  if (segment.holdings) definition.holdings = { min: segment.holdings.min, max: segment.holdings.max };
+  if (segment.followers) definition.followers = { min: segment.followers.min, max: segment.followers.max };
+  if (segment.hasEns !== undefined) definition.hasEns = segment.hasEns;
+  if (segment.platforms?.length) definition.platforms = [...new Set(segment.platforms)];
+  if (segment.columns?.length) {
+    definition.columns = segment.columns.map(({ column, operator, value }): ColumnPredicate => ({
+      column,
+      operator,
+      value,
+    }));
+  }
+  return definition;
+}
+
+const savedColumns = {
+  id: segments.id,
+  name: segments.name,
+  definition: segments.definition,
+  createdAt: segments.createdAt,
+  updatedAt: segments.updatedAt,
+};
+
+export async function listSegments(userId: string): Promise<SavedSegment[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  return db
+    .select(savedColumns)
+    .from(segments)
+    .where(eq(segments.userId, userId))
+    .orderBy(desc(segments.updatedAt));
+}
+
+/**
+ * Save a new segment. Throws SEGMENT_LIMIT when the user already has
+ * MAX_SAVED_SEGMENTS.
+ */
+export async function createSegment(
+  userId: string,
+  name: string,
+  definition: SegmentDefinition
+): Promise<SavedSegment> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(segments)
+    .where(eq(segments.userId, userId));
+  if (total >= MAX_SAVED_SEGMENTS) {
+    throw new Error('SEGMENT_LIMIT');
+  }
+
+  const [row] = await db
+    .insert(segments)
+    .values({ userId, name, definition: toDefinition(definition) })
+    .returning();
+
+  return {
+    id: row.id,
+    name: row.name,
+    definition: row.definition,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export async function updateSegment(
+  id: string,
+  userId: string,
+  changes: { name?: string; definition?: SegmentDefinition }
+): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const updated = await db
+    .update(segments)
+    .set({
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.definition && { definition: toDefinition(changes.definition) }),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(segments.id, id), eq(segments.userId, userId)))
+    .returning();
+
+  return updated.length > 0;
+}
+
+export async function deleteSegment(id: string, userId: string): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const deleted = await db
+    .delete(segments)
+    .where(and(eq(segments.id, id), eq(segments.userId, userId)))
+    .returning();
+
+  return deleted.length > 0;
+}
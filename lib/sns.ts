@@ -0,0 +1,155 @@
+import { isSolanaAddress } from './wallets';
+
+// Solana Name Service (.sol) resolution.
+// The resolver is pluggable so we can swap the public Bonfida proxy for an
+// RPC-backed implementation (or a fixture) without touching the pipeline.
+
+const SNS_PROXY_URL = 'https://sns-sdk-proxy.bonfida.workers.dev';
+const SNS_TIMEOUT_MS = 10000; // 10 second timeout per request
+
+export interface SolanaNameResolver {
+  id: string;
+  /** name.sol -> owner address, or null if unregistered */
+  resolve(name: string): Promise<string | null>;
+  /** owner address -> primary ("favorite") .sol name, or null if none set */
+  reverse(address: string): Promise<string | null>;
+}
+
+export interface SNSResult {
+  wallet: string;
+  snsName: string | null;
+  source: 'sns';
+}
+
+interface ProxyResponse<T> {
+  s: 'ok' | 'error';
+  result: T;
+}
+
+async function fetchProxy<T>(path: string): Promise<T | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SNS_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${SNS_PROXY_URL}${path}`, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+    });
+    if (!response.ok) return null;
+
+    const data = (await response.json()) as ProxyResponse<T>;
+    return data.s === 'ok' ? data.result : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function stripSolSuffix(name: string): string {
+  return name.toLowerCase().replace(/\.sol$/, '');
+}
+
+/**
+ * Default resolver backed by Bonfida's public SNS SDK proxy
+ */
+export const bonfidaProxyResolver: SolanaNameResolver = {
+  id: 'bonfida-proxy',
+
+  async resolve(name) {
+    const owner = await fetchProxy<string>(
+      `/resolve/${encodeURIComponent(stripSolSuffix(name))}`
+    );
+    return owner && isSolanaAddress(owner) ? owner : null;
+  },
+
+  async reverse(address) {
+    const favorite = await fetchProxy<{ domain: string; reverse: string }>(
+      `/favorite-domain/${encodeURIComponent(address)}`
+    );
+    return favorite?.reverse ? `${favorite.reverse}.sol` : null;
+  },
+};
+
+let activeResolver: SolanaNameResolver = bonfidaProxyResolver;
+
+export function getSolanaNameResolver(): SolanaNameResolver {
+  return activeResolver;
+}
+
+/**
+ * Replace the SNS resolver used by the lookup pipeline and /api/resolve
+ */
+export function setSolanaNameResolver(resolver: SolanaNameResolver): void {
+  activeResolver = resolver;
+}
+
+/**
+ * Resolve a .sol name to its owner address
+ */
+export async function resolveSNSName(name: string): Promise<string | null> {
+  try {
+    return await activeResolver.resolve(name);
+  } catch (error) {
+    console.error(`SNS resolve error for ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the primary .sol name for a Solana address, verified by forward resolution
+ */
+export async function getSNSName(wallet: string): Promise<string | null> {
+  try {
+    const name = await activeResolver.reverse(wallet);
+    if (!name) return null;
+
+    // A favorite domain can outlive a transfer of the name - check it still resolves back
+    const owner = await activeResolver.resolve(name);
+    return owner === wallet ? name : null;
+  } catch (error) {
+    console.error(`SNS reverse lookup error for ${wallet}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Batch lookup primary .sol names for Solana wallets
+ */
+export async function batchLookupSNS(
+  wallets: string[],
+  onProgress?: (completed: number, found: number) => void,
+  batchSize = 20,
+  delayMs = 100
+): Promise<Map<string, SNSResult>> {
+  const results = new Map<string, SNSResult>();
+  let completed = 0;
+  let found = 0;
+
+  for (let i = 0; i < wallets.length; i += batchSize) {
+    const batch = wallets.slice(i, i + batchSize);
+
+    const batchResults = await Promise.allSettled(
+      batch.map(async (wallet) => ({
+        wallet,
+        snsName: await getSNSName(wallet),
+        source: 'sns' as const,
+      }))
+    );
+
+    for (const result of batchResults) {
+      if (result.status === 'fulfilled' && result.value.snsName) {
+        results.set(result.value.wallet, result.value);
+        found++;
+      }
+      completed++;
+    }
+    onProgress?.(completed, found);
+
+    if (i + batchSize < wallets.length) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  return results;
+}
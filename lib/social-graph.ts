@@ -6,7 +6,18 @@ import {
   type NewSocialGraph,
   type NewSocialGraphHistory,
 } from '@/db';
-import { inArray, sql, gt, lt, and, isNotNull } from 'drizzle-orm';
+import { inArray, sql, gt, lt, and, isNotNull, desc } from 'drizzle-orm';
+import { getNameChain } from './ens';
+import { getFidsForAddresses } from './farcaster-addresses';
+import {
+  PROVENANCE_FIELDS,
+  inferProvenance,
+  resolveField,
+  type FieldProvenance,
+  type ProvenanceField,
+  type SocialProvenance,
+} from './provenance';
+import { getWalletNamespace, normalizeWallet } from './wallets';
 import type { WalletSocialResult } from './types';
 
 // Default staleness period in days
@@ -56,8 +67,8 @@ export async function getSocialGraphWithQuality(
 
   // Initialize all wallets as missing
   for (const wallet of wallets) {
-    results.set(wallet.toLowerCase(), {
-      wallet: wallet.toLowerCase(),
+    results.set(normalizeWallet(wallet), {
+      wallet: normalizeWallet(wallet),
       data: null,
       quality: 'missing',
       needsRefresh: true,
@@ -66,16 +77,22 @@ export async function getSocialGraphWithQuality(
 
   if (!db || wallets.length === 0) return results;
 
-  const lowercaseWallets = wallets.map((w) => w.toLowerCase());
+  const normalizedWallets = wallets.map((w) => normalizeWallet(w));
   const now = new Date();
 
   try {
     const rows = await db
       .select()
       .from(socialGraph)
-      .where(inArray(socialGraph.wallet, lowercaseWallets));
+      .where(inArray(socialGraph.wallet, normalizedWallets));
+
+    // Wallets not in the graph may still be a verified address of a known FID
+    const found = new Set(rows.map((r) => r.wallet));
+    const expanded = await getRecordsViaVerifiedAddresses(
+      normalizedWallets.filter((w) => !found.has(w))
+    );
 
-    for (const record of rows) {
+    for (const record of [...rows, ...expanded.values()]) {
       const quality = classifyQuality(record, now);
       const needsRefresh = quality === 'stale' || quality === 'low' || quality === 'missing';
 
@@ -241,7 +258,7 @@ async function upsertSocialGraphWithTransaction(
   const db = getDb();
   if (!db) return 0;
 
-  const wallets = validResults.map((r) => r.wallet.toLowerCase());
+  const wallets = validResults.map((r) => normalizeWallet(r.wallet));
 
   // Fetch existing records for merge
   const existing = await db
@@ -267,8 +284,12 @@ async function upsertSocialGraphWithTransaction(
         .values(batch)
         .onConflictDoUpdate({
           target: socialGraph.wallet,
+          // Identity fields were resolved against the stored row by
+          // prepareUpsertData (per-field confidence); COALESCE only guards a
+          // row written in between
           set: {
             ensName: sql`COALESCE(EXCLUDED.ens_name, ${socialGraph.ensName})`,
+            ensChain: sql`COALESCE(EXCLUDED.ens_chain, ${socialGraph.ensChain})`,
             twitterHandle: sql`COALESCE(EXCLUDED.twitter_handle, ${socialGraph.twitterHandle})`,
             twitterUrl: sql`COALESCE(EXCLUDED.twitter_url, ${socialGraph.twitterUrl})`,
             farcaster: sql`COALESCE(EXCLUDED.farcaster, ${socialGraph.farcaster})`,
@@ -278,6 +299,7 @@ async function upsertSocialGraphWithTransaction(
             lens: sql`COALESCE(EXCLUDED.lens, ${socialGraph.lens})`,
             github: sql`COALESCE(EXCLUDED.github, ${socialGraph.github})`,
             sources: sql`EXCLUDED.sources`,
+            provenance: sql`EXCLUDED.provenance`,
             lastUpdatedAt: sql`EXCLUDED.last_updated_at`,
             lookupCount: sql`${socialGraph.lookupCount} + 1`,
             twitterVerified: sql`EXCLUDED.twitter_verified OR ${socialGraph.twitterVerified}`,
@@ -304,6 +326,52 @@ async function upsertSocialGraphWithTransaction(
   });
 }
 
+// social_graph column and result field of each provenance-tracked field
+const PROVENANCE_COLUMNS: Record<ProvenanceField, { column: keyof SocialGraph; field: keyof WalletSocialResult }> = {
+  twitter: { column: 'twitterHandle', field: 'twitter_handle' },
+  farcaster: { column: 'farcaster', field: 'farcaster' },
+  ens: { column: 'ensName', field: 'ens_name' },
+  lens: { column: 'lens', field: 'lens' },
+  github: { column: 'github', field: 'github' },
+};
+
+/**
+ * Resolve each identity field between the stored row and the incoming
+ * result by per-field confidence (lib/provenance.ts). Values without
+ * recorded provenance are attributed to their row's sources.
+ */
+function resolveIdentityFields(
+  r: WalletSocialResult,
+  prev: SocialGraph | undefined,
+  now: Date
+): {
+  values: Record<ProvenanceField, string | null>;
+  fromIncoming: Record<ProvenanceField, boolean>;
+  provenance: SocialProvenance;
+} {
+  const values = {} as Record<ProvenanceField, string | null>;
+  const fromIncoming = {} as Record<ProvenanceField, boolean>;
+  const provenance: SocialProvenance = {};
+
+  for (const key of PROVENANCE_FIELDS) {
+    const { column, field } = PROVENANCE_COLUMNS[key];
+    const storedProvenance: FieldProvenance =
+      prev?.provenance?.[key] ?? inferProvenance(prev?.sources, prev?.lastUpdatedAt ?? now);
+    const incomingProvenance: FieldProvenance = r.provenance?.[key] ?? inferProvenance(r.source, now);
+
+    const resolved = resolveField(
+      { value: prev?.[column] as string | null | undefined, provenance: storedProvenance },
+      { value: r[field] as string | undefined, provenance: incomingProvenance },
+      now
+    );
+    values[key] = resolved.value;
+    fromIncoming[key] = resolved.fromIncoming;
+    if (resolved.provenance) provenance[key] = resolved.provenance;
+  }
+
+  return { values, fromIncoming, provenance };
+}
+
 /**
  * Prepare upsert data and audit records
  */
@@ -312,17 +380,23 @@ function prepareUpsertData(
   existingMap: Map<string, SocialGraph>
 ): { rows: NewSocialGraph[]; auditRecords: NewSocialGraphHistory[] } {
   const auditRecords: NewSocialGraphHistory[] = [];
+  const now = new Date();
 
   const rows: NewSocialGraph[] = validResults.map((r) => {
-    const walletLower = r.wallet.toLowerCase();
+    const walletLower = normalizeWallet(r.wallet);
     const prev = existingMap.get(walletLower);
 
-    // Calculate merged values
-    const newTwitter = r.twitter_handle || prev?.twitterHandle || null;
-    const newFarcaster = r.farcaster || prev?.farcaster || null;
-    const newEnsName = r.ens_name || prev?.ensName || null;
-    const newLens = r.lens || prev?.lens || null;
-    const newGithub = r.github || prev?.github || null;
+    // Per field, the more trusted of the stored and incoming value
+    const { values, fromIncoming, provenance } = resolveIdentityFields(r, prev, now);
+    const newTwitter = values.twitter;
+    const newFarcaster = values.farcaster;
+    const newEnsName = values.ens;
+    // Chain travels with the name it describes
+    const newEnsChain = fromIncoming.ens
+      ? r.ens_chain || getNameChain(r.ens_name!)
+      : prev?.ensChain || null;
+    const newLens = values.lens;
+    const newGithub = values.github;
 
     // Merge sources
     const mergedSources = mergeSources(r.source, prev?.sources);
@@ -397,19 +471,28 @@ function prepareUpsertData(
 
     return {
       wallet: walletLower,
+      namespace: getWalletNamespace(walletLower) ?? 'evm',
       ensName: newEnsName,
+      ensChain: newEnsChain,
       twitterHandle: newTwitter,
-      twitterUrl: r.twitter_url || prev?.twitterUrl || null,
+      // URLs, FID and followers travel with the handle they belong to
+      twitterUrl: fromIncoming.twitter
+        ? r.twitter_url || prev?.twitterUrl || null
+        : prev?.twitterUrl || null,
       farcaster: newFarcaster,
-      farcasterUrl: r.farcaster_url || prev?.farcasterUrl || null,
-      fcFollowers: r.fc_followers ?? prev?.fcFollowers ?? null,
-      fcFid:
-        ((r as Record<string, unknown>).fc_fid as number | null) ??
-        prev?.fcFid ??
-        null,
+      farcasterUrl: fromIncoming.farcaster
+        ? r.farcaster_url || prev?.farcasterUrl || null
+        : prev?.farcasterUrl || null,
+      fcFollowers: fromIncoming.farcaster
+        ? r.fc_followers ?? prev?.fcFollowers ?? null
+        : prev?.fcFollowers ?? null,
+      fcFid: fromIncoming.farcaster
+        ? r.fc_fid ?? prev?.fcFid ?? null
+        : prev?.fcFid ?? r.fc_fid ?? null,
       lens: newLens,
       github: newGithub,
       sources: mergedSources,
+      provenance,
       firstSeenAt: prev?.firstSeenAt ?? new Date(),
       lastUpdatedAt: new Date(),
       lookupCount: (prev?.lookupCount ?? 0) + 1,
@@ -510,7 +593,7 @@ async function logHistoryChange(
 
   try {
     const historyEntry: NewSocialGraphHistory = {
-      wallet: wallet.toLowerCase(),
+      wallet: normalizeWallet(wallet),
       fieldChanged,
       oldValue: oldValue ?? null,
       newValue: newValue ?? null,
@@ -548,7 +631,7 @@ async function logHistoryChanges(
 
   try {
     const historyEntries: NewSocialGraphHistory[] = actualChanges.map((c) => ({
-      wallet: wallet.toLowerCase(),
+      wallet: normalizeWallet(wallet),
       fieldChanged: c.field,
       oldValue: c.oldValue ?? null,
       newValue: c.newValue ?? null,
@@ -625,21 +708,76 @@ export async function getSocialGraphData(
   const db = getDb();
   if (!db || wallets.length === 0) return new Map();
 
-  const lowercaseWallets = wallets.map((w) => w.toLowerCase());
+  const normalizedWallets = wallets.map((w) => normalizeWallet(w));
 
   try {
     const rows = await db
       .select()
       .from(socialGraph)
-      .where(inArray(socialGraph.wallet, lowercaseWallets));
+      .where(inArray(socialGraph.wallet, normalizedWallets));
 
-    return new Map(rows.map((r) => [r.wallet, r]));
+    const results = new Map(rows.map((r) => [r.wallet, r]));
+    const expanded = await getRecordsViaVerifiedAddresses(
+      normalizedWallets.filter((w) => !results.has(w))
+    );
+    for (const [wallet, record] of expanded) {
+      results.set(wallet, record);
+    }
+
+    return results;
   } catch (error) {
     console.error('Social graph read error:', error);
     return new Map();
   }
 }
 
+/**
+ * Find graph records for wallets that aren't in social_graph themselves but
+ * are a Farcaster-verified address of a FID that is. Person-level fields
+ * (Twitter, Farcaster, Lens, GitHub) carry over; the ENS name is per-wallet
+ * so it's dropped.
+ */
+async function getRecordsViaVerifiedAddresses(
+  wallets: string[]
+): Promise<Map<string, SocialGraph>> {
+  const db = getDb();
+  const results = new Map<string, SocialGraph>();
+  if (!db || wallets.length === 0) return results;
+
+  const fidsByWallet = await getFidsForAddresses(wallets);
+  if (fidsByWallet.size === 0) return results;
+
+  const rows = await db
+    .select()
+    .from(socialGraph)
+    .where(inArray(socialGraph.fcFid, [...new Set(fidsByWallet.values())]))
+    .orderBy(desc(socialGraph.dataQualityScore));
+
+  // Best record per FID (rows are ordered by quality)
+  const byFid = new Map<number, SocialGraph>();
+  for (const row of rows) {
+    if (row.fcFid !== null && !byFid.has(row.fcFid)) byFid.set(row.fcFid, row);
+  }
+
+  for (const [wallet, fid] of fidsByWallet) {
+    const record = byFid.get(fid);
+    if (record) {
+      const provenance: SocialProvenance = { ...record.provenance };
+      delete provenance.ens;
+      results.set(wallet, {
+        ...record,
+        wallet,
+        namespace: getWalletNamespace(wallet) ?? 'evm',
+        ensName: null,
+        ensChain: null,
+        provenance,
+      });
+    }
+  }
+
+  return results;
+}
+
 /**
  * Convert SocialGraph record to partial WalletSocialResult format for merging
  */
@@ -648,6 +786,7 @@ export function socialGraphToResult(
 ): Partial<WalletSocialResult> {
   return {
     ens_name: record.ensName ?? undefined,
+    ens_chain: record.ensChain ?? undefined,
     twitter_handle: record.twitterHandle ?? undefined,
     twitter_url: record.twitterUrl ?? undefined,
     farcaster: record.farcaster ?? undefined,
@@ -656,6 +795,7 @@ export function socialGraphToResult(
     fc_fid: record.fcFid ?? undefined,
     lens: record.lens ?? undefined,
     github: record.github ?? undefined,
+    provenance: record.provenance ?? undefined,
   };
 }
 
@@ -672,7 +812,7 @@ export async function upsertManualSocialGraph(
   const db = getDb();
   if (!db) return null;
 
-  const walletLower = wallet.toLowerCase();
+  const walletLower = normalizeWallet(wallet);
 
   try {
     // Fetch existing record to merge
@@ -692,6 +832,15 @@ export async function upsertManualSocialGraph(
     const newFarcaster = data.farcaster || prev?.farcaster || null;
     const newEnsName = data.ensName || prev?.ensName || null;
 
+    // Edited fields are attributed to the admin at full confidence
+    const manual: FieldProvenance = { source: 'manual', confidence: 100, updatedAt: new Date().toISOString() };
+    const provenance: SocialProvenance = {
+      ...prev?.provenance,
+      ...(data.twitterHandle && { twitter: manual }),
+      ...(data.farcaster && { farcaster: manual }),
+      ...(data.ensName && { ens: manual }),
+    };
+
     // Track changes for audit log
     const changes: Array<{
       field: string;
@@ -723,7 +872,11 @@ export async function upsertManualSocialGraph(
 
     const row: NewSocialGraph = {
       wallet: walletLower,
+      namespace: getWalletNamespace(walletLower) ?? 'evm',
       ensName: newEnsName,
+      ensChain: data.ensName
+        ? getNameChain(data.ensName)
+        : prev?.ensChain || null,
       twitterHandle: newTwitter,
       twitterUrl: data.twitterHandle
         ? `https://x.com/${data.twitterHandle}`
@@ -737,6 +890,7 @@ export async function upsertManualSocialGraph(
       lens: prev?.lens || null,
       github: prev?.github || null,
       sources: newSources,
+      provenance,
       firstSeenAt: prev?.firstSeenAt ?? new Date(),
       lastUpdatedAt: new Date(),
       lookupCount: (prev?.lookupCount ?? 0) + 1,
@@ -755,11 +909,13 @@ export async function upsertManualSocialGraph(
         target: socialGraph.wallet,
         set: {
           ensName: sql`COALESCE(EXCLUDED.ens_name, ${socialGraph.ensName})`,
+          ensChain: sql`COALESCE(EXCLUDED.ens_chain, ${socialGraph.ensChain})`,
           twitterHandle: sql`COALESCE(EXCLUDED.twitter_handle, ${socialGraph.twitterHandle})`,
           twitterUrl: sql`COALESCE(EXCLUDED.twitter_url, ${socialGraph.twitterUrl})`,
           farcaster: sql`COALESCE(EXCLUDED.farcaster, ${socialGraph.farcaster})`,
           farcasterUrl: sql`COALESCE(EXCLUDED.farcaster_url, ${socialGraph.farcasterUrl})`,
           sources: sql`EXCLUDED.sources`,
+          provenance: sql`EXCLUDED.provenance`,
           lastUpdatedAt: sql`EXCLUDED.last_updated_at`,
           lookupCount: sql`${socialGraph.lookupCount} + 1`,
           // Manual verification always sets highest quality
@@ -798,14 +954,14 @@ export async function getEnrichedWalletsSince(
   const db = getDb();
   if (!db || wallets.length === 0) return [];
 
-  const lowercaseWallets = wallets.map((w) => w.toLowerCase());
+  const normalizedWallets = wallets.map((w) => normalizeWallet(w));
 
   try {
     const rows = await db
       .select({ wallet: socialGraph.wallet })
       .from(socialGraph)
       .where(
-        sql`${socialGraph.wallet} IN ${lowercaseWallets} AND ${socialGraph.lastUpdatedAt} > ${since}`
+        sql`${socialGraph.wallet} IN ${normalizedWallets} AND ${socialGraph.lastUpdatedAt} > ${since}`
       );
 
     return rows.map((r) => r.wallet);
@@ -828,7 +984,7 @@ export async function getSocialGraphWallet(
     const rows = await db
       .select()
       .from(socialGraph)
-      .where(sql`${socialGraph.wallet} = ${wallet.toLowerCase()}`)
+      .where(sql`${socialGraph.wallet} = ${normalizeWallet(wallet)}`)
       .limit(1);
 
     return rows[0] || null;
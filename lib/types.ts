@@ -1,6 +1,12 @@
+import type { SocialProvenance } from './provenance';
+
+/** A result field or preserved file column: text, a number or a list */
+export type ResultValue = string | number | string[] | undefined;
+
 export interface WalletSocialResult {
   wallet: string;
   ens_name?: string;
+  ens_chain?: string; // 'ethereum' | 'base' - where ens_name was resolved
   twitter_handle?: string;
   twitter_url?: string;
   farcaster?: string;
@@ -11,9 +17,26 @@ export interface WalletSocialResult {
   priority_score?: number;
   lens?: string;
   github?: string;
+  // Onchain enrichment (lib/onchain.ts), only when the job asked for it
+  native_balance?: number;
+  token_balance?: number;
+  tx_count?: number;
+  first_seen_block?: number;
+  last_active_block?: number;
   source: string[];
-  // Preserved columns from original CSV
-  [key: string]: string | number | string[] | undefined;
+  // Person view (lib/identity-clusters.ts): the cluster's size, its other
+  // wallets and the identity fields that linked them
+  wallet_count?: number;
+  linked_wallets?: string[];
+  matched_on?: string[];
+  // Providers that ran without error for this wallet in the run that produced
+  // this result; a lookup refresh only reports a social lost when its source is here
+  checked_by?: string[];
+  // Which source supplied each identity field (lib/provenance.ts)
+  provenance?: SocialProvenance;
+  // Preserved columns from original CSV. `provenance` is the only object
+  // field; read columns by name with getResultValue() (lib/csv-parser.ts)
+  [key: string]: ResultValue | SocialProvenance;
 }
 
 export interface LookupProgress {
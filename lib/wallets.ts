@@ -0,0 +1,36 @@
+// Wallet address namespaces. EVM addresses are case-insensitive hex and are
+// stored lowercase; Solana addresses are case-sensitive base58 and must be
+// stored exactly as given. Client-safe: no server imports.
+
+export type WalletNamespace = 'evm' | 'solana';
+
+const EVM_ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+// base58 alphabet (no 0, O, I, l); ed25519 public keys are 32-44 chars
+const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function isEvmAddress(address: string): boolean {
+  return EVM_ADDRESS_PATTERN.test(address);
+}
+
+export function isSolanaAddress(address: string): boolean {
+  return SOLANA_ADDRESS_PATTERN.test(address);
+}
+
+export function getWalletNamespace(address: string): WalletNamespace | null {
+  if (isEvmAddress(address)) return 'evm';
+  if (isSolanaAddress(address)) return 'solana';
+  return null;
+}
+
+export function isValidWallet(address: string): boolean {
+  return getWalletNamespace(address) !== null;
+}
+
+/**
+ * Canonical form used as the key everywhere (results maps, cache, social_graph).
+ * Only EVM addresses are lowercased - lowercasing base58 corrupts it.
+ */
+export function normalizeWallet(address: string): string {
+  const trimmed = address.trim();
+  return isEvmAddress(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
@@ -0,0 +1,448 @@
+import { getDb, watchlists, watchlistRuns, users } from '@/db';
+import type { Watchlist } from '@/db/schema';
+import { and, asc, desc, eq, gt, inArray, isNull, lte } from 'drizzle-orm';
+import { getUserAccess } from './access';
+import { getContractHolders, type SupportedChain } from './contract-holders';
+import { sendWatchlistDigest } from './email';
+import { getLookupById } from './history';
+import { createJob } from './job-processor';
+import { normalizeWallet } from './wallets';
+import type { WalletSocialResult } from './types';
+
+// Watchlists: a saved lookup or a contract's holders re-run on a schedule.
+// Each run's socials are compared with everything the watchlist has seen
+// before, so only genuinely new links trigger alerts.
+
+export type WatchlistFrequency = 'daily' | 'weekly';
+export type WatchlistSource = 'lookup' | 'contract';
+
+export const WATCHLIST_FREQUENCIES: WatchlistFrequency[] = ['daily', 'weekly'];
+
+// Due watchlists started per scheduler tick
+export const WATCHLIST_BATCH_SIZE = 25;
+
+const FREQUENCY_MS: Record<WatchlistFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const WATCHED_FIELDS = {
+  twitter_handle: 'Twitter',
+  farcaster: 'Farcaster',
+  ens_name: 'ENS',
+  lens: 'Lens',
+  github: 'GitHub',
+} as const;
+
+type WatchedField = keyof typeof WATCHED_FIELDS;
+
+export interface WatchlistMatch {
+  wallet: string;
+  field: WatchedField;
+  value: string;
+}
+
+export interface WatchlistAlert {
+  runId: string;
+  watchlistId: string;
+  watchlistName: string;
+  newMatchCount: number;
+  newMatches: WatchlistMatch[];
+  completedAt: Date | null;
+}
+
+export type CreateWatchlistInput =
+  | { sourceType: 'lookup'; lookupId: string; name?: string; frequency?: WatchlistFrequency }
+  | {
+      sourceType: 'contract';
+      contractAddress: string;
+      chain: SupportedChain;
+      name?: string;
+      frequency?: WatchlistFrequency;
+    };
+
+export function getNextRunAt(frequency: WatchlistFrequency, from = new Date()): Date {
+  return new Date(from.getTime() + FREQUENCY_MS[frequency]);
+}
+
+function getSocialKeys(result: WalletSocialResult): string[] {
+  const keys: string[] = [];
+  for (const field of Object.keys(WATCHED_FIELDS) as WatchedField[]) {
+    const value = result[field];
+    if (typeof value === 'string' && value) keys.push(`${field}:${value.toLowerCase()}`);
+  }
+  return keys;
+}
+
+/**
+ * wallet -> social keys, for wallets with at least one social
+ */
+export function buildSnapshot(results: WalletSocialResult[]): Record<string, string[]> {
+  const snapshot: Record<string, string[]> = {};
+  for (const result of results) {
+    const keys = getSocialKeys(result);
+    if (keys.length > 0) snapshot[normalizeWallet(result.wallet)] = keys;
+  }
+  return snapshot;
+}
+
+/**
+ * Socials in `results` the watchlist hasn't seen before, plus the updated
+ * snapshot (old keys are kept, so a social that disappears and comes back
+ * doesn't alert twice).
+ */
+export function diffAgainstSnapshot(
+  snapshot: Record<string, string[]>,
+  results: WalletSocialResult[]
+): { matches: WatchlistMatch[]; snapshot: Record<string, string[]> } {
+  const next: Record<string, string[]> = { ...snapshot };
+  const matches: WatchlistMatch[] = [];
+
+  for (const result of results) {
+    const wallet = normalizeWallet(result.wallet);
+    const seen = new Set(snapshot[wallet] ?? []);
+    const keys = getSocialKeys(result);
+
+    for (const key of keys) {
+      if (seen.has(key)) continue;
+      const field = key.slice(0, key.indexOf(':')) as WatchedField;
+      matches.push({ wallet: result.wallet, field, value: result[field] as string });
+      seen.add(key);
+    }
+    if (seen.size > 0) next[wallet] = [...seen];
+  }
+
+  return { matches, snapshot: next };
+}
+
+export function getMatchLabel(field: WatchedField): string {
+  return WATCHED_FIELDS[field];
+}
+
+export async function createWatchlist(
+  userId: string,
+  input: CreateWatchlistInput
+): Promise<Watchlist | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const frequency = input.frequency ?? 'weekly';
+  let name = input.name;
+  let snapshot: Record<string, string[]> | null = null;
+
+  if (input.sourceType === 'lookup') {
+    const lookup = await getLookupById(input.lookupId);
+    if (!lookup || lookup.userId !== userId) return null;
+    name ??= lookup.name || `Lookup of ${lookup.walletCount.toLocaleString()} wallets`;
+    // The saved results are the baseline: the first run only alerts on new links
+    snapshot = buildSnapshot(lookup.results);
+  } else {
+    name ??= `Holders of ${input.contractAddress.slice(0, 6)}...${input.contractAddress.slice(-4)} (${input.chain})`;
+  }
+
+  const [watchlist] = await db
+    .insert(watchlists)
+    .values({
+      userId,
+      name,
+      sourceType: input.sourceType,
+      lookupId: input.sourceType === 'lookup' ? input.lookupId : null,
+      contractAddress: input.sourceType === 'contract' ? input.contractAddress : null,
+      chain: input.sourceType === 'contract' ? input.chain : null,
+      frequency,
+      snapshot,
+      // Lookups have a baseline already; contracts need a first run to get one
+      nextRunAt: input.sourceType === 'lookup' ? getNextRunAt(frequency) : new Date(),
+    })
+    .returning();
+
+  return watchlist;
+}
+
+// Watchlist as shown to its owner; the snapshot is internal to the diff
+export type WatchlistSummary = Omit<Watchlist, 'snapshot'>;
+
+export async function listWatchlists(userId: string): Promise<WatchlistSummary[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      id: watchlists.id,
+      userId: watchlists.userId,
+      name: watchlists.name,
+      sourceType: watchlists.sourceType,
+      lookupId: watchlists.lookupId,
+      contractAddress: watchlists.contractAddress,
+      chain: watchlists.chain,
+      frequency: watchlists.frequency,
+      emailAlerts: watchlists.emailAlerts,
+      isActive: watchlists.isActive,
+      lastRunAt: watchlists.lastRunAt,
+      nextRunAt: watchlists.nextRunAt,
+      createdAt: watchlists.createdAt,
+    })
+    .from(watchlists)
+    .where(eq(watchlists.userId, userId))
+    .orderBy(desc(watchlists.createdAt));
+}
+
+export async function updateWatchlist(
+  id: string,
+  userId: string,
+  changes: {
+    name?: string;
+    frequency?: WatchlistFrequency;
+    emailAlerts?: boolean;
+    isActive?: boolean;
+  }
+): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const set: Partial<typeof watchlists.$inferInsert> = { ...changes };
+  // Reschedule from now when the frequency changes or a paused list resumes
+  if (changes.frequency || changes.isActive) {
+    const [current] = await db
+      .select({ frequency: watchlists.frequency })
+      .from(watchlists)
+      .where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)))
+      .limit(1);
+    if (!current) return false;
+    set.nextRunAt = getNextRunAt(changes.frequency ?? (current.frequency as WatchlistFrequency));
+  }
+
+  const updated = await db
+    .update(watchlists)
+    .set(set)
+    .where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)))
+    .returning();
+
+  return updated.length > 0;
+}
+
+export async function deleteWatchlist(id: string, userId: string): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const deleted = await db
+    .delete(watchlists)
+    .where(and(eq(watchlists.id, id), eq(watchlists.userId, userId)))
+    .returning();
+
+  return deleted.length > 0;
+}
+
+/**
+ * IDs of active watchlists whose next run is due
+ */
+export async function getDueWatchlistIds(limit = WATCHLIST_BATCH_SIZE): Promise<string[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ id: watchlists.id })
+    .from(watchlists)
+    .where(and(eq(watchlists.isActive, true), lte(watchlists.nextRunAt, new Date())))
+    .orderBy(asc(watchlists.nextRunAt))
+    .limit(limit);
+
+  return rows.map((r) => r.id);
+}
+
+async function getWatchlistWallets(watchlist: Watchlist): Promise<string[]> {
+  if (watchlist.sourceType === 'lookup') {
+    const lookup = watchlist.lookupId ? await getLookupById(watchlist.lookupId) : null;
+    if (!lookup) throw new Error('The saved lookup for this watchlist was deleted');
+    return lookup.results.map((r) => r.wallet);
+  }
+
+  if (!watchlist.contractAddress || !watchlist.chain) {
+    throw new Error('Watchlist has no contract');
+  }
+  const holders = await getContractHolders(watchlist.contractAddress, watchlist.chain as SupportedChain);
+  return holders.wallets;
+}
+
+/**
+ * Start one scheduled run: resolve the wallets, queue a lookup job and
+ * schedule the next run. Returns the job ID to trigger, or null if the run
+ * could not start (recorded as a failed run).
+ */
+export async function startWatchlistRun(watchlistId: string): Promise<string | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const [row] = await db
+    .select({ watchlist: watchlists, email: users.email })
+    .from(watchlists)
+    .innerJoin(users, eq(watchlists.userId, users.id))
+    .where(eq(watchlists.id, watchlistId))
+    .limit(1);
+  if (!row) return null;
+
+  const { watchlist, email } = row;
+  const now = new Date();
+
+  // Schedule the next run first so a failure here doesn't retry every tick
+  await db
+    .update(watchlists)
+    .set({ lastRunAt: now, nextRunAt: getNextRunAt(watchlist.frequency as WatchlistFrequency, now) })
+    .where(eq(watchlists.id, watchlist.id));
+
+  const [run] = await db
+    .insert(watchlistRuns)
+    .values({ watchlistId: watchlist.id })
+    .returning();
+
+  try {
+    const access = await getUserAccess(email);
+    if (access.tier !== 'pro' && access.tier !== 'unlimited') {
+      await db.update(watchlists).set({ isActive: false }).where(eq(watchlists.id, watchlist.id));
+      throw new Error('Watchlists need a Pro or Unlimited plan - paused');
+    }
+
+    const wallets = await getWatchlistWallets(watchlist);
+    if (wallets.length > access.walletLimit) {
+      throw new Error(
+        `${wallets.length.toLocaleString()} wallets is over your ${access.walletLimit.toLocaleString()} wallet limit`
+      );
+    }
+
+    const jobId = await createJob(wallets, {}, {
+      includeENS: access.canUseENS,
+      saveToHistory: false,
+      userId: watchlist.userId,
+      tier: access.tier,
+      canUseNeynar: access.canUseNeynar,
+      canUseENS: access.canUseENS,
+      watchlistRunId: run.id,
+    });
+
+    await db
+      .update(watchlistRuns)
+      .set({ jobId, walletCount: wallets.length })
+      .where(eq(watchlistRuns.id, run.id));
+
+    return jobId;
+  } catch (error) {
+    console.error('Watchlist run start error:', error);
+    await failWatchlistRun(run.id, error instanceof Error ? error.message : 'Unknown error');
+    return null;
+  }
+}
+
+/**
+ * Diff a finished run against the watchlist snapshot and deliver alerts.
+ * Called from the job pipelines when JobOptions.watchlistRunId is set.
+ */
+export async function completeWatchlistRun(
+  runId: string,
+  results: WalletSocialResult[]
+): Promise<void> {
+  const db = getDb();
+  if (!db) return;
+
+  try {
+    const [row] = await db
+      .select({ run: watchlistRuns, watchlist: watchlists, email: users.email })
+      .from(watchlistRuns)
+      .innerJoin(watchlists, eq(watchlistRuns.watchlistId, watchlists.id))
+      .innerJoin(users, eq(watchlists.userId, users.id))
+      .where(eq(watchlistRuns.id, runId))
+      .limit(1);
+
+    // Finalize steps can be retried; only diff once
+    if (!row || row.run.status !== 'pending') return;
+    const { watchlist, email } = row;
+
+    // A contract's first run only sets the baseline
+    const isBaseline = watchlist.snapshot === null;
+    const { matches, snapshot } = diffAgainstSnapshot(watchlist.snapshot ?? {}, results);
+    const newMatches = isBaseline ? [] : matches;
+
+    await db.update(watchlists).set({ snapshot }).where(eq(watchlists.id, watchlist.id));
+    await db
+      .update(watchlistRuns)
+      .set({
+        status: 'completed',
+        newMatchCount: newMatches.length,
+        newMatches,
+        completedAt: new Date(),
+      })
+      .where(eq(watchlistRuns.id, runId));
+
+    if (newMatches.length > 0 && watchlist.emailAlerts) {
+      await sendWatchlistDigest(
+        email,
+        watchlist.name,
+        newMatches.map((m) => ({ wallet: m.wallet, label: getMatchLabel(m.field), value: m.value }))
+      );
+    }
+  } catch (error) {
+    console.error('Watchlist run completion error:', error);
+    await failWatchlistRun(runId, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+export async function failWatchlistRun(runId: string, message: string): Promise<void> {
+  const db = getDb();
+  if (!db) return;
+
+  try {
+    await db
+      .update(watchlistRuns)
+      .set({ status: 'failed', errorMessage: message, completedAt: new Date() })
+      .where(eq(watchlistRuns.id, runId));
+  } catch (error) {
+    console.error('Mark watchlist run failed error:', error);
+  }
+}
+
+/**
+ * Completed runs with new matches the user hasn't seen in-app yet
+ */
+export async function getUnreadAlerts(userId: string): Promise<WatchlistAlert[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ run: watchlistRuns, watchlistName: watchlists.name })
+    .from(watchlistRuns)
+    .innerJoin(watchlists, eq(watchlistRuns.watchlistId, watchlists.id))
+    .where(
+      and(
+        eq(watchlists.userId, userId),
+        eq(watchlistRuns.status, 'completed'),
+        gt(watchlistRuns.newMatchCount, 0),
+        isNull(watchlistRuns.readAt)
+      )
+    )
+    .orderBy(desc(watchlistRuns.completedAt))
+    .limit(20);
+
+  return rows.map(({ run, watchlistName }) => ({
+    runId: run.id,
+    watchlistId: run.watchlistId,
+    watchlistName,
+    newMatchCount: run.newMatchCount,
+    newMatches: (run.newMatches ?? []) as WatchlistMatch[],
+    completedAt: run.completedAt,
+  }));
+}
+
+export async function markAlertsRead(userId: string, runIds: string[]): Promise<void> {
+  const db = getDb();
+  if (!db || runIds.length === 0) return;
+
+  // Only runs of the user's own watchlists
+  const owned = db
+    .select({ id: watchlists.id })
+    .from(watchlists)
+    .where(eq(watchlists.userId, userId));
+
+  await db
+    .update(watchlistRuns)
+    .set({ readAt: new Date() })
+    .where(and(inArray(watchlistRuns.id, runIds), inArray(watchlistRuns.watchlistId, owned)));
+}
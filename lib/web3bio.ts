@@ -1,5 +1,6 @@
 import { cleanTwitterHandle } from './twitter-cleaner';
 import { trackApiCall } from './analytics';
+import { normalizeWallet } from './wallets';
 
 export interface Web3BioProfile {
   address: string;
@@ -98,7 +99,7 @@ export function parseWeb3BioProfiles(
   if (!profiles || profiles.length === 0) return null;
 
   const result: Web3BioResult = {
-    wallet: wallet.toLowerCase(),
+    wallet: normalizeWallet(wallet),
     source: 'web3bio',
   };
 
@@ -108,6 +109,11 @@ export function parseWeb3BioProfiles(
       result.ens_name = profile.identity;
     }
 
+    // SNS (.sol) name for Solana addresses
+    if (profile.platform === 'sns' && profile.identity && !result.ens_name) {
+      result.ens_name = profile.identity;
+    }
+
     // Get Twitter
     if (profile.links?.twitter?.handle) {
       const cleaned = cleanTwitterHandle(profile.links.twitter.handle);
@@ -171,7 +177,7 @@ export async function batchFetchWeb3Bio(
       const parsed = parseWeb3BioProfiles(profiles, wallet);
 
       if (parsed) {
-        results.set(wallet.toLowerCase(), parsed);
+        results.set(normalizeWallet(wallet), parsed);
         found++;
       }
 
@@ -0,0 +1,502 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { and, desc, eq } from 'drizzle-orm';
+import { apiKeys, getDb, webhookDeliveries, webhookEndpoints } from '@/db';
+import type { WebhookDelivery, WebhookEndpoint } from '@/db/schema';
+import { inngest } from '@/inngest/client';
+import type { JobOptions } from './job-processor';
+import type { WalletSocialResult } from './types';
+
+// Outgoing webhooks: signed job.completed / job.failed / lookup.enriched
+// events POSTed to a user's endpoints, so API pipelines don't have to poll
+// /api/jobs/[id]. Every send is a webhook_deliveries row; the
+// webhook-delivery Inngest function retries it with backoff.
+
+export type WebhookEvent = 'job.completed' | 'job.failed' | 'lookup.enriched';
+
+export const WEBHOOK_EVENTS: Record<WebhookEvent, string> = {
+  'job.completed': 'A lookup job finished',
+  'job.failed': 'A lookup job failed',
+  'lookup.enriched': 'A saved lookup refresh merged new socials',
+};
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+// Waits between attempts (Inngest sleep durations), one fewer than attempts
+export const WEBHOOK_RETRY_DELAYS = ['30s', '2m', '10m', '1h'];
+
+const SECRET_PREFIX = 'whsec_';
+const BASE_URL = process.env.NEXT_PUBLIC_URL || 'https://walletlink.social';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'userId' | 'secret'> & {
+  secretPrefix: string;
+};
+
+/** Whose jobs/lookups an event belongs to */
+export interface WebhookOwner {
+  userId?: string | null;
+  /** Set when the job was created with an API key */
+  apiKeyId?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Receivers recompute the HMAC with their secret and reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// IPv4 ranges a webhook may not reach: this network, private, CGNAT,
+// loopback, link-local, IETF protocol assignments, benchmarking, multicast
+// and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+function isBlockedIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+}
+
+/**
+ * Whether an address is loopback, private, link-local, CGNAT, ULA or
+ * otherwise not on the public internet
+ */
+function isBlockedAddress(ip: string): boolean {
+  if (isIP(ip) === 4) return isBlockedIPv4(ip);
+
+  const address = ip.toLowerCase().replace(/^\[|\]$/g, '');
+  // IPv4-mapped (::ffff:10.0.0.1) and NAT64 (64:ff9b::10.0.0.1)
+  const embedded = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isBlockedIPv4(embedded[1]);
+  if (/^::ffff:/.test(address) || /^64:ff9b::/.test(address)) return true;
+
+  return (
+    address === '::' ||
+    address === '::1' ||
+    /^f[cd][0-9a-f]{0,2}:/.test(address) || // fc00::/7 unique local
+    /^fe[89ab][0-9a-f]?:/.test(address) || // fe80::/10 link-local
+    /^ff[0-9a-f]{0,2}:/.test(address) // multicast
+  );
+}
+
+function isLocalDevHost(hostname: string): boolean {
+  return (
+    process.env.NODE_ENV !== 'production' &&
+    (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]')
+  );
+}
+
+/**
+ * Resolve the URL's host and check every address is public. Returns an error
+ * message, or null when the host may be called. Run before each request too,
+ * so a name re-pointed at an internal address after registering is caught.
+ */
+async function checkWebhookHost(url: URL): Promise<string | null> {
+  if (isLocalDevHost(url.hostname)) return null;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map((a) => a.address);
+    } catch {
+      return 'URL host could not be resolved';
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return 'URL must be publicly reachable';
+  }
+  return null;
+}
+
+/**
+ * Check an endpoint URL. Returns an error message, or null when valid.
+ */
+export async function validateWebhookUrl(url: unknown): Promise<string | null> {
+  if (typeof url !== 'string' || !url.trim()) return 'URL required';
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return 'URL is not valid';
+  }
+  // Plain http only for local receivers during development
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocalDevHost(parsed.hostname))) {
+    return 'URL must use https';
+  }
+  if (parsed.username || parsed.password) return 'URL must not contain credentials';
+  return checkWebhookHost(parsed);
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && Object.hasOwn(WEBHOOK_EVENTS, value);
+}
+
+/**
+ * Check a subscribed-events list. Returns an error message, or null when valid.
+ */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) return 'Subscribe to at least one event';
+  if (!events.every(isWebhookEvent)) {
+    return `Events must be any of: ${Object.keys(WEBHOOK_EVENTS).join(', ')}`;
+  }
+  return null;
+}
+
+function toSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  return {
+    id: endpoint.id,
+    apiKeyId: endpoint.apiKeyId,
+    url: endpoint.url,
+    events: endpoint.events,
+    isActive: endpoint.isActive,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+    secretPrefix: endpoint.secret.slice(0, SECRET_PREFIX.length + 4),
+  };
+}
+
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpointSummary[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.userId, userId))
+    .orderBy(desc(webhookEndpoints.createdAt));
+  return rows.map(toSummary);
+}
+
+/**
+ * Register an endpoint. The secret is returned only here. Throws
+ * WEBHOOK_LIMIT or API_KEY_NOT_FOUND (key missing or someone else's).
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: { url: string; events: WebhookEvent[]; apiKeyId?: string | null }
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const db = getDb();
+  if (!db) {
+    throw new Error('Database not configured');
+  }
+
+  const existing = await db
+    .select({ id: webhookEndpoints.id })
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.userId, userId));
+  if (existing.length >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new Error('WEBHOOK_LIMIT');
+  }
+
+  if (input.apiKeyId) {
+    const [key] = await db
+      .select({ id: apiKeys.id })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, input.apiKeyId), eq(apiKeys.userId, userId)))
+      .limit(1);
+    if (!key) {
+      throw new Error('API_KEY_NOT_FOUND');
+    }
+  }
+
+  const secret = generateWebhookSecret();
+  const [endpoint] = await db
+    .insert(webhookEndpoints)
+    .values({
+      userId,
+      apiKeyId: input.apiKeyId || null,
+      url: input.url.trim(),
+      secret,
+      events: [...new Set(input.events)],
+    })
+    .returning();
+
+  return { endpoint: toSummary(endpoint), secret };
+}
+
+export async function updateWebhookEndpoint(
+  id: string,
+  userId: string,
+  changes: { url?: string; events?: WebhookEvent[]; isActive?: boolean }
+): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const updated = await db
+    .update(webhookEndpoints)
+    .set({
+      ...(changes.url !== undefined && { url: changes.url.trim() }),
+      ...(changes.events && { events: [...new Set(changes.events)] }),
+      ...(changes.isActive !== undefined && { isActive: changes.isActive }),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+    .returning();
+
+  return updated.length > 0;
+}
+
+export async function deleteWebhookEndpoint(id: string, userId: string): Promise<boolean> {
+  const db = getDb();
+  if (!db) return false;
+
+  const deleted = await db
+    .delete(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+    .returning();
+
+  return deleted.length > 0;
+}
+
+/**
+ * Recent deliveries of one of the user's endpoints; null if the endpoint isn't theirs
+ */
+export async function listWebhookDeliveries(
+  endpointId: string,
+  userId: string,
+  limit = 50
+): Promise<WebhookDelivery[] | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const [endpoint] = await db
+    .select({ id: webhookEndpoints.id })
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.userId, userId)))
+    .limit(1);
+  if (!endpoint) return null;
+
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.endpointId, endpointId))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Hand deliveries to the webhook-delivery Inngest function. Without Inngest
+ * each one gets a single inline attempt and no retries.
+ */
+async function queueDeliveries(deliveryIds: string[]): Promise<void> {
+  if (deliveryIds.length === 0) return;
+
+  try {
+    await inngest.send(
+      deliveryIds.map((deliveryId) => ({
+        name: 'webhook/delivery.requested',
+        data: { deliveryId },
+      }))
+    );
+  } catch (error) {
+    console.log('Inngest webhook trigger skipped (delivering inline):', error instanceof Error ? error.message : error);
+    for (const deliveryId of deliveryIds) {
+      await attemptWebhookDelivery(deliveryId, true);
+    }
+  }
+}
+
+/**
+ * Record an event for every active endpoint of the owner subscribed to it and
+ * queue the deliveries. Never throws - a webhook problem must not fail the job.
+ */
+export async function emitWebhookEvent(
+  owner: WebhookOwner,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  const db = getDb();
+  // Anonymous jobs carry a localStorage ID rather than a user UUID
+  if (!db || !owner.userId || !UUID_PATTERN.test(owner.userId)) return;
+
+  try {
+    const endpoints = await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.userId, owner.userId), eq(webhookEndpoints.isActive, true)));
+
+    const targets = endpoints.filter(
+      (e) => e.events.includes(event) && (!e.apiKeyId || e.apiKeyId === owner.apiKeyId)
+    );
+    if (targets.length === 0) return;
+
+    const createdAt = new Date();
+    const deliveries = await db
+      .insert(webhookDeliveries)
+      .values(
+        targets.map((endpoint) => ({
+          endpointId: endpoint.id,
+          event,
+          payload: { event, created_at: createdAt.toISOString(), data },
+        }))
+      )
+      .returning();
+
+    await queueDeliveries(deliveries.map((d) => d.id));
+  } catch (error) {
+    console.error(`Webhook ${event} emit error:`, error);
+  }
+}
+
+/**
+ * Results with a Twitter or Farcaster match: a job's any_social_found, on both
+ * the Inngest and the cron path
+ */
+export function countAnySocialFound(results: WalletSocialResult[]): number {
+  return results.filter((r) => r.twitter_handle || r.farcaster).length;
+}
+
+/**
+ * job.completed / job.failed for a lookup job, owned by the job's user (and
+ * API key, when the job was created with one)
+ */
+export async function emitJobWebhook(
+  job: { id: string; userId: string | null; options: unknown },
+  event: 'job.completed' | 'job.failed',
+  data: Record<string, unknown>
+): Promise<void> {
+  const options = job.options as JobOptions;
+  await emitWebhookEvent(
+    { userId: options.userId || job.userId, apiKeyId: options.apiKeyId },
+    event,
+    { job_id: job.id, status_url: `${BASE_URL}/api/jobs/${job.id}`, ...data }
+  );
+}
+
+/**
+ * One POST of a delivery. Marks it delivered on a 2xx; on failure it stays
+ * pending for another attempt unless this is the last one or the endpoint
+ * answered with a client error that retrying won't fix.
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: string,
+  isLastAttempt: boolean
+): Promise<{ done: boolean; status: 'delivered' | 'pending' | 'failed' }> {
+  const db = getDb();
+  if (!db) return { done: true, status: 'failed' };
+
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1);
+  if (!row || row.delivery.status !== 'pending') {
+    return { done: true, status: row?.delivery.status === 'delivered' ? 'delivered' : 'failed' };
+  }
+
+  const { delivery, endpoint } = row;
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Record<string, unknown>) });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const hostError = await checkWebhookHost(new URL(endpoint.url));
+    if (hostError) throw new Error(hostError);
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'walletlink.social-webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, body, timestamp),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+    responseStatus = response.status;
+    // Only the status is logged; the body is never read back to the user
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Request failed';
+  }
+
+  // 408 and 429 are worth retrying; other 4xx mean the receiver rejected it
+  const permanent =
+    responseStatus !== null && responseStatus >= 400 && responseStatus < 500 &&
+    responseStatus !== 408 && responseStatus !== 429;
+  const status = !error ? 'delivered' : isLastAttempt || permanent ? 'failed' : 'pending';
+  const now = new Date();
+
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status,
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      error,
+      lastAttemptAt: now,
+      ...(status === 'delivered' && { deliveredAt: now }),
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+
+  return { done: status !== 'pending', status };
+}
+
+/**
+ * Send a logged delivery again as a new delivery. Returns the new delivery's
+ * ID, or null if the delivery isn't one of the user's.
+ */
+export async function resendWebhookDelivery(deliveryId: string, userId: string): Promise<string | null> {
+  const db = getDb();
+  if (!db) return null;
+
+  const [row] = await db
+    .select({ delivery: webhookDeliveries })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookEndpoints.userId, userId)))
+    .limit(1);
+  if (!row) return null;
+
+  const [resent] = await db
+    .insert(webhookDeliveries)
+    .values({
+      endpointId: row.delivery.endpointId,
+      event: row.delivery.event,
+      payload: row.delivery.payload,
+      resentFrom: row.delivery.id,
+    })
+    .returning();
+
+  await queueDeliveries([resent.id]);
+  return resent.id;
+}
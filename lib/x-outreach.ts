@@ -0,0 +1,95 @@
+import { exportToCSV } from './csv-parser';
+import { cleanTwitterHandle } from './twitter-cleaner';
+import type { WalletSocialResult } from './types';
+
+// X (Twitter) outreach: a deduped handle list split into batches that fit an
+// X list, the X Ads custom-audience upload file, and per-handle outreach
+// status for a saved lookup (stored by lib/outreach-status.ts).
+
+// X lists hold at most 5,000 members
+export const X_LIST_MAX_MEMBERS = 5000;
+// X Ads won't target a custom audience smaller than this
+export const X_AUDIENCE_MIN_SIZE = 100;
+// Handles updated per status request
+export const MAX_OUTREACH_UPDATE = 5000;
+
+export type OutreachStatus = 'to_contact' | 'contacted' | 'replied';
+
+export const OUTREACH_STATUSES: Record<OutreachStatus, string> = {
+  to_contact: 'To contact',
+  contacted: 'Contacted',
+  replied: 'Replied',
+};
+
+/** Handle -> status; handles without an entry are still to contact */
+export type OutreachStatusMap = Record<string, OutreachStatus>;
+
+export interface OutreachHandle {
+  /** Lowercase, no @ */
+  handle: string;
+  /** Wallets in the results with this handle */
+  wallets: number;
+}
+
+export function isOutreachStatus(value: unknown): value is OutreachStatus {
+  return value === 'to_contact' || value === 'contacted' || value === 'replied';
+}
+
+/**
+ * One entry per X handle, in the order the results are given. Handles are
+ * compared case-insensitively; wallets sharing a handle are counted on it.
+ */
+export function getOutreachHandles(results: WalletSocialResult[]): OutreachHandle[] {
+  const byHandle = new Map<string, OutreachHandle>();
+  for (const r of results) {
+    const handle = cleanTwitterHandle(r.twitter_handle);
+    if (!handle) continue;
+
+    const entry = byHandle.get(handle);
+    if (entry) entry.wallets++;
+    else byHandle.set(handle, { handle, wallets: 1 });
+  }
+  return [...byHandle.values()];
+}
+
+/**
+ * Split handles into batches of at most `size` (capped at X_LIST_MAX_MEMBERS)
+ */
+export function splitIntoBatches<T>(items: T[], size: number = X_LIST_MAX_MEMBERS): T[][] {
+  const batchSize = Math.max(1, Math.min(Math.floor(size) || X_LIST_MAX_MEMBERS, X_LIST_MAX_MEMBERS));
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    batches.push(items.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+/**
+ * Handles one per line with @, for adding to an X list
+ */
+export function exportHandleList(handles: OutreachHandle[]): string {
+  return handles.map((h) => `@${h.handle}`).join('\n');
+}
+
+/**
+ * X Ads custom-audience upload: a single column of handles without @ and
+ * without a header row
+ */
+export function exportXAudienceCSV(handles: OutreachHandle[]): string {
+  return handles.map((h) => h.handle).join('\n');
+}
+
+/**
+ * Handles with their outreach status, for tracking outside the app
+ */
+export function exportOutreachCSV(handles: OutreachHandle[], statuses: OutreachStatusMap): string {
+  return exportToCSV(
+    handles.map((h) => ({
+      handle: `@${h.handle}`,
+      url: `https://x.com/${h.handle}`,
+      status: OUTREACH_STATUSES[statuses[h.handle] ?? 'to_contact'],
+      wallets: h.wallets,
+    })),
+    ['handle', 'url', 'status', 'wallets']
+  );
+}
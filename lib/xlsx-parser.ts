@@ -1,126 +1,359 @@
-import readXlsxFile from 'read-excel-file';
-import type { ParseResult, WalletRow } from './csv-parser';
+import { Inflate } from 'fflate';
+import {
+  createRowCollector,
+  type CollectorErrors,
+  type ParseOptions,
+  type ParseProgressCallback,
+  type ParseResult,
+} from './csv-parser';
 
-function isValidEthAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
+// Streaming .xlsx reader. An .xlsx file is a ZIP of XML parts; we read the
+// ZIP directory from the end of the file, then inflate only the shared
+// strings table and the first worksheet, turning <row> elements into rows as
+// they decompress. The whole workbook is never held in memory.
+
+const XLSX_ERRORS: CollectorErrors = {
+  empty: 'Empty spreadsheet',
+  noWallets: 'No valid wallet addresses found in spreadsheet',
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_ZIP_COMMENT = 0xffff;
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+class UnsupportedWorkbookError extends Error {}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
 }
 
 /**
- * Scan all columns to find which one contains the most valid Ethereum addresses.
- * Returns the column index, or -1 if no valid addresses found.
+ * Read the ZIP central directory (file name -> entry)
  */
-function detectWalletColumn(rows: unknown[][]): number {
-  if (rows.length === 0) return -1;
+async function readZipEntries(file: Blob): Promise<Map<string, ZipEntry>> {
+  const tailStart = Math.max(0, file.size - EOCD_MIN_SIZE - MAX_ZIP_COMMENT);
+  const tail = await readBytes(file, tailStart, file.size);
 
-  const columnCount = Math.max(...rows.map((r) => r.length));
-  let bestColumn = -1;
-  let bestCount = 0;
-
-  for (let col = 0; col < columnCount; col++) {
-    let validCount = 0;
-    for (const row of rows) {
-      const value = String(row[col] ?? '').trim();
-      if (value && isValidEthAddress(value)) {
-        validCount++;
-      }
-    }
-    if (validCount > bestCount) {
-      bestCount = validCount;
-      bestColumn = col;
+  let eocd = -1;
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
     }
   }
+  if (eocd === -1) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const dirSize = tail.getUint32(eocd + 12, true);
+  const dirOffset = tail.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || dirOffset === 0xffffffff) {
+    throw new UnsupportedWorkbookError('ZIP64 workbooks are not streamed');
+  }
 
-  return bestColumn;
+  const dir = await readBytes(file, dirOffset, dirOffset + dirSize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (dir.getUint32(offset, true) !== CENTRAL_DIR_SIGNATURE) break;
+
+    const nameLength = dir.getUint16(offset + 28, true);
+    const extraLength = dir.getUint16(offset + 30, true);
+    const commentLength = dir.getUint16(offset + 32, true);
+    const name = decoder.decode(
+      new Uint8Array(dir.buffer, dir.byteOffset + offset + 46, nameLength)
+    );
+
+    entries.set(name, {
+      name,
+      method: dir.getUint16(offset + 10, true),
+      compressedSize: dir.getUint32(offset + 20, true),
+      localHeaderOffset: dir.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
 }
 
-export async function parseXLSX(buffer: ArrayBuffer): Promise<ParseResult> {
+/**
+ * Stream one ZIP entry as decoded text chunks
+ */
+async function streamEntry(
+  file: Blob,
+  entry: ZipEntry,
+  onText: (text: string) => void,
+  onBytes?: (bytes: number) => void
+): Promise<void> {
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new UnsupportedWorkbookError(`Unsupported compression method ${entry.method}`);
+  }
+
+  // Local header has its own (possibly different) name/extra lengths
+  const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  const dataStart =
+    entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+
+  const decoder = new TextDecoder('utf-8');
+  const inflater =
+    entry.method === 8
+      ? new Inflate((chunk, final) => onText(decoder.decode(chunk, { stream: !final })))
+      : null;
+
+  const reader = file.slice(dataStart, dataStart + entry.compressedSize).stream().getReader();
   try {
-    // read-excel-file reads first sheet by default
-    const rows = await readXlsxFile(buffer);
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
 
-    if (rows.length === 0) {
-      return { rows: [], headers: [], error: 'Empty spreadsheet' };
+      if (inflater) inflater.push(value);
+      else onText(decoder.decode(value, { stream: true }));
+      onBytes?.(value.byteLength);
     }
+  } finally {
+    reader.releaseLock();
+  }
 
-    // Find the column with the most valid Ethereum addresses
-    const walletColumnIndex = detectWalletColumn(rows);
+  if (inflater) inflater.push(new Uint8Array(0), true);
+  else onText(decoder.decode());
+}
 
-    if (walletColumnIndex === -1) {
-      return {
-        rows: [],
-        headers: [],
-        error: 'No valid wallet addresses found in spreadsheet',
-      };
-    }
+async function readEntryText(file: Blob, entry: ZipEntry): Promise<string> {
+  let text = '';
+  await streamEntry(file, entry, (chunk) => {
+    text += chunk;
+  });
+  return text;
+}
 
-    // Check if first row contains a valid address (headerless file)
-    const firstRowValue = String(rows[0]?.[walletColumnIndex] ?? '').trim();
-    const hasHeader = !isValidEthAddress(firstRowValue);
+/**
+ * Call `onElement` for every complete <tag>...</tag> (or <tag/>) in a text stream
+ */
+function createElementScanner(tag: string, onElement: (xml: string) => void) {
+  const pattern = new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, 'g');
+  let buffer = '';
 
-    // Determine headers
-    let headers: string[];
-    let dataStartIndex: number;
+  return (chunk: string) => {
+    buffer += chunk;
+    pattern.lastIndex = 0;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(buffer))) {
+      onElement(match[0]);
+      consumed = pattern.lastIndex;
+    }
+    if (consumed > 0) buffer = buffer.slice(consumed);
+  };
+}
 
-    if (hasHeader) {
-      headers = rows[0].map((cell) => String(cell ?? '').trim());
-      dataStartIndex = 1;
-    } else {
-      // Generate placeholder headers (Column A, Column B, etc.)
-      const columnCount = Math.max(...rows.map((r) => r.length));
-      headers = Array.from({ length: columnCount }, (_, i) =>
-        String.fromCharCode(65 + (i % 26)) + (i >= 26 ? Math.floor(i / 26) : '')
-      );
-      dataStartIndex = 0;
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10)
+        );
     }
+  });
+}
 
-    const parsedRows: WalletRow[] = [];
+/**
+ * Concatenate the <t> runs of a shared/inline string, skipping phonetic hints
+ */
+function readStringItem(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetic.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    text += match[1];
+  }
+  return decodeXml(text);
+}
 
-    // Process data rows
-    for (let i = dataStartIndex; i < rows.length; i++) {
-      const rowData = rows[i];
-      if (!rowData || rowData.every((cell) => cell === null || cell === '')) {
-        continue;
-      }
+function getAttribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
 
-      const walletValue = String(rowData[walletColumnIndex] ?? '').trim();
+/**
+ * "AB12" -> 27 (zero-based column index)
+ */
+function columnIndexFromRef(ref: string): number {
+  let index = 0;
+  for (const char of ref) {
+    const code = char.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
 
-      if (!walletValue || !isValidEthAddress(walletValue)) {
-        continue;
-      }
+function parseSheetRow(xml: string, sharedStrings: string[]): string[] {
+  const values: string[] = [];
+  let nextColumn = 0;
 
-      const row: WalletRow = { wallet: walletValue.toLowerCase() };
+  for (const match of xml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+    const attributes = match[1];
+    const body = match[2] ?? '';
+    const ref = getAttribute(attributes, 'r');
+    const column = ref ? columnIndexFromRef(ref) : nextColumn;
+    nextColumn = column + 1;
 
-      // Preserve other columns
-      headers.forEach((header, index) => {
-        if (
-          index !== walletColumnIndex &&
-          rowData[index] !== null &&
-          rowData[index] !== undefined
-        ) {
-          row[header] = String(rowData[index]);
-        }
-      });
+    const type = getAttribute(attributes, 't');
+    const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+    let value: string;
 
-      parsedRows.push(row);
+    if (type === 'inlineStr') {
+      value = readStringItem(body);
+    } else if (raw === undefined) {
+      continue;
+    } else if (type === 's') {
+      value = sharedStrings[Number(raw)] ?? '';
+    } else if (type === 'b') {
+      value = raw === '1' ? 'true' : 'false';
+    } else {
+      value = decodeXml(raw);
     }
 
-    if (parsedRows.length === 0) {
-      return {
-        rows: [],
-        headers: [],
-        error: 'No valid wallet addresses found in spreadsheet',
-      };
+    while (values.length < column) values.push('');
+    values[column] = value.trim();
+  }
+
+  return values;
+}
+
+/**
+ * Path of the first worksheet in workbook order (not necessarily sheet1.xml)
+ */
+async function findFirstSheetPath(
+  file: Blob,
+  entries: Map<string, ZipEntry>
+): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) return fallback;
+
+  const sheetTag = (await readEntryText(file, workbook)).match(/<sheet\b[^>]*>/)?.[0];
+  const relId = sheetTag && getAttribute(sheetTag, 'r:id');
+  if (!relId) return fallback;
+
+  const relsXml = await readEntryText(file, rels);
+  for (const [tag] of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (getAttribute(tag, 'Id') === relId) {
+      const target = getAttribute(tag, 'Target');
+      if (!target) break;
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
     }
+  }
+  return fallback;
+}
+
+async function streamXLSX(
+  file: Blob,
+  onProgress: ParseProgressCallback | undefined,
+  options: ParseOptions
+): Promise<ParseResult> {
+  const entries = await readZipEntries(file);
+  const sheetEntry = entries.get(await findFirstSheetPath(file, entries));
+  if (!sheetEntry) throw new Error('Workbook has no worksheets');
+
+  const sharedEntry = entries.get('xl/sharedStrings.xml');
+  const totalBytes = (sharedEntry?.compressedSize ?? 0) + sheetEntry.compressedSize;
+  const collector = createRowCollector(XLSX_ERRORS, options.walletColumn);
+  let bytesRead = 0;
 
-    // Deduplicate by wallet address
-    const uniqueRows = Array.from(
-      new Map(parsedRows.map((row) => [row.wallet, row])).values()
+  const reportBytes = (bytes: number) => {
+    bytesRead += bytes;
+    onProgress?.({ bytesRead, totalBytes, rows: collector.rowCount });
+  };
+
+  // Shared strings first: sheet cells reference them by index
+  const sharedStrings: string[] = [];
+  if (sharedEntry) {
+    await streamEntry(
+      file,
+      sharedEntry,
+      createElementScanner('si', (xml) => sharedStrings.push(readStringItem(xml))),
+      reportBytes
     );
+  }
+
+  await streamEntry(
+    file,
+    sheetEntry,
+    createElementScanner('row', (xml) => {
+      const values = parseSheetRow(xml, sharedStrings);
+      if (values.some((v) => v !== '')) collector.push(values);
+    }),
+    reportBytes
+  );
+
+  return collector.finish();
+}
 
+/**
+ * Parse the first sheet of an .xlsx file. Falls back to read-excel-file
+ * (whole workbook in memory) for ZIP64 or otherwise unusual archives.
+ */
+export async function parseXLSX(
+  file: Blob,
+  onProgress?: ParseProgressCallback,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  try {
+    return await streamXLSX(file, onProgress, options);
+  } catch (err) {
+    if (err instanceof UnsupportedWorkbookError) {
+      return parseXLSXInMemory(file, options);
+    }
+    console.error('XLSX parsing error:', err);
     return {
-      rows: uniqueRows,
-      headers: headers.filter((_, i) => i !== walletColumnIndex),
+      rows: [],
+      headers: [],
+      error:
+        err instanceof Error
+          ? `Failed to parse Excel file: ${err.message}`
+          : 'Failed to parse Excel file',
     };
+  }
+}
+
+async function parseXLSXInMemory(
+  file: Blob,
+  options: ParseOptions
+): Promise<ParseResult> {
+  try {
+    const { default: readXlsxFile } = await import('read-excel-file');
+    // read-excel-file reads first sheet by default
+    const rows = await readXlsxFile(await file.arrayBuffer());
+
+    const collector = createRowCollector(XLSX_ERRORS, options.walletColumn);
+    for (const row of rows) {
+      const values = row.map((cell) => String(cell ?? '').trim());
+      if (values.some((v) => v !== '')) collector.push(values);
+    }
+    return collector.finish();
   } catch (err) {
     console.error('XLSX parsing error:', err);
     return {
@@ -0,0 +1,110 @@
+import { strToU8, zipSync } from 'fflate';
+
+// Minimal .xlsx writer: one worksheet with a bold, frozen header row, typed
+// cells (numbers stay numbers) and external hyperlinks. Strings are written
+// inline, so there is no shared-strings table to build. Counterpart of
+// lib/xlsx-parser.ts.
+
+export type XlsxCell = string | number | { text: string; url: string } | null | undefined;
+
+// Style indexes into cellXfs below
+const STYLE_HEADER = 1;
+const STYLE_LINK = 2;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Fonts: 0 default, 1 bold (header), 2 blue underlined (links)
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><u/><sz val="11"/><color rgb="FF0563C1"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters for a 0-based index: 0 -> A, 25 -> Z, 26 -> AA
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function inlineString(ref: string, text: string, style?: number): string {
+  const s = style ? ` s="${style}"` : '';
+  return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/**
+ * Build an .xlsx workbook with a single sheet
+ */
+export function buildXlsx(headers: string[], rows: XlsxCell[][], sheetName = 'Results'): Uint8Array {
+  const links: { ref: string; url: string }[] = [];
+  const sheetRows: string[] = [];
+
+  sheetRows.push(
+    `<row r="1">${headers.map((h, i) => inlineString(`${columnName(i)}1`, h, STYLE_HEADER)).join('')}</row>`
+  );
+
+  rows.forEach((row, rowIndex) => {
+    const r = rowIndex + 2;
+    const cells: string[] = [];
+    row.forEach((cell, colIndex) => {
+      if (cell === null || cell === undefined || cell === '') return;
+      const ref = `${columnName(colIndex)}${r}`;
+      if (typeof cell === 'number') {
+        if (isFinite(cell)) cells.push(`<c r="${ref}"><v>${cell}</v></c>`);
+      } else if (typeof cell === 'string') {
+        cells.push(inlineString(ref, cell));
+      } else {
+        cells.push(inlineString(ref, cell.text, STYLE_LINK));
+        links.push({ ref, url: cell.url });
+      }
+    });
+    sheetRows.push(`<row r="${r}">${cells.join('')}</row>`);
+  });
+
+  const hyperlinks =
+    links.length > 0
+      ? `<hyperlinks>${links.map((l, i) => `<hyperlink ref="${l.ref}" r:id="rId${i + 1}"/>`).join('')}</hyperlinks>`
+      : '';
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${sheetRows.join('')}</sheetData>${hyperlinks}</worksheet>`;
+
+  const sheetRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${links
+    .map(
+      (l, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(l.url)}" TargetMode="External"/>`
+    )
+    .join('')}</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, '').slice(0, 31) || 'Results')}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(ROOT_RELS),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(WORKBOOK_RELS),
+    'xl/styles.xml': strToU8(STYLES),
+    'xl/worksheets/sheet1.xml': strToU8(sheet),
+    'xl/worksheets/_rels/sheet1.xml.rels': strToU8(sheetRels),
+  });
+}